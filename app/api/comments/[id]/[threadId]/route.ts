@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+   addComment,
+   CommentThreadNotFoundError,
+   deleteThread,
+   setThreadResolved,
+} from '@/lib/comment-store';
+import { documentIdSchema } from '@/schemas/document';
+import { commentSchema, resolveCommentThreadSchema } from '@/schemas/comment';
+
+type RouteContext = { params: Promise<{ id: string; threadId: string }> };
+
+const isValid = (id: string, threadId: string) =>
+   documentIdSchema.safeParse(id).success && documentIdSchema.safeParse(threadId).success;
+
+const invalidId = () => NextResponse.json({ error: 'Invalid id' }, { status: 400 });
+const notFound = () => NextResponse.json({ error: 'Comment thread not found' }, { status: 404 });
+
+/**
+ * Adds a reply to the thread.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+   const { id, threadId } = await params;
+   if (!isValid(id, threadId)) return invalidId();
+
+   try {
+      const parsed = commentSchema.safeParse(await request.json().catch(() => null));
+      if (!parsed.success) {
+         return NextResponse.json(
+            { error: 'Invalid comment', issues: parsed.error.issues },
+            { status: 400 }
+         );
+      }
+
+      return NextResponse.json(await addComment(id, threadId, parsed.data), { status: 201 });
+   } catch (error) {
+      if (error instanceof CommentThreadNotFoundError) return notFound();
+      console.error('Add comment error:', error);
+      return NextResponse.json({ error: 'Failed to add comment' }, { status: 500 });
+   }
+}
+
+/**
+ * Resolves or reopens the thread.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+   const { id, threadId } = await params;
+   if (!isValid(id, threadId)) return invalidId();
+
+   try {
+      const parsed = resolveCommentThreadSchema.safeParse(await request.json().catch(() => null));
+      if (!parsed.success) {
+         return NextResponse.json(
+            { error: 'Invalid request', issues: parsed.error.issues },
+            { status: 400 }
+         );
+      }
+
+      const { resolved, resolvedBy } = parsed.data;
+      return NextResponse.json(await setThreadResolved(id, threadId, resolved, resolvedBy));
+   } catch (error) {
+      if (error instanceof CommentThreadNotFoundError) return notFound();
+      console.error('Resolve comment thread error:', error);
+      return NextResponse.json({ error: 'Failed to update comment thread' }, { status: 500 });
+   }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+   const { id, threadId } = await params;
+   if (!isValid(id, threadId)) return invalidId();
+
+   try {
+      await deleteThread(id, threadId);
+      return new NextResponse(null, { status: 204 });
+   } catch (error) {
+      if (error instanceof CommentThreadNotFoundError) return notFound();
+      console.error('Delete comment thread error:', error);
+      return NextResponse.json({ error: 'Failed to delete comment thread' }, { status: 500 });
+   }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CommentThreadExistsError, createThread, listThreads } from '@/lib/comment-store';
+import { documentIdSchema } from '@/schemas/document';
+import { commentThreadSchema } from '@/schemas/comment';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const invalidId = () => NextResponse.json({ error: 'Invalid document id' }, { status: 400 });
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+   const { id } = await params;
+   if (!documentIdSchema.safeParse(id).success) return invalidId();
+
+   try {
+      return NextResponse.json({ threads: await listThreads(id) });
+   } catch (error) {
+      console.error('List comment threads error:', error);
+      return NextResponse.json({ error: 'Failed to list comment threads' }, { status: 500 });
+   }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+   const { id } = await params;
+   if (!documentIdSchema.safeParse(id).success) return invalidId();
+
+   try {
+      const parsed = commentThreadSchema.safeParse(await request.json().catch(() => null));
+      if (!parsed.success) {
+         return NextResponse.json(
+            { error: 'Invalid comment thread', issues: parsed.error.issues },
+            { status: 400 }
+         );
+      }
+
+      return NextResponse.json(await createThread(id, parsed.data), { status: 201 });
+   } catch (error) {
+      if (error instanceof CommentThreadExistsError) {
+         return NextResponse.json(
+            { error: 'Comment thread already exists', current: error.current },
+            { status: 409 }
+         );
+      }
+      console.error('Create comment thread error:', error);
+      return NextResponse.json({ error: 'Failed to create comment thread' }, { status: 500 });
+   }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentNotFoundError, getDocument } from '@/lib/document-store';
+import { renderHTML } from '@/components/tiptap-editor/renderer';
+import { documentIdSchema } from '@/schemas/document';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Returns a stored document as static HTML, e.g. for server rendering or RSS feeds.
+ * Add `?wrap=1` to wrap it in an element with the editor's classes.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+   const { id } = await params;
+   if (!documentIdSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid document id' }, { status: 400 });
+   }
+
+   try {
+      const document = await getDocument(id);
+      const wrap = request.nextUrl.searchParams.get('wrap') === '1';
+      return new NextResponse(renderHTML(document.json, { wrap }), {
+         headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+   } catch (error) {
+      if (error instanceof DocumentNotFoundError) {
+         return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+      }
+      console.error('Render document error:', error);
+      return NextResponse.json({ error: 'Failed to render document' }, { status: 500 });
+   }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+   deleteDocument,
+   DocumentNotFoundError,
+   getDocument,
+   RevisionConflictError,
+   updateDocument,
+} from '@/lib/document-store';
+import { documentIdSchema, updateDocumentSchema } from '@/schemas/document';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const invalidId = () => NextResponse.json({ error: 'Invalid document id' }, { status: 400 });
+const notFound = () => NextResponse.json({ error: 'Document not found' }, { status: 404 });
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+   const { id } = await params;
+   if (!documentIdSchema.safeParse(id).success) return invalidId();
+
+   try {
+      return NextResponse.json(await getDocument(id));
+   } catch (error) {
+      if (error instanceof DocumentNotFoundError) return notFound();
+      console.error('Read document error:', error);
+      return NextResponse.json({ error: 'Failed to read document' }, { status: 500 });
+   }
+}
+
+/**
+ * Updates a document. The body must carry the `revision` the edit is based on;
+ * when the stored document has moved on, 409 is returned with the current document.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+   const { id } = await params;
+   if (!documentIdSchema.safeParse(id).success) return invalidId();
+
+   try {
+      const parsed = updateDocumentSchema.safeParse(await request.json().catch(() => null));
+      if (!parsed.success) {
+         return NextResponse.json(
+            { error: 'Invalid document', issues: parsed.error.issues },
+            { status: 400 }
+         );
+      }
+
+      return NextResponse.json(await updateDocument(id, parsed.data));
+   } catch (error) {
+      if (error instanceof RevisionConflictError) {
+         return NextResponse.json(
+            { error: 'Revision conflict', current: error.current },
+            { status: 409 }
+         );
+      }
+      if (error instanceof DocumentNotFoundError) return notFound();
+      console.error('Update document error:', error);
+      return NextResponse.json({ error: 'Failed to update document' }, { status: 500 });
+   }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+   const { id } = await params;
+   if (!documentIdSchema.safeParse(id).success) return invalidId();
+
+   try {
+      await deleteDocument(id);
+      return new NextResponse(null, { status: 204 });
+   } catch (error) {
+      if (error instanceof DocumentNotFoundError) return notFound();
+      console.error('Delete document error:', error);
+      return NextResponse.json({ error: 'Failed to delete document' }, { status: 500 });
+   }
+}
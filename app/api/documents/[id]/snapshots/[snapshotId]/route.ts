@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSnapshot, DocumentNotFoundError, getSnapshot } from '@/lib/document-store';
+import { documentIdSchema } from '@/schemas/document';
+
+type RouteContext = { params: Promise<{ id: string; snapshotId: string }> };
+
+const isValid = (id: string, snapshotId: string) =>
+   documentIdSchema.safeParse(id).success && documentIdSchema.safeParse(snapshotId).success;
+
+const invalidId = () => NextResponse.json({ error: 'Invalid id' }, { status: 400 });
+const notFound = () => NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+   const { id, snapshotId } = await params;
+   if (!isValid(id, snapshotId)) return invalidId();
+
+   try {
+      return NextResponse.json(await getSnapshot(id, snapshotId));
+   } catch (error) {
+      if (error instanceof DocumentNotFoundError) return notFound();
+      console.error('Read snapshot error:', error);
+      return NextResponse.json({ error: 'Failed to read snapshot' }, { status: 500 });
+   }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+   const { id, snapshotId } = await params;
+   if (!isValid(id, snapshotId)) return invalidId();
+
+   try {
+      await deleteSnapshot(id, snapshotId);
+      return new NextResponse(null, { status: 204 });
+   } catch (error) {
+      if (error instanceof DocumentNotFoundError) return notFound();
+      console.error('Delete snapshot error:', error);
+      return NextResponse.json({ error: 'Failed to delete snapshot' }, { status: 500 });
+   }
+}
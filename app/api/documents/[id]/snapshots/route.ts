@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSnapshots, listSnapshots, saveSnapshot } from '@/lib/document-store';
+import { documentIdSchema, snapshotSchema } from '@/schemas/document';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const invalidId = () => NextResponse.json({ error: 'Invalid document id' }, { status: 400 });
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+   const { id } = await params;
+   if (!documentIdSchema.safeParse(id).success) return invalidId();
+
+   try {
+      return NextResponse.json({ snapshots: await listSnapshots(id) });
+   } catch (error) {
+      console.error('List snapshots error:', error);
+      return NextResponse.json({ error: 'Failed to list snapshots' }, { status: 500 });
+   }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+   const { id } = await params;
+   if (!documentIdSchema.safeParse(id).success) return invalidId();
+
+   try {
+      const parsed = snapshotSchema.safeParse(await request.json().catch(() => null));
+      if (!parsed.success) {
+         return NextResponse.json(
+            { error: 'Invalid snapshot', issues: parsed.error.issues },
+            { status: 400 }
+         );
+      }
+
+      return NextResponse.json(await saveSnapshot(id, parsed.data), { status: 201 });
+   } catch (error) {
+      console.error('Save snapshot error:', error);
+      return NextResponse.json({ error: 'Failed to save snapshot' }, { status: 500 });
+   }
+}
+
+/**
+ * Deletes the whole version history of a document. Deleting the document itself keeps it.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+   const { id } = await params;
+   if (!documentIdSchema.safeParse(id).success) return invalidId();
+
+   try {
+      await deleteSnapshots(id);
+      return new NextResponse(null, { status: 204 });
+   } catch (error) {
+      console.error('Delete snapshots error:', error);
+      return NextResponse.json({ error: 'Failed to delete snapshots' }, { status: 500 });
+   }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDocument, listDocuments, RevisionConflictError } from '@/lib/document-store';
+import { createDocumentSchema } from '@/schemas/document';
+
+export async function GET() {
+   try {
+      const documents = await listDocuments();
+      return NextResponse.json({ documents });
+   } catch (error) {
+      console.error('List documents error:', error);
+      return NextResponse.json({ error: 'Failed to list documents' }, { status: 500 });
+   }
+}
+
+export async function POST(request: NextRequest) {
+   try {
+      const parsed = createDocumentSchema.safeParse(await request.json().catch(() => null));
+      if (!parsed.success) {
+         return NextResponse.json(
+            { error: 'Invalid document', issues: parsed.error.issues },
+            { status: 400 }
+         );
+      }
+
+      const document = await createDocument(parsed.data);
+      return NextResponse.json(document, { status: 201 });
+   } catch (error) {
+      if (error instanceof RevisionConflictError) {
+         return NextResponse.json(
+            { error: 'Document already exists', current: error.current },
+            { status: 409 }
+         );
+      }
+      console.error('Create document error:', error);
+      return NextResponse.json({ error: 'Failed to create document' }, { status: 500 });
+   }
+}
@@ -1,22 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import HTMLtoDOCX from 'html-to-docx';
+import { convertHTMLToDocx } from '@/lib/docx-export';
+import { exportDocxSchema } from '@/schemas/export';
 
 export async function POST(request: NextRequest) {
    try {
-      const { html, fileName } = await request.json();
-
-      if (!html) {
-         return NextResponse.json({ error: 'HTML content required' }, { status: 400 });
+      const parsed = exportDocxSchema.safeParse(await request.json().catch(() => null));
+      if (!parsed.success) {
+         return NextResponse.json(
+            { error: 'Invalid export request', issues: parsed.error.issues },
+            { status: 400 }
+         );
       }
 
+      const { html, fileName, page } = parsed.data;
+
       // HTML'i DOCX'e dönüştür
-      const docxBuffer = await HTMLtoDOCX(html, null, {
-         table: { row: { cantSplit: true } },
-         footer: true,
-         pageNumber: true,
-         font: 'Arial',
-         fontSize: 12,
-      });
+      const docxBuffer = await convertHTMLToDocx(html, page);
 
       // Response headers
       const headers = new Headers();
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderHTML } from '@/components/tiptap-editor/renderer';
+import { renderSchema } from '@/schemas/render';
+
+/**
+ * Renders Tiptap JSON content to static HTML with the editor's classes.
+ */
+export async function POST(request: NextRequest) {
+   try {
+      const parsed = renderSchema.safeParse(await request.json().catch(() => null));
+      if (!parsed.success) {
+         return NextResponse.json(
+            { error: 'Invalid content', issues: parsed.error.issues },
+            { status: 400 }
+         );
+      }
+
+      const { json, wrap } = parsed.data;
+      return new NextResponse(renderHTML(json, { wrap }), {
+         headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+   } catch (error) {
+      console.error('Render error:', error);
+      return NextResponse.json({ error: 'Failed to render content' }, { status: 500 });
+   }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { MentionUser } from '@/components/tiptap-editor/mention';
+
+/**
+ * Demo user directory for `@` mentions, read from `users.json` next to this route
+ * (override with `USERS_FILE`). Replace it with the users of your application.
+ */
+const getUsersFile = () =>
+   process.env.USERS_FILE || join(process.cwd(), 'app', 'api', 'users', 'users.json');
+
+const MAX_RESULTS = 20;
+
+export async function GET(request: NextRequest) {
+   try {
+      const query = (request.nextUrl.searchParams.get('q') ?? '').trim().toLocaleLowerCase();
+      const users = JSON.parse(await readFile(getUsersFile(), 'utf8')) as MentionUser[];
+
+      const matches = users.filter(
+         (user) =>
+            !query ||
+            user.label.toLocaleLowerCase().includes(query) ||
+            !!user.description?.toLocaleLowerCase().includes(query)
+      );
+      return NextResponse.json({ users: matches.slice(0, MAX_RESULTS) });
+   } catch (error) {
+      console.error('List users error:', error);
+      return NextResponse.json({ error: 'Failed to list users' }, { status: 500 });
+   }
+}
@@ -1,7 +1,14 @@
 'use client';
 import Image from 'next/image';
 import { ModeToggle } from '@/components/modeToggle';
-import { Tiptap } from '@/components/tiptap-editor';
+import {
+   DocumentDiff,
+   Tiptap,
+   TiptapRenderer,
+   createMentionSource,
+   type TiptapHandle,
+} from '@/components/tiptap-editor';
+import type { JSONContent } from '@tiptap/react';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Controller, useForm } from 'react-hook-form';
 import * as z from 'zod/v4';
@@ -43,8 +50,21 @@ const FormSchema = z.object({
 
 const content = null;
 
+// Real-time collaboration is enabled when a websocket server is configured (see `npm run collab`)
+const collaboration = process.env.NEXT_PUBLIC_COLLAB_URL
+   ? { url: process.env.NEXT_PUBLIC_COLLAB_URL }
+   : undefined;
+
+// Mentions search the demo users of `app/api/users`
+const mentionSource = createMentionSource('/api/users');
+
 export default function Home() {
+   const editorRef = React.useRef<TiptapHandle | null>(null);
    const [jsonData, setJsonData] = React.useState<string | null>(null);
+   const [submitted, setSubmitted] = React.useState<{
+      previous: JSONContent | null;
+      current: JSONContent;
+   } | null>(null);
    const form = useForm<z.infer<typeof FormSchema>>({
       resolver: zodResolver(FormSchema),
       defaultValues: {
@@ -53,6 +73,17 @@ export default function Home() {
    });
    function onSubmit(data: z.infer<typeof FormSchema>) {
       setJsonData(JSON.stringify(data.content, null, 2));
+      setSubmitted((submitted) => ({
+         previous: submitted?.current ?? null,
+         current: data.content,
+      }));
+   }
+
+   async function onReset() {
+      await editorRef.current?.clear();
+      form.reset();
+      setJsonData(null);
+      setSubmitted(null);
    }
 
    return (
@@ -88,9 +119,16 @@ export default function Home() {
                                  defaultValue={field.value}
                                  render={({ field: controllerField }) => (
                                     <Tiptap
-                                       key={field.value}
-                                       initialValue={controllerField.value || null}
+                                       // react-hook-form focuses the editor through the handle on validation errors
+                                       ref={(handle) => {
+                                          editorRef.current = handle;
+                                          controllerField.ref(handle);
+                                       }}
+                                       value={controllerField.value}
                                        onChange={(value) => controllerField.onChange(value)}
+                                       collaboration={collaboration}
+                                       mentionSource={mentionSource}
+                                       showHistory
                                     />
                                  )}
                               />
@@ -100,11 +138,32 @@ export default function Home() {
                         </FormItem>
                      )}
                   />
-                  <Button type="submit" data-action="form-link">
-                     Submit
-                  </Button>
+                  <div className="flex gap-2">
+                     <Button type="submit" data-action="form-link">
+                        Submit
+                     </Button>
+                     <Button type="button" variant="outline" onClick={onReset}>
+                        Reset
+                     </Button>
+                  </div>
                </form>
             </Form>
+            {submitted?.previous && (
+               <div className="w-full max-w-4xl">
+                  <h2 className="text-xl font-semibold mb-4">Changes Since Last Submit</h2>
+                  <div className="rounded-md border">
+                     <DocumentDiff oldContent={submitted.previous} newContent={submitted.current} />
+                  </div>
+               </div>
+            )}
+            {submitted && (
+               <div className="w-full max-w-4xl">
+                  <h2 className="text-xl font-semibold mb-4">Rendered Content</h2>
+                  <div className="rounded-md border p-4">
+                     <TiptapRenderer content={submitted.current} />
+                  </div>
+               </div>
+            )}
             {jsonData && (
                <div className="w-full max-w-4xl">
                   <h2 className="text-xl font-semibold mb-4">Submitted JSON Content</h2>
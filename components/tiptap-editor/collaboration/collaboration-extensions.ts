@@ -0,0 +1,40 @@
+/**
+ * @module CollaborationExtensions
+ *
+ * This module builds the editor extensions for a collaboration session.
+ *
+ * @remarks
+ * - `Collaboration` binds the editor to the shared Y.Doc and brings its own undo history,
+ *   so the StarterKit undo/redo extension is turned off while collaborating.
+ * - `CollaborationCaret` renders the carets and selections of the other users.
+ */
+import type { AnyExtension } from '@tiptap/core';
+import Collaboration from '@tiptap/extension-collaboration';
+import CollaborationCaret from '@tiptap/extension-collaboration-caret';
+import type { CollaborationSession, CollaborationUser } from './useCollaboration';
+
+/**
+ * Returns the extensions binding an editor to a collaboration session.
+ *
+ * @param session - The shared document and provider.
+ * @param user - The local user shown on our caret.
+ * @returns Extensions to add to the editor.
+ */
+export const getCollaborationExtensions = (
+   { ydoc, provider }: CollaborationSession,
+   user: CollaborationUser
+) => [
+   Collaboration.configure({ document: ydoc }),
+   CollaborationCaret.configure({ provider, user }),
+];
+
+/**
+ * Disables the StarterKit undo/redo history, which conflicts with the collaborative history.
+ *
+ * @param extensions - Editor extensions.
+ * @returns The extensions with StarterKit reconfigured.
+ */
+export const withoutUndoRedo = (extensions: AnyExtension[]) =>
+   extensions.map((extension) =>
+      extension.name === 'starterKit' ? extension.configure({ undoRedo: false }) : extension
+   );
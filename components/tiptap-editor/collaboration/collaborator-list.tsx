@@ -0,0 +1,85 @@
+'use client';
+
+/**
+ * @module CollaboratorList
+ *
+ * This module provides the awareness list shown in the editor toolbar while collaborating:
+ * the connection status and an avatar with the initials of every connected user.
+ *
+ * @example
+ * ```tsx
+ * <CollaboratorList status={status} collaborators={collaborators} />
+ * ```
+ *
+ * @property status - Connection status of the websocket provider.
+ * @property collaborators - Users currently connected to the room.
+ * @property max - Number of avatars shown before the rest is summarised as `+n`.
+ */
+import { i18n } from '../i18n';
+import { cn } from '../tiptap-utils';
+import type { Collaborator, ConnectionStatus } from './useCollaboration';
+
+interface CollaboratorListProps {
+   status: ConnectionStatus;
+   collaborators: Collaborator[];
+   max?: number;
+}
+
+const STATUS_KEYS: Record<ConnectionStatus, string> = {
+   connecting: 'COLLAB_CONNECTING',
+   connected: 'COLLAB_CONNECTED',
+   disconnected: 'COLLAB_DISCONNECTED',
+};
+
+const getInitials = (name: string) =>
+   name
+      .split(/\s+/)
+      .filter(Boolean)
+      .slice(0, 2)
+      .map((part) => part[0]?.toUpperCase())
+      .join('');
+
+export const CollaboratorList = ({ status, collaborators, max = 4 }: CollaboratorListProps) => {
+   // Show ourselves first
+   const sorted = [...collaborators].sort((a, b) => Number(b.isSelf) - Number(a.isSelf));
+   const visible = sorted.slice(0, max);
+   const hidden = sorted.slice(max);
+
+   return (
+      <div className="flex items-center gap-2 rounded-lg bg-accent px-2 py-1">
+         <span
+            className={cn(
+               'h-2 w-2 shrink-0 rounded-full',
+               status === 'connected' && 'bg-green-500',
+               status === 'connecting' && 'bg-amber-500 animate-pulse',
+               status === 'disconnected' && 'bg-red-500'
+            )}
+            title={i18n.t(STATUS_KEYS[status])}
+         />
+         <div className="flex -space-x-1.5">
+            {visible.map((collaborator) => (
+               <span
+                  key={collaborator.clientId}
+                  className="flex h-5 w-5 items-center justify-center rounded-full border border-background text-[10px] font-semibold text-neutral-900"
+                  style={{ backgroundColor: collaborator.color }}
+                  title={
+                     collaborator.isSelf
+                        ? `${collaborator.name} (${i18n.t('YOU')})`
+                        : collaborator.name
+                  }
+               >
+                  {getInitials(collaborator.name)}
+               </span>
+            ))}
+            {hidden.length > 0 && (
+               <span
+                  className="flex h-5 w-5 items-center justify-center rounded-full border border-background bg-muted text-[10px] text-muted-foreground"
+                  title={hidden.map((collaborator) => collaborator.name).join(', ')}
+               >
+                  +{hidden.length}
+               </span>
+            )}
+         </div>
+      </div>
+   );
+};
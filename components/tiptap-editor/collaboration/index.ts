@@ -0,0 +1,10 @@
+export {
+   useCollaboration,
+   type CollaborationOptions,
+   type CollaborationSession,
+   type CollaborationUser,
+   type Collaborator,
+   type ConnectionStatus,
+} from './useCollaboration';
+export { getCollaborationExtensions, withoutUndoRedo } from './collaboration-extensions';
+export { CollaboratorList } from './collaborator-list';
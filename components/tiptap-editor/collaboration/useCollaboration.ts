@@ -0,0 +1,164 @@
+/**
+ * @module useCollaboration
+ *
+ * This module provides a React hook that connects an editor document to a Yjs websocket server.
+ * It owns the shared Y.Doc and the websocket provider, publishes the local user through awareness
+ * and exposes the connection status and the list of connected users.
+ *
+ * @remarks
+ * - The room defaults to the document key, so every document is edited in its own room.
+ * - Without a user name a guest name and a random colour are picked once per editor.
+ * - Passing `undefined` options disconnects and disables collaboration.
+ *
+ * @example
+ * ```ts
+ * const collaboration = useCollaboration({ url: 'ws://localhost:1234', user: { name: 'Ada' } }, 'post-42');
+ * ```
+ */
+import { useEffect, useMemo, useState } from 'react';
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import { i18n } from '../i18n';
+
+/**
+ * A user as shown to other collaborators.
+ */
+export interface CollaborationUser {
+   name: string;
+   color: string;
+}
+
+/**
+ * Options for real-time collaboration.
+ */
+export interface CollaborationOptions {
+   /**
+    * URL of the Yjs websocket server, e.g. `ws://localhost:1234`.
+    */
+   url: string;
+   /**
+    * Name of the shared room. Defaults to the document key.
+    */
+   room?: string;
+   /**
+    * The local user. Missing fields are filled with a guest name and a random colour.
+    */
+   user?: Partial<CollaborationUser>;
+}
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * A user currently connected to the room.
+ */
+export interface Collaborator extends CollaborationUser {
+   clientId: number;
+   isSelf: boolean;
+}
+
+/**
+ * The shared document and its provider.
+ */
+export interface CollaborationSession {
+   ydoc: Y.Doc;
+   provider: WebsocketProvider;
+}
+
+/**
+ * Colours picked for users without their own colour. Readable behind dark caret labels.
+ */
+const USER_COLORS = [
+   '#958DF1',
+   '#F98181',
+   '#FBBC88',
+   '#FAF594',
+   '#70CFF8',
+   '#94FADB',
+   '#B9F18D',
+   '#C3E2C2',
+   '#EAECCC',
+   '#AFC8AD',
+];
+
+const createGuestUser = (): CollaborationUser => ({
+   name: `${i18n.t('GUEST')} ${Math.floor(Math.random() * 900) + 100}`,
+   color: USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)],
+});
+
+/**
+ * Connects an editor document to a collaboration room.
+ *
+ * @param options - Server, room and user options, or `undefined` to disable collaboration.
+ * @param documentKey - Key of the edited document, used as default room.
+ * @returns The session, local user, connection status and connected users.
+ */
+export const useCollaboration = (
+   options: CollaborationOptions | undefined,
+   documentKey: string
+) => {
+   const [session, setSession] = useState<CollaborationSession | null>(null);
+   const [status, setStatus] = useState<ConnectionStatus>('connecting');
+   const [isSynced, setIsSynced] = useState(false);
+   const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+   const [guest] = useState(createGuestUser);
+
+   const url = options?.url;
+   const room = options?.room ?? documentKey;
+   const name = options?.user?.name;
+   const color = options?.user?.color;
+   const user = useMemo<CollaborationUser>(
+      () => ({ name: name || guest.name, color: color || guest.color }),
+      [name, color, guest]
+   );
+
+   useEffect(() => {
+      if (!url) {
+         setSession(null);
+         return;
+      }
+
+      const ydoc = new Y.Doc();
+      const provider = new WebsocketProvider(url, room, ydoc);
+      const { awareness } = provider;
+
+      const onStatus = ({ status }: { status: ConnectionStatus }) => setStatus(status);
+      const onSync = (synced: boolean) => setIsSynced(synced);
+      const onAwarenessChange = () => {
+         setCollaborators(
+            [...awareness.getStates()]
+               .filter(([, state]) => state.user)
+               .map(([clientId, state]) => ({
+                  clientId,
+                  name: state.user.name,
+                  color: state.user.color,
+                  isSelf: clientId === ydoc.clientID,
+               }))
+         );
+      };
+
+      provider.on('status', onStatus);
+      provider.on('sync', onSync);
+      awareness.on('change', onAwarenessChange);
+      setStatus(provider.wsconnected ? 'connected' : 'connecting');
+      setIsSynced(provider.synced);
+      setSession({ ydoc, provider });
+
+      return () => {
+         provider.off('status', onStatus);
+         provider.off('sync', onSync);
+         awareness.off('change', onAwarenessChange);
+         provider.destroy();
+         ydoc.destroy();
+         setSession(null);
+         setIsSynced(false);
+         setCollaborators([]);
+      };
+   }, [url, room]);
+
+   // Publish the local user so other clients can label our caret
+   useEffect(() => {
+      session?.provider.awareness.setLocalStateField('user', user);
+   }, [session, user]);
+
+   return { session, user, status, isSynced, collaborators };
+};
@@ -0,0 +1,125 @@
+/**
+ * @module CommandPalette
+ *
+ * This component provides the command palette of the editor, opened with Ctrl/Cmd+K.
+ * It lists every editor command with its shortcut and runs the selected one.
+ *
+ * @remarks
+ * - Built on the shared `Command` components (cmdk) inside a dialog.
+ * - Search is fuzzy across the titles in all languages; recently used commands come first.
+ * - Commands that cannot run in the current editor state are hidden.
+ *
+ * @example
+ * ```tsx
+ * const palette = useCommandPalette();
+ * <CommandPalette editor={editor} commands={commands} {...palette} />
+ * ```
+ *
+ * @property editor - The Tiptap editor instance.
+ * @property commands - Commands to list, see `getPaletteCommands`.
+ * @property open - Whether the palette is open.
+ * @property onOpenChange - Callback fired when the palette is opened or closed.
+ */
+import * as React from 'react';
+import { type Editor } from '@tiptap/react';
+import {
+   Command,
+   CommandEmpty,
+   CommandGroup,
+   CommandInput,
+   CommandItem,
+   CommandList,
+   CommandShortcut,
+} from '@/components/ui/command';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { formatShortcut } from '../tiptap-utils';
+import { i18n } from '../i18n';
+import { type PaletteCommand, searchPaletteCommands } from './palette-commands';
+import { useRecentCommands } from './useRecentCommands';
+
+interface CommandPaletteProps {
+   editor: Editor;
+   commands: PaletteCommand[];
+   open: boolean;
+   onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Open state of the palette. The editor opens it with the `commandPalette` shortcut (Ctrl/Cmd+K).
+ */
+export const useCommandPalette = () => {
+   const [open, setOpen] = React.useState(false);
+   return { open, onOpenChange: setOpen };
+};
+
+const PaletteContent = ({ editor, commands, onOpenChange }: Omit<CommandPaletteProps, 'open'>) => {
+   const [search, setSearch] = React.useState('');
+   const { recent, addRecent } = useRecentCommands();
+
+   const sections = React.useMemo(() => {
+      const available = commands.filter((command) => command.isAvailable?.(editor) ?? true);
+      return searchPaletteCommands(available, search, recent);
+   }, [commands, editor, search, recent]);
+
+   const runCommand = (command: PaletteCommand) => {
+      onOpenChange(false);
+      addRecent(command.id);
+      command.run(editor);
+   };
+
+   return (
+      <Command
+         shouldFilter={false}
+         className="[&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2"
+      >
+         <CommandInput
+            value={search}
+            onValueChange={setSearch}
+            placeholder={i18n.t('COMMAND_PALETTE_PLACEHOLDER')}
+         />
+         <CommandList className="max-h-[360px]">
+            <CommandEmpty>{i18n.t('NO_COMMANDS_FOUND')}</CommandEmpty>
+            {sections.map(({ group, commands }) => (
+               <CommandGroup key={group} heading={i18n.t(group)}>
+                  {commands.map((command) => {
+                     const Icon = command.icon;
+                     return (
+                        <CommandItem
+                           key={command.id}
+                           value={`${group}:${command.id}`}
+                           onSelect={() => runCommand(command)}
+                        >
+                           <Icon className="h-4 w-4" />
+                           <span>{i18n.t(command.title)}</span>
+                           {command.shortcut && (
+                              <CommandShortcut>{formatShortcut(command.shortcut)}</CommandShortcut>
+                           )}
+                        </CommandItem>
+                     );
+                  })}
+               </CommandGroup>
+            ))}
+         </CommandList>
+      </Command>
+   );
+};
+
+export const CommandPalette = ({ open, onOpenChange, ...props }: CommandPaletteProps) => (
+   <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+         className="overflow-hidden p-0"
+         showCloseButton={false}
+         onCloseAutoFocus={(event) => {
+            // Commands focus the editor or open dialogs of their own
+            event.preventDefault();
+            if (document.activeElement === document.body) props.editor.commands.focus();
+         }}
+      >
+         <DialogTitle className="sr-only">{i18n.t('COMMAND_PALETTE')}</DialogTitle>
+         <DialogDescription className="sr-only">
+            {i18n.t('COMMAND_PALETTE_PLACEHOLDER')}
+         </DialogDescription>
+         <PaletteContent onOpenChange={onOpenChange} {...props} />
+      </DialogContent>
+   </Dialog>
+);
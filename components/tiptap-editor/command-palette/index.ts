@@ -0,0 +1,11 @@
+export { CommandPalette, useCommandPalette } from './command-palette';
+export {
+   getPaletteCommands,
+   searchPaletteCommands,
+   PALETTE_GROUPS,
+   type PaletteCommand,
+   type PaletteCommandOptions,
+   type PaletteGroup,
+   type PaletteSection,
+} from './palette-commands';
+export { useRecentCommands, MAX_RECENT_COMMANDS } from './useRecentCommands';
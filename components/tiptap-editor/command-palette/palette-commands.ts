@@ -0,0 +1,728 @@
+/**
+ * @module PaletteCommands
+ *
+ * This module lists the commands of the command palette: formatting, blocks, tables, media, AI,
+ * import/export and document actions.
+ *
+ * @remarks
+ * - Titles and groups are i18n keys; search matches their translations in every language.
+ * - Shortcuts use `Mod` for Command on Apple platforms and Ctrl elsewhere.
+ * - `isAvailable` hides commands that cannot run in the current editor state.
+ * - Search is fuzzy (cmdk's scoring) and lists recently used commands first.
+ * - Document actions (save, clear, version history) come from the editor component.
+ *
+ * @example
+ * ```tsx
+ * const commands = getPaletteCommands({ showImageUpload: true, documentCommands });
+ * ```
+ */
+import type { Editor } from '@tiptap/react';
+import type * as React from 'react';
+import { defaultFilter } from 'cmdk';
+import {
+   AlignCenter,
+   AlignJustify,
+   AlignLeft,
+   AlignRight,
+   Asterisk,
+   Bold,
+   CheckSquare,
+   Code,
+   Columns2,
+   Columns3,
+   Download,
+   Eraser,
+   Heading1,
+   Heading2,
+   Heading3,
+   Highlighter,
+   ImageUp,
+   Images,
+   Italic,
+   Link2,
+   List,
+   ListCollapse,
+   ListOrdered,
+   Merge,
+   Minus,
+   Redo,
+   Rows3,
+   SeparatorHorizontal,
+   Sparkles,
+   Split,
+   Strikethrough,
+   Subscript,
+   Superscript,
+   Table,
+   TableOfContents,
+   TextQuote,
+   Trash2,
+   Twitter,
+   Type,
+   Underline,
+   Undo,
+   Unlink,
+   Upload,
+   Youtube,
+} from 'lucide-react';
+import {
+   exportCommand,
+   imageCommand,
+   imageGalleryCommand,
+   imageUrlCommand,
+   importCommand,
+   twitterCommand,
+   youtubeCommand,
+} from '../selector';
+import { contextAICommand } from '../extensions/context-ai';
+import { MAX_FILE_SIZE, normalizeSearchText } from '../tiptap-utils';
+import { i18n } from '../i18n';
+
+/**
+ * Groups of the palette in display order. Values are i18n keys.
+ */
+export const PALETTE_GROUPS = [
+   'FORMATTING',
+   'BLOCKS',
+   'TABLE_ACTIONS',
+   'MEDIA',
+   'CONTEXT_AI',
+   'IMPORT_EXPORT',
+   'DOCUMENT',
+] as const;
+
+export type PaletteGroup = (typeof PALETTE_GROUPS)[number];
+
+export interface PaletteCommand {
+   /**
+    * Unique id, used to remember recently used commands.
+    */
+   id: string;
+   /**
+    * Title as i18n key.
+    */
+   title: string;
+   group: PaletteGroup;
+   icon: React.ComponentType<{ className?: string }>;
+   /**
+    * Keyboard shortcut, e.g. `Mod+Shift+B`.
+    */
+   shortcut?: string;
+   /**
+    * Names of the extensions whose own shortcut the command's one repeats, e.g. `bold` for
+    * `Mod+B`. Sharing a binding with them is not a conflict.
+    */
+   extensions?: string[];
+   /**
+    * Extra search terms besides the translations of the title.
+    */
+   keywords?: string[];
+   run: (editor: Editor) => void;
+   isAvailable?: (editor: Editor) => boolean;
+   /**
+    * Whether the shortcut also works while the focus is outside the editor content, e.g. in the
+    * toolbar.
+    */
+   global?: boolean;
+}
+
+export interface PaletteCommandOptions {
+   showImageUrl?: boolean;
+   showImageUpload?: boolean;
+   showImageGallery?: boolean;
+   showImportData?: boolean;
+   showExportData?: boolean;
+   /**
+    * Commands of the editor component, e.g. save or clear.
+    */
+   documentCommands?: PaletteCommand[];
+}
+
+/**
+ * Color set by `setAIHighlight`.
+ */
+const AI_HIGHLIGHT_COLOR = '#7c3aed';
+
+const inTable = (editor: Editor) => editor.isActive('table');
+
+/**
+ * Returns the commands of the palette.
+ *
+ * @param options - Which optional commands to include.
+ */
+export const getPaletteCommands = ({
+   showImageUrl,
+   showImageUpload,
+   showImageGallery,
+   showImportData,
+   showExportData,
+   documentCommands = [],
+}: PaletteCommandOptions = {}): PaletteCommand[] => {
+   const commands: (PaletteCommand | false | undefined)[] = [
+      // Formatting
+      {
+         id: 'bold',
+         title: 'BOLD',
+         group: 'FORMATTING',
+         icon: Bold,
+         shortcut: 'Mod+B',
+         extensions: ['bold'],
+         keywords: ['strong'],
+         run: (editor) => editor.chain().focus().toggleBold().run(),
+      },
+      {
+         id: 'italic',
+         title: 'ITALIC',
+         group: 'FORMATTING',
+         icon: Italic,
+         shortcut: 'Mod+I',
+         extensions: ['italic'],
+         keywords: ['em'],
+         run: (editor) => editor.chain().focus().toggleItalic().run(),
+      },
+      {
+         id: 'underline',
+         title: 'UNDERLINE',
+         group: 'FORMATTING',
+         icon: Underline,
+         shortcut: 'Mod+U',
+         extensions: ['underline'],
+         run: (editor) => editor.chain().focus().toggleUnderline().run(),
+      },
+      {
+         id: 'strike',
+         title: 'STRIKETHROUGH',
+         group: 'FORMATTING',
+         icon: Strikethrough,
+         shortcut: 'Mod+Shift+S',
+         extensions: ['strike'],
+         keywords: ['strike'],
+         run: (editor) => editor.chain().focus().toggleStrike().run(),
+      },
+      {
+         id: 'code',
+         title: 'INLINE_CODE',
+         group: 'FORMATTING',
+         icon: Code,
+         shortcut: 'Mod+E',
+         extensions: ['code'],
+         run: (editor) => editor.chain().focus().toggleCode().run(),
+      },
+      {
+         id: 'subscript',
+         title: 'SUBSCRIPT',
+         group: 'FORMATTING',
+         icon: Subscript,
+         shortcut: 'Mod+,',
+         extensions: ['subscript'],
+         run: (editor) => editor.chain().focus().toggleSubscript().run(),
+      },
+      {
+         id: 'superscript',
+         title: 'SUPERSCRIPT',
+         group: 'FORMATTING',
+         icon: Superscript,
+         shortcut: 'Mod+.',
+         extensions: ['superscript'],
+         run: (editor) => editor.chain().focus().toggleSuperscript().run(),
+      },
+      {
+         id: 'highlight',
+         title: 'HIGHLIGHT',
+         group: 'FORMATTING',
+         icon: Highlighter,
+         shortcut: 'Mod+Shift+H',
+         extensions: ['highlight', 'aiHighlight'],
+         keywords: ['mark'],
+         run: (editor) => editor.chain().focus().toggleHighlight().run(),
+      },
+      {
+         id: 'aiHighlight',
+         title: 'AI_HIGHLIGHT',
+         group: 'FORMATTING',
+         icon: Highlighter,
+         shortcut: 'Mod+Alt+H',
+         keywords: ['ai', 'purple', 'mark'],
+         run: (editor) =>
+            editor.isActive('highlight', { color: AI_HIGHLIGHT_COLOR })
+               ? editor.chain().focus().unsetAIHighlight().run()
+               : editor.chain().focus().setAIHighlight().run(),
+      },
+      {
+         id: 'alignLeft',
+         title: 'ALIGN_LEFT',
+         group: 'FORMATTING',
+         icon: AlignLeft,
+         shortcut: 'Mod+Shift+L',
+         extensions: ['textAlign'],
+         run: (editor) => editor.chain().focus().setTextAlign('left').run(),
+      },
+      {
+         id: 'alignCenter',
+         title: 'ALIGN_CENTER',
+         group: 'FORMATTING',
+         icon: AlignCenter,
+         shortcut: 'Mod+Shift+E',
+         extensions: ['textAlign'],
+         run: (editor) => editor.chain().focus().setTextAlign('center').run(),
+      },
+      {
+         id: 'alignRight',
+         title: 'ALIGN_RIGHT',
+         group: 'FORMATTING',
+         icon: AlignRight,
+         shortcut: 'Mod+Shift+R',
+         extensions: ['textAlign'],
+         run: (editor) => editor.chain().focus().setTextAlign('right').run(),
+      },
+      {
+         id: 'alignJustify',
+         title: 'ALIGN_JUSTIFY',
+         group: 'FORMATTING',
+         icon: AlignJustify,
+         shortcut: 'Mod+Shift+J',
+         extensions: ['textAlign'],
+         run: (editor) => editor.chain().focus().setTextAlign('justify').run(),
+      },
+      {
+         id: 'unsetLink',
+         title: 'LINK_SELECTOR_REMOVE',
+         group: 'FORMATTING',
+         icon: Unlink,
+         keywords: ['link', 'url'],
+         run: (editor) => editor.chain().focus().extendMarkRange('link').unsetLink().run(),
+         isAvailable: (editor) => editor.isActive('link'),
+      },
+      {
+         id: 'clearFormatting',
+         title: 'CLEAR_FORMATTING',
+         group: 'FORMATTING',
+         icon: Eraser,
+         keywords: ['reset', 'remove'],
+         run: (editor) => editor.chain().focus().clearNodes().unsetAllMarks().run(),
+      },
+
+      // Blocks
+      {
+         id: 'paragraph',
+         title: 'TEXT',
+         group: 'BLOCKS',
+         icon: Type,
+         shortcut: 'Mod+Alt+0',
+         extensions: ['paragraph'],
+         keywords: ['p', 'paragraph'],
+         run: (editor) => editor.chain().focus().setParagraph().run(),
+      },
+      {
+         id: 'heading1',
+         title: 'HEADING_1',
+         group: 'BLOCKS',
+         icon: Heading1,
+         shortcut: 'Mod+Alt+1',
+         extensions: ['heading'],
+         keywords: ['h1', 'title'],
+         run: (editor) => editor.chain().focus().toggleHeading({ level: 1 }).run(),
+      },
+      {
+         id: 'heading2',
+         title: 'HEADING_2',
+         group: 'BLOCKS',
+         icon: Heading2,
+         shortcut: 'Mod+Alt+2',
+         extensions: ['heading'],
+         keywords: ['h2', 'subtitle'],
+         run: (editor) => editor.chain().focus().toggleHeading({ level: 2 }).run(),
+      },
+      {
+         id: 'heading3',
+         title: 'HEADING_3',
+         group: 'BLOCKS',
+         icon: Heading3,
+         shortcut: 'Mod+Alt+3',
+         extensions: ['heading'],
+         keywords: ['h3'],
+         run: (editor) => editor.chain().focus().toggleHeading({ level: 3 }).run(),
+      },
+      {
+         id: 'bulletList',
+         title: 'BULLET_LIST',
+         group: 'BLOCKS',
+         icon: List,
+         shortcut: 'Mod+Shift+8',
+         extensions: ['bulletList'],
+         keywords: ['ul', 'unordered'],
+         run: (editor) => editor.chain().focus().toggleBulletList().run(),
+      },
+      {
+         id: 'orderedList',
+         title: 'NUMBERED_LIST',
+         group: 'BLOCKS',
+         icon: ListOrdered,
+         shortcut: 'Mod+Shift+7',
+         extensions: ['orderedList'],
+         keywords: ['ol', 'ordered'],
+         run: (editor) => editor.chain().focus().toggleOrderedList().run(),
+      },
+      {
+         id: 'taskList',
+         title: 'TASK_LIST',
+         group: 'BLOCKS',
+         icon: CheckSquare,
+         shortcut: 'Mod+Shift+9',
+         extensions: ['taskList'],
+         keywords: ['todo', 'checkbox'],
+         run: (editor) => editor.chain().focus().toggleTaskList().run(),
+      },
+      {
+         id: 'blockquote',
+         title: 'BLOCK_QUOTE',
+         group: 'BLOCKS',
+         icon: TextQuote,
+         shortcut: 'Mod+Shift+B',
+         extensions: ['blockquote'],
+         keywords: ['quote', 'citation'],
+         run: (editor) => editor.chain().focus().toggleBlockquote().run(),
+      },
+      {
+         id: 'codeBlock',
+         title: 'CODE_BLOCK',
+         group: 'BLOCKS',
+         icon: Code,
+         shortcut: 'Mod+Alt+C',
+         extensions: ['codeBlock'],
+         keywords: ['pre', 'programming'],
+         run: (editor) => editor.chain().focus().toggleCodeBlock().run(),
+      },
+      {
+         id: 'columns',
+         title: 'TWO_COLUMNS',
+         group: 'BLOCKS',
+         icon: Columns2,
+         keywords: ['columns', 'layout', 'side by side'],
+         run: (editor) => editor.chain().focus().insertColumns(2).run(),
+         isAvailable: (editor) => editor.can().insertColumns(2),
+      },
+      {
+         id: 'details',
+         title: 'DETAILS',
+         group: 'BLOCKS',
+         icon: ListCollapse,
+         keywords: ['summary', 'collapsible', 'toggle', 'accordion', 'faq'],
+         run: (editor) => editor.chain().focus().setDetails().run(),
+         isAvailable: (editor) => editor.can().setDetails(),
+      },
+      {
+         id: 'horizontalRule',
+         title: 'HORIZONTAL_RULE',
+         group: 'BLOCKS',
+         icon: Minus,
+         keywords: ['hr', 'divider', 'separator'],
+         run: (editor) => editor.chain().focus().setHorizontalRule().run(),
+      },
+      {
+         id: 'pageBreak',
+         title: 'PAGE_BREAK',
+         group: 'BLOCKS',
+         icon: SeparatorHorizontal,
+         shortcut: 'Mod+Alt+Enter',
+         keywords: ['new page', 'print'],
+         run: (editor) => editor.chain().focus().setPageBreak().run(),
+         isAvailable: (editor) => editor.can().setPageBreak(),
+      },
+      {
+         id: 'tableOfContents',
+         title: 'TABLE_OF_CONTENTS',
+         group: 'BLOCKS',
+         icon: TableOfContents,
+         keywords: ['toc', 'outline', 'headings'],
+         run: (editor) => editor.chain().focus().insertTableOfContents().run(),
+      },
+      {
+         id: 'footnote',
+         title: 'FOOTNOTE',
+         group: 'BLOCKS',
+         icon: Asterisk,
+         shortcut: 'Mod+Alt+F',
+         keywords: ['endnote', 'note', 'citation'],
+         run: (editor) => editor.chain().focus().insertFootnote().run(),
+         isAvailable: (editor) => editor.can().insertFootnote(),
+      },
+
+      // Table
+      {
+         id: 'insertTable',
+         title: 'INSERT_TABLE',
+         group: 'TABLE_ACTIONS',
+         icon: Table,
+         keywords: ['grid'],
+         run: (editor) =>
+            editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run(),
+         isAvailable: (editor) => !inTable(editor),
+      },
+      {
+         id: 'addRowBefore',
+         title: 'ADD_ROW_BEFORE',
+         group: 'TABLE_ACTIONS',
+         icon: Rows3,
+         run: (editor) => editor.chain().focus().addRowBefore().run(),
+         isAvailable: inTable,
+      },
+      {
+         id: 'addRowAfter',
+         title: 'ADD_ROW_AFTER',
+         group: 'TABLE_ACTIONS',
+         icon: Rows3,
+         run: (editor) => editor.chain().focus().addRowAfter().run(),
+         isAvailable: inTable,
+      },
+      {
+         id: 'deleteRow',
+         title: 'DELETE_ROW',
+         group: 'TABLE_ACTIONS',
+         icon: Trash2,
+         run: (editor) => editor.chain().focus().deleteRow().run(),
+         isAvailable: inTable,
+      },
+      {
+         id: 'addColumnBefore',
+         title: 'ADD_COLUMN_BEFORE',
+         group: 'TABLE_ACTIONS',
+         icon: Columns3,
+         run: (editor) => editor.chain().focus().addColumnBefore().run(),
+         isAvailable: inTable,
+      },
+      {
+         id: 'addColumnAfter',
+         title: 'ADD_COLUMN_AFTER',
+         group: 'TABLE_ACTIONS',
+         icon: Columns3,
+         run: (editor) => editor.chain().focus().addColumnAfter().run(),
+         isAvailable: inTable,
+      },
+      {
+         id: 'deleteColumn',
+         title: 'DELETE_COLUMN',
+         group: 'TABLE_ACTIONS',
+         icon: Trash2,
+         run: (editor) => editor.chain().focus().deleteColumn().run(),
+         isAvailable: inTable,
+      },
+      {
+         id: 'mergeCells',
+         title: 'MERGE_CELLS',
+         group: 'TABLE_ACTIONS',
+         icon: Merge,
+         run: (editor) => editor.chain().focus().mergeCells().run(),
+         isAvailable: (editor) => editor.can().mergeCells(),
+      },
+      {
+         id: 'splitCell',
+         title: 'SPLIT_CELL',
+         group: 'TABLE_ACTIONS',
+         icon: Split,
+         run: (editor) => editor.chain().focus().splitCell().run(),
+         isAvailable: (editor) => editor.can().splitCell(),
+      },
+      {
+         id: 'toggleHeaderRow',
+         title: 'TOGGLE_HEADER_ROW',
+         group: 'TABLE_ACTIONS',
+         icon: Rows3,
+         run: (editor) => editor.chain().focus().toggleHeaderRow().run(),
+         isAvailable: inTable,
+      },
+      {
+         id: 'toggleHeaderColumn',
+         title: 'TOGGLE_HEADER_COLUMN',
+         group: 'TABLE_ACTIONS',
+         icon: Columns3,
+         run: (editor) => editor.chain().focus().toggleHeaderColumn().run(),
+         isAvailable: inTable,
+      },
+      {
+         id: 'deleteTable',
+         title: 'DELETE_TABLE',
+         group: 'TABLE_ACTIONS',
+         icon: Trash2,
+         run: (editor) => editor.chain().focus().deleteTable().run(),
+         isAvailable: inTable,
+      },
+
+      // Media
+      showImageUpload && {
+         id: 'uploadImage',
+         title: 'UPLOAD_IMAGE',
+         group: 'MEDIA',
+         icon: Upload,
+         keywords: ['photo', 'picture'],
+         run: (editor) => imageCommand({ editor }),
+      },
+      showImageUpload && {
+         id: 'imageUploadNode',
+         title: 'IMAGE_UPLOAD_AREA',
+         group: 'MEDIA',
+         icon: ImageUp,
+         shortcut: 'Mod+Alt+I',
+         keywords: ['photo', 'picture', 'drop'],
+         run: (editor) =>
+            editor
+               .chain()
+               .focus()
+               .setImageUploadNode({ accept: 'image/*', limit: 1, maxSize: MAX_FILE_SIZE })
+               .run(),
+      },
+      showImageUrl && {
+         id: 'imageUrl',
+         title: 'IMAGE_URL',
+         group: 'MEDIA',
+         icon: Link2,
+         keywords: ['photo', 'picture'],
+         run: (editor) => imageUrlCommand({ editor }),
+      },
+      showImageGallery && {
+         id: 'imageGallery',
+         title: 'IMAGE_GALLERY',
+         group: 'MEDIA',
+         icon: Images,
+         keywords: ['photo', 'picture', 'library'],
+         run: (editor) => imageGalleryCommand({ editor }),
+      },
+      {
+         id: 'youtube',
+         title: 'YOUTUBE',
+         group: 'MEDIA',
+         icon: Youtube,
+         shortcut: 'Mod+Alt+Y',
+         keywords: ['video', 'embed'],
+         run: (editor) => youtubeCommand({ editor }),
+      },
+      {
+         id: 'twitter',
+         title: 'TWITTER',
+         group: 'MEDIA',
+         icon: Twitter,
+         shortcut: 'Mod+Alt+X',
+         keywords: ['x', 'tweet', 'embed'],
+         run: (editor) => twitterCommand({ editor }),
+      },
+
+      // AI
+      {
+         id: 'contextAI',
+         title: 'CONTEXT_AI',
+         group: 'CONTEXT_AI',
+         icon: Sparkles,
+         shortcut: 'Mod+J',
+         keywords: ['ai', 'assistant', 'generate'],
+         run: (editor) => contextAICommand({ editor }),
+      },
+
+      // Import / export
+      showImportData && {
+         id: 'import',
+         title: 'IMPORT_CONTENT',
+         group: 'IMPORT_EXPORT',
+         icon: Upload,
+         keywords: ['docx', 'html', 'markdown', 'url'],
+         run: (editor) => importCommand({ editor }),
+      },
+      showExportData && {
+         id: 'export',
+         title: 'EXPORT_CONTENT',
+         group: 'IMPORT_EXPORT',
+         icon: Download,
+         keywords: ['docx', 'html', 'markdown', 'download'],
+         run: (editor) => exportCommand({ editor }),
+      },
+
+      // Document
+      {
+         id: 'undo',
+         title: 'UNDO',
+         group: 'DOCUMENT',
+         icon: Undo,
+         shortcut: 'Mod+Z',
+         extensions: ['undoRedo', 'collaboration'],
+         run: (editor) => editor.chain().focus().undo().run(),
+         isAvailable: (editor) => editor.can().undo(),
+      },
+      {
+         id: 'redo',
+         title: 'REDO',
+         group: 'DOCUMENT',
+         icon: Redo,
+         shortcut: 'Mod+Shift+Z',
+         extensions: ['undoRedo', 'collaboration'],
+         run: (editor) => editor.chain().focus().redo().run(),
+         isAvailable: (editor) => editor.can().redo(),
+      },
+      ...documentCommands,
+   ];
+
+   return commands.filter((command): command is PaletteCommand => !!command);
+};
+
+/**
+ * A group of search results. `group` is an i18n key.
+ */
+export interface PaletteSection {
+   group: PaletteGroup | 'RECENT_COMMANDS';
+   commands: PaletteCommand[];
+}
+
+/**
+ * Lowest score of a match; weaker matches only share a few scattered letters with the query.
+ */
+const MIN_SCORE = 0.05;
+
+/**
+ * Best fuzzy score of the query against a title translation or keyword. Terms are scored one by
+ * one, so letters scattered over several terms do not match.
+ */
+const scoreCommand = (command: PaletteCommand, query: string) =>
+   Math.max(
+      ...[...i18n.getSearchTerms(command.title), ...(command.keywords ?? []), command.id].map(
+         (term) => defaultFilter(normalizeSearchText(term), normalizeSearchText(query))
+      )
+   );
+
+/**
+ * Fuzzy-searches commands by their title in every language and their keywords.
+ * Recently used commands come first, the others follow in their groups, best matches first.
+ *
+ * @param commands - Available commands.
+ * @param search - Search query, empty for all commands.
+ * @param recent - Ids of recently used commands, most recent first.
+ * @returns Non-empty sections in display order.
+ */
+export const searchPaletteCommands = (
+   commands: PaletteCommand[],
+   search: string,
+   recent: string[] = []
+): PaletteSection[] => {
+   const query = search.trim();
+   const scored = commands
+      .map((command) => ({
+         command,
+         score: query ? scoreCommand(command, query) : 1,
+      }))
+      .filter(({ score }) => score >= MIN_SCORE);
+   const byScore = (a: { score: number }, b: { score: number }) => b.score - a.score;
+
+   const recentCommands = recent
+      .map((id) => scored.find(({ command }) => command.id === id))
+      .filter((result) => !!result)
+      .map(({ command }) => command);
+   const rest = scored.filter(({ command }) => !recentCommands.includes(command));
+
+   return [
+      { group: 'RECENT_COMMANDS' as const, commands: recentCommands },
+      ...PALETTE_GROUPS.map((group) => ({
+         group,
+         commands: rest
+            .filter(({ command }) => command.group === group)
+            .sort(byScore)
+            .map(({ command }) => command),
+      })),
+   ].filter(({ commands }) => commands.length > 0);
+};
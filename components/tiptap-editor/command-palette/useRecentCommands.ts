@@ -0,0 +1,51 @@
+/**
+ * @module useRecentCommands
+ *
+ * This hook remembers the recently used commands of the command palette in localStorage, so they
+ * are listed first in every editor and after a reload.
+ *
+ * @example
+ * ```tsx
+ * const { recent, addRecent } = useRecentCommands();
+ * addRecent('bold');
+ * ```
+ *
+ * @returns The ids of recent commands, most recent first, and a function to add one.
+ */
+import { useCallback, useState } from 'react';
+
+const STORAGE_KEY = 'tiptap-recent-commands';
+
+/**
+ * Number of recent commands kept.
+ */
+export const MAX_RECENT_COMMANDS = 5;
+
+const readRecent = (): string[] => {
+   if (typeof window === 'undefined') return [];
+   try {
+      const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(stored) ? stored.filter((id) => typeof id === 'string') : [];
+   } catch {
+      return [];
+   }
+};
+
+export const useRecentCommands = () => {
+   const [recent, setRecent] = useState<string[]>(readRecent);
+
+   const addRecent = useCallback((id: string) => {
+      const next = [id, ...readRecent().filter((recentId) => recentId !== id)].slice(
+         0,
+         MAX_RECENT_COMMANDS
+      );
+      setRecent(next);
+      try {
+         window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+         // Storage is full or disabled, recent commands are then only kept in memory
+      }
+   }, []);
+
+   return { recent, addRecent };
+};
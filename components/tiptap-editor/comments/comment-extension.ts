@@ -0,0 +1,281 @@
+/**
+ * @module CommentExtension
+ *
+ * This module provides the comment mark anchoring comment threads to ranges of the document,
+ * and the plugin highlighting them.
+ *
+ * @remarks
+ * - The mark only stores the thread id; the conversation lives in a `CommentStore`. Since it is a
+ *   mark, the anchor moves, shrinks and grows with the text as it is edited, and comes back on undo.
+ * - Threads may overlap: the mark does not exclude itself.
+ * - `startComment` keeps the selection as a pending comment until `setComment` anchors a thread
+ *   to it or `cancelComment` drops it, so the user can write the first comment in the sidebar.
+ * - Clicking commented text makes its thread the active one; the active thread is highlighted
+ *   more strongly and resolved threads are not highlighted.
+ * - Nothing is highlighted until the resolved threads are known (`setResolvedComments`), so
+ *   editors without comment threads show commented text like any other text.
+ * - The mark is part of `defaultExtensions`, so anchors survive loading and saving documents in
+ *   editors without the comments sidebar.
+ *
+ * @example
+ * ```ts
+ * editor.chain().focus().startComment().run();
+ * editor.commands.setComment(thread.id);
+ * ```
+ */
+import { Mark, mergeAttributes } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, type EditorState, type Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      comment: {
+         /**
+          * Keeps the selection as a pending comment, waiting for its first comment.
+          */
+         startComment: () => ReturnType;
+         /**
+          * Drops the pending comment.
+          */
+         cancelComment: () => ReturnType;
+         /**
+          * Anchors a thread to the pending comment, or to the selection when there is none.
+          */
+         setComment: (threadId: string) => ReturnType;
+         /**
+          * Removes the anchor of a thread from the whole document.
+          */
+         removeComment: (threadId: string) => ReturnType;
+         /**
+          * Makes a thread the active one, or clears the active thread.
+          */
+         setActiveComment: (threadId: string | null) => ReturnType;
+         /**
+          * Sets the threads that are resolved and no longer highlighted; `null` turns the
+          * highlights off.
+          */
+         setResolvedComments: (threadIds: string[] | null) => ReturnType;
+      };
+   }
+}
+
+/**
+ * State of the comments plugin.
+ *
+ * @property pending - Range of the comment being written.
+ * @property activeThreadId - Thread selected in the document or the sidebar.
+ * @property resolvedThreadIds - Threads that are resolved, `null` when comments are not shown.
+ * @property decorations - Highlights of the threads and the pending comment.
+ */
+export interface CommentsState {
+   pending: { from: number; to: number } | null;
+   activeThreadId: string | null;
+   resolvedThreadIds: string[] | null;
+   decorations: DecorationSet;
+}
+
+type CommentsMeta = Partial<
+   Pick<CommentsState, 'pending' | 'activeThreadId' | 'resolvedThreadIds'>
+>;
+
+export const commentsPluginKey = new PluginKey<CommentsState>('comments');
+
+/**
+ * Returns the comments plugin state of an editor state.
+ */
+export const getCommentsState = (state: EditorState) => commentsPluginKey.getState(state);
+
+/**
+ * Returns the range every thread is anchored to, from its first to its last marked character,
+ * in document order.
+ *
+ * @param doc - The document.
+ * @returns Ranges by thread id.
+ */
+export const getCommentRanges = (doc: ProseMirrorNode) => {
+   const ranges = new Map<string, { from: number; to: number }>();
+   doc.descendants((node, pos) => {
+      for (const mark of node.marks) {
+         if (mark.type.name !== 'comment' || !mark.attrs.threadId) continue;
+         const range = ranges.get(mark.attrs.threadId);
+         const to = pos + node.nodeSize;
+         if (range) range.to = to;
+         else ranges.set(mark.attrs.threadId, { from: pos, to });
+      }
+   });
+   return ranges;
+};
+
+/**
+ * Returns the thread ids of the comment marks at a position, innermost last.
+ */
+const getThreadIdsAt = (doc: ProseMirrorNode, pos: number) => {
+   const $pos = doc.resolve(pos);
+   const marks = [...($pos.nodeAfter?.marks ?? []), ...($pos.nodeBefore?.marks ?? [])];
+   return [
+      ...new Set(
+         marks
+            .filter((mark) => mark.type.name === 'comment' && mark.attrs.threadId)
+            .map((mark) => mark.attrs.threadId as string)
+      ),
+   ];
+};
+
+const getDecorations = (
+   doc: ProseMirrorNode,
+   { pending, activeThreadId, resolvedThreadIds }: Omit<CommentsState, 'decorations'>
+) => {
+   const decorations: Decoration[] = [];
+   if (resolvedThreadIds) {
+      doc.descendants((node, pos) => {
+         if (!node.isText) return true;
+         const threadIds = node.marks
+            .filter((mark) => mark.type.name === 'comment' && mark.attrs.threadId)
+            .map((mark) => mark.attrs.threadId as string)
+            .filter((id) => !resolvedThreadIds.includes(id));
+         if (threadIds.length) {
+            decorations.push(
+               Decoration.inline(pos, pos + node.nodeSize, {
+                  class: threadIds.includes(activeThreadId ?? '')
+                     ? 'comment-highlight comment-active'
+                     : 'comment-highlight',
+               })
+            );
+         }
+         return false;
+      });
+   }
+   if (pending) {
+      decorations.push(Decoration.inline(pending.from, pending.to, { class: 'comment-pending' }));
+   }
+   return DecorationSet.create(doc, decorations);
+};
+
+export const CommentMark = Mark.create({
+   name: 'comment',
+
+   inclusive: false,
+
+   excludes: '',
+
+   addAttributes() {
+      return {
+         threadId: {
+            default: null,
+            parseHTML: (element) => element.getAttribute('data-comment-id'),
+            renderHTML: (attributes) => ({ 'data-comment-id': attributes.threadId }),
+         },
+      };
+   },
+
+   parseHTML() {
+      return [{ tag: 'span[data-comment-id]' }];
+   },
+
+   renderHTML({ HTMLAttributes }) {
+      return ['span', mergeAttributes(HTMLAttributes), 0];
+   },
+
+   addCommands() {
+      const setMeta =
+         (meta: CommentsMeta) =>
+         ({ tr, dispatch }: { tr: Transaction; dispatch?: unknown }) => {
+            if (dispatch) tr.setMeta(commentsPluginKey, meta);
+            return true;
+         };
+
+      return {
+         startComment:
+            () =>
+            ({ state, tr, dispatch }) => {
+               const { from, to, empty } = state.selection;
+               if (empty || !state.doc.textBetween(from, to).trim()) return false;
+               return setMeta({ pending: { from, to }, activeThreadId: null })({ tr, dispatch });
+            },
+         cancelComment: () => setMeta({ pending: null }),
+         setComment:
+            (threadId) =>
+            ({ state, tr, dispatch }) => {
+               const { from, to } = getCommentsState(state)?.pending ?? state.selection;
+               if (from === to) return false;
+               if (dispatch) {
+                  tr.addMark(from, to, this.type.create({ threadId }));
+                  tr.setMeta(commentsPluginKey, { pending: null, activeThreadId: threadId });
+               }
+               return true;
+            },
+         removeComment:
+            (threadId) =>
+            ({ tr, dispatch }) => {
+               if (!dispatch) return true;
+               tr.doc.descendants((node, pos) => {
+                  const mark = node.marks.find(
+                     (mark) => mark.type === this.type && mark.attrs.threadId === threadId
+                  );
+                  if (mark) tr.removeMark(pos, pos + node.nodeSize, mark);
+               });
+               return true;
+            },
+         setActiveComment: (threadId) => setMeta({ activeThreadId: threadId }),
+         setResolvedComments: (threadIds) => setMeta({ resolvedThreadIds: threadIds }),
+      };
+   },
+
+   addProseMirrorPlugins() {
+      return [
+         new Plugin<CommentsState>({
+            key: commentsPluginKey,
+            state: {
+               init: (_, { doc }) => {
+                  const state = { pending: null, activeThreadId: null, resolvedThreadIds: null };
+                  return { ...state, decorations: getDecorations(doc, state) };
+               },
+               apply: (tr, value) => {
+                  const meta = tr.getMeta(commentsPluginKey) as CommentsMeta | undefined;
+                  if (!meta && !tr.docChanged) return value;
+
+                  let pending = meta && 'pending' in meta ? (meta.pending ?? null) : value.pending;
+                  if (pending && tr.docChanged) {
+                     const from = tr.mapping.map(pending.from, 1);
+                     const to = tr.mapping.map(pending.to, -1);
+                     pending = from < to ? { from, to } : null;
+                  }
+                  const state = {
+                     pending,
+                     activeThreadId:
+                        meta?.activeThreadId !== undefined
+                           ? meta.activeThreadId
+                           : value.activeThreadId,
+                     resolvedThreadIds:
+                        meta?.resolvedThreadIds !== undefined
+                           ? meta.resolvedThreadIds
+                           : value.resolvedThreadIds,
+                  };
+                  return { ...state, decorations: getDecorations(tr.doc, state) };
+               },
+            },
+            props: {
+               decorations(state) {
+                  return commentsPluginKey.getState(state)?.decorations;
+               },
+               handleClick: (view, pos) => {
+                  const current = getCommentsState(view.state);
+                  if (!current?.resolvedThreadIds) return false;
+                  const { resolvedThreadIds } = current;
+                  const threadIds = getThreadIdsAt(view.state.doc, pos).filter(
+                     (id) => !resolvedThreadIds.includes(id)
+                  );
+                  const threadId = threadIds[threadIds.length - 1] ?? null;
+                  if (threadId !== current.activeThreadId) {
+                     view.dispatch(
+                        view.state.tr.setMeta(commentsPluginKey, { activeThreadId: threadId })
+                     );
+                  }
+                  return false;
+               },
+            },
+         }),
+      ];
+   },
+});
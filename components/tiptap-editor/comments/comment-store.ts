@@ -0,0 +1,241 @@
+/**
+ * @module CommentStore
+ *
+ * This module defines where the comment threads of a document are kept, and provides an
+ * in-memory store and a store backed by the `/api/comments` routes.
+ *
+ * @remarks
+ * - The document only stores the thread id, in the comment mark anchoring the thread; the
+ *   conversation lives in the store, keyed by the document key.
+ * - Replies and resolving are separate calls, so replies of several reviewers are never lost.
+ * - The HTTP store addresses threads as `<baseUrl>/<documentKey>` (`GET` lists, `POST` creates)
+ *   and `<baseUrl>/<documentKey>/<threadId>` (`POST` replies, `PATCH` resolves, `DELETE` removes).
+ *
+ * @example
+ * ```tsx
+ * <Tiptap
+ *   showComments
+ *   commentStore={createHttpCommentStore({ baseUrl: '/api/comments' })}
+ *   commentAuthor={{ id: 'u-ada', name: 'Ada Lovelace' }}
+ * />
+ * ```
+ */
+
+/**
+ * Author of a comment.
+ *
+ * @property id - Unique id of the user.
+ * @property name - Display name.
+ * @property color - Color of the avatar (optional).
+ */
+export interface CommentAuthor {
+   id: string;
+   name: string;
+   color?: string;
+}
+
+/**
+ * A comment of a thread.
+ *
+ * @property id - Unique comment id.
+ * @property author - Author of the comment.
+ * @property body - Comment text.
+ * @property createdAt - ISO timestamp of the comment.
+ */
+export interface Comment {
+   id: string;
+   author: CommentAuthor;
+   body: string;
+   createdAt: string;
+}
+
+/**
+ * A comment thread anchored to a range of the document.
+ *
+ * @property id - Unique thread id, stored in the comment mark.
+ * @property quote - Text the thread was anchored to when it was created.
+ * @property createdAt - ISO timestamp of the thread.
+ * @property resolved - Whether the thread is resolved.
+ * @property resolvedAt - ISO timestamp of the resolution (optional).
+ * @property resolvedBy - User who resolved the thread (optional).
+ * @property comments - The first comment followed by the replies.
+ */
+export interface CommentThread {
+   id: string;
+   quote: string;
+   createdAt: string;
+   resolved: boolean;
+   resolvedAt?: string;
+   resolvedBy?: CommentAuthor;
+   comments: Comment[];
+}
+
+/**
+ * Keeps the comment threads of documents.
+ *
+ * @property persistent - Whether threads survive a page reload.
+ * @property listThreads - Lists the threads of a document, oldest first.
+ * @property createThread - Stores a new thread and returns it, or the stored thread when one with
+ *   the id already exists.
+ * @property addComment - Adds a reply to a thread and returns the updated thread.
+ * @property setResolved - Resolves or reopens a thread and returns the updated thread.
+ * @property deleteThread - Removes a thread.
+ */
+export interface CommentStore {
+   persistent: boolean;
+   listThreads: (documentKey: string) => Promise<CommentThread[]>;
+   createThread: (documentKey: string, thread: CommentThread) => Promise<CommentThread>;
+   addComment: (documentKey: string, threadId: string, comment: Comment) => Promise<CommentThread>;
+   setResolved: (
+      documentKey: string,
+      threadId: string,
+      resolved: boolean,
+      resolvedBy?: CommentAuthor
+   ) => Promise<CommentThread>;
+   deleteThread: (documentKey: string, threadId: string) => Promise<void>;
+}
+
+/**
+ * Creates a comment store that keeps threads in memory for the lifetime of the page.
+ *
+ * @returns A comment store.
+ */
+export const createMemoryCommentStore = (): CommentStore => {
+   const threads = new Map<string, CommentThread[]>();
+   const get = (key: string) => threads.get(key) ?? [];
+
+   const update = (key: string, id: string, change: (thread: CommentThread) => CommentThread) => {
+      const thread = get(key).find((item) => item.id === id);
+      if (!thread) throw new Error(`Comment thread not found: ${id}`);
+      const updated = change(thread);
+      threads.set(
+         key,
+         get(key).map((item) => (item.id === id ? updated : item))
+      );
+      return updated;
+   };
+
+   return {
+      persistent: false,
+      listThreads: async (key) => get(key),
+      createThread: async (key, thread) => {
+         const existing = get(key).find((item) => item.id === thread.id);
+         if (existing) return existing;
+         threads.set(key, [...get(key), thread]);
+         return thread;
+      },
+      addComment: async (key, id, comment) =>
+         update(key, id, (thread) => ({ ...thread, comments: [...thread.comments, comment] })),
+      setResolved: async (key, id, resolved, resolvedBy) =>
+         update(key, id, (thread) => ({
+            ...thread,
+            resolved,
+            resolvedAt: resolved ? new Date().toISOString() : undefined,
+            resolvedBy: resolved ? resolvedBy : undefined,
+         })),
+      deleteThread: async (key, id) => {
+         threads.set(
+            key,
+            get(key).filter((thread) => thread.id !== id)
+         );
+      },
+   };
+};
+
+/**
+ * Options for the HTTP comment store.
+ */
+export interface HttpCommentStoreOptions {
+   /**
+    * Base URL of the comments endpoint, without a trailing slash.
+    * @default '/api/comments'
+    */
+   baseUrl?: string;
+   /**
+    * Extra request headers, or a function returning them for every request.
+    */
+   headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+}
+
+/**
+ * Creates a comment store backed by an HTTP endpoint, like the `/api/comments` routes.
+ *
+ * @param options - Endpoint URL and headers.
+ * @returns A comment store.
+ */
+export const createHttpCommentStore = ({
+   baseUrl = '/api/comments',
+   headers,
+}: HttpCommentStoreOptions = {}): CommentStore => {
+   const request = async (key: string, path = '', init: RequestInit = {}) => {
+      const extraHeaders = typeof headers === 'function' ? await headers() : headers;
+      return fetch(`${baseUrl}/${encodeURIComponent(key)}${path}`, {
+         ...init,
+         headers: {
+            'Content-Type': 'application/json',
+            ...extraHeaders,
+            ...init.headers,
+         },
+      });
+   };
+
+   const ensureOk = async (response: Response) => {
+      if (!response.ok) {
+         const data = await response.json().catch(() => null);
+         throw new Error(data?.error || `Request failed with status ${response.status}`);
+      }
+      return response;
+   };
+
+   const threadPath = (id: string) => `/${encodeURIComponent(id)}`;
+
+   return {
+      persistent: true,
+
+      listThreads: async (key) => {
+         const response = await ensureOk(await request(key));
+         const { threads } = (await response.json()) as { threads: CommentThread[] };
+         return threads;
+      },
+
+      createThread: async (key, thread) => {
+         const response = await request(key, '', {
+            method: 'POST',
+            body: JSON.stringify(thread),
+         });
+         // A retried request finds its thread already stored
+         if (response.status === 409) {
+            const { current } = (await response.json()) as { current: CommentThread };
+            return current;
+         }
+         await ensureOk(response);
+         return (await response.json()) as CommentThread;
+      },
+
+      addComment: async (key, id, comment) => {
+         const response = await ensureOk(
+            await request(key, threadPath(id), {
+               method: 'POST',
+               body: JSON.stringify(comment),
+            })
+         );
+         return (await response.json()) as CommentThread;
+      },
+
+      setResolved: async (key, id, resolved, resolvedBy) => {
+         const response = await ensureOk(
+            await request(key, threadPath(id), {
+               method: 'PATCH',
+               body: JSON.stringify({ resolved, resolvedBy }),
+            })
+         );
+         return (await response.json()) as CommentThread;
+      },
+
+      deleteThread: async (key, id) => {
+         const response = await request(key, threadPath(id), { method: 'DELETE' });
+         if (response.status === 404) return;
+         await ensureOk(response);
+      },
+   };
+};
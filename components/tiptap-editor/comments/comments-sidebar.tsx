@@ -0,0 +1,357 @@
+'use client';
+
+/**
+ * @module CommentsSidebar
+ *
+ * This module provides the comments sidebar of the editor, listing the comment threads in
+ * document order with their replies.
+ *
+ * @remarks
+ * - A comment started from the bubble menu shows a form for its first comment at the top.
+ * - Clicking a thread selects its text; the active thread shows a reply form.
+ * - Threads can be resolved, reopened and deleted. Resolved threads are hidden unless
+ *   "Show resolved" is on.
+ * - Threads whose text was deleted are listed last as detached; undoing the deletion anchors
+ *   them again.
+ * - Ctrl/Cmd+Enter sends a comment, Escape cancels a new comment.
+ *
+ * @example
+ * ```tsx
+ * const comments = useComments({ editor, store, documentKey, author });
+ * <CommentsSidebar editor={editor} comments={comments} onClose={() => setOpen(false)} />
+ * ```
+ *
+ * @property editor - The editor instance.
+ * @property comments - Comment threads returned by `useComments`.
+ * @property onClose - Callback fired when the sidebar is closed; without it there is no close button.
+ * @property className - Custom CSS class for the sidebar.
+ */
+import * as React from 'react';
+import { type Editor, useEditorState } from '@tiptap/react';
+import { Check, Loader, MessageSquare, RotateCcw, Send, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { i18n } from '../i18n';
+import { cn } from '../tiptap-utils';
+import { getCommentRanges, getCommentsState } from './comment-extension';
+import type { Comment, CommentAuthor, CommentThread } from './comment-store';
+import type { Comments } from './useComments';
+
+interface CommentsSidebarProps {
+   editor: Editor;
+   comments: Comments;
+   onClose?: () => void;
+   className?: string;
+}
+
+/**
+ * Formats a comment timestamp in the current UI language.
+ *
+ * @param createdAt - ISO timestamp.
+ * @returns The formatted date and time.
+ */
+const formatTimestamp = (createdAt: string) =>
+   new Date(createdAt).toLocaleString(i18n.getCurrentLanguage(), {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+   });
+
+const Avatar = ({ author }: { author: CommentAuthor }) => (
+   <span
+      className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-muted text-xs font-medium"
+      style={author.color ? { backgroundColor: author.color, color: '#fff' } : undefined}
+      aria-hidden
+   >
+      {author.name.charAt(0).toUpperCase()}
+   </span>
+);
+
+const CommentItem = ({ comment }: { comment: Comment }) => (
+   <li className="flex gap-2">
+      <Avatar author={comment.author} />
+      <div className="min-w-0 flex-1">
+         <div className="flex items-baseline gap-2">
+            <span className="truncate text-xs font-medium">{comment.author.name}</span>
+            <time className="shrink-0 text-xs text-muted-foreground" dateTime={comment.createdAt}>
+               {formatTimestamp(comment.createdAt)}
+            </time>
+         </div>
+         <p className="whitespace-pre-wrap break-words text-sm">{comment.body}</p>
+      </div>
+   </li>
+);
+
+/**
+ * Text field with a send button; Ctrl/Cmd+Enter sends, Escape cancels.
+ */
+const CommentForm = ({
+   placeholder,
+   autoFocus,
+   onSubmit,
+   onCancel,
+}: {
+   placeholder: string;
+   autoFocus?: boolean;
+   onSubmit: (body: string) => Promise<unknown>;
+   onCancel?: () => void;
+}) => {
+   const [body, setBody] = React.useState('');
+   const [isSending, setIsSending] = React.useState(false);
+
+   const submit = async () => {
+      if (!body.trim() || isSending) return;
+      setIsSending(true);
+      if (await onSubmit(body)) setBody('');
+      setIsSending(false);
+   };
+
+   return (
+      <form
+         className="flex flex-col gap-2"
+         onSubmit={(event) => {
+            event.preventDefault();
+            submit();
+         }}
+      >
+         <Textarea
+            value={body}
+            autoFocus={autoFocus}
+            onChange={(event) => setBody(event.target.value)}
+            onKeyDown={(event) => {
+               if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+                  event.preventDefault();
+                  submit();
+               } else if (event.key === 'Escape' && onCancel) {
+                  event.preventDefault();
+                  onCancel();
+               }
+            }}
+            placeholder={placeholder}
+            className="min-h-16 text-sm"
+         />
+         <div className="flex justify-end gap-2">
+            {onCancel && (
+               <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+                  {i18n.t('CANCEL')}
+               </Button>
+            )}
+            <Button type="submit" size="sm" disabled={!body.trim() || isSending}>
+               {isSending ? (
+                  <Loader className="h-4 w-4 animate-spin" />
+               ) : (
+                  <Send className="h-4 w-4" />
+               )}
+               {i18n.t('COMMENT')}
+            </Button>
+         </div>
+      </form>
+   );
+};
+
+const ThreadCard = ({
+   thread,
+   active,
+   detached,
+   comments,
+   onSelect,
+}: {
+   thread: CommentThread;
+   active: boolean;
+   detached: boolean;
+   comments: Comments;
+   onSelect: () => void;
+}) => (
+   <li
+      className={cn(
+         'rounded-md border p-2 text-left',
+         active ? 'border-primary shadow-sm' : 'border-muted',
+         thread.resolved && 'opacity-70'
+      )}
+      onClick={onSelect}
+   >
+      <div className="mb-2 flex items-start gap-2">
+         <blockquote
+            className={cn(
+               'min-w-0 flex-1 truncate border-l-2 pl-2 text-xs text-muted-foreground',
+               detached ? 'line-through' : 'border-yellow-400'
+            )}
+            title={detached ? i18n.t('COMMENT_DETACHED') : thread.quote}
+         >
+            {thread.quote}
+         </blockquote>
+         <div className="flex shrink-0 gap-1">
+            <Button
+               variant="ghost"
+               size="icon"
+               className="h-6 w-6"
+               title={i18n.t(thread.resolved ? 'REOPEN' : 'RESOLVE')}
+               onClick={(event) => {
+                  event.stopPropagation();
+                  if (thread.resolved) comments.reopen(thread.id);
+                  else comments.resolve(thread.id);
+               }}
+            >
+               {thread.resolved ? (
+                  <RotateCcw className="h-3.5 w-3.5" />
+               ) : (
+                  <Check className="h-3.5 w-3.5" />
+               )}
+            </Button>
+            <Button
+               variant="ghost"
+               size="icon"
+               className="h-6 w-6"
+               title={i18n.t('DELETE')}
+               onClick={(event) => {
+                  event.stopPropagation();
+                  comments.deleteThread(thread.id);
+               }}
+            >
+               <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+         </div>
+      </div>
+      <ul className="flex flex-col gap-2">
+         {thread.comments.map((comment) => (
+            <CommentItem key={comment.id} comment={comment} />
+         ))}
+      </ul>
+      {thread.resolved && thread.resolvedBy && (
+         <p className="mt-2 text-xs text-muted-foreground">
+            {i18n.t('RESOLVED_BY')} {thread.resolvedBy.name}
+            {thread.resolvedAt && ` · ${formatTimestamp(thread.resolvedAt)}`}
+         </p>
+      )}
+      {active && !thread.resolved && (
+         <div className="mt-2" onClick={(event) => event.stopPropagation()}>
+            <CommentForm
+               placeholder={i18n.t('REPLY_PLACEHOLDER')}
+               onSubmit={(body) => comments.reply(thread.id, body)}
+            />
+         </div>
+      )}
+   </li>
+);
+
+export const CommentsSidebar = ({ editor, comments, onClose, className }: CommentsSidebarProps) => {
+   const [showResolved, setShowResolved] = React.useState(false);
+   const { pending, activeThreadId, anchors } = useEditorState({
+      editor,
+      selector: (ctx) => {
+         const { doc } = ctx.editor.state;
+         const state = getCommentsState(ctx.editor.state);
+         const ranges = getCommentRanges(doc);
+         return {
+            pending: state?.pending
+               ? doc.textBetween(state.pending.from, state.pending.to, ' ')
+               : null,
+            activeThreadId: state?.activeThreadId ?? null,
+            // Start of every anchored thread, in document order
+            anchors: Object.fromEntries(
+               Array.from(ranges, ([id, range]) => [id, range.from] as const)
+            ),
+         };
+      },
+   });
+
+   const threads = React.useMemo(() => {
+      const visible = comments.threads.filter(
+         (thread) => showResolved || !thread.resolved || thread.id === activeThreadId
+      );
+      const position = (thread: CommentThread) => anchors[thread.id] ?? Infinity;
+      return visible.sort((a, b) => position(a) - position(b));
+   }, [comments.threads, showResolved, activeThreadId, anchors]);
+
+   const selectThread = (thread: CommentThread) => {
+      const from = anchors[thread.id];
+      editor.commands.setActiveComment(thread.id);
+      if (from === undefined) return;
+      editor.chain().focus().setTextSelection(from).run();
+      const { node } = editor.view.domAtPos(from);
+      const element = node instanceof HTMLElement ? node : node.parentElement;
+      element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+   };
+
+   return (
+      <aside
+         className={cn(
+            'flex w-72 shrink-0 flex-col rounded-md border-2 border-muted bg-background',
+            className
+         )}
+         aria-label={i18n.t('COMMENTS')}
+      >
+         <div className="flex items-center justify-between border-b px-3 py-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+               <MessageSquare className="h-4 w-4" />
+               {i18n.t('COMMENTS')}
+            </div>
+            {onClose && (
+               <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={onClose}
+                  title={i18n.t('CLOSE')}
+               >
+                  <X className="h-4 w-4" />
+               </Button>
+            )}
+         </div>
+
+         <label className="flex items-center justify-between border-b px-3 py-2 text-xs text-muted-foreground">
+            {i18n.t('SHOW_RESOLVED')}
+            <Switch checked={showResolved} onCheckedChange={setShowResolved} />
+         </label>
+
+         {!comments.persistent && (
+            <p className="border-b px-3 py-2 text-xs text-muted-foreground">
+               {i18n.t('COMMENTS_NOT_PERSISTED')}
+            </p>
+         )}
+         {comments.error && (
+            <p className="border-b px-3 py-2 text-xs text-red-600">{comments.error}</p>
+         )}
+
+         {pending !== null && (
+            <div className="border-b p-3">
+               <blockquote className="mb-2 truncate border-l-2 border-yellow-400 pl-2 text-xs text-muted-foreground">
+                  {pending}
+               </blockquote>
+               <CommentForm
+                  autoFocus
+                  placeholder={i18n.t('COMMENT_PLACEHOLDER')}
+                  onSubmit={(body) => comments.createThread(body)}
+                  onCancel={() => editor.chain().focus().cancelComment().run()}
+               />
+            </div>
+         )}
+
+         <ScrollArea className="max-h-[480px] flex-1">
+            {comments.isLoading && comments.threads.length === 0 ? (
+               <div className="flex justify-center p-4">
+                  <Loader className="h-4 w-4 animate-spin" />
+               </div>
+            ) : threads.length === 0 ? (
+               <p className="p-4 text-center text-sm text-muted-foreground">
+                  {i18n.t('NO_COMMENTS')}
+               </p>
+            ) : (
+               <ul className="flex flex-col gap-2 p-2">
+                  {threads.map((thread) => (
+                     <ThreadCard
+                        key={thread.id}
+                        thread={thread}
+                        active={thread.id === activeThreadId}
+                        detached={anchors[thread.id] === undefined}
+                        comments={comments}
+                        onSelect={() => selectThread(thread)}
+                     />
+                  ))}
+               </ul>
+            )}
+         </ScrollArea>
+      </aside>
+   );
+};
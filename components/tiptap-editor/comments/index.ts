@@ -0,0 +1,18 @@
+export {
+   CommentMark,
+   commentsPluginKey,
+   getCommentRanges,
+   getCommentsState,
+   type CommentsState,
+} from './comment-extension';
+export {
+   createHttpCommentStore,
+   createMemoryCommentStore,
+   type Comment,
+   type CommentAuthor,
+   type CommentStore,
+   type CommentThread,
+   type HttpCommentStoreOptions,
+} from './comment-store';
+export { CommentsSidebar } from './comments-sidebar';
+export { useComments, type Comments, type CommentsOptions } from './useComments';
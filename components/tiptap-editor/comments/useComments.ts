@@ -0,0 +1,202 @@
+/**
+ * @module useComments
+ *
+ * This module provides a React hook managing the comment threads of an editor document.
+ * It loads the threads from a comment store and creates, answers, resolves, reopens and deletes
+ * them, keeping the comment marks of the document in line.
+ *
+ * @remarks
+ * - A new thread is anchored to the pending comment started with `startComment`, or to the
+ *   selection. The mark is added right away and removed again when the thread cannot be stored.
+ * - Deleting a thread also removes its mark, in a transaction that can be undone; the thread
+ *   itself is gone from the store, though.
+ */
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Editor } from '@tiptap/react';
+import {
+   createMemoryCommentStore,
+   type Comment,
+   type CommentAuthor,
+   type CommentStore,
+   type CommentThread,
+} from './comment-store';
+import { getCommentsState } from './comment-extension';
+
+/**
+ * Options for the comments hook.
+ */
+export interface CommentsOptions {
+   /**
+    * The editor instance.
+    */
+   editor: Editor | null;
+   /**
+    * Store keeping the threads, or `null` to keep them in memory.
+    */
+   store: CommentStore | null;
+   /**
+    * Key identifying the document in the store.
+    */
+   documentKey: string;
+   /**
+    * Author of new comments.
+    */
+   author: CommentAuthor;
+}
+
+export type Comments = ReturnType<typeof useComments>;
+
+/**
+ * Creates an id that is safe to use in URLs and file names.
+ */
+const createCommentId = () =>
+   typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Manages the comment threads of an editor document.
+ *
+ * @param options - Editor, store, document key and author.
+ * @returns The threads and actions.
+ */
+export const useComments = ({
+   editor,
+   store: commentStore,
+   documentKey,
+   author,
+}: CommentsOptions) => {
+   const store = useMemo(() => commentStore ?? createMemoryCommentStore(), [commentStore]);
+   const [threads, setThreads] = useState<CommentThread[]>([]);
+   const [isLoading, setIsLoading] = useState(false);
+   const [error, setError] = useState<string | null>(null);
+
+   const fail = useCallback((message: string, error: unknown) => {
+      console.error(message, error);
+      setError(error instanceof Error ? error.message : String(error));
+   }, []);
+
+   const replaceThread = useCallback((thread: CommentThread) => {
+      setThreads((threads) => threads.map((item) => (item.id === thread.id ? thread : item)));
+   }, []);
+
+   const refresh = useCallback(async () => {
+      setIsLoading(true);
+      try {
+         setThreads(await store.listThreads(documentKey));
+         setError(null);
+      } catch (error) {
+         fail('Loading comments failed:', error);
+      } finally {
+         setIsLoading(false);
+      }
+   }, [store, documentKey, fail]);
+
+   useEffect(() => {
+      refresh();
+   }, [refresh]);
+
+   // Resolved threads are not highlighted in the document, nothing is without a store
+   const resolvedIds = useMemo(
+      () => threads.filter((thread) => thread.resolved).map((thread) => thread.id),
+      [threads]
+   );
+   useEffect(() => {
+      if (!editor || editor.isDestroyed) return;
+      editor.commands.setResolvedComments(commentStore ? resolvedIds : null);
+   }, [editor, commentStore, resolvedIds]);
+
+   const createComment = useCallback(
+      (body: string): Comment => ({
+         id: createCommentId(),
+         author,
+         body: body.trim(),
+         createdAt: new Date().toISOString(),
+      }),
+      [author]
+   );
+
+   const createThread = useCallback(
+      async (body: string) => {
+         if (!editor || !body.trim()) return null;
+         const { from, to } = getCommentsState(editor.state)?.pending ?? editor.state.selection;
+         const thread: CommentThread = {
+            id: createCommentId(),
+            quote: editor.state.doc.textBetween(from, to, ' '),
+            createdAt: new Date().toISOString(),
+            resolved: false,
+            comments: [createComment(body)],
+         };
+         if (!editor.commands.setComment(thread.id)) return null;
+         setThreads((threads) => [...threads, thread]);
+
+         try {
+            replaceThread(await store.createThread(documentKey, thread));
+            setError(null);
+            return thread;
+         } catch (error) {
+            fail('Saving comment failed:', error);
+            editor.commands.removeComment(thread.id);
+            setThreads((threads) => threads.filter((item) => item.id !== thread.id));
+            return null;
+         }
+      },
+      [editor, store, documentKey, createComment, replaceThread, fail]
+   );
+
+   const reply = useCallback(
+      async (threadId: string, body: string) => {
+         if (!body.trim()) return false;
+         try {
+            replaceThread(await store.addComment(documentKey, threadId, createComment(body)));
+            setError(null);
+            return true;
+         } catch (error) {
+            fail('Saving reply failed:', error);
+            return false;
+         }
+      },
+      [store, documentKey, createComment, replaceThread, fail]
+   );
+
+   const setResolved = useCallback(
+      async (threadId: string, resolved: boolean) => {
+         try {
+            replaceThread(await store.setResolved(documentKey, threadId, resolved, author));
+            if (resolved && editor) editor.commands.setActiveComment(null);
+            setError(null);
+         } catch (error) {
+            fail('Updating comment failed:', error);
+         }
+      },
+      [editor, store, documentKey, author, replaceThread, fail]
+   );
+
+   const deleteThread = useCallback(
+      async (threadId: string) => {
+         try {
+            await store.deleteThread(documentKey, threadId);
+            editor?.chain().removeComment(threadId).setActiveComment(null).run();
+            setThreads((threads) => threads.filter((thread) => thread.id !== threadId));
+            setError(null);
+         } catch (error) {
+            fail('Deleting comment failed:', error);
+         }
+      },
+      [editor, store, documentKey, fail]
+   );
+
+   return {
+      threads,
+      isLoading,
+      error,
+      persistent: store.persistent,
+      author,
+      refresh,
+      createThread,
+      reply,
+      resolve: (threadId: string) => setResolved(threadId, true),
+      reopen: (threadId: string) => setResolved(threadId, false),
+      deleteThread,
+   };
+};
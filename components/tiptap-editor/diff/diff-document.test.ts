@@ -0,0 +1,121 @@
+import { getSchema, type JSONContent } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { describe, expect, it } from 'vitest';
+import {
+   DIFF_DELETE_MARK,
+   DIFF_FORMAT_MARK,
+   DIFF_INSERT_MARK,
+   diffDocuments,
+} from './diff-document';
+
+const schema = getSchema([StarterKit]);
+
+const doc = (...content: JSONContent[]): JSONContent => ({ type: 'doc', content });
+
+const paragraph = (...content: JSONContent[]): JSONContent => ({ type: 'paragraph', content });
+
+const text = (value: string, ...marks: string[]): JSONContent =>
+   marks.length
+      ? { type: 'text', text: value, marks: marks.map((type) => ({ type })) }
+      : { type: 'text', text: value };
+
+const heading = (value: string): JSONContent => ({
+   type: 'heading',
+   attrs: { level: 2 },
+   content: [text(value)],
+});
+
+describe('diffDocuments', () => {
+   it('reports no changes for equal documents', () => {
+      const content = doc(paragraph(text('Same words')));
+      expect(diffDocuments(content, content, schema)).toEqual({
+         content,
+         summary: { insertions: 0, deletions: 0, formatChanges: 0, attributeChanges: 0 },
+         hasChanges: false,
+      });
+   });
+
+   it('marks inserted and deleted words inside a paragraph', () => {
+      const { content, summary } = diffDocuments(
+         doc(paragraph(text('The quick fox'))),
+         doc(paragraph(text('The slow fox'))),
+         schema
+      );
+      expect(content.content).toEqual([
+         paragraph(
+            text('The '),
+            text('quick', DIFF_DELETE_MARK),
+            text('slow', DIFF_INSERT_MARK),
+            text(' fox')
+         ),
+      ]);
+      expect(summary).toMatchObject({ insertions: 1, deletions: 1 });
+   });
+
+   it('marks whole blocks that were inserted or deleted', () => {
+      const { content, summary } = diffDocuments(
+         doc(paragraph(text('Kept')), heading('Removed title')),
+         doc(paragraph(text('Kept')), paragraph(text('Added text'))),
+         schema
+      );
+      expect(content.content).toEqual([
+         paragraph(text('Kept')),
+         {
+            ...heading('Removed title'),
+            attrs: { level: 2, diff: 'deleted' },
+            content: [text('Removed title', DIFF_DELETE_MARK)],
+         },
+         { ...paragraph(text('Added text', DIFF_INSERT_MARK)), attrs: { diff: 'inserted' } },
+      ]);
+      expect(summary).toMatchObject({ insertions: 1, deletions: 1 });
+   });
+
+   it('marks words whose formatting changed with the previous marks', () => {
+      const { content, summary } = diffDocuments(
+         doc(paragraph(text('Plain '), text('word'))),
+         doc(paragraph(text('Plain '), text('word', 'bold'))),
+         schema
+      );
+      const [changed] = content.content![0].content!.slice(1);
+      expect(changed.text).toBe('word');
+      expect(changed.marks?.map((mark) => mark.type)).toEqual(['bold', DIFF_FORMAT_MARK]);
+      expect(summary).toMatchObject({ formatChanges: 1, insertions: 0, deletions: 0 });
+   });
+
+   it('keeps the unchanged blocks around a change in the middle', () => {
+      const before = Array.from({ length: 5 }, (_, i) => paragraph(text(`Block ${i}`)));
+      const after = [...before.slice(0, 2), paragraph(text('Block two')), ...before.slice(3)];
+      const { content, summary } = diffDocuments(doc(...before), doc(...after), schema);
+
+      expect(content.content?.slice(0, 2)).toEqual(before.slice(0, 2));
+      expect(content.content?.slice(-2)).toEqual(before.slice(-2));
+      expect(content.content?.[2]).toEqual(
+         paragraph(text('Block '), text('2', DIFF_DELETE_MARK), text('two', DIFF_INSERT_MARK))
+      );
+      expect(summary).toMatchObject({ insertions: 1, deletions: 1 });
+   });
+
+   it('marks all content of a document that was empty as inserted', () => {
+      const { content, summary } = diffDocuments(
+         doc(),
+         doc(paragraph(text('First words'))),
+         schema
+      );
+      expect(content.content).toEqual([
+         { ...paragraph(text('First words', DIFF_INSERT_MARK)), attrs: { diff: 'inserted' } },
+      ]);
+      expect(summary).toMatchObject({ insertions: 1, deletions: 0 });
+   });
+
+   it('marks all content of a document that became empty as deleted', () => {
+      const { content, hasChanges } = diffDocuments(
+         doc(paragraph(text('Old words'))),
+         { type: 'doc' },
+         schema
+      );
+      expect(content.content).toEqual([
+         { ...paragraph(text('Old words', DIFF_DELETE_MARK)), attrs: { diff: 'deleted' } },
+      ]);
+      expect(hasChanges).toBe(true);
+   });
+});
@@ -0,0 +1,359 @@
+/**
+ * @module DiffDocument
+ *
+ * This module compares two Tiptap documents and merges them into a single document
+ * in which the changes are annotated, so the result can be rendered by a regular editor.
+ *
+ * @remarks
+ * - Blocks are aligned first; unchanged blocks are kept, blocks of the same type are compared
+ *   recursively (lists, task items, tables, rows, cells, blockquotes) and the rest are
+ *   marked as inserted or deleted with the `diff` node attribute.
+ * - Inside text blocks words are compared; inserted and deleted words get the `diffInsert` and
+ *   `diffDelete` marks, words whose formatting changed get the `diffFormat` mark.
+ * - Changed attributes of a node (e.g. heading level, task item `checked`, image `style`
+ *   and `wrapperStyle` from `ImageResizer`) set `diff: 'changed'` and list the changes in `diffChanges`.
+ *
+ * @example
+ * ```ts
+ * const { content, summary } = diffDocuments(snapshot.json, editor.getJSON(), editor.schema);
+ * ```
+ */
+import type { JSONContent } from '@tiptap/react';
+import type { Schema } from '@tiptap/pm/model';
+
+/**
+ * How a node differs between the two documents.
+ */
+export type DiffKind = 'inserted' | 'deleted' | 'changed';
+
+/**
+ * Number of changes found by `diffDocuments`.
+ */
+export interface DiffSummary {
+   insertions: number;
+   deletions: number;
+   formatChanges: number;
+   attributeChanges: number;
+}
+
+export interface DocumentDiffResult {
+   /**
+    * Merged document with diff marks and attributes.
+    */
+   content: JSONContent;
+   summary: DiffSummary;
+   hasChanges: boolean;
+}
+
+/**
+ * Mark and attribute names used to annotate the merged document.
+ */
+export const DIFF_INSERT_MARK = 'diffInsert';
+export const DIFF_DELETE_MARK = 'diffDelete';
+export const DIFF_FORMAT_MARK = 'diffFormat';
+
+/**
+ * Minimum share of common words for two text blocks to be compared word by word
+ * instead of being shown as one deleted and one inserted block.
+ */
+const TEXT_SIMILARITY_THRESHOLD = 0.4;
+
+/**
+ * Splits text into words, whitespace runs and single punctuation characters.
+ */
+const TOKEN_PATTERN = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+
+type Mark = NonNullable<JSONContent['marks']>[number];
+
+const serialize = (value: unknown) => JSON.stringify(value ?? null);
+
+const isEqual = (a: unknown, b: unknown) => serialize(a) === serialize(b);
+
+/**
+ * Computes the longest common subsequence of two lists.
+ * Items are compared by key, computed once per item. The common prefix and suffix are matched
+ * directly, so only the changed middle of the lists goes through the quadratic table.
+ *
+ * @returns Index pairs of matching items, in order.
+ */
+const longestCommonSubsequence = <T>(a: T[], b: T[], getKey: (item: T) => string) => {
+   // Equal keys get the same number, so comparing items is cheap however large they are
+   const ids = new Map<string, number>();
+   const toId = (item: T) => {
+      const key = getKey(item);
+      let id = ids.get(key);
+      if (id === undefined) ids.set(key, (id = ids.size));
+      return id;
+   };
+   const idsA = a.map(toId);
+   const idsB = b.map(toId);
+
+   let start = 0;
+   while (start < idsA.length && start < idsB.length && idsA[start] === idsB[start]) start++;
+   let endA = idsA.length;
+   let endB = idsB.length;
+   while (endA > start && endB > start && idsA[endA - 1] === idsB[endB - 1]) {
+      endA--;
+      endB--;
+   }
+
+   const rows = endA - start;
+   const columns = endB - start + 1;
+   const table = new Uint32Array((rows + 1) * columns);
+   for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 2; j >= 0; j--) {
+         table[i * columns + j] =
+            idsA[start + i] === idsB[start + j]
+               ? table[(i + 1) * columns + j + 1] + 1
+               : Math.max(table[(i + 1) * columns + j], table[i * columns + j + 1]);
+      }
+   }
+
+   const pairs: [number, number][] = [];
+   for (let k = 0; k < start; k++) pairs.push([k, k]);
+   let i = 0;
+   let j = 0;
+   while (i < rows && j < columns - 1) {
+      if (idsA[start + i] === idsB[start + j]) {
+         pairs.push([start + i, start + j]);
+         i++;
+         j++;
+      } else if (table[(i + 1) * columns + j] >= table[i * columns + j + 1]) {
+         i++;
+      } else {
+         j++;
+      }
+   }
+   for (let k = 0; endA + k < idsA.length; k++) pairs.push([endA + k, endB + k]);
+   return pairs;
+};
+
+/**
+ * Walks two lists along their common subsequence, calling `onGap` for the unmatched
+ * items between matches and `onMatch` for every matching pair.
+ */
+const walkAlignment = <T>(
+   a: T[],
+   b: T[],
+   getKey: (item: T) => string,
+   onMatch: (x: T, y: T) => void,
+   onGap: (removed: T[], added: T[]) => void
+) => {
+   let i = 0;
+   let j = 0;
+   for (const [matchA, matchB] of [
+      ...longestCommonSubsequence(a, b, getKey),
+      [a.length, b.length],
+   ]) {
+      if (matchA > i || matchB > j) onGap(a.slice(i, matchA), b.slice(j, matchB));
+      if (matchA < a.length) onMatch(a[matchA], b[matchB]);
+      i = matchA + 1;
+      j = matchB + 1;
+   }
+};
+
+/**
+ * Returns the plain text of a node.
+ */
+const getText = (node: JSONContent): string =>
+   node.text ?? (node.content ?? []).map(getText).join(' ');
+
+/**
+ * Returns the share of common words of two nodes, between 0 and 1.
+ */
+const getSimilarity = (a: JSONContent, b: JSONContent) => {
+   const wordsA = getText(a).toLowerCase().split(/\s+/).filter(Boolean);
+   const wordsB = getText(b).toLowerCase().split(/\s+/).filter(Boolean);
+   if (!wordsA.length && !wordsB.length) return 1;
+   if (!wordsA.length || !wordsB.length) return 0;
+   const common = longestCommonSubsequence(wordsA, wordsB, (word) => word).length;
+   return (2 * common) / (wordsA.length + wordsB.length);
+};
+
+/**
+ * Describes the attributes that differ between two nodes, e.g. `level: 2 → 3`.
+ */
+const describeAttributeChanges = (before: JSONContent, after: JSONContent) => {
+   const oldAttrs = before.attrs ?? {};
+   const newAttrs = after.attrs ?? {};
+   return [...new Set([...Object.keys(oldAttrs), ...Object.keys(newAttrs)])]
+      .filter((key) => !isEqual(oldAttrs[key], newAttrs[key]))
+      .map((key) => `${key}: ${serialize(oldAttrs[key])} → ${serialize(newAttrs[key])}`);
+};
+
+const describeMarks = (marks: Mark[] = []) => marks.map((mark) => mark.type).join(', ') || 'plain';
+
+/**
+ * Compares two documents and returns a merged document annotating the changes.
+ *
+ * @param oldDoc - The earlier version.
+ * @param newDoc - The later version.
+ * @param schema - Schema of the editor, used to tell text blocks, containers and atoms apart.
+ * @returns The merged document and a summary of the changes.
+ */
+export const diffDocuments = (
+   oldDoc: JSONContent,
+   newDoc: JSONContent,
+   schema: Schema
+): DocumentDiffResult => {
+   const summary: DiffSummary = {
+      insertions: 0,
+      deletions: 0,
+      formatChanges: 0,
+      attributeChanges: 0,
+   };
+
+   const isTextblock = (node: JSONContent) => !!node.type && !!schema.nodes[node.type]?.isTextblock;
+   const isLeaf = (node: JSONContent) => !node.type || !!schema.nodes[node.type]?.isLeaf;
+
+   /**
+    * Adds a mark to a node and, for blocks, to all text inside it.
+    */
+   const markContent = (node: JSONContent, mark: string): JSONContent => {
+      if (node.type === 'text' || (node.type && schema.nodes[node.type]?.isInline)) {
+         return { ...node, marks: [...(node.marks ?? []), { type: mark }] };
+      }
+      return node.content
+         ? { ...node, content: node.content.map((child) => markContent(child, mark)) }
+         : node;
+   };
+
+   const markBlock = (node: JSONContent, kind: 'inserted' | 'deleted'): JSONContent => {
+      if (kind === 'inserted') summary.insertions++;
+      else summary.deletions++;
+      return {
+         ...markContent(node, kind === 'inserted' ? DIFF_INSERT_MARK : DIFF_DELETE_MARK),
+         attrs: { ...node.attrs, diff: kind },
+      };
+   };
+
+   /**
+    * Whether two unequal nodes should be compared rather than shown as delete + insert.
+    */
+   const canPair = (before: JSONContent, after: JSONContent) => {
+      if (before.type !== after.type) return false;
+      if (isLeaf(before)) {
+         // A different image or embed is a replacement, not an edit
+         return before.attrs?.src === after.attrs?.src;
+      }
+      if (isTextblock(before)) return getSimilarity(before, after) >= TEXT_SIMILARITY_THRESHOLD;
+      return true;
+   };
+
+   const diffInline = (oldContent: JSONContent[] = [], newContent: JSONContent[] = []) => {
+      const tokenize = (content: JSONContent[]) =>
+         content.flatMap((node) =>
+            node.type === 'text'
+               ? (node.text?.match(TOKEN_PATTERN) ?? []).map((text) => ({ ...node, text }))
+               : [node]
+         );
+      // Tokens are matched by their content; formatting is compared afterwards
+      const key = (node: JSONContent) =>
+         node.type === 'text' ? `text:${node.text}` : serialize({ ...node, marks: undefined });
+
+      const result: JSONContent[] = [];
+      walkAlignment(
+         tokenize(oldContent),
+         tokenize(newContent),
+         key,
+         (before, after) => {
+            if (isEqual(before.marks, after.marks)) {
+               result.push(after);
+               return;
+            }
+            summary.formatChanges++;
+            result.push({
+               ...after,
+               marks: [
+                  ...(after.marks ?? []),
+                  { type: DIFF_FORMAT_MARK, attrs: { previous: describeMarks(before.marks) } },
+               ],
+            });
+         },
+         (removed, added) => {
+            if (removed.some((node) => node.text?.trim() !== '')) summary.deletions++;
+            if (added.some((node) => node.text?.trim() !== '')) summary.insertions++;
+            result.push(...removed.map((node) => markContent(node, DIFF_DELETE_MARK)));
+            result.push(...added.map((node) => markContent(node, DIFF_INSERT_MARK)));
+         }
+      );
+
+      // Join neighbouring words with the same marks back into one text node
+      return result.reduce<JSONContent[]>((merged, node) => {
+         const previous = merged[merged.length - 1];
+         if (
+            previous?.type === 'text' &&
+            node.type === 'text' &&
+            isEqual(previous.marks, node.marks)
+         ) {
+            merged[merged.length - 1] = { ...previous, text: `${previous.text}${node.text}` };
+         } else {
+            merged.push(node);
+         }
+         return merged;
+      }, []);
+   };
+
+   const diffNode = (before: JSONContent, after: JSONContent): JSONContent => {
+      const changes = describeAttributeChanges(before, after);
+      const attrs = changes.length
+         ? { ...after.attrs, diff: 'changed', diffChanges: changes.join('\n') }
+         : after.attrs;
+      if (changes.length) summary.attributeChanges++;
+
+      if (isLeaf(after)) return { ...after, attrs };
+      return {
+         ...after,
+         attrs,
+         content: isTextblock(after)
+            ? diffInline(before.content, after.content)
+            : diffBlocks(before.content, after.content),
+      };
+   };
+
+   /**
+    * Diffs unmatched blocks between two aligned blocks, pairing blocks of the same type in order.
+    */
+   const diffGap = (removed: JSONContent[], added: JSONContent[]) => {
+      const result: JSONContent[] = [];
+      // Inserted blocks wait until the deleted blocks before them are emitted
+      let inserted: JSONContent[] = [];
+      let next = 0;
+      const flush = (end: number) => {
+         result.push(...removed.slice(next, end).map((node) => markBlock(node, 'deleted')));
+         result.push(...inserted.map((node) => markBlock(node, 'inserted')));
+         inserted = [];
+      };
+      for (const after of added) {
+         const index = removed.findIndex((before, i) => i >= next && canPair(before, after));
+         if (index === -1) {
+            inserted.push(after);
+            continue;
+         }
+         flush(index);
+         result.push(diffNode(removed[index], after));
+         next = index + 1;
+      }
+      flush(removed.length);
+      return result;
+   };
+
+   const diffBlocks = (oldContent: JSONContent[] = [], newContent: JSONContent[] = []) => {
+      const result: JSONContent[] = [];
+      walkAlignment(
+         oldContent,
+         newContent,
+         serialize,
+         (_, after) => result.push(after),
+         (removed, added) => result.push(...diffGap(removed, added))
+      );
+      return result;
+   };
+
+   const content = diffNode(oldDoc, newDoc);
+   return {
+      content,
+      summary,
+      hasChanges: Object.values(summary).some(Boolean),
+   };
+};
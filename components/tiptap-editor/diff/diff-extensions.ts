@@ -0,0 +1,109 @@
+/**
+ * @module DiffExtensions
+ *
+ * This module provides the marks and attributes that render a document produced by `diffDocuments`.
+ *
+ * @remarks
+ * - `DiffInsert`, `DiffDelete` and `DiffFormat` render inline changes as `<ins>`, `<del>` and
+ *   `<span class="diff-format">`.
+ * - `DiffHighlight` adds the `diff` and `diffChanges` attributes to every node type and highlights
+ *   changed blocks with node decorations, which also works for node views such as `ImageResizer`.
+ *
+ * @example
+ * ```ts
+ * useEditor({ extensions: [...defaultExtensions, ...diffExtensions], editable: false });
+ * ```
+ */
+import { Extension, Mark } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { DIFF_DELETE_MARK, DIFF_FORMAT_MARK, DIFF_INSERT_MARK } from './diff-document';
+import { i18n } from '../i18n';
+
+export const DiffInsert = Mark.create({
+   name: DIFF_INSERT_MARK,
+   excludes: '',
+   parseHTML() {
+      return [{ tag: 'ins.diff-insert' }];
+   },
+   renderHTML() {
+      return ['ins', { class: 'diff-insert' }, 0];
+   },
+});
+
+export const DiffDelete = Mark.create({
+   name: DIFF_DELETE_MARK,
+   excludes: '',
+   parseHTML() {
+      return [{ tag: 'del.diff-delete' }];
+   },
+   renderHTML() {
+      return ['del', { class: 'diff-delete' }, 0];
+   },
+});
+
+export const DiffFormat = Mark.create({
+   name: DIFF_FORMAT_MARK,
+   excludes: '',
+   addAttributes() {
+      return {
+         previous: {
+            default: null,
+            renderHTML: (attributes) =>
+               attributes.previous
+                  ? { title: `${i18n.t('DIFF_PREVIOUS_FORMAT')}: ${attributes.previous}` }
+                  : {},
+         },
+      };
+   },
+   parseHTML() {
+      return [{ tag: 'span.diff-format' }];
+   },
+   renderHTML({ HTMLAttributes }) {
+      return ['span', { ...HTMLAttributes, class: 'diff-format' }, 0];
+   },
+});
+
+export const DiffHighlight = Extension.create({
+   name: 'diffHighlight',
+
+   addGlobalAttributes() {
+      return [
+         {
+            types: 'nodes',
+            attributes: {
+               diff: { default: null, rendered: false },
+               diffChanges: { default: null, rendered: false },
+            },
+         },
+      ];
+   },
+
+   addProseMirrorPlugins() {
+      return [
+         new Plugin({
+            key: new PluginKey('diffHighlight'),
+            props: {
+               decorations: (state) => {
+                  const decorations: Decoration[] = [];
+                  state.doc.descendants((node, pos) => {
+                     if (!node.attrs.diff) return;
+                     decorations.push(
+                        Decoration.node(pos, pos + node.nodeSize, {
+                           class: `diff-node diff-${node.attrs.diff}`,
+                           ...(node.attrs.diffChanges && { title: node.attrs.diffChanges }),
+                        })
+                     );
+                  });
+                  return DecorationSet.create(state.doc, decorations);
+               },
+            },
+         }),
+      ];
+   },
+});
+
+/**
+ * All extensions needed to render a diff document.
+ */
+export const diffExtensions = [DiffInsert, DiffDelete, DiffFormat, DiffHighlight];
@@ -0,0 +1,85 @@
+'use client';
+
+/**
+ * @module DocumentDiff
+ *
+ * This module provides a read-only view of the changes between two document versions.
+ * The versions are merged by `diffDocuments` and rendered with the editor's own extensions,
+ * so tables, images, task items and embeds look exactly like in the editor.
+ *
+ * @example
+ * ```tsx
+ * <DocumentDiff oldContent={snapshot.json} newContent={editor.getJSON()} />
+ * ```
+ *
+ * @property oldContent - The earlier version as JSON.
+ * @property newContent - The later version as JSON.
+ * @property showSummary - Whether to show the number of changes above the document.
+ * @property className - Custom CSS class for the document.
+ */
+import { useEffect, useState } from 'react';
+import { EditorContent, JSONContent, useEditor } from '@tiptap/react';
+import { defaultExtensions } from '../extensions';
+import { i18n } from '../i18n';
+import { cn } from '../tiptap-utils';
+import { diffDocuments, type DiffSummary } from './diff-document';
+import { diffExtensions } from './diff-extensions';
+
+interface DocumentDiffProps {
+   oldContent: JSONContent;
+   newContent: JSONContent;
+   showSummary?: boolean;
+   className?: string;
+}
+
+export const DocumentDiff = ({
+   oldContent,
+   newContent,
+   showSummary = true,
+   className,
+}: DocumentDiffProps) => {
+   const [summary, setSummary] = useState<DiffSummary | null>(null);
+   const editor = useEditor({
+      extensions: [...defaultExtensions, ...diffExtensions],
+      editable: false,
+      immediatelyRender: false,
+      editorProps: {
+         attributes: {
+            class: cn('tiptap prose prose-sm max-w-none focus:outline-none p-4', className),
+         },
+      },
+   });
+
+   useEffect(() => {
+      if (!editor || editor.isDestroyed) return;
+      const result = diffDocuments(oldContent, newContent, editor.schema);
+      editor.commands.setContent(result.content, { emitUpdate: false });
+      setSummary(result.summary);
+   }, [editor, oldContent, newContent]);
+
+   return (
+      <div>
+         {showSummary && summary && (
+            <div className="flex flex-wrap gap-3 border-b px-4 py-2 text-xs text-muted-foreground">
+               {Object.values(summary).some(Boolean) ? (
+                  <>
+                     <span className="text-green-700 dark:text-green-400">
+                        +{summary.insertions} {i18n.t('DIFF_INSERTIONS')}
+                     </span>
+                     <span className="text-red-700 dark:text-red-400">
+                        −{summary.deletions} {i18n.t('DIFF_DELETIONS')}
+                     </span>
+                     <span className="text-amber-700 dark:text-amber-400">
+                        {summary.formatChanges + summary.attributeChanges}{' '}
+                        {i18n.t('DIFF_FORMAT_CHANGES')}
+                     </span>
+                  </>
+               ) : (
+                  <span>{i18n.t('DIFF_NO_CHANGES')}</span>
+               )}
+            </div>
+         )}
+         <EditorContent editor={editor} />
+      </div>
+   );
+};
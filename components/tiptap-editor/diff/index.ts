@@ -0,0 +1,17 @@
+export {
+   diffDocuments,
+   DIFF_DELETE_MARK,
+   DIFF_FORMAT_MARK,
+   DIFF_INSERT_MARK,
+   type DiffKind,
+   type DiffSummary,
+   type DocumentDiffResult,
+} from './diff-document';
+export {
+   DiffDelete,
+   DiffFormat,
+   DiffHighlight,
+   DiffInsert,
+   diffExtensions,
+} from './diff-extensions';
+export { DocumentDiff } from './document-diff';
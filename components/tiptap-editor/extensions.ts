@@ -23,6 +23,16 @@
 import StarterKit from '@tiptap/starter-kit';
 import Youtube from '@tiptap/extension-youtube';
 import { Twitter } from './extensions/twitter';
+import { TableOfContents } from './extensions/table-of-contents';
+import { Callout } from './extensions/callout';
+import { DetailsKit } from './extensions/details';
+import { ColumnsKit } from './extensions/columns';
+import { PageBreak } from './extensions/page-break';
+import { HeadingAnchors, isAnchorHref } from './extensions/heading-anchors';
+import { FootnoteKit } from './extensions/footnotes';
+import { Mention } from './mention/mention';
+import { CommentMark } from './comments/comment-extension';
+import { Deletion, Insertion } from './track-changes/track-changes-extension';
 import Subscript from '@tiptap/extension-subscript';
 import Superscript from '@tiptap/extension-superscript';
 import Mathematics from '@tiptap/extension-mathematics';
@@ -36,12 +46,43 @@ import { TextStyle, Color, FontFamily, FontSize, LineHeight } from '@tiptap/exte
 import Typography from '@tiptap/extension-typography';
 import Link from '@tiptap/extension-link';
 import { Image } from '@tiptap/extension-image';
-import { ImageUpload, ImageResizer } from './image-upload';
+import { ImageUpload } from './image-upload/image-upload-extension';
+import { ImageResizer } from './image-upload/image-resizer';
 import { MAX_FILE_SIZE, handleImageUpload } from './tiptap-utils';
 import { TableKit } from '@tiptap/extension-table';
-import { i18n } from './i18n';
+import { i18n } from './i18n/i18n';
+
+/**
+ * Syntax highlighter for code blocks, shared with the static renderer.
+ */
+export const lowlight = createLowlight(common);
+
+/**
+ * KaTeX options for math nodes, shared with the static renderer.
+ */
+export const katexOptions = {
+   throwOnError: false,
+   macros: {
+      '\\R': '\\mathbb{R}',
+      '\\N': '\\mathbb{N}',
+   },
+};
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      aiHighlight: {
+         /**
+          * Highlights the selection in purple.
+          */
+         setAIHighlight: () => ReturnType;
+         /**
+          * Removes the highlight of the selection.
+          */
+         unsetAIHighlight: () => ReturnType;
+      };
+   }
+}
 
-const lowlight = createLowlight(common);
 /**
  * Custom extension for AI highlights (purple color).
  */
@@ -125,6 +166,7 @@ export const defaultExtensions = [
       codeBlock: false,
       link: false,
    }),
+   HeadingAnchors,
    TextStyle,
    Color,
    FontFamily,
@@ -147,17 +189,19 @@ export const defaultExtensions = [
       },
    }),
    Twitter,
+   TableOfContents,
+   Callout,
+   DetailsKit,
+   ColumnsKit,
+   PageBreak,
+   FootnoteKit,
+   Mention,
+   CommentMark,
+   Insertion,
+   Deletion,
    Subscript,
    Superscript,
-   Mathematics.configure({
-      katexOptions: {
-         throwOnError: false,
-         macros: {
-            '\\R': '\\mathbb{R}',
-            '\\N': '\\mathbb{N}',
-         },
-      },
-   }),
+   Mathematics.configure({ katexOptions }),
    CodeBlockLowlight.configure({
       lowlight,
       HTMLAttributes: {
@@ -176,6 +220,8 @@ export const defaultExtensions = [
       },
 
       isAllowedUri: (url, ctx) => {
+         // Links to headings of the same document
+         if (isAnchorHref(url)) return true;
          try {
             const parsedUrl = url.includes(':')
                ? new URL(url)
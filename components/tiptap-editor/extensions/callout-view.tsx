@@ -0,0 +1,165 @@
+'use client';
+
+/**
+ * @module CalloutView
+ *
+ * This module provides the React node view of the callout block: a header with the icon, which
+ * opens a popover to change the type and icon, and the editable title above the content.
+ * It is a client module of its own so the extension can also be imported on the server.
+ */
+import {
+   NodeViewContent,
+   NodeViewWrapper,
+   ReactNodeViewRenderer,
+   type NodeViewProps,
+} from '@tiptap/react';
+import { TextSelection } from '@tiptap/pm/state';
+import * as React from 'react';
+import {
+   Info,
+   Lightbulb,
+   OctagonAlert,
+   TriangleAlert,
+   Trash2,
+   type LucideIcon,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { i18n } from '../i18n';
+import { cn } from '../tiptap-utils';
+import { CALLOUT_TYPES, type CalloutAttributes, type CalloutType } from './callout';
+
+/**
+ * Default icon and i18n key of every callout type.
+ */
+export const CALLOUT_TYPE_ITEMS: Record<CalloutType, { icon: LucideIcon; title: string }> = {
+   info: { icon: Info, title: 'CALLOUT_INFO' },
+   tip: { icon: Lightbulb, title: 'CALLOUT_TIP' },
+   warning: { icon: TriangleAlert, title: 'CALLOUT_WARNING' },
+   danger: { icon: OctagonAlert, title: 'CALLOUT_DANGER' },
+};
+
+/**
+ * React component rendering a callout with its header and content.
+ */
+const CalloutComponent = ({ node, editor, getPos, updateAttributes }: NodeViewProps) => {
+   const { type, title, icon } = node.attrs as CalloutAttributes;
+   const [open, setOpen] = React.useState(false);
+   const { icon: TypeIcon } = CALLOUT_TYPE_ITEMS[type] ?? CALLOUT_TYPE_ITEMS.info;
+   const editable = editor.isEditable;
+
+   const removeCallout = () => {
+      const pos = getPos();
+      if (typeof pos !== 'number') return;
+      setOpen(false);
+      editor
+         .chain()
+         .focus()
+         .command(({ tr }) => {
+            tr.setSelection(TextSelection.near(tr.doc.resolve(pos + 1)));
+            return true;
+         })
+         .unsetCallout()
+         .run();
+   };
+
+   const iconButton = (
+      <span className="callout-icon" aria-hidden>
+         {icon || <TypeIcon className="h-4 w-4" />}
+      </span>
+   );
+
+   return (
+      <NodeViewWrapper as="aside" role="note" data-callout={type} className="callout">
+         <div className="callout-header" contentEditable={false}>
+            {editable ? (
+               <Popover open={open} onOpenChange={setOpen}>
+                  <PopoverTrigger asChild>
+                     <button
+                        type="button"
+                        className="callout-icon-button"
+                        title={i18n.t('CALLOUT')}
+                     >
+                        {iconButton}
+                     </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-56 p-2" align="start">
+                     <div className="grid grid-cols-2 gap-1">
+                        {CALLOUT_TYPES.map((value) => {
+                           const item = CALLOUT_TYPE_ITEMS[value];
+                           return (
+                              <Button
+                                 key={value}
+                                 variant={value === type ? 'secondary' : 'ghost'}
+                                 size="sm"
+                                 className="justify-start"
+                                 onClick={() => updateAttributes({ type: value })}
+                              >
+                                 <item.icon className="h-4 w-4" />
+                                 {i18n.t(item.title)}
+                              </Button>
+                           );
+                        })}
+                     </div>
+                     <label className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+                        {i18n.t('CALLOUT_ICON')}
+                        <Input
+                           value={icon ?? ''}
+                           maxLength={8}
+                           placeholder={i18n.t('CALLOUT_ICON_PLACEHOLDER')}
+                           className="h-8"
+                           onChange={(event) =>
+                              updateAttributes({ icon: event.target.value.trim() || null })
+                           }
+                        />
+                     </label>
+                     <Button
+                        variant="ghost"
+                        size="sm"
+                        className="mt-2 w-full justify-start text-red-600"
+                        onClick={removeCallout}
+                     >
+                        <Trash2 className="h-4 w-4" />
+                        {i18n.t('REMOVE_CALLOUT')}
+                     </Button>
+                  </PopoverContent>
+               </Popover>
+            ) : (
+               iconButton
+            )}
+            {editable ? (
+               <input
+                  value={title ?? ''}
+                  placeholder={i18n.t('CALLOUT_TITLE_PLACEHOLDER')}
+                  className={cn('callout-title', !title && 'callout-title-empty')}
+                  onChange={(event) => updateAttributes({ title: event.target.value || null })}
+                  onKeyDown={(event) => {
+                     // Enter moves on to the content
+                     if (event.key !== 'Enter') return;
+                     event.preventDefault();
+                     const pos = getPos();
+                     if (typeof pos !== 'number') return;
+                     editor
+                        .chain()
+                        .focus()
+                        .command(({ tr }) => {
+                           tr.setSelection(TextSelection.near(tr.doc.resolve(pos + 1)));
+                           return true;
+                        })
+                        .run();
+                  }}
+               />
+            ) : (
+               title && <strong className="callout-title">{title}</strong>
+            )}
+         </div>
+         <NodeViewContent className="callout-content" />
+      </NodeViewWrapper>
+   );
+};
+
+/**
+ * Creates the node view of a callout block.
+ */
+export const createCalloutNodeView = () => ReactNodeViewRenderer(CalloutComponent);
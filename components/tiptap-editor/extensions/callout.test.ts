@@ -0,0 +1,45 @@
+// @vitest-environment jsdom
+import { Editor } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { afterEach, describe, expect, it } from 'vitest';
+import { Callout } from './callout';
+
+describe('Callout', () => {
+   let editor: Editor;
+
+   const parse = (html: string) => {
+      editor = new Editor({ extensions: [StarterKit, Callout], content: html });
+      return editor.getJSON().content;
+   };
+
+   afterEach(() => {
+      editor?.destroy();
+   });
+
+   it('parses a callout without a content wrapper', () => {
+      expect(parse('<aside data-callout="tip"><p>plain</p></aside>')).toEqual([
+         {
+            type: 'callout',
+            attrs: { type: 'tip', title: null, icon: null },
+            content: [{ type: 'paragraph', content: [{ type: 'text', text: 'plain' }] }],
+         },
+      ]);
+   });
+
+   it('keeps the content of a nested callout inside it', () => {
+      const [outer] = parse(
+         '<aside data-callout="info"><div data-callout-content><p>Before</p>' +
+            '<aside data-callout="warning"><div data-callout-content><p>Inner</p></div></aside>' +
+            '<p>After</p></div></aside>'
+      )!;
+      expect(outer.content?.map((node) => node.type)).toEqual([
+         'paragraph',
+         'callout',
+         'paragraph',
+      ]);
+      expect(outer.content?.[1]).toMatchObject({
+         attrs: { type: 'warning' },
+         content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Inner' }] }],
+      });
+   });
+});
@@ -0,0 +1,172 @@
+/**
+ * @module Callout
+ *
+ * This module provides the callout block for the Tiptap editor: a box of block content with a
+ * type (info, tip, warning or danger), an optional title and an optional icon.
+ *
+ * @remarks
+ * - Callouts can contain any block content, including lists, tables and other callouts.
+ * - `toggleCallout` wraps the selected blocks in a callout or lifts them out of it,
+ *   `updateCallout` changes the type, title or icon of the callout at the cursor.
+ * - In the editor a React node view renders a header to change the type, icon and title
+ *   (see `callout-view.tsx`).
+ * - HTML output is an `aside[data-callout]` with a `[data-callout-header]` for the icon and
+ *   title and a `[data-callout-content]` for the blocks. The Markdown converter writes it as a
+ *   GitHub alert (`> [!NOTE]`), and the DOCX export as shaded paragraphs with a border.
+ *
+ * @example
+ * ```ts
+ * editor.chain().focus().toggleCallout({ type: 'warning', title: 'Careful' }).run();
+ * editor.commands.updateCallout({ type: 'danger' });
+ * ```
+ */
+import { Node, mergeAttributes } from '@tiptap/core';
+import type { DOMOutputSpec } from '@tiptap/pm/model';
+import { liftTarget } from '@tiptap/pm/transform';
+import { createCalloutNodeView } from './callout-view';
+
+export const CALLOUT_TYPES = ['info', 'tip', 'warning', 'danger'] as const;
+
+export type CalloutType = (typeof CALLOUT_TYPES)[number];
+
+/**
+ * Attributes of a callout.
+ *
+ * @property type - Kind of the callout, which sets its color and default icon.
+ * @property title - Title shown above the content (optional).
+ * @property icon - Emoji replacing the default icon of the type (optional).
+ */
+export interface CalloutAttributes {
+   type: CalloutType;
+   title: string | null;
+   icon: string | null;
+}
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      callout: {
+         /**
+          * Wraps the selected blocks in a callout.
+          */
+         setCallout: (attributes?: Partial<CalloutAttributes>) => ReturnType;
+         /**
+          * Wraps the selected blocks in a callout, or lifts them out of the callout.
+          */
+         toggleCallout: (attributes?: Partial<CalloutAttributes>) => ReturnType;
+         /**
+          * Replaces the callout around the cursor with its content.
+          */
+         unsetCallout: () => ReturnType;
+         /**
+          * Changes the type, title or icon of the callout at the cursor.
+          */
+         updateCallout: (attributes: Partial<CalloutAttributes>) => ReturnType;
+      };
+   }
+}
+
+const isCalloutType = (value: unknown): value is CalloutType =>
+   (CALLOUT_TYPES as readonly unknown[]).includes(value);
+
+export const Callout = Node.create({
+   name: 'callout',
+
+   group: 'block',
+
+   content: 'block+',
+
+   defining: true,
+
+   draggable: true,
+
+   addAttributes() {
+      return {
+         type: {
+            default: 'info' satisfies CalloutType,
+            parseHTML: (element) => {
+               const type = element.getAttribute('data-callout');
+               return isCalloutType(type) ? type : 'info';
+            },
+            renderHTML: (attributes) => ({ 'data-callout': attributes.type }),
+         },
+         title: {
+            default: null,
+            parseHTML: (element) =>
+               element
+                  .querySelector(':scope > [data-callout-header] > [data-callout-title]')
+                  ?.textContent?.trim() || null,
+            // Rendered in the header
+            renderHTML: () => ({}),
+         },
+         icon: {
+            default: null,
+            parseHTML: (element) => element.getAttribute('data-icon') || null,
+            renderHTML: (attributes) => (attributes.icon ? { 'data-icon': attributes.icon } : {}),
+         },
+      };
+   },
+
+   parseHTML() {
+      return [
+         {
+            tag: 'aside[data-callout]',
+            // The callout's own content, not a nested one's; pasted callouts may have no wrapper
+            contentElement: (element) =>
+               (element as HTMLElement).querySelector<HTMLElement>(
+                  ':scope > [data-callout-content]'
+               ) ?? (element as HTMLElement),
+         },
+      ];
+   },
+
+   renderHTML({ node, HTMLAttributes }) {
+      const { title, icon } = node.attrs as CalloutAttributes;
+      const header: DOMOutputSpec[] = [
+         ...(icon ? [['span', { 'data-callout-icon': '' }, icon] as DOMOutputSpec] : []),
+         ...(title ? [['strong', { 'data-callout-title': '' }, title] as DOMOutputSpec] : []),
+      ];
+      return [
+         'aside',
+         mergeAttributes({ role: 'note', class: 'callout' }, HTMLAttributes),
+         ...(header.length ? [['div', { 'data-callout-header': '' }, ...header]] : []),
+         ['div', { 'data-callout-content': '' }, 0],
+      ];
+   },
+
+   addNodeView() {
+      return createCalloutNodeView();
+   },
+
+   addCommands() {
+      return {
+         setCallout:
+            (attributes) =>
+            ({ commands }) =>
+               commands.wrapIn(this.name, attributes),
+         toggleCallout:
+            (attributes) =>
+            ({ commands }) =>
+               commands.toggleWrap(this.name, attributes),
+         unsetCallout:
+            () =>
+            ({ state, tr, dispatch }) => {
+               const { $from } = state.selection;
+               for (let depth = $from.depth; depth > 0; depth--) {
+                  if ($from.node(depth).type !== this.type) continue;
+                  const range = tr.doc
+                     .resolve($from.start(depth))
+                     .blockRange(tr.doc.resolve($from.end(depth)));
+                  const target = range && liftTarget(range);
+                  if (!range || target === null) return false;
+                  if (dispatch) tr.lift(range, target);
+                  return true;
+               }
+               return false;
+            },
+         updateCallout:
+            (attributes) =>
+            ({ commands }) =>
+               commands.updateAttributes(this.name, attributes),
+      };
+   },
+});
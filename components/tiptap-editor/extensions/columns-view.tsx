@@ -0,0 +1,204 @@
+'use client';
+
+/**
+ * @module ColumnsView
+ *
+ * This module provides the React node view of the columns block: a menu with layout presets and
+ * the gutters between the columns, which resize the columns next to them when dragged or moved
+ * with the arrow keys.
+ * It is a client module of its own so the extension can also be imported on the server.
+ */
+import {
+   NodeViewContent,
+   NodeViewWrapper,
+   ReactNodeViewRenderer,
+   type NodeViewProps,
+} from '@tiptap/react';
+import { TextSelection } from '@tiptap/pm/state';
+import * as React from 'react';
+import { Columns3, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { i18n } from '../i18n';
+import { COLUMN_LAYOUTS, MIN_COLUMN_WIDTH, getColumnWidths, getUnsetColumnWidth } from './columns';
+
+/**
+ * Gap between columns, as in the styles of the editor and the exported HTML.
+ */
+const COLUMN_GAP = '1.5rem';
+
+/**
+ * Step of the arrow keys on a gutter, as a percentage of the row.
+ */
+const KEYBOARD_STEP = 5;
+
+const round = (width: number) => Math.round(width * 100) / 100;
+
+/**
+ * Small preview of a layout, drawn with the widths of its columns.
+ */
+const LayoutPreview = ({ widths }: { widths: number[] }) => (
+   <span className="flex h-4 w-12 gap-0.5" aria-hidden>
+      {widths.map((width, index) => (
+         <span key={index} className="rounded-sm bg-current opacity-40" style={{ flex: width }} />
+      ))}
+   </span>
+);
+
+/**
+ * React component rendering a columns block with its menu and gutters.
+ */
+const ColumnsComponent = ({ node, editor, getPos }: NodeViewProps) => {
+   const [open, setOpen] = React.useState(false);
+   const widths = getColumnWidths(node);
+   const editable = editor.isEditable;
+
+   const setLayout = (layout: number[]) => {
+      const pos = getPos();
+      if (typeof pos === 'number') editor.commands.setColumnLayout(layout, pos);
+   };
+
+   /**
+    * Moves the gutter after a column, keeping the total width of the two columns next to it.
+    */
+   const resize = (index: number, width: number, start = widths) => {
+      const pair = start[index] + start[index + 1];
+      const left = round(Math.min(Math.max(width, MIN_COLUMN_WIDTH), pair - MIN_COLUMN_WIDTH));
+      const layout = [...start];
+      layout[index] = left;
+      layout[index + 1] = round(pair - left);
+      setLayout(layout);
+   };
+
+   const startResize = (index: number, event: React.PointerEvent<HTMLElement>) => {
+      const content = event.currentTarget.parentElement?.querySelector('.columns-content');
+      if (!content || event.button !== 0) return;
+      event.preventDefault();
+      const start = widths;
+      const gap = Number.parseFloat(
+         getComputedStyle(content.firstElementChild ?? content).columnGap
+      );
+      const available = content.getBoundingClientRect().width - (gap || 0) * (start.length - 1);
+      const startX = event.clientX;
+
+      const move = (moveEvent: PointerEvent) => {
+         const delta = ((moveEvent.clientX - startX) / available) * 100;
+         resize(index, start[index] + delta, start);
+      };
+      const stop = () => {
+         window.removeEventListener('pointermove', move);
+         window.removeEventListener('pointerup', stop);
+      };
+      window.addEventListener('pointermove', move);
+      window.addEventListener('pointerup', stop);
+   };
+
+   const removeColumns = () => {
+      const pos = getPos();
+      if (typeof pos !== 'number') return;
+      setOpen(false);
+      editor
+         .chain()
+         .focus()
+         .command(({ tr }) => {
+            tr.setSelection(TextSelection.near(tr.doc.resolve(pos + 2)));
+            return true;
+         })
+         .unsetColumns()
+         .run();
+   };
+
+   let offset = 0;
+   const gutters = widths.slice(0, -1).map((width, index) => {
+      offset += width;
+      // Middle of the gap after the column, between the columns shrunk by the gaps
+      const left = `calc((100% - ${widths.length - 1} * ${COLUMN_GAP}) * ${offset / 100} + ${index + 0.5} * ${COLUMN_GAP})`;
+      return { index, left, width };
+   });
+
+   return (
+      <NodeViewWrapper
+         className="columns-block"
+         style={
+            {
+               '--unset-column-width': getUnsetColumnWidth(node) ?? undefined,
+            } as React.CSSProperties
+         }
+      >
+         {editable && (
+            <div className="columns-menu" contentEditable={false}>
+               <Popover open={open} onOpenChange={setOpen}>
+                  <PopoverTrigger asChild>
+                     <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        title={i18n.t('COLUMN_LAYOUT')}
+                     >
+                        <Columns3 className="h-4 w-4" />
+                     </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-48 p-2" align="end">
+                     <div className="grid grid-cols-2 gap-1">
+                        {COLUMN_LAYOUTS.map((layout) => (
+                           <Button
+                              key={layout.join('-')}
+                              variant={
+                                 layout.length === widths.length &&
+                                 layout.every((width, index) => Math.abs(width - widths[index]) < 1)
+                                    ? 'secondary'
+                                    : 'ghost'
+                              }
+                              size="sm"
+                              title={layout.map(Math.round).join(' / ')}
+                              onClick={() => setLayout(layout)}
+                           >
+                              <LayoutPreview widths={layout} />
+                           </Button>
+                        ))}
+                     </div>
+                     <Button
+                        variant="ghost"
+                        size="sm"
+                        className="mt-2 w-full justify-start text-red-600"
+                        onClick={removeColumns}
+                     >
+                        <Trash2 className="h-4 w-4" />
+                        {i18n.t('REMOVE_COLUMNS')}
+                     </Button>
+                  </PopoverContent>
+               </Popover>
+            </div>
+         )}
+         <NodeViewContent className="columns-content" />
+         {editable &&
+            gutters.map(({ index, left, width }) => (
+               <div
+                  key={index}
+                  role="separator"
+                  aria-orientation="vertical"
+                  aria-label={i18n.t('RESIZE_COLUMNS')}
+                  aria-valuenow={Math.round(width)}
+                  aria-valuemin={MIN_COLUMN_WIDTH}
+                  aria-valuemax={100 - MIN_COLUMN_WIDTH}
+                  tabIndex={0}
+                  contentEditable={false}
+                  className="columns-gutter"
+                  style={{ left }}
+                  onPointerDown={(event) => startResize(index, event)}
+                  onKeyDown={(event) => {
+                     if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+                     event.preventDefault();
+                     const step = event.key === 'ArrowLeft' ? -KEYBOARD_STEP : KEYBOARD_STEP;
+                     resize(index, widths[index] + step);
+                  }}
+               />
+            ))}
+      </NodeViewWrapper>
+   );
+};
+
+/**
+ * Creates the node view of a columns block.
+ */
+export const createColumnsNodeView = () => ReactNodeViewRenderer(ColumnsComponent);
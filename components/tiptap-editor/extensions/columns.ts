@@ -0,0 +1,295 @@
+/**
+ * @module Columns
+ *
+ * This module provides column layouts for the Tiptap editor: a columns block with two to four
+ * columns side by side, each holding any block content.
+ *
+ * @remarks
+ * - Every column stores its width as a percentage of the row; the widths of a layout add up
+ *   to 100. Columns without a width, e.g. from pasted HTML, share the rest of the row: the block
+ *   passes their width to them in the `--unset-column-width` CSS variable.
+ * - `setColumnLayout` changes the number of columns and their widths. Content of removed
+ *   columns moves to the last remaining column.
+ * - In the editor a React node view adds a menu with layout presets and gutters that resize the
+ *   columns next to them when dragged (see `columns-view.tsx`). The whole block is moved with
+ *   the drag handle.
+ * - HTML output is a `div[data-columns]` of `div[data-column]` laid out with flexbox; narrow
+ *   screens show the columns below each other. The DOCX export writes a borderless table.
+ *
+ * @example
+ * ```ts
+ * editor.chain().focus().insertColumns(3).run();
+ * editor.commands.setColumnLayout([30, 70]);
+ * ```
+ */
+import { Extension, Node, mergeAttributes } from '@tiptap/core';
+import { Fragment, type Node as ProseMirrorNode, type ResolvedPos } from '@tiptap/pm/model';
+import { TextSelection } from '@tiptap/pm/state';
+import { createColumnsNodeView } from './columns-view';
+
+export const MIN_COLUMNS = 2;
+
+export const MAX_COLUMNS = 4;
+
+/**
+ * Narrowest column, as a percentage of the row.
+ */
+export const MIN_COLUMN_WIDTH = 10;
+
+/**
+ * Layouts offered in the columns menu, as column widths.
+ */
+export const COLUMN_LAYOUTS: number[][] = [
+   [50, 50],
+   [33.33, 66.67],
+   [66.67, 33.33],
+   [33.33, 33.34, 33.33],
+   [25, 50, 25],
+   [25, 25, 25, 25],
+];
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      columns: {
+         /**
+          * Inserts a columns block with equal columns and moves the cursor into the first one.
+          */
+         insertColumns: (count?: number) => ReturnType;
+         /**
+          * Sets the number and widths of the columns at a position, or around the cursor.
+          */
+         setColumnLayout: (widths: number[], pos?: number) => ReturnType;
+         /**
+          * Replaces the columns around the cursor with the content of their columns.
+          */
+         unsetColumns: () => ReturnType;
+      };
+   }
+}
+
+/**
+ * Splits 100 into equal column widths.
+ */
+const equalWidths = (count: number) =>
+   Array.from({ length: count }, () => Math.round((100 / count) * 100) / 100);
+
+/**
+ * Returns the widths of the columns of a columns block, adding up to 100. Columns without a
+ * width share the rest equally.
+ */
+export const getColumnWidths = (node: ProseMirrorNode) => {
+   const widths: (number | null)[] = [];
+   node.forEach((column) => widths.push(column.attrs.width));
+   const given = widths.filter((width): width is number => width !== null);
+   const rest = Math.max(0, 100 - given.reduce((sum, width) => sum + width, 0));
+   const filled = widths.map((width) => width ?? rest / (widths.length - given.length));
+   const total = filled.reduce((sum, width) => sum + width, 0) || 1;
+   return filled.map((width) => Math.round((width / total) * 10000) / 100);
+};
+
+/**
+ * Returns the width of the columns without a width of a columns block, as given by
+ * `getColumnWidths`, or `null` when every column has one.
+ */
+export const getUnsetColumnWidth = (node: ProseMirrorNode) => {
+   let index = -1;
+   node.forEach((column, _, i) => {
+      if (index === -1 && column.attrs.width === null) index = i;
+   });
+   return index === -1 ? null : getColumnWidths(node)[index];
+};
+
+/**
+ * Returns the innermost columns block around a position and its position.
+ */
+const findColumns = ($pos: ResolvedPos) => {
+   for (let depth = $pos.depth; depth > 0; depth--) {
+      const node = $pos.node(depth);
+      if (node.type.name === 'columns') return { node, pos: $pos.before(depth) };
+   }
+   return null;
+};
+
+export const Columns = Node.create({
+   name: 'columns',
+
+   group: 'block',
+
+   content: `column{${MIN_COLUMNS},${MAX_COLUMNS}}`,
+
+   defining: true,
+
+   isolating: true,
+
+   draggable: true,
+
+   parseHTML() {
+      return [{ tag: 'div[data-columns]' }];
+   },
+
+   renderHTML({ node, HTMLAttributes }) {
+      const style = ['display: flex', 'gap: 1.5rem'];
+      const unsetWidth = getUnsetColumnWidth(node);
+      if (unsetWidth !== null) style.push(`--unset-column-width: ${unsetWidth}`);
+      return [
+         'div',
+         mergeAttributes(HTMLAttributes, {
+            'data-columns': '',
+            class: 'columns',
+            style: style.join('; '),
+         }),
+         0,
+      ];
+   },
+
+   addNodeView() {
+      return createColumnsNodeView();
+   },
+
+   addCommands() {
+      return {
+         insertColumns:
+            (count = MIN_COLUMNS) =>
+            ({ state, tr, dispatch }) => {
+               if (count < MIN_COLUMNS || count > MAX_COLUMNS) return false;
+               const { schema, selection } = state;
+               const node = this.type.create(
+                  null,
+                  equalWidths(count).map((width) =>
+                     schema.nodes.column.create({ width }, schema.nodes.paragraph.create())
+                  )
+               );
+               const { $from } = selection;
+               if (!$from.parent.isTextblock || $from.depth < 1) return false;
+               const parent = $from.node(-1);
+               const index = $from.index(-1);
+               const fragment = Fragment.from(node);
+               // Replace an empty textblock, like the one left by the slash command
+               const range =
+                  $from.parent.content.size === 0 && parent.canReplace(index, index + 1, fragment)
+                     ? { from: $from.before(), to: $from.after() }
+                     : parent.canReplace(index + 1, index + 1, fragment)
+                       ? { from: $from.after(), to: $from.after() }
+                       : null;
+               if (!range) return false;
+               if (dispatch) {
+                  tr.replaceWith(range.from, range.to, node);
+                  tr.setSelection(TextSelection.create(tr.doc, range.from + 3)).scrollIntoView();
+               }
+               return true;
+            },
+         setColumnLayout:
+            (widths, pos) =>
+            ({ state, tr, dispatch }) => {
+               if (widths.length < MIN_COLUMNS || widths.length > MAX_COLUMNS) return false;
+               const node = pos === undefined ? null : state.doc.nodeAt(pos);
+               const columns =
+                  node?.type === this.type
+                     ? { node, pos: pos! }
+                     : findColumns(state.selection.$from);
+               if (!columns) return false;
+               if (!dispatch) return true;
+
+               const { schema } = state;
+               const children: ProseMirrorNode[] = [];
+               columns.node.forEach((column) => children.push(column));
+               if (children.length === widths.length) {
+                  let offset = columns.pos + 1;
+                  children.forEach((column, index) => {
+                     if (column.attrs.width !== widths[index]) {
+                        tr.setNodeAttribute(offset, 'width', widths[index]);
+                     }
+                     offset += column.nodeSize;
+                  });
+                  return true;
+               }
+
+               const kept = children.slice(0, widths.length);
+               while (kept.length < widths.length) {
+                  kept.push(schema.nodes.column.create(null, schema.nodes.paragraph.create()));
+               }
+               const moved: ProseMirrorNode[] = [];
+               children
+                  .slice(widths.length)
+                  .forEach((column) => column.forEach((block) => moved.push(block)));
+               const last = kept[kept.length - 1];
+               kept[kept.length - 1] = last.copy(last.content.append(Fragment.from(moved)));
+               tr.replaceWith(
+                  columns.pos,
+                  columns.pos + columns.node.nodeSize,
+                  this.type.create(
+                     columns.node.attrs,
+                     kept.map((column, index) =>
+                        column.type.create({ width: widths[index] }, column.content)
+                     )
+                  )
+               );
+               return true;
+            },
+         unsetColumns:
+            () =>
+            ({ state, tr, dispatch }) => {
+               const columns = findColumns(state.selection.$from);
+               if (!columns) return false;
+               const blocks: ProseMirrorNode[] = [];
+               columns.node.forEach((column) => column.forEach((block) => blocks.push(block)));
+               const $pos = state.doc.resolve(columns.pos);
+               const index = $pos.index();
+               if (!$pos.parent.canReplace(index, index + 1, Fragment.from(blocks))) return false;
+               if (dispatch) {
+                  tr.replaceWith(columns.pos, columns.pos + columns.node.nodeSize, blocks);
+                  tr.setSelection(TextSelection.near(tr.doc.resolve(columns.pos + 1)));
+               }
+               return true;
+            },
+      };
+   },
+});
+
+export const Column = Node.create({
+   name: 'column',
+
+   content: 'block+',
+
+   defining: true,
+
+   isolating: true,
+
+   addAttributes() {
+      return {
+         width: {
+            default: null,
+            parseHTML: (element) => {
+               const width = Number.parseFloat(element.getAttribute('data-width') ?? '');
+               return Number.isFinite(width) ? width : null;
+            },
+            renderHTML: (attributes) =>
+               attributes.width === null
+                  ? { style: 'flex: var(--unset-column-width, 1) 1 0%; min-width: 0' }
+                  : {
+                       'data-width': attributes.width,
+                       style: `flex: ${attributes.width} 1 0%; min-width: 0`,
+                    },
+         },
+      };
+   },
+
+   parseHTML() {
+      return [{ tag: 'div[data-column]' }];
+   },
+
+   renderHTML({ HTMLAttributes }) {
+      return ['div', mergeAttributes(HTMLAttributes, { 'data-column': '', class: 'column' }), 0];
+   },
+});
+
+/**
+ * Columns block and column nodes.
+ */
+export const ColumnsKit = Extension.create({
+   name: 'columnsKit',
+
+   addExtensions() {
+      return [Columns, Column];
+   },
+});
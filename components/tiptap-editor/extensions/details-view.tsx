@@ -0,0 +1,63 @@
+'use client';
+
+/**
+ * @module DetailsView
+ *
+ * This module provides the React node view of collapsible sections: a toggle button before the
+ * summary that shows or hides the content.
+ * It is a client module of its own so the extension can also be imported on the server.
+ */
+import {
+   NodeViewContent,
+   NodeViewWrapper,
+   ReactNodeViewRenderer,
+   type NodeViewProps,
+} from '@tiptap/react';
+import * as React from 'react';
+import { ChevronRight } from 'lucide-react';
+import { i18n } from '../i18n';
+import { cn } from '../tiptap-utils';
+
+/**
+ * React component rendering a section with its toggle button.
+ * In a read-only editor the toggle only changes the view, not the document.
+ */
+const DetailsComponent = ({ node, editor, getPos }: NodeViewProps) => {
+   const [viewOpen, setViewOpen] = React.useState<boolean>(node.attrs.open);
+   const editable = editor.isEditable;
+   const open: boolean = editable ? node.attrs.open : viewOpen;
+
+   React.useEffect(() => {
+      setViewOpen(node.attrs.open);
+   }, [node.attrs.open]);
+
+   const toggle = () => {
+      if (!editable) {
+         setViewOpen(!open);
+         return;
+      }
+      const pos = getPos();
+      if (typeof pos === 'number') editor.commands.toggleDetails(pos);
+   };
+
+   return (
+      <NodeViewWrapper className="details" data-open={open ? '' : undefined}>
+         <button
+            type="button"
+            contentEditable={false}
+            className="details-toggle"
+            aria-expanded={open}
+            title={i18n.t(open ? 'COLLAPSE_SECTION' : 'EXPAND_SECTION')}
+            onClick={toggle}
+         >
+            <ChevronRight className={cn('h-4 w-4 transition-transform', open && 'rotate-90')} />
+         </button>
+         <NodeViewContent className="details-content" />
+      </NodeViewWrapper>
+   );
+};
+
+/**
+ * Creates the node view of a collapsible section.
+ */
+export const createDetailsNodeView = () => ReactNodeViewRenderer(DetailsComponent);
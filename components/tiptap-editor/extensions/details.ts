@@ -0,0 +1,368 @@
+/**
+ * @module Details
+ *
+ * This module provides collapsible sections for the Tiptap editor: a summary line and block
+ * content that is shown or hidden, stored as native `<details>` and `<summary>` elements.
+ *
+ * @remarks
+ * - The open state is the `open` attribute of the node, so it is saved with the document and
+ *   exported as the `open` attribute of `<details>`.
+ * - Sections can be nested in lists, tables, callouts and other sections.
+ * - `setDetails` wraps the selected blocks in a section; when the blocks cannot be wrapped, like
+ *   the first paragraph of a list item, an empty section is inserted below the cursor.
+ *   `unsetDetails` turns the section back into a paragraph with its content below.
+ * - Keyboard: in the summary, `Enter` opens the section and moves into its content,
+ *   `Ctrl/Cmd + Enter` opens or closes it and `Backspace` at the start removes the section.
+ *   The arrow keys skip the content of a closed section, and a section whose hidden content
+ *   gets the cursor in another way (undo, search, links) is opened.
+ * - In the editor a React node view renders a toggle button with `aria-expanded`
+ *   (see `details-view.tsx`).
+ *
+ * @example
+ * ```ts
+ * editor.chain().focus().setDetails().run();
+ * editor.commands.toggleDetails();
+ * ```
+ */
+import { Extension, Node, mergeAttributes } from '@tiptap/core';
+import { Fragment, type Node as ProseMirrorNode, type ResolvedPos } from '@tiptap/pm/model';
+import { Plugin, PluginKey, Selection, TextSelection } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { i18n } from '../i18n';
+import { createDetailsNodeView } from './details-view';
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      details: {
+         /**
+          * Wraps the selected blocks in an open section, or inserts an empty section below the
+          * cursor, and moves the cursor into its summary.
+          */
+         setDetails: () => ReturnType;
+         /**
+          * Replaces the section around the cursor with a paragraph of its summary and its content.
+          */
+         unsetDetails: () => ReturnType;
+         /**
+          * Opens or closes the section at a position, or the section around the cursor.
+          */
+         toggleDetails: (pos?: number) => ReturnType;
+      };
+   }
+}
+
+/**
+ * Returns the innermost section around a position and its position.
+ */
+const findDetails = ($pos: ResolvedPos) => {
+   for (let depth = $pos.depth; depth > 0; depth--) {
+      const node = $pos.node(depth);
+      if (node.type.name === 'details') return { node, pos: $pos.before(depth), depth };
+   }
+   return null;
+};
+
+/**
+ * Returns the outermost closed section whose hidden content contains a position.
+ */
+const findClosedDetails = ($pos: ResolvedPos) => {
+   for (let depth = 1; depth < $pos.depth; depth++) {
+      const node = $pos.node(depth);
+      if (node.type.name === 'details' && !node.attrs.open && $pos.index(depth) > 0) {
+         return { node, pos: $pos.before(depth) };
+      }
+   }
+   return null;
+};
+
+/**
+ * Returns the closed section right before the block of a position, if the position is at the
+ * start of that block.
+ */
+const findClosedDetailsBefore = ($pos: ResolvedPos) => {
+   for (let depth = $pos.depth; depth > 0; depth--) {
+      const index = $pos.index(depth - 1);
+      if (index > 0) {
+         const node = $pos.node(depth - 1).child(index - 1);
+         if (node.type.name !== 'details' || node.attrs.open) return null;
+         return { node, pos: $pos.before(depth) - node.nodeSize };
+      }
+   }
+   return null;
+};
+
+/**
+ * End of the summary of a section.
+ */
+const summaryEnd = (details: { node: ProseMirrorNode; pos: number }) =>
+   details.pos + details.node.firstChild!.nodeSize;
+
+export const Details = Node.create({
+   name: 'details',
+
+   group: 'block',
+
+   content: 'detailsSummary block+',
+
+   defining: true,
+
+   isolating: true,
+
+   draggable: true,
+
+   addAttributes() {
+      return {
+         open: {
+            default: true,
+            parseHTML: (element) => element.hasAttribute('open'),
+            renderHTML: (attributes) => (attributes.open ? { open: '' } : {}),
+         },
+      };
+   },
+
+   parseHTML() {
+      return [{ tag: 'details' }];
+   },
+
+   renderHTML({ HTMLAttributes }) {
+      return ['details', mergeAttributes({ class: 'details' }, HTMLAttributes), 0];
+   },
+
+   addNodeView() {
+      return createDetailsNodeView();
+   },
+
+   addCommands() {
+      return {
+         setDetails:
+            () =>
+            ({ state, tr, dispatch }) => {
+               const { schema } = state;
+               const { $from, $to } = state.selection;
+               const range = $from.blockRange($to);
+               if (!range) return false;
+
+               const blocks: ProseMirrorNode[] = [];
+               for (let index = range.startIndex; index < range.endIndex; index++) {
+                  blocks.push(range.parent.child(index));
+               }
+               const wrapped = this.type.create({ open: true }, [
+                  schema.nodes.detailsSummary.create(),
+                  ...blocks,
+               ]);
+               if (
+                  this.type.validContent(wrapped.content) &&
+                  range.parent.canReplace(range.startIndex, range.endIndex, Fragment.from(wrapped))
+               ) {
+                  if (dispatch) {
+                     tr.replaceWith(range.start, range.end, wrapped);
+                     tr.setSelection(
+                        TextSelection.create(tr.doc, range.start + 2)
+                     ).scrollIntoView();
+                  }
+                  return true;
+               }
+
+               // The blocks cannot be wrapped, insert an empty section after the cursor's block
+               if (!state.selection.empty || $from.depth < 1) return false;
+               const parent = $from.node(-1);
+               const index = $from.indexAfter(-1);
+               const empty = this.type.create({ open: true }, [
+                  schema.nodes.detailsSummary.create(),
+                  schema.nodes.paragraph.create(),
+               ]);
+               if (!parent.canReplace(index, index, Fragment.from(empty))) return false;
+               if (dispatch) {
+                  const pos = $from.after();
+                  tr.insert(pos, empty);
+                  tr.setSelection(TextSelection.create(tr.doc, pos + 2)).scrollIntoView();
+               }
+               return true;
+            },
+         unsetDetails:
+            () =>
+            ({ state, tr, dispatch }) => {
+               const details = findDetails(state.selection.$from);
+               if (!details) return false;
+               const { node, pos, depth } = details;
+               const summary = node.firstChild!;
+               const content: ProseMirrorNode[] = [
+                  state.schema.nodes.paragraph.create(null, summary.content),
+               ];
+               node.forEach((child, _offset, index) => {
+                  if (index > 0) content.push(child);
+               });
+               const $pos = state.doc.resolve(pos);
+               const index = $pos.index(depth - 1);
+               if (!$pos.parent.canReplace(index, index + 1, Fragment.from(content))) return false;
+               if (dispatch) {
+                  const offset = state.selection.from - (pos + 2);
+                  tr.replaceWith(pos, pos + node.nodeSize, content);
+                  if (offset >= 0 && offset <= summary.content.size) {
+                     tr.setSelection(TextSelection.create(tr.doc, pos + 1 + offset));
+                  }
+               }
+               return true;
+            },
+         toggleDetails:
+            (pos) =>
+            ({ state, tr, dispatch }) => {
+               const node = pos === undefined ? null : state.doc.nodeAt(pos);
+               const details =
+                  node?.type === this.type
+                     ? { node, pos: pos! }
+                     : findDetails(state.selection.$from);
+               if (!details) return false;
+               if (dispatch) {
+                  const open = !details.node.attrs.open;
+                  tr.setNodeAttribute(details.pos, 'open', open);
+                  // Keep the cursor visible when its part of the section is hidden
+                  const end = details.pos + details.node.nodeSize;
+                  if (
+                     !open &&
+                     state.selection.from > summaryEnd(details) &&
+                     state.selection.from < end
+                  ) {
+                     tr.setSelection(TextSelection.create(tr.doc, summaryEnd(details)));
+                  }
+               }
+               return true;
+            },
+      };
+   },
+
+   addKeyboardShortcuts() {
+      const inSummary = () =>
+         this.editor.state.selection.$from.parent.type.name === 'detailsSummary';
+
+      return {
+         Enter: ({ editor }) => {
+            const { selection } = editor.state;
+            if (!inSummary() || !selection.empty) return false;
+            const details = findDetails(selection.$from)!;
+            return editor
+               .chain()
+               .command(({ tr }) => {
+                  tr.setNodeAttribute(details.pos, 'open', true);
+                  tr.setSelection(Selection.near(tr.doc.resolve(summaryEnd(details) + 1)));
+                  return true;
+               })
+               .scrollIntoView()
+               .run();
+         },
+         'Mod-Enter': ({ editor }) => inSummary() && editor.commands.toggleDetails(),
+         Backspace: ({ editor }) => {
+            const { selection } = editor.state;
+            if (!inSummary() || !selection.empty || selection.$from.parentOffset > 0) return false;
+            return editor.commands.unsetDetails();
+         },
+      };
+   },
+
+   addProseMirrorPlugins() {
+      const editor = this.editor;
+
+      /**
+       * Moves the cursor past the content of a closed section instead of into it.
+       */
+      const skipClosedContent = (direction: 'up' | 'down' | 'left' | 'right') => {
+         const { state, view } = editor;
+         const { selection } = state;
+         if (!selection.empty || !view.endOfTextblock(direction)) return false;
+         const { $from } = selection;
+
+         if (direction === 'down' || direction === 'right') {
+            if ($from.parent.type.name !== 'detailsSummary') return false;
+            const details = findDetails($from)!;
+            if (details.node.attrs.open) return false;
+            const after = details.pos + details.node.nodeSize;
+            view.dispatch(
+               state.tr.setSelection(Selection.near(state.doc.resolve(after))).scrollIntoView()
+            );
+            return true;
+         }
+
+         const details = findClosedDetailsBefore($from);
+         if (!details) return false;
+         view.dispatch(
+            state.tr
+               .setSelection(TextSelection.create(state.doc, summaryEnd(details)))
+               .scrollIntoView()
+         );
+         return true;
+      };
+
+      return [
+         new Plugin({
+            key: new PluginKey('details'),
+            appendTransaction: (_transactions, oldState, newState) => {
+               if (!editor.isEditable || oldState.selection.eq(newState.selection)) return null;
+               const details = findClosedDetails(newState.selection.$head);
+               if (!details) return null;
+               return newState.tr
+                  .setNodeAttribute(details.pos, 'open', true)
+                  .setMeta('addToHistory', false);
+            },
+            props: {
+               handleKeyDown: (_view, event) => {
+                  if (event.shiftKey || event.altKey || event.ctrlKey || event.metaKey)
+                     return false;
+                  const directions: Record<string, 'up' | 'down' | 'left' | 'right'> = {
+                     ArrowUp: 'up',
+                     ArrowDown: 'down',
+                     ArrowLeft: 'left',
+                     ArrowRight: 'right',
+                  };
+                  return event.key in directions && skipClosedContent(directions[event.key]);
+               },
+               decorations: (state) => {
+                  const decorations: Decoration[] = [];
+                  state.doc.descendants((node, pos) => {
+                     if (node.type.name === 'detailsSummary' && node.content.size === 0) {
+                        decorations.push(
+                           Decoration.node(pos, pos + node.nodeSize, {
+                              class: 'is-empty',
+                              'data-placeholder': i18n.t('DETAILS_SUMMARY_PLACEHOLDER'),
+                           })
+                        );
+                     }
+                     return !node.isTextblock;
+                  });
+                  return DecorationSet.create(state.doc, decorations);
+               },
+            },
+         }),
+      ];
+   },
+});
+
+export const DetailsSummary = Node.create({
+   name: 'detailsSummary',
+
+   content: 'text*',
+
+   defining: true,
+
+   isolating: true,
+
+   selectable: false,
+
+   parseHTML() {
+      return [{ tag: 'summary' }];
+   },
+
+   renderHTML({ HTMLAttributes }) {
+      return ['summary', HTMLAttributes, 0];
+   },
+});
+
+/**
+ * Section and summary nodes.
+ */
+export const DetailsKit = Extension.create({
+   name: 'detailsKit',
+
+   addExtensions() {
+      return [Details, DetailsSummary];
+   },
+});
@@ -0,0 +1,110 @@
+import { getSchema, type JSONContent } from '@tiptap/core';
+import { EditorState } from '@tiptap/pm/state';
+import StarterKit from '@tiptap/starter-kit';
+import { describe, expect, it } from 'vitest';
+import { FootnoteKit, syncFootnotes } from './footnotes';
+
+const schema = getSchema([StarterKit, FootnoteKit]);
+
+const ref = (id: string | null, number = 1): JSONContent => ({
+   type: 'footnoteReference',
+   attrs: { id, number },
+});
+
+const note = (id: string, text: string): JSONContent => ({
+   type: 'footnote',
+   attrs: { id },
+   content: [{ type: 'paragraph', content: [{ type: 'text', text }] }],
+});
+
+const paragraph = (...content: JSONContent[]): JSONContent => ({ type: 'paragraph', content });
+
+/**
+ * Runs `syncFootnotes` on a document and returns whether it changed and the result.
+ */
+const sync = (...content: JSONContent[]) => {
+   const state = EditorState.create({ doc: schema.nodeFromJSON({ type: 'doc', content }) });
+   const { tr } = state;
+   const changed = syncFootnotes(tr);
+   return { changed, content: tr.doc.toJSON().content as JSONContent[] };
+};
+
+const referencesOf = (content: JSONContent[]) =>
+   content.flatMap((block) =>
+      (block.content ?? [])
+         .filter((node) => node.type === 'footnoteReference')
+         .map((node) => node.attrs)
+   );
+
+const notesOf = (content: JSONContent[]) =>
+   content
+      .find((block) => block.type === 'footnotes')
+      ?.content?.map((footnote) => [footnote.attrs?.id, footnote.content?.[0].content?.[0]?.text]);
+
+describe('syncFootnotes', () => {
+   it('leaves a document in sync unchanged', () => {
+      const { changed } = sync(paragraph(ref('a', 1)), {
+         type: 'footnotes',
+         content: [note('a', 'Source')],
+      });
+      expect(changed).toBe(false);
+   });
+
+   it('renumbers references and orders the footnotes like them', () => {
+      const { content } = sync(paragraph(ref('b', 2), ref('a', 1)), {
+         type: 'footnotes',
+         content: [note('a', 'First'), note('b', 'Second')],
+      });
+      expect(referencesOf(content)).toEqual([
+         { id: 'b', number: 1 },
+         { id: 'a', number: 2 },
+      ]);
+      expect(notesOf(content)).toEqual([
+         ['b', 'Second'],
+         ['a', 'First'],
+      ]);
+   });
+
+   it('removes footnotes whose reference was deleted, and the section with the last one', () => {
+      const { content } = sync(paragraph(ref('b', 2)), {
+         type: 'footnotes',
+         content: [note('a', 'First'), note('b', 'Second')],
+      });
+      expect(notesOf(content)).toEqual([['b', 'Second']]);
+
+      const { content: withoutReferences } = sync(paragraph({ type: 'text', text: 'No notes' }), {
+         type: 'footnotes',
+         content: [note('a', 'First')],
+      });
+      expect(withoutReferences.map((block) => block.type)).toEqual(['paragraph']);
+   });
+
+   it('gives a copied reference its own footnote with a copy of the text', () => {
+      const { content } = sync(paragraph(ref('a', 1), ref('a', 1)), {
+         type: 'footnotes',
+         content: [note('a', 'Source')],
+      });
+      const [original, copy] = referencesOf(content);
+      expect(original).toEqual({ id: 'a', number: 1 });
+      expect(copy?.id).not.toBe('a');
+      expect(copy?.number).toBe(2);
+      expect(notesOf(content)).toEqual([
+         ['a', 'Source'],
+         [copy?.id, 'Source'],
+      ]);
+   });
+
+   it('adds an empty footnote for a new reference and keeps the section last', () => {
+      const { content } = sync(
+         { type: 'footnotes', content: [note('a', 'First')] },
+         paragraph(ref('a', 1), ref(null))
+      );
+      expect(content.map((block) => block.type)).toEqual(['paragraph', 'footnotes']);
+      const [, added] = referencesOf(content);
+      expect(added?.number).toBe(2);
+      expect(notesOf(content)).toEqual([
+         ['a', 'First'],
+         [added?.id, undefined],
+      ]);
+   });
+});
@@ -0,0 +1,335 @@
+/**
+ * @module Footnotes
+ *
+ * This module provides footnotes for the Tiptap editor: an inline reference node and a numbered
+ * footnotes section at the end of the document.
+ *
+ * @remarks
+ * - `insertFootnote` adds a reference at the cursor and moves the cursor into its new footnote.
+ * - The section is kept in sync automatically: footnotes follow the order of their references
+ *   and are renumbered when references move, footnotes whose reference was deleted are removed,
+ *   and the section is removed with the last reference. It always stays at the end.
+ * - A copied reference gets its own footnote with a copy of the text.
+ * - Clicking a reference puts the cursor into its footnote.
+ * - The HTML uses the DPUB-ARIA roles `doc-noteref`, `doc-endnotes` and `doc-endnote`, which
+ *   the Markdown converter and the DOCX export (as Word footnotes) rely on.
+ *
+ * @example
+ * ```ts
+ * editor.chain().focus().insertFootnote().run();
+ * ```
+ */
+import { Extension, Node, mergeAttributes } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, TextSelection, type Transaction } from '@tiptap/pm/state';
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      footnoteReference: {
+         /**
+          * Inserts a footnote reference at the cursor and moves the cursor into the new footnote.
+          */
+         insertFootnote: () => ReturnType;
+      };
+   }
+}
+
+const createFootnoteId = () => Math.random().toString(36).slice(2, 10);
+
+/**
+ * Returns the footnotes section of a document and its position.
+ */
+const findFootnotesSection = (doc: ProseMirrorNode) => {
+   let section: { node: ProseMirrorNode; pos: number } | null = null;
+   doc.forEach((node, pos) => {
+      if (!section && node.type.name === 'footnotes') section = { node, pos };
+   });
+   return section as { node: ProseMirrorNode; pos: number } | null;
+};
+
+/**
+ * Brings the footnotes section in line with the references of the document: one footnote per
+ * reference in reference order, numbered references, and the section as the last block.
+ *
+ * @param tr - Transaction to add the changes to.
+ * @returns Whether the transaction was changed.
+ */
+export const syncFootnotes = (tr: Transaction) => {
+   const { doc } = tr;
+   const { schema } = doc.type;
+   const references: { node: ProseMirrorNode; pos: number }[] = [];
+   const sections: { node: ProseMirrorNode; pos: number }[] = [];
+
+   doc.descendants((node, pos) => {
+      if (node.type.name === 'footnotes') {
+         sections.push({ node, pos });
+         return false;
+      }
+      if (node.type.name === 'footnoteReference') references.push({ node, pos });
+      return true;
+   });
+   if (!references.length && !sections.length) return false;
+
+   const notes = new Map<string, ProseMirrorNode>();
+   for (const { node } of sections) {
+      node.forEach((note) => {
+         if (!notes.has(note.attrs.id)) notes.set(note.attrs.id, note);
+      });
+   }
+
+   // Number the references; copies of a reference get a new id and a copy of its footnote
+   const ids: string[] = [];
+   references.forEach(({ node, pos }, index) => {
+      let id: string = node.attrs.id;
+      if (!id || ids.includes(id)) {
+         const copied = id ? notes.get(id) : undefined;
+         id = createFootnoteId();
+         if (copied) notes.set(id, copied.type.create({ ...copied.attrs, id }, copied.content));
+      }
+      ids.push(id);
+      if (node.attrs.id !== id || node.attrs.number !== index + 1) {
+         tr.setNodeMarkup(pos, undefined, { ...node.attrs, id, number: index + 1 });
+      }
+   });
+
+   const section = ids.length
+      ? schema.nodes.footnotes.create(
+           null,
+           ids.map(
+              (id) =>
+                 notes.get(id) ??
+                 schema.nodes.footnote.create({ id }, schema.nodes.paragraph.create())
+           )
+        )
+      : null;
+
+   const current = sections[0];
+   const isInSync =
+      sections.length === 1 &&
+      current.pos + current.node.nodeSize === doc.content.size &&
+      !!section?.eq(current.node);
+   if (isInSync) return tr.docChanged;
+
+   for (const { node, pos } of [...sections].reverse()) {
+      tr.delete(tr.mapping.map(pos), tr.mapping.map(pos + node.nodeSize));
+   }
+   if (section) tr.insert(tr.doc.content.size, section);
+   return true;
+};
+
+/**
+ * Position of the text of a footnote, or `null` when there is no footnote with the id.
+ *
+ * @param doc - The document.
+ * @param id - Id of the footnote.
+ */
+export const getFootnoteTextPos = (doc: ProseMirrorNode, id: string) => {
+   const section = findFootnotesSection(doc);
+   if (!section) return null;
+   let result: number | null = null;
+   section.node.forEach((note, offset) => {
+      // Section start, footnote start and paragraph start
+      if (result === null && note.attrs.id === id) result = section.pos + offset + 3;
+   });
+   return result;
+};
+
+export const FootnoteReference = Node.create({
+   name: 'footnoteReference',
+
+   group: 'inline',
+
+   inline: true,
+
+   atom: true,
+
+   selectable: true,
+
+   addAttributes() {
+      return {
+         id: {
+            default: null,
+            parseHTML: (element) =>
+               element.getAttribute('data-footnote-id') ||
+               element.querySelector('a')?.getAttribute('href')?.replace(/^#fn-/, '') ||
+               null,
+            renderHTML: () => ({}),
+         },
+         number: {
+            default: 1,
+            parseHTML: (element) => Number(element.textContent) || 1,
+            renderHTML: () => ({}),
+         },
+      };
+   },
+
+   parseHTML() {
+      return [
+         {
+            tag: 'sup',
+            // Before the superscript mark, which also parses `sup`
+            priority: 60,
+            getAttrs: (element) =>
+               element.getAttribute('data-type') === 'footnote-reference' ||
+               !!element.querySelector('a[role="doc-noteref"]')
+                  ? null
+                  : false,
+         },
+      ];
+   },
+
+   renderHTML({ node, HTMLAttributes }) {
+      const { id, number } = node.attrs;
+      return [
+         'sup',
+         mergeAttributes(HTMLAttributes, {
+            'data-type': 'footnote-reference',
+            'data-footnote-id': id,
+            id: `fnref-${id}`,
+         }),
+         ['a', { href: `#fn-${id}`, role: 'doc-noteref' }, String(number)],
+      ];
+   },
+
+   renderText({ node }) {
+      return `[${node.attrs.number}]`;
+   },
+
+   addCommands() {
+      return {
+         insertFootnote:
+            () =>
+            ({ tr, state, dispatch }) => {
+               const { $from } = state.selection;
+               if (!$from.parent.type.contentMatch.matchType(this.type)) return false;
+               if ($from.node(1)?.type.name === 'footnotes') return false;
+               if (!dispatch) return true;
+
+               const id = createFootnoteId();
+               tr.replaceSelectionWith(this.type.create({ id }), false);
+               syncFootnotes(tr);
+               const textPos = getFootnoteTextPos(tr.doc, id);
+               if (textPos !== null) {
+                  tr.setSelection(TextSelection.create(tr.doc, textPos)).scrollIntoView();
+               }
+               return true;
+            },
+      };
+   },
+
+   addProseMirrorPlugins() {
+      return [
+         new Plugin({
+            key: new PluginKey('footnotes'),
+            appendTransaction: (transactions, _oldState, newState) => {
+               if (!transactions.some((tr) => tr.docChanged)) return null;
+               const tr = newState.tr;
+               return syncFootnotes(tr) ? tr : null;
+            },
+            props: {
+               handleClickOn: (view, _pos, node) => {
+                  if (node.type !== this.type) return false;
+                  const textPos = getFootnoteTextPos(view.state.doc, node.attrs.id);
+                  if (textPos === null) return false;
+                  view.dispatch(
+                     view.state.tr
+                        .setSelection(TextSelection.create(view.state.doc, textPos))
+                        .scrollIntoView()
+                  );
+                  view.focus();
+                  return true;
+               },
+            },
+         }),
+      ];
+   },
+});
+
+export const Footnotes = Node.create({
+   name: 'footnotes',
+
+   group: 'block',
+
+   content: 'footnote+',
+
+   isolating: true,
+
+   selectable: false,
+
+   draggable: false,
+
+   parseHTML() {
+      return [
+         { tag: 'section[data-type="footnotes"]', contentElement: 'ol' },
+         { tag: 'section[role="doc-endnotes"]', contentElement: 'ol' },
+      ];
+   },
+
+   renderHTML({ HTMLAttributes }) {
+      return [
+         'section',
+         mergeAttributes(HTMLAttributes, {
+            'data-type': 'footnotes',
+            role: 'doc-endnotes',
+            class: 'footnotes',
+         }),
+         ['ol', 0],
+      ];
+   },
+});
+
+export const Footnote = Node.create({
+   name: 'footnote',
+
+   content: 'paragraph+',
+
+   defining: true,
+
+   isolating: true,
+
+   addAttributes() {
+      return {
+         id: {
+            default: null,
+            parseHTML: (element) =>
+               element.getAttribute('data-footnote-id') ||
+               element.getAttribute('id')?.replace(/^fn-/, '') ||
+               null,
+            renderHTML: () => ({}),
+         },
+      };
+   },
+
+   parseHTML() {
+      return [
+         // Before list items, which also parse `li`
+         { tag: 'li[data-type="footnote"]', priority: 60 },
+         { tag: 'li[role="doc-endnote"]', priority: 60 },
+      ];
+   },
+
+   renderHTML({ node, HTMLAttributes }) {
+      const { id } = node.attrs;
+      return [
+         'li',
+         mergeAttributes(HTMLAttributes, {
+            'data-type': 'footnote',
+            'data-footnote-id': id,
+            id: `fn-${id}`,
+            role: 'doc-endnote',
+         }),
+         0,
+      ];
+   },
+});
+
+/**
+ * Footnote reference, footnotes section and footnote nodes.
+ */
+export const FootnoteKit = Extension.create({
+   name: 'footnoteKit',
+
+   addExtensions() {
+      return [FootnoteReference, Footnotes, Footnote];
+   },
+});
@@ -0,0 +1,209 @@
+/**
+ * @module HeadingAnchors
+ *
+ * This module gives every heading a stable `id` made from its text, so it can be linked to with
+ * `#anchor` links from the same document.
+ *
+ * @remarks
+ * - Ids are slugs of the heading text (`Getting started` → `getting-started`); duplicates get a
+ *   number (`getting-started-2`). They are stored in the JSON and rendered in the HTML.
+ * - A heading keeps its id while its text still matches it, so moving or copying content does
+ *   not change the ids of other headings.
+ * - When a heading is renamed, its id follows the new text and the `#anchor` links pointing to it
+ *   are updated in the same transaction.
+ * - Links to an id that no heading has, e.g. after the heading was deleted, are flagged with the
+ *   `link-broken` class.
+ *
+ * @example
+ * ```ts
+ * editor.chain().focus().setLink({ href: `#${slugify('Getting started')}` }).run();
+ * ```
+ */
+import { Extension } from '@tiptap/core';
+import type { Node } from '@tiptap/pm/model';
+import { Plugin, PluginKey, type EditorState } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { i18n } from '../i18n';
+
+/**
+ * Id of a heading without text.
+ */
+const EMPTY_SLUG = 'heading';
+
+/**
+ * Turns text into an id: lowercase letters and digits of any script, separated by hyphens.
+ *
+ * @param text - Heading text.
+ * @returns The slug, e.g. `ozet-ve-sonuc` for `Özet ve sonuç`.
+ */
+export const slugify = (text: string) =>
+   text
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '');
+
+/**
+ * Whether a link points to an anchor in the same document.
+ *
+ * @param href - Link target.
+ */
+export const isAnchorHref = (href?: string | null) => /^#[^\s#]+$/.test(href ?? '');
+
+/**
+ * Returns the id an `#anchor` link points to.
+ *
+ * @param href - Link target.
+ */
+export const getAnchorId = (href: string) => {
+   try {
+      return decodeURIComponent(href.slice(1));
+   } catch {
+      return href.slice(1);
+   }
+};
+
+/**
+ * Whether an id belongs to a slug, as the slug itself or one of its numbered duplicates.
+ */
+const matchesSlug = (id: string, slug: string) =>
+   id === slug || (id.startsWith(`${slug}-`) && /^\d+$/.test(id.slice(slug.length + 1)));
+
+/**
+ * Returns the ids of the headings of a document.
+ *
+ * @param doc - The document.
+ */
+export const getHeadingIds = (doc: Node) => {
+   const ids = new Set<string>();
+   doc.descendants((node) => {
+      if (node.type.name !== 'heading') return true;
+      if (node.attrs.id) ids.add(node.attrs.id);
+      return false;
+   });
+   return ids;
+};
+
+/**
+ * Gives headings without a matching id a new one and updates the links to renamed headings.
+ *
+ * @param state - The editor state.
+ * @returns The transaction, or `null` when all ids are up to date.
+ */
+const updateHeadingIds = (state: EditorState) => {
+   const headings: { pos: number; id: string | null; slug: string }[] = [];
+   state.doc.descendants((node, pos) => {
+      if (node.type.name !== 'heading') return true;
+      headings.push({ pos, id: node.attrs.id, slug: slugify(node.textContent) || EMPTY_SLUG });
+      return false;
+   });
+
+   // Ids that still match their heading are kept; the first heading wins a duplicated id
+   const used = new Set<string>();
+   const outdated = headings.filter(({ id, slug }) => {
+      if (!id || !matchesSlug(id, slug) || used.has(id)) return true;
+      used.add(id);
+      return false;
+   });
+   if (!outdated.length) return null;
+
+   const tr = state.tr;
+   const kept = new Set(used);
+   const renamed = new Map<string, string>();
+   for (const { pos, id, slug } of outdated) {
+      let newId = slug;
+      for (let i = 2; used.has(newId); i++) newId = `${slug}-${i}`;
+      used.add(newId);
+      tr.setNodeAttribute(pos, 'id', newId);
+      if (id && !kept.has(id) && !renamed.has(id)) renamed.set(id, newId);
+   }
+
+   if (renamed.size) {
+      tr.doc.descendants((node, pos) => {
+         if (!node.isText) return true;
+         const link = node.marks.find((mark) => mark.type.name === 'link');
+         if (!link || !isAnchorHref(link.attrs.href)) return false;
+         const newId = renamed.get(getAnchorId(link.attrs.href));
+         if (newId) {
+            tr.addMark(
+               pos,
+               pos + node.nodeSize,
+               link.type.create({ ...link.attrs, href: `#${newId}` })
+            );
+         }
+         return false;
+      });
+   }
+
+   return tr;
+};
+
+/**
+ * Flags the `#anchor` links of a document that point to no heading.
+ */
+const getBrokenLinkDecorations = (doc: Node) => {
+   const ids = getHeadingIds(doc);
+   const decorations: Decoration[] = [];
+   doc.descendants((node, pos) => {
+      if (!node.isText) return true;
+      const href = node.marks.find((mark) => mark.type.name === 'link')?.attrs.href;
+      if (isAnchorHref(href) && !ids.has(getAnchorId(href))) {
+         decorations.push(
+            Decoration.inline(pos, pos + node.nodeSize, {
+               class: 'link-broken',
+               title: i18n.t('LINK_BROKEN'),
+            })
+         );
+      }
+      return false;
+   });
+   return DecorationSet.create(doc, decorations);
+};
+
+export const headingAnchorsPluginKey = new PluginKey<DecorationSet>('headingAnchors');
+
+export const HeadingAnchors = Extension.create({
+   name: 'headingAnchors',
+
+   addGlobalAttributes() {
+      return [
+         {
+            types: ['heading'],
+            attributes: {
+               id: {
+                  default: null,
+                  parseHTML: (element) => element.getAttribute('id') || null,
+                  renderHTML: (attributes) => (attributes.id ? { id: attributes.id } : {}),
+               },
+            },
+         },
+      ];
+   },
+
+   onCreate() {
+      // Content loaded with the editor did not go through a transaction yet
+      const tr = updateHeadingIds(this.editor.state);
+      if (tr) this.editor.view.dispatch(tr.setMeta('addToHistory', false));
+   },
+
+   addProseMirrorPlugins() {
+      return [
+         new Plugin({
+            key: headingAnchorsPluginKey,
+            appendTransaction: (transactions, _oldState, newState) =>
+               transactions.some((tr) => tr.docChanged) ? updateHeadingIds(newState) : null,
+            state: {
+               init: (_, state) => getBrokenLinkDecorations(state.doc),
+               apply: (tr, decorations) =>
+                  tr.docChanged ? getBrokenLinkDecorations(tr.doc) : decorations,
+            },
+            props: {
+               decorations(state) {
+                  return headingAnchorsPluginKey.getState(state);
+               },
+            },
+         }),
+      ];
+   },
+});
@@ -0,0 +1,41 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { convertHTMLToMarkdown } from './import-export';
+
+const callout = (type: string, title: string, content: string) =>
+   `<aside data-callout="${type}"><div data-callout-header><strong data-callout-title>${title}</strong></div><div data-callout-content>${content}</div></aside>`;
+
+describe('convertHTMLToMarkdown', () => {
+   it('writes a callout as a GitHub alert', () => {
+      expect(convertHTMLToMarkdown(callout('tip', 'Hint', '<p>Save often.</p>'))).toBe(
+         '> [!TIP]\n> **Hint**\n> Save often.\n\n'
+      );
+   });
+
+   it('quotes a nested callout inside the outer alert', () => {
+      const html =
+         callout(
+            'info',
+            'Outer',
+            `<p>Before</p>${callout('warning', 'Inner', '<p>Careful</p>')}<p>After</p>`
+         ) + '<p>Next</p>';
+
+      expect(convertHTMLToMarkdown(html)).toBe(
+         [
+            '> [!NOTE]',
+            '> **Outer**',
+            '> Before',
+            '>',
+            '> > [!WARNING]',
+            '> > **Inner**',
+            '> > Careful',
+            '>',
+            '> After',
+            '',
+            'Next',
+            '',
+            '',
+         ].join('\n')
+      );
+   });
+});
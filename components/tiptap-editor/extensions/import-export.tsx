@@ -24,15 +24,16 @@
  * @property mode - Dialog mode, either 'import' or 'export'.
  */
 import { useState, useRef, SetStateAction } from 'react';
-import { Editor, generateHTML } from '@tiptap/react';
+import { Editor } from '@tiptap/react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Upload, Download, FileText, Link, Copy, File } from 'lucide-react';
 import { saveAs } from 'file-saver';
-import { defaultExtensions } from '../extensions';
 import { i18n } from '../i18n';
+import { setDocAttributes } from '../tiptap-utils';
+import { getPageSetup } from '../page-layout/page-layout';
 
 export const apiUrl = process.env.NEXT_PUBLIC_FILE_API || '/api/file';
 
@@ -85,53 +86,20 @@ export const ImportExportDialog = ({
       docxInputRef.current?.click();
    };
 
-   const getCleanHTML = () => {
-      const json = editor.getJSON();
-      const html = generateHTML(json, defaultExtensions);
-      return cleanHTML(html);
-   };
-
-   const cleanHTML = (html: string): string => {
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(html, 'text/html');
-      const elementsWithClass = doc.querySelectorAll('[class]');
-      elementsWithClass.forEach((el) => {
-         el.removeAttribute('class');
-      });
-
-      const elementsWithStyle = doc.querySelectorAll('[style]');
-      elementsWithStyle.forEach((el) => {
-         const style = el.getAttribute('style');
-         if (style) {
-            const importantStyles = style
-               .split(';')
-               .filter(
-                  (s) =>
-                     s.includes('font-size') ||
-                     s.includes('color') ||
-                     s.includes('text-align') ||
-                     s.includes('line-height')
-               )
-               .join(';');
-
-            if (importantStyles) {
-               el.setAttribute('style', importantStyles);
-            } else {
-               el.removeAttribute('style');
-            }
-         }
-      });
-      doc.querySelectorAll('[data-type]').forEach((el) => {
-         el.removeAttribute('data-type');
-      });
-
-      return doc.body.innerHTML;
-   };
+   const getCleanHTML = () => cleanHTML(editor.getHTML());
 
    const handleJSONImport = (jsonString: string) => {
       try {
          const json = JSON.parse(jsonString);
-         editor.chain().focus().setContent(json).run();
+         editor
+            .chain()
+            .focus()
+            .setContent(json)
+            .command(({ tr }) => {
+               setDocAttributes(tr, json);
+               return true;
+            })
+            .run();
          onOpenChange(false);
       } catch (error) {
          console.error('JSON import error:', error);
@@ -246,7 +214,11 @@ export const ImportExportDialog = ({
          const response = await fetch(`${apiUrl}/export`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ html: cleanHtml, fileName }),
+            body: JSON.stringify({
+               html: cleanHtml,
+               fileName,
+               page: getPageSetup(editor.state.doc),
+            }),
          });
 
          if (response.ok) {
@@ -495,7 +467,9 @@ export const ImportExportDialog = ({
                         <File className="h-4 w-4" />
                         {i18n.t('DOCX_IMPORT')}
                      </h4>
-                     <p className="text-sm text-muted-foreground mb-4">{i18n.t('DOCX_IMPORT_DESC')}</p>
+                     <p className="text-sm text-muted-foreground mb-4">
+                        {i18n.t('DOCX_IMPORT_DESC')}
+                     </p>
                      <input
                         ref={docxInputRef}
                         type="file"
@@ -629,13 +603,68 @@ export const ImportExportDialog = ({
    );
 };
 
+/**
+ * Removes classes, data attributes and non-essential inline styles from exported HTML.
+ *
+ * @param html - HTML generated from the editor content.
+ * @returns Cleaned HTML string.
+ */
+export function cleanHTML(html: string): string {
+   const parser = new DOMParser();
+   const doc = parser.parseFromString(html, 'text/html');
+   const elementsWithClass = doc.querySelectorAll('[class]');
+   elementsWithClass.forEach((el) => {
+      el.removeAttribute('class');
+   });
+
+   const elementsWithStyle = doc.querySelectorAll('[style]');
+   elementsWithStyle.forEach((el) => {
+      // Columns keep their layout and page breaks their break
+      if (el.matches('[data-columns], [data-column], [data-page-break]')) return;
+      const style = el.getAttribute('style');
+      if (style) {
+         const importantStyles = style
+            .split(';')
+            .filter(
+               (s) =>
+                  s.includes('font-size') ||
+                  s.includes('color') ||
+                  s.includes('text-align') ||
+                  s.includes('line-height')
+            )
+            .join(';');
+
+         if (importantStyles) {
+            el.setAttribute('style', importantStyles);
+         } else {
+            el.removeAttribute('style');
+         }
+      }
+   });
+   doc.querySelectorAll('[data-type]').forEach((el) => {
+      el.removeAttribute('data-type');
+   });
+
+   return doc.body.innerHTML;
+}
+
+/**
+ * Returns the editor content as Markdown.
+ *
+ * @param editor - The editor instance.
+ * @returns Markdown string.
+ */
+export function getMarkdown(editor: Editor): string {
+   return convertHTMLToMarkdown(cleanHTML(editor.getHTML()));
+}
+
 /**
  * Converts Markdown string to HTML string.
  *
  * @param markdown - Markdown content.
  * @returns HTML string.
  */
-function convertMarkdownToHTML(markdown: string): string {
+export function convertMarkdownToHTML(markdown: string): string {
    return markdown
       .replace(/^### (.*$)/gim, '<h3>$1</h3>')
       .replace(/^## (.*$)/gim, '<h2>$1</h2>')
@@ -650,17 +679,86 @@ function convertMarkdownToHTML(markdown: string): string {
       .replace(/\n\n/gim, '</p><p>')
       .replace(/^(?!<[h1-6]|<ul|<pre|<code)(.+)$/gim, '<p>$1</p>');
 }
+/**
+ * GitHub alert written for every callout type.
+ */
+const CALLOUT_ALERTS: Record<string, string> = {
+   info: 'NOTE',
+   tip: 'TIP',
+   warning: 'WARNING',
+   danger: 'CAUTION',
+};
+
+/**
+ * Stands for a converted callout in the HTML while the Markdown of the rest is built: its index
+ * between private use characters, which never occur in exported text.
+ */
+const CALLOUT_PLACEHOLDER = /\uE000(\d+)\uE001/g;
+
 /**
  * Converts HTML string to Markdown string.
+ * Callouts become GitHub alerts (`> [!NOTE]`), with their title in bold on the first line; a
+ * callout inside another one is quoted once more.
+ * Collapsible sections are written open, with their summary as a bold paragraph.
  *
  * @param html - HTML content.
  * @returns Markdown string.
  */
-function convertHTMLToMarkdown(html: string): string {
+export function convertHTMLToMarkdown(html: string): string {
+   const callouts: string[] = [];
+   const restoreCallouts = (markdown: string) =>
+      markdown.replace(CALLOUT_PLACEHOLDER, (_, index: string) => callouts[Number(index)]);
+
+   if (html.includes('data-callout')) {
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      // Innermost first, so the content of a callout already holds the ones inside it
+      Array.from(doc.querySelectorAll('aside[data-callout]'))
+         .reverse()
+         .forEach((callout) => {
+            const type = callout.getAttribute('data-callout') ?? '';
+            const header = callout.querySelector(':scope > [data-callout-header]');
+            const title = header?.querySelector('[data-callout-title]')?.innerHTML;
+            header?.remove();
+            const content = restoreCallouts(convertBlocksToMarkdown(callout.innerHTML)).trim();
+            callouts.push(
+               [
+                  `[!${CALLOUT_ALERTS[type] ?? 'NOTE'}]`,
+                  ...(title ? [`**${title}**`] : []),
+                  ...content.split('\n'),
+               ]
+                  .map((line) => (line ? `> ${line}` : '>'))
+                  .join('\n')
+            );
+            const placeholder = doc.createElement('p');
+            placeholder.textContent = `\uE000${callouts.length - 1}\uE001`;
+            callout.replaceWith(placeholder);
+         });
+      html = doc.body.innerHTML;
+   }
+
+   return restoreCallouts(convertBlocksToMarkdown(html));
+}
+
+/**
+ * Converts HTML without callouts to Markdown.
+ */
+function convertBlocksToMarkdown(html: string): string {
+   // Markdown has no suggested changes, they are exported as accepted
    return html
-      .replace(/<h1>(.*?)<\/h1>/gim, '# $1\n')
-      .replace(/<h2>(.*?)<\/h2>/gim, '## $1\n')
-      .replace(/<h3>(.*?)<\/h3>/gim, '### $1\n')
+      .replace(/<del[^>]*data-change-id[^>]*>[\s\S]*?<\/del>/gim, '')
+      .replace(/<sup[^>]*>\s*<a[^>]*doc-noteref[^>]*>(\d+)<\/a>\s*<\/sup>/gim, '[^$1]')
+      .replace(/<section[^>]*doc-endnotes[^>]*>([\s\S]*?)<\/section>/gim, (_, notes: string) =>
+         Array.from(notes.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gim))
+            .map(
+               ([, note], index) =>
+                  `[^${index + 1}]: ${note.replace(/<\/?p[^>]*>/gim, ' ').trim()}\n`
+            )
+            .join('')
+      )
+      .replace(/<summary[^>]*>([\s\S]*?)<\/summary>/gim, '<p><strong>$1</strong></p>')
+      .replace(/<h1[^>]*>(.*?)<\/h1>/gim, '# $1\n')
+      .replace(/<h2[^>]*>(.*?)<\/h2>/gim, '## $1\n')
+      .replace(/<h3[^>]*>(.*?)<\/h3>/gim, '### $1\n')
       .replace(/<strong>(.*?)<\/strong>/gim, '**$1**')
       .replace(/<em>(.*?)<\/em>/gim, '*$1*')
       .replace(/<a href="([^"]*)"[^>]*>(.*?)<\/a>/gim, '[$2]($1)')
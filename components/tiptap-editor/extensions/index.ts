@@ -1,3 +1,36 @@
 export { ContextAI } from './context-ai';
-export { SlashCommand } from './slash-command';
+export { SlashCommand, type SlashCommandOptions } from './slash-command';
+export {
+   getDefaultSlashCommandGroups,
+   addSlashCommandGroup,
+   addSlashCommandItems,
+   removeSlashCommands,
+   moveSlashCommand,
+   type SlashCommandItem,
+   type SlashCommandItemSource,
+   type SlashCommandGroup,
+} from './slash-command-groups';
 export { Twitter } from './twitter';
+export { TableOfContents, tableOfContentsSpec } from './table-of-contents';
+export { Callout, CALLOUT_TYPES, type CalloutAttributes, type CalloutType } from './callout';
+export {
+   ColumnsKit,
+   Columns,
+   Column,
+   COLUMN_LAYOUTS,
+   MIN_COLUMNS,
+   MAX_COLUMNS,
+   getColumnWidths,
+   getUnsetColumnWidth,
+} from './columns';
+export { DetailsKit, Details, DetailsSummary } from './details';
+export { PageBreak } from './page-break';
+export { FootnoteKit, FootnoteReference, Footnotes, Footnote, syncFootnotes } from './footnotes';
+export {
+   HeadingAnchors,
+   headingAnchorsPluginKey,
+   slugify,
+   isAnchorHref,
+   getAnchorId,
+   getHeadingIds,
+} from './heading-anchors';
@@ -0,0 +1,129 @@
+/**
+ * @module PageBreak
+ *
+ * This module provides the page break block for the Tiptap editor: the content after it starts on
+ * a new page when printed, in the print layout and in DOCX exports.
+ *
+ * @remarks
+ * - The block is an atom without content. In the editor it is drawn as a dashed line with a label;
+ *   on paper it only ends the page. The label is added by the node view, so it stays out of the
+ *   HTML output.
+ * - HTML output is a `div[data-page-break]` with `break-after: page`, which browsers follow when
+ *   printing and `html-to-docx` turns into a Word page break. Elements with only a
+ *   `page-break-after` or `break-after` style, like in pasted Word or Google Docs content, are
+ *   parsed as page breaks as well.
+ *
+ * @example
+ * ```ts
+ * editor.chain().focus().setPageBreak().run();
+ * ```
+ */
+import { Node, mergeAttributes } from '@tiptap/core';
+import { i18n } from '../i18n';
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      pageBreak: {
+         /**
+          * Inserts a page break at the cursor, splitting the paragraph around it.
+          */
+         setPageBreak: () => ReturnType;
+      };
+   }
+}
+
+/**
+ * Whether an inline style ends the page after the element.
+ */
+const breaksPageAfter = (element: HTMLElement) =>
+   /(^|;)\s*(page-break-after\s*:\s*always|break-after\s*:\s*page)/i.test(
+      element.getAttribute('style') ?? ''
+   );
+
+export const PageBreak = Node.create({
+   name: 'pageBreak',
+
+   group: 'block',
+
+   atom: true,
+
+   selectable: true,
+
+   draggable: true,
+
+   parseHTML() {
+      return [
+         { tag: 'div[data-page-break]' },
+         {
+            tag: 'div',
+            // Before paragraphs and other divs, which would keep the element as content
+            priority: 60,
+            getAttrs: (element) =>
+               !element.textContent?.trim() && breaksPageAfter(element) ? null : false,
+         },
+      ];
+   },
+
+   renderHTML({ HTMLAttributes }) {
+      return [
+         'div',
+         mergeAttributes(HTMLAttributes, {
+            'data-page-break': '',
+            class: 'page-break',
+            style: 'page-break-after: always; break-after: page',
+         }),
+      ];
+   },
+
+   addNodeView() {
+      return ({ HTMLAttributes }) => {
+         const dom = document.createElement('div');
+         Object.entries(
+            mergeAttributes(HTMLAttributes, { 'data-page-break': '', class: 'page-break' })
+         ).forEach(([name, value]) => dom.setAttribute(name, String(value)));
+         const label = document.createElement('span');
+         label.className = 'page-break-label';
+         label.textContent = i18n.t('PAGE_BREAK');
+         dom.append(label);
+         return { dom };
+      };
+   },
+
+   addCommands() {
+      return {
+         setPageBreak:
+            () =>
+            ({ state, tr, dispatch }) => {
+               const { $from } = state.selection;
+               // Only where blocks are allowed, not in summaries or inline content
+               if ($from.depth < 1 || !$from.parent.isTextblock) return false;
+               const index = $from.index(-1);
+               if (!$from.node(-1).canReplaceWith(index + 1, index + 1, this.type)) return false;
+               if (!dispatch) return true;
+
+               // Split the paragraph like Word does, the text after the cursor goes to the next page
+               tr.deleteSelection();
+               const { $from: $cursor } = tr.selection;
+               const atEnd = $cursor.parentOffset === $cursor.parent.content.size;
+               const paragraph = state.schema.nodes.paragraph;
+               tr.split($cursor.pos, 1, atEnd ? [{ type: paragraph }] : undefined);
+               const after = tr.selection.$from.before();
+               tr.insert(after, this.type.create());
+
+               // Drop the empty paragraph left before the page break when it was at the start
+               const $before = tr.doc.resolve(after);
+               const before = $before.nodeBefore;
+               const beforeIndex = $before.index() - 1;
+               if (
+                  before?.isTextblock &&
+                  before.content.size === 0 &&
+                  $before.parent.canReplace(beforeIndex, beforeIndex + 1)
+               ) {
+                  tr.delete(after - before.nodeSize, after);
+               }
+               tr.scrollIntoView();
+               return true;
+            },
+      };
+   },
+});
@@ -0,0 +1,713 @@
+/**
+ * @module SlashCommandGroups
+ *
+ * This module contains the items of the slash command menu and functions to change them.
+ * Items are listed in named groups; apps register their own items, remove or reorder the
+ * built-in ones with the helpers below and pass the result to `SlashCommand.configure`.
+ *
+ * @remarks
+ * - Titles, descriptions and group titles are i18n keys; search matches their translations in
+ *   every language, the `searchTerms` and the id.
+ * - A group can load its items asynchronously from the query, e.g. from an API. These items are
+ *   not filtered by the query again.
+ * - `isAvailable` hides an item that cannot run in the current editor state.
+ *
+ * @example
+ * ```tsx
+ * SlashCommand.configure({
+ *    groups: (defaults) =>
+ *       addSlashCommandItems(removeSlashCommands(defaults, ['twitter']), 'blocks', [ticketItem]),
+ * });
+ * ```
+ */
+import type * as React from 'react';
+import {
+   Heading1,
+   Heading2,
+   Heading3,
+   List,
+   ListOrdered,
+   CheckSquare,
+   Type,
+   Bold,
+   Italic,
+   Underline,
+   Strikethrough,
+   Code,
+   Subscript,
+   Superscript,
+   TextQuote,
+   Info,
+   Columns2,
+   Columns3,
+   Columns4,
+   ListCollapse,
+   Minus,
+   SeparatorHorizontal,
+   Youtube,
+   Table,
+   TableOfContents,
+   Asterisk,
+   Eraser,
+   Upload,
+   Link2,
+   Images,
+   Twitter,
+   Sparkles,
+   Download,
+} from 'lucide-react';
+import type { Editor, Range } from '@tiptap/core';
+import {
+   twitterCommand,
+   youtubeCommand,
+   imageCommand,
+   imageGalleryCommand,
+   imageUrlCommand,
+   importCommand,
+   exportCommand,
+} from '../selector';
+import { contextAICommand } from './context-ai';
+import { normalizeSearchText } from '../tiptap-utils';
+import { i18n } from '../i18n';
+
+/**
+ * Represents a single slash command item.
+ *
+ * @property id - Unique id, used to remove and reorder the item
+ * @property title - The command title (multi-language key)
+ * @property description - The command description (optional, multi-language key)
+ * @property searchTerms - Searchable keywords for the command
+ * @property shortcut - Keyboard shortcut (optional)
+ * @property icon - Icon of the command
+ * @property isAvailable - Whether the command can run in the current editor state (optional)
+ * @property command - Function to execute when the command is selected
+ */
+export interface SlashCommandItem {
+   id: string;
+   title: string;
+   description?: string;
+   searchTerms?: string[];
+   shortcut?: string;
+   icon?: React.ReactNode;
+   isAvailable?: (editor: Editor) => boolean;
+   command: ({ editor, range }: { editor: Editor; range: Range }) => void;
+}
+
+/**
+ * Loads the items of a group for a query. `signal` is aborted when the query changes.
+ */
+export type SlashCommandItemSource = (props: {
+   query: string;
+   editor: Editor;
+   signal: AbortSignal;
+}) => SlashCommandItem[] | Promise<SlashCommandItem[]>;
+
+/**
+ * A named group of the slash command menu.
+ *
+ * @property name - Unique name, used to add items and reorder the group
+ * @property title - The group header (multi-language key)
+ * @property items - The items, or a function loading them for the query
+ */
+export interface SlashCommandGroup {
+   name: string;
+   title: string;
+   items: SlashCommandItem[] | SlashCommandItemSource;
+}
+
+/**
+ * A group with the items matching the query, as listed in the menu.
+ */
+export interface SlashCommandSection {
+   name: string;
+   title: string;
+   items: SlashCommandItem[];
+}
+
+/**
+ * Options of the built-in items.
+ */
+export interface DefaultSlashCommandOptions {
+   showImageUrl?: boolean;
+   showImageUpload?: boolean;
+   showImageGallery?: boolean;
+   showImportData?: boolean;
+   showExportData?: boolean;
+}
+
+/**
+ * Returns the built-in groups: AI, formatting, blocks, media and import/export.
+ *
+ * @param options - Which optional media and import/export items to include.
+ */
+export const getDefaultSlashCommandGroups = ({
+   showImageUrl,
+   showImageUpload,
+   showImageGallery,
+   showImportData,
+   showExportData,
+}: DefaultSlashCommandOptions = {}): SlashCommandGroup[] => {
+   const media: (SlashCommandItem | false | undefined)[] = [
+      showImageUpload && {
+         id: 'uploadImage',
+         title: 'UPLOAD_IMAGE',
+         description: 'UPLOAD_IMAGE_FROM_DEVICE',
+         searchTerms: ['upload', 'image', 'file', 'photo', 'picture', 'resim', 'yükle'],
+         icon: <Upload className="w-4 h-4" />,
+         command: ({ editor, range }) => {
+            editor.chain().focus().deleteRange(range).run();
+            imageCommand({ editor });
+         },
+      },
+      showImageUrl && {
+         id: 'imageUrl',
+         title: 'IMAGE_URL',
+         description: 'ADD_IMAGE_FROM_URL',
+         searchTerms: ['image', 'url', 'link', 'web', 'resim', 'bağlantı'],
+         icon: <Link2 className="w-4 h-4" />,
+         command: ({ editor, range }) => {
+            editor.chain().focus().deleteRange(range).run();
+            imageUrlCommand({ editor });
+         },
+      },
+      showImageGallery && {
+         id: 'imageGallery',
+         title: 'IMAGE_GALLERY',
+         description: 'SELECT_FROM_GALLERY',
+         searchTerms: ['gallery', 'library', 'stored', 'saved', 'collection', 'galeri'],
+         icon: <Images className="w-4 h-4" />,
+         command: ({ editor, range }) => {
+            editor.chain().focus().deleteRange(range).run();
+            imageGalleryCommand({ editor });
+         },
+      },
+      {
+         id: 'youtube',
+         title: 'YOUTUBE',
+         description: 'EMBED_YOUTUBE_VIDEO',
+         searchTerms: ['youtube', 'video', 'embed'],
+         icon: <Youtube className="w-4 h-4" />,
+         command: ({ editor, range }) => {
+            editor.chain().focus().deleteRange(range).run();
+            youtubeCommand({ editor });
+         },
+      },
+      {
+         id: 'twitter',
+         title: 'TWITTER',
+         description: 'EMBED_TWITTER_POST',
+         searchTerms: ['twitter', 'x', 'tweet', 'social'],
+         icon: <Twitter className="w-4 h-4" />,
+         command: ({ editor, range }) => {
+            editor.chain().focus().deleteRange(range).run();
+            twitterCommand({ editor });
+         },
+      },
+   ];
+
+   const importExport: (SlashCommandItem | false | undefined)[] = [
+      showImportData && {
+         id: 'import',
+         title: 'IMPORT_CONTENT',
+         description: 'IMPORT_FROM_FILE_URL_TEXT',
+         searchTerms: ['import', 'içe', 'aktar', 'yükle', 'dosya', 'file', 'upload'],
+         icon: <Upload className="w-4 h-4 text-blue-500" />,
+         command: ({ editor, range }) => {
+            editor.chain().focus().deleteRange(range).run();
+            importCommand({ editor });
+         },
+      },
+      showExportData && {
+         id: 'export',
+         title: 'EXPORT_CONTENT',
+         description: 'EXPORT_TO_DOCX_HTML_MARKDOWN',
+         searchTerms: ['export', 'dışa', 'aktar', 'kaydet', 'indir', 'download', 'save'],
+         icon: <Download className="w-4 h-4 text-green-500" />,
+         command: ({ editor, range }) => {
+            editor.chain().focus().deleteRange(range).run();
+            exportCommand({ editor });
+         },
+      },
+   ];
+
+   return [
+      {
+         name: 'ai',
+         title: 'CONTEXT_AI',
+         items: [
+            {
+               id: 'contextAI',
+               title: 'CONTEXT_AI',
+               description: 'AI_CONTENT_GENERATION',
+               searchTerms: [
+                  'ai',
+                  'artificial',
+                  'intelligence',
+                  'generate',
+                  'context',
+                  'assistant',
+               ],
+               icon: <Sparkles className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).run();
+                  contextAICommand({ editor });
+               },
+            },
+         ],
+      },
+      {
+         name: 'formatting',
+         title: 'FORMATTING',
+         items: [
+            {
+               id: 'bold',
+               title: 'BOLD',
+               description: 'BOLD_TEXT',
+               searchTerms: ['bold', 'strong', 'b'],
+               shortcut: 'Ctrl+B',
+               icon: <Bold className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).toggleBold().run();
+               },
+            },
+            {
+               id: 'italic',
+               title: 'ITALIC',
+               description: 'ITALIC_TEXT',
+               searchTerms: ['italic', 'i', 'em'],
+               shortcut: 'Ctrl+I',
+               icon: <Italic className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).toggleItalic().run();
+               },
+            },
+            {
+               id: 'underline',
+               title: 'UNDERLINE',
+               description: 'UNDERLINE_TEXT',
+               searchTerms: ['underline', 'u'],
+               shortcut: 'Ctrl+U',
+               icon: <Underline className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).toggleUnderline().run();
+               },
+            },
+            {
+               id: 'strike',
+               title: 'STRIKETHROUGH',
+               description: 'STRIKETHROUGH_TEXT',
+               searchTerms: ['strikethrough', 'strike', 's'],
+               shortcut: 'Ctrl+Shift+S',
+               icon: <Strikethrough className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).toggleStrike().run();
+               },
+            },
+            {
+               id: 'code',
+               title: 'CODE',
+               description: 'INLINE_CODE',
+               searchTerms: ['code', 'inline', 'c'],
+               shortcut: 'Ctrl+E',
+               icon: <Code className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).toggleCode().run();
+               },
+            },
+            {
+               id: 'subscript',
+               title: 'SUBSCRIPT',
+               description: 'SUBSCRIPT_TEXT',
+               searchTerms: ['subscript', 'sub'],
+               shortcut: 'Ctrl+,',
+               icon: <Subscript className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).toggleSubscript().run();
+               },
+            },
+            {
+               id: 'superscript',
+               title: 'SUPERSCRIPT',
+               description: 'SUPERSCRIPT_TEXT',
+               searchTerms: ['superscript', 'super', 'sup'],
+               shortcut: 'Ctrl+.',
+               icon: <Superscript className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).toggleSuperscript().run();
+               },
+            },
+            {
+               id: 'clearFormatting',
+               title: 'CLEAR_FORMATTING',
+               description: 'CLEAR_ALL_FORMATTING',
+               searchTerms: ['clear', 'remove', 'formatting', 'reset'],
+               shortcut: 'Ctrl+Shift+X',
+               icon: <Eraser className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).clearNodes().unsetAllMarks().run();
+               },
+            },
+         ],
+      },
+      {
+         name: 'blocks',
+         title: 'BLOCKS',
+         items: [
+            {
+               id: 'paragraph',
+               title: 'TEXT',
+               description: 'START_TYPING',
+               searchTerms: ['p', 'paragraph', 'text', 'plain'],
+               icon: <Type className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).clearNodes().run();
+               },
+            },
+            {
+               id: 'heading1',
+               title: 'HEADING_1',
+               description: 'BIG_SECTION_HEADING',
+               searchTerms: ['h1', 'heading1', 'title', 'big'],
+               icon: <Heading1 className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).setNode('heading', { level: 1 }).run();
+               },
+            },
+            {
+               id: 'heading2',
+               title: 'HEADING_2',
+               description: 'MEDIUM_SECTION_HEADING',
+               searchTerms: ['h2', 'heading2', 'subtitle'],
+               icon: <Heading2 className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).setNode('heading', { level: 2 }).run();
+               },
+            },
+            {
+               id: 'heading3',
+               title: 'HEADING_3',
+               description: 'SMALL_SECTION_HEADING',
+               searchTerms: ['h3', 'heading3', 'subheading'],
+               icon: <Heading3 className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).setNode('heading', { level: 3 }).run();
+               },
+            },
+            {
+               id: 'bulletList',
+               title: 'BULLET_LIST',
+               description: 'UNORDERED_LIST_BULLETS',
+               searchTerms: ['bullet', 'list', 'ul', 'unordered'],
+               icon: <List className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).toggleBulletList().run();
+               },
+            },
+            {
+               id: 'orderedList',
+               title: 'NUMBERED_LIST',
+               description: 'ORDERED_LIST_NUMBERS',
+               searchTerms: ['numbered', 'ordered', 'ol', '1', 'list'],
+               icon: <ListOrdered className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).toggleOrderedList().run();
+               },
+            },
+            {
+               id: 'taskList',
+               title: 'TASK_LIST',
+               description: 'INTERACTIVE_TASK_LIST',
+               searchTerms: ['task', 'todo', 'checkbox', 'check'],
+               icon: <CheckSquare className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).toggleTaskList().run();
+               },
+            },
+            {
+               id: 'blockquote',
+               title: 'BLOCK_QUOTE',
+               description: 'INSERT_BLOCK_QUOTE',
+               searchTerms: ['quote', 'blockquote', 'citation'],
+               shortcut: 'Ctrl+Shift+Q',
+               icon: <TextQuote className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).toggleBlockquote().run();
+               },
+            },
+            {
+               id: 'callout',
+               title: 'CALLOUT',
+               description: 'INSERT_CALLOUT',
+               searchTerms: ['callout', 'admonition', 'info', 'note', 'tip', 'warning', 'danger'],
+               icon: <Info className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).setCallout().run();
+               },
+            },
+            {
+               id: 'columns2',
+               title: 'TWO_COLUMNS',
+               description: 'INSERT_COLUMNS',
+               searchTerms: ['columns', 'layout', 'side by side', 'two'],
+               icon: <Columns2 className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).insertColumns(2).run();
+               },
+            },
+            {
+               id: 'columns3',
+               title: 'THREE_COLUMNS',
+               description: 'INSERT_COLUMNS',
+               searchTerms: ['columns', 'layout', 'side by side', 'three'],
+               icon: <Columns3 className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).insertColumns(3).run();
+               },
+            },
+            {
+               id: 'columns4',
+               title: 'FOUR_COLUMNS',
+               description: 'INSERT_COLUMNS',
+               searchTerms: ['columns', 'layout', 'side by side', 'four'],
+               icon: <Columns4 className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).insertColumns(4).run();
+               },
+            },
+            {
+               id: 'details',
+               title: 'DETAILS',
+               description: 'INSERT_DETAILS',
+               searchTerms: ['details', 'summary', 'collapsible', 'toggle', 'accordion', 'faq'],
+               icon: <ListCollapse className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).setDetails().run();
+               },
+            },
+            {
+               id: 'codeBlock',
+               title: 'CODE_BLOCK',
+               description: 'INSERT_CODE_BLOCK',
+               searchTerms: ['code', 'codeblock', 'pre', 'programming'],
+               shortcut: 'Ctrl+Shift+C',
+               icon: <Code className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).setCodeBlock().run();
+               },
+            },
+            {
+               id: 'horizontalRule',
+               title: 'HORIZONTAL_RULE',
+               description: 'INSERT_HORIZONTAL_RULE',
+               searchTerms: ['hr', 'horizontal', 'rule', 'divider', 'separator'],
+               shortcut: 'Ctrl+Shift+H',
+               icon: <Minus className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).setHorizontalRule().run();
+               },
+            },
+            {
+               id: 'pageBreak',
+               title: 'PAGE_BREAK',
+               description: 'INSERT_PAGE_BREAK',
+               searchTerms: ['page', 'break', 'new page', 'print'],
+               shortcut: 'Ctrl+Alt+Enter',
+               icon: <SeparatorHorizontal className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).setPageBreak().run();
+               },
+            },
+            {
+               id: 'insertTable',
+               title: 'TABLE',
+               description: 'CREATE_TABLE',
+               searchTerms: ['table', 'grid', 'rows', 'columns'],
+               icon: <Table className="w-4 h-4" />,
+               // Tables cannot be nested
+               isAvailable: (editor) => !editor.isActive('table'),
+               command: ({ editor, range }) => {
+                  editor
+                     .chain()
+                     .focus()
+                     .deleteRange(range)
+                     .insertTable({ rows: 3, cols: 3, withHeaderRow: true })
+                     .run();
+               },
+            },
+            {
+               id: 'tableOfContents',
+               title: 'TABLE_OF_CONTENTS',
+               description: 'INSERT_TABLE_OF_CONTENTS',
+               searchTerms: ['toc', 'contents', 'outline', 'headings', 'index'],
+               icon: <TableOfContents className="w-4 h-4" />,
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).insertTableOfContents().run();
+               },
+            },
+            {
+               id: 'footnote',
+               title: 'FOOTNOTE',
+               description: 'INSERT_FOOTNOTE',
+               searchTerms: ['footnote', 'endnote', 'note', 'reference', 'citation'],
+               shortcut: 'Ctrl+Alt+F',
+               icon: <Asterisk className="w-4 h-4" />,
+               isAvailable: (editor) => editor.can().insertFootnote(),
+               command: ({ editor, range }) => {
+                  editor.chain().focus().deleteRange(range).insertFootnote().run();
+               },
+            },
+         ],
+      },
+      {
+         name: 'media',
+         title: 'MEDIA',
+         items: media.filter((item): item is SlashCommandItem => !!item),
+      },
+      {
+         name: 'importExport',
+         title: 'IMPORT_EXPORT',
+         items: importExport.filter((item): item is SlashCommandItem => !!item),
+      },
+   ];
+};
+
+/**
+ * Adds a group, replacing a group with the same name.
+ *
+ * @param groups - The current groups.
+ * @param group - The group to add.
+ * @param index - Position of the group, last by default.
+ */
+export const addSlashCommandGroup = (
+   groups: SlashCommandGroup[],
+   group: SlashCommandGroup,
+   index = groups.length
+) => {
+   const rest = groups.filter(({ name }) => name !== group.name);
+   return [...rest.slice(0, index), group, ...rest.slice(index)];
+};
+
+/**
+ * Adds items to a group, replacing items with the same id. A missing group is added last.
+ *
+ * @param groups - The current groups.
+ * @param name - Name of the group.
+ * @param items - The items to add.
+ * @param index - Position of the items in the group, last by default.
+ */
+export const addSlashCommandItems = (
+   groups: SlashCommandGroup[],
+   name: string,
+   items: SlashCommandItem[],
+   index?: number
+): SlashCommandGroup[] => {
+   const ids = items.map(({ id }) => id);
+   const cleared = removeSlashCommands(groups, ids);
+   const group = cleared.find((group) => group.name === name);
+   if (!group) return [...cleared, { name, title: name, items }];
+   if (typeof group.items === 'function') {
+      throw new Error(`Slash command group "${name}" loads its items and cannot be extended`);
+   }
+
+   const current = group.items;
+   const position = index ?? current.length;
+   return cleared.map((other) =>
+      other === group
+         ? {
+              ...group,
+              items: [...current.slice(0, position), ...items, ...current.slice(position)],
+           }
+         : other
+   );
+};
+
+/**
+ * Removes groups by name and items by id.
+ *
+ * @param groups - The current groups.
+ * @param ids - Names of groups and ids of items to remove.
+ */
+export const removeSlashCommands = (groups: SlashCommandGroup[], ids: string[]) =>
+   groups
+      .filter(({ name }) => !ids.includes(name))
+      .map((group) =>
+         typeof group.items === 'function'
+            ? group
+            : { ...group, items: group.items.filter(({ id }) => !ids.includes(id)) }
+      );
+
+/**
+ * Moves a group, or an item within its group or into another group.
+ *
+ * @param groups - The current groups.
+ * @param id - Name of the group or id of the item.
+ * @param index - New position of the group or item.
+ * @param groupName - Group to move the item into, its own group by default.
+ */
+export const moveSlashCommand = (
+   groups: SlashCommandGroup[],
+   id: string,
+   index: number,
+   groupName?: string
+) => {
+   const group = groups.find(({ name }) => name === id);
+   if (group) return addSlashCommandGroup(groups, group, index);
+
+   for (const { name, items } of groups) {
+      const item = typeof items !== 'function' && items.find((item) => item.id === id);
+      if (item) return addSlashCommandItems(groups, groupName ?? name, [item], index);
+   }
+   return groups;
+};
+
+/**
+ * Whether an item matches the query by its title in any language, its search terms or its id.
+ */
+const matchesQuery = (item: SlashCommandItem, query: string) => {
+   const search = normalizeSearchText(query.trim());
+   return [...i18n.getSearchTerms(item.title), ...(item.searchTerms ?? []), item.id].some((term) =>
+      normalizeSearchText(term).includes(search)
+   );
+};
+
+/**
+ * Loads the items of every group for the query and keeps the matching, available ones.
+ * A group failing to load is left out.
+ *
+ * @param groups - The groups of the menu.
+ * @param query - Text typed after the slash.
+ * @param editor - The Tiptap editor instance.
+ * @param signal - Aborted when the query changes.
+ * @returns Non-empty sections in display order.
+ */
+export const getSlashCommandSections = async ({
+   groups,
+   query,
+   editor,
+   signal,
+}: {
+   groups: SlashCommandGroup[];
+   query: string;
+   editor: Editor;
+   signal: AbortSignal;
+}): Promise<SlashCommandSection[]> => {
+   const sections = await Promise.all(
+      groups.map(async ({ name, title, items }) => {
+         let matches: SlashCommandItem[] = [];
+         try {
+            matches =
+               typeof items === 'function'
+                  ? await items({ query, editor, signal })
+                  : items.filter((item) => matchesQuery(item, query));
+         } catch (error) {
+            if (!signal.aborted) console.error(`Slash command group "${name}" error:`, error);
+         }
+         return {
+            name,
+            title,
+            items: matches.filter((item) => item.isAvailable?.(editor) ?? true),
+         };
+      })
+   );
+   return sections.filter(({ items }) => items.length > 0);
+};
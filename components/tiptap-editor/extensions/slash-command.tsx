@@ -4,92 +4,51 @@
  * This file contains the Slash Command extension for the Tiptap editor.
  * It provides a command menu that appears when the user types "/" in the editor.
  *
- * - SlashCommandList: React component that displays available slash commands and allows selection.
+ * - SlashCommandList: React component that displays the matching commands in groups and allows selection.
  * - SlashCommand: Tiptap Extension that manages the "/" command menu logic.
- * - slashCommandSuggestion: Configuration for command suggestions and popup rendering.
+ * - renderSlashCommandMenu: Popup rendering of the menu.
  *
- * Multi-language support is provided via the i18n utility. Commands include formatting, tables, media, AI, and utility actions.
+ * The items are listed in named groups, see `slash-command-groups.tsx` for the built-in items and
+ * the functions to register, remove and reorder items. Multi-language support is provided via the
+ * i18n utility.
  *
- * Keyboard navigation is supported (up/down/enter).
+ * Keyboard navigation is supported (up/down/enter); Tab and Shift+Tab jump to the next and
+ * previous group.
  *
  * @example
  * ```tsx
- * editor.use(SlashCommand)
+ * SlashCommand.configure({
+ *    showImageUpload: true,
+ *    groups: (defaults) => addSlashCommandItems(defaults, 'blocks', [ticketItem]),
+ * });
  * ```
  */
 import React from 'react';
 import { Extension } from '@tiptap/core';
-import Suggestion from '@tiptap/suggestion';
+import Suggestion, { type SuggestionOptions, type SuggestionProps } from '@tiptap/suggestion';
 import { ReactRenderer } from '@tiptap/react';
-import {
-   Heading1,
-   Heading2,
-   Heading3,
-   List,
-   ListOrdered,
-   CheckSquare,
-   Type,
-   Bold,
-   Italic,
-   Underline,
-   Strikethrough,
-   Code,
-   Subscript,
-   Superscript,
-   TextQuote,
-   Minus,
-   Youtube,
-   Table,
-   Eraser,
-   Upload,
-   Link2,
-   Images,
-   Twitter,
-   Sparkles,
-   Download,
-} from 'lucide-react';
 import { computePosition, flip, shift, offset, autoUpdate } from '@floating-ui/dom';
-import type { Editor, Range } from '@tiptap/core';
-import {
-   twitterCommand,
-   youtubeCommand,
-   imageCommand,
-   imageGalleryCommand,
-   imageUrlCommand,
-   importCommand,
-   exportCommand,
-} from '../selector';
-import { contextAICommand } from './context-ai';
+import { cn } from '../tiptap-utils';
 import { i18n } from '../i18n';
+import {
+   getDefaultSlashCommandGroups,
+   getSlashCommandSections,
+   type DefaultSlashCommandOptions,
+   type SlashCommandGroup,
+   type SlashCommandItem,
+   type SlashCommandSection,
+} from './slash-command-groups';
 
-/**
- * Represents a single slash command item.
- *
- * @property title - The command title (multi-language key)
- * @property description - The command description (optional, multi-language key)
- * @property searchTerms - Searchable keywords for the command
- * @property shortcut - Keyboard shortcut (optional)
- * @property icon - Icon component for the command
- * @property command - Function to execute when the command is selected
- */
-
-interface SlashCommandItem {
-   title: string;
-   description?: string;
-   searchTerms?: string[];
-   shortcut?: string;
-   icon?: React.ReactNode;
-   command: ({ editor, range }: { editor: Editor; range: Range }) => void;
-}
+type SlashCommandSuggestionProps = SuggestionProps<SlashCommandSection, SlashCommandItem>;
 
 /**
  * Props for the SlashCommandList component.
  *
- * @property items - List of available slash commands
+ * @property items - Groups with the matching slash commands
  * @property command - Function to execute when a command is selected
  */
 interface SlashCommandListProps {
-   items: SlashCommandItem[];
+   items: SlashCommandSection[];
    command: (item: SlashCommandItem) => void;
 }
 
@@ -104,33 +63,58 @@ interface SlashCommandListRef {
 }
 
 /**
- * SlashCommandList component displays the list of slash commands and handles selection.
- * Supports keyboard navigation (up/down/enter).
+ * SlashCommandList component displays the slash commands under group headers and handles
+ * selection. Items are navigated as one list across the groups.
  *
- * @param props - SlashCommandListProps, contains command list and selection handler
+ * @param props - SlashCommandListProps, contains command groups and selection handler
  * @param ref - Used for external keyboard event handling
  */
 const SlashCommandList = React.forwardRef<SlashCommandListRef, SlashCommandListProps>(
    (props, ref) => {
       const [selectedIndex, setSelectedIndex] = React.useState(0);
+      const listRef = React.useRef<HTMLDivElement>(null);
+
+      const items = React.useMemo(() => props.items.flatMap((group) => group.items), [props.items]);
+
+      // Index of the first item of every group
+      const groupStarts = React.useMemo(() => {
+         const starts: number[] = [];
+         let start = 0;
+         for (const group of props.items) {
+            starts.push(start);
+            start += group.items.length;
+         }
+         return starts;
+      }, [props.items]);
 
       const selectItem = React.useCallback(
          (index: number) => {
-            const item = props.items[index];
+            const item = items[index];
             if (item) {
                props.command(item);
             }
          },
-         [props]
+         [items, props]
       );
 
       const upHandler = React.useCallback(() => {
-         setSelectedIndex((selectedIndex + props.items.length - 1) % props.items.length);
-      }, [selectedIndex, props.items.length]);
+         setSelectedIndex((selectedIndex + items.length - 1) % items.length);
+      }, [selectedIndex, items.length]);
 
       const downHandler = React.useCallback(() => {
-         setSelectedIndex((selectedIndex + 1) % props.items.length);
-      }, [selectedIndex, props.items.length]);
+         setSelectedIndex((selectedIndex + 1) % items.length);
+      }, [selectedIndex, items.length]);
+
+      const nextGroupHandler = React.useCallback(() => {
+         setSelectedIndex(groupStarts.find((start) => start > selectedIndex) ?? 0);
+      }, [selectedIndex, groupStarts]);
+
+      const previousGroupHandler = React.useCallback(() => {
+         const previous = groupStarts.filter((start) => start < selectedIndex);
+         setSelectedIndex(
+            previous.length ? previous[previous.length - 1] : groupStarts[groupStarts.length - 1]
+         );
+      }, [selectedIndex, groupStarts]);
 
       const enterHandler = React.useCallback(() => {
          selectItem(selectedIndex);
@@ -138,8 +122,18 @@ const SlashCommandList = React.forwardRef<SlashCommandListRef, SlashCommandListP
 
       React.useEffect(() => setSelectedIndex(0), [props.items]);
 
+      React.useEffect(() => {
+         listRef.current
+            ?.querySelector('[aria-selected="true"]')
+            ?.scrollIntoView({ block: 'nearest' });
+      }, [selectedIndex]);
+
       React.useImperativeHandle(ref, () => ({
          onKeyDown: ({ event }: { event: KeyboardEvent }) => {
+            if (!items.length) {
+               return false;
+            }
+
             if (event.key === 'ArrowUp') {
                upHandler();
                return true;
@@ -150,6 +144,15 @@ const SlashCommandList = React.forwardRef<SlashCommandListRef, SlashCommandListP
                return true;
             }
 
+            if (event.key === 'Tab') {
+               if (event.shiftKey) {
+                  previousGroupHandler();
+               } else {
+                  nextGroupHandler();
+               }
+               return true;
+            }
+
             if (event.key === 'Enter') {
                enterHandler();
                return true;
@@ -160,31 +163,45 @@ const SlashCommandList = React.forwardRef<SlashCommandListRef, SlashCommandListP
       }));
 
       return (
-         <div className="z-50 h-auto max-h-[330px] max-w-56 overflow-y-auto rounded-md border border-muted bg-background px-1 py-2 shadow-md transition-all">
-            {props.items.length ? (
-               props.items.map((item, index) => (
-                  <button
-                     className={`flex w-full items-center space-x-2 rounded-md px-2 py-1 text-left text-sm hover:bg-accent ${
-                        index === selectedIndex ? 'bg-accent text-accent-foreground' : ''
-                     }`}
-                     key={index}
-                     onClick={() => selectItem(index)}
-                  >
-                     <div className="flex h-6 w-6 items-center justify-center rounded-md border border-muted bg-background">
-                        {item.icon || <span className="text-lg">📝</span>}
+         <div
+            ref={listRef}
+            role="listbox"
+            className="z-50 h-auto max-h-[330px] max-w-56 overflow-y-auto rounded-md border border-muted bg-background px-1 py-2 shadow-md transition-all"
+         >
+            {items.length ? (
+               props.items.map((group, groupIndex) => (
+                  <div key={group.name} role="group" aria-label={i18n.t(group.title)}>
+                     <div className="px-2 pb-1 pt-2 text-xs font-medium text-muted-foreground first:pt-0">
+                        {i18n.t(group.title)}
                      </div>
-                     <div className="flex-1 max-w-40">
-                        <p className="font-medium text-xs">{i18n.t(item.title)}</p>
-                        {/* {item.description && (
-                           <p className="text-xs text-muted-foreground">
-                              {i18n.t(item.description)}
-                           </p>
-                        )} */}
-                     </div>
-                  </button>
+                     {group.items.map((item, itemIndex) => {
+                        const index = groupStarts[groupIndex] + itemIndex;
+                        return (
+                           <button
+                              className={cn(
+                                 'flex w-full items-center space-x-2 rounded-md px-2 py-1 text-left text-sm hover:bg-accent',
+                                 index === selectedIndex && 'bg-accent text-accent-foreground'
+                              )}
+                              key={item.id}
+                              role="option"
+                              aria-selected={index === selectedIndex}
+                              onClick={() => selectItem(index)}
+                           >
+                              <div className="flex h-6 w-6 items-center justify-center rounded-md border border-muted bg-background">
+                                 {item.icon || <span className="text-lg">📝</span>}
+                              </div>
+                              <div className="flex-1 max-w-40">
+                                 <p className="font-medium text-xs">{i18n.t(item.title)}</p>
+                              </div>
+                           </button>
+                        );
+                     })}
+                  </div>
                ))
             ) : (
-               <div className="item">No result</div>
+               <div className="px-2 py-1 text-xs text-muted-foreground">
+                  {i18n.t('NO_COMMANDS_FOUND')}
+               </div>
             )}
          </div>
       );
@@ -193,6 +210,131 @@ const SlashCommandList = React.forwardRef<SlashCommandListRef, SlashCommandListP
 
 SlashCommandList.displayName = 'SlashCommandList';
 
+/**
+ * Renders the slash command menu in a popup positioned at the cursor.
+ *
+ * @remarks
+ * - The render function manages the popup lifecycle.
+ */
+const renderSlashCommandMenu = () => {
+   let component: ReactRenderer | null = null;
+   let popup: HTMLDivElement | null = null;
+   let cleanup: (() => void) | undefined;
+
+   return {
+      onStart: (props: SlashCommandSuggestionProps) => {
+         try {
+            component = new ReactRenderer(SlashCommandList, {
+               props: {
+                  items: props.items,
+                  command: props.command,
+               },
+               editor: props.editor,
+            });
+
+            if (!props.clientRect) {
+               return;
+            }
+
+            popup = document.createElement('div');
+            popup.style.position = 'absolute';
+            popup.style.zIndex = '1000';
+            popup.appendChild(component.element);
+            document.body.appendChild(popup);
+
+            const virtualElement = {
+               getBoundingClientRect: () => props.clientRect?.() ?? new DOMRect(),
+            };
+
+            const updatePosition = () => {
+               if (!popup) return;
+
+               computePosition(virtualElement, popup, {
+                  placement: 'bottom-start',
+                  middleware: [offset(8), flip(), shift({ padding: 8 })],
+               }).then(({ x, y }) => {
+                  if (popup) {
+                     popup.style.left = `${x}px`;
+                     popup.style.top = `${y}px`;
+                  }
+               });
+            };
+
+            updatePosition();
+
+            cleanup = autoUpdate(virtualElement, popup, updatePosition);
+         } catch (error) {
+            console.error('Slash command render error:', error);
+         }
+      },
+
+      onUpdate(props: SlashCommandSuggestionProps) {
+         if (!component) return;
+
+         component.updateProps({
+            items: props.items,
+            command: props.command,
+         });
+
+         if (!props.clientRect || !popup) {
+            return;
+         }
+
+         const virtualElement = {
+            getBoundingClientRect: () => props.clientRect?.() ?? new DOMRect(),
+         };
+
+         computePosition(virtualElement, popup, {
+            placement: 'bottom-start',
+            middleware: [offset(8), flip(), shift({ padding: 8 })],
+         }).then(({ x, y }) => {
+            if (popup) {
+               popup.style.left = `${x}px`;
+               popup.style.top = `${y}px`;
+            }
+         });
+      },
+
+      onKeyDown(props: { event: KeyboardEvent }) {
+         if (props.event.key === 'Escape') {
+            cleanup?.();
+            popup?.remove();
+            return true;
+         }
+
+         return (component?.ref as SlashCommandListRef)?.onKeyDown?.(props);
+      },
+
+      onExit() {
+         try {
+            cleanup?.();
+            popup?.remove();
+
+            if (component) {
+               component.destroy();
+            }
+         } catch (error) {
+            console.error('Slash command exit error:', error);
+         } finally {
+            component = null;
+            popup = null;
+            cleanup = undefined;
+         }
+      },
+   };
+};
+
+/**
+ * Options of the SlashCommand extension.
+ *
+ * @property groups - The menu groups, or a function changing the built-in groups
+ * @property suggestion - Options of the Suggestion plugin
+ */
+export interface SlashCommandOptions extends DefaultSlashCommandOptions {
+   groups?: SlashCommandGroup[] | ((defaults: SlashCommandGroup[]) => SlashCommandGroup[]);
+   suggestion: Omit<SuggestionOptions<SlashCommandSection, SlashCommandItem>, 'editor'>;
+}
+
 /**
  * SlashCommand Tiptap Extension.
  * Manages the "/" command menu in the editor.
@@ -200,477 +342,40 @@ SlashCommandList.displayName = 'SlashCommandList';
  * @remarks
  * - Uses Suggestion plugin for command triggering.
  * - Handles command execution and menu rendering.
+ * - A `groups` function is called on every query, so it can return groups that change over time.
  */
-export const SlashCommand = Extension.create({
+export const SlashCommand = Extension.create<SlashCommandOptions>({
    name: 'slashCommand',
 
    addOptions() {
       return {
+         groups: undefined,
          suggestion: {
             char: '/',
-            command: ({
-               editor,
-               range,
-               props,
-            }: {
-               editor: Editor;
-               range: Range;
-               props: SlashCommandItem;
-            }) => {
+            command: ({ editor, range, props }) => {
                props.command({ editor, range });
             },
+            render: renderSlashCommandMenu,
          },
       };
    },
 
    addProseMirrorPlugins() {
+      const { groups, suggestion, ...options } = this.options;
+      const defaults = getDefaultSlashCommandGroups(options);
+
       return [
-         Suggestion({
+         Suggestion<SlashCommandSection, SlashCommandItem>({
             editor: this.editor,
-            ...this.options.suggestion,
+            items: ({ query, editor, signal }) =>
+               getSlashCommandSections({
+                  groups: typeof groups === 'function' ? groups(defaults) : (groups ?? defaults),
+                  query,
+                  editor,
+                  signal,
+               }),
+            ...suggestion,
          }),
       ];
    },
 });
-
-/**
- * Configuration for slash command suggestions and popup rendering.
- *
- * @remarks
- * - Commands include formatting, headings, lists, media, AI, and utilities.
- * - Multi-language support via i18n.t.
- * - The render function manages the popup lifecycle.
- *
- * @param query - User search query
- * @returns Filtered command list and popup render logic
- */
-export const slashCommandSuggestion = {
-   items: ({
-      query,
-      showImageUrl,
-      showImageUpload,
-      showImageGallery,
-      showImportData,
-      showExportData,
-   }: {
-      query: string;
-      showImageUrl?: boolean;
-      showImageUpload?: boolean;
-      showImageGallery?: boolean;
-      showImportData?: boolean;
-      showExportData?: boolean;
-   }) => {
-      let items: SlashCommandItem[] = [
-         {
-            title: 'CONTEXT_AI',
-            description: 'AI_CONTENT_GENERATION',
-            searchTerms: ['ai', 'artificial', 'intelligence', 'generate', 'context', 'assistant'],
-            icon: <Sparkles className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).run();
-               contextAICommand({ editor });
-            },
-         },
-         {
-            title: 'TEXT',
-            description: 'START_TYPING',
-            searchTerms: ['p', 'paragraph', 'text', 'plain'],
-            icon: <Type className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).clearNodes().run();
-            },
-         },
-         {
-            title: 'BOLD',
-            description: 'BOLD_TEXT',
-            searchTerms: ['bold', 'strong', 'b'],
-            shortcut: 'Ctrl+B',
-            icon: <Bold className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).toggleBold().run();
-            },
-         },
-         {
-            title: 'ITALIC',
-            description: 'ITALIC_TEXT',
-            searchTerms: ['italic', 'i', 'em'],
-            shortcut: 'Ctrl+I',
-            icon: <Italic className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).toggleItalic().run();
-            },
-         },
-         {
-            title: 'UNDERLINE',
-            description: 'UNDERLINE_TEXT',
-            searchTerms: ['underline', 'u'],
-            shortcut: 'Ctrl+U',
-            icon: <Underline className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).toggleUnderline().run();
-            },
-         },
-         {
-            title: 'STRIKETHROUGH',
-            description: 'STRIKETHROUGH_TEXT',
-            searchTerms: ['strikethrough', 'strike', 's'],
-            shortcut: 'Ctrl+Shift+S',
-            icon: <Strikethrough className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).toggleStrike().run();
-            },
-         },
-         {
-            title: 'CODE',
-            description: 'INLINE_CODE',
-            searchTerms: ['code', 'inline', 'c'],
-            shortcut: 'Ctrl+E',
-            icon: <Code className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).toggleCode().run();
-            },
-         },
-         {
-            title: 'SUBSCRIPT',
-            description: 'SUBSCRIPT_TEXT',
-            searchTerms: ['subscript', 'sub'],
-            shortcut: 'Ctrl+,',
-            icon: <Subscript className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).toggleSubscript().run();
-            },
-         },
-         {
-            title: 'SUPERSCRIPT',
-            description: 'SUPERSCRIPT_TEXT',
-            searchTerms: ['superscript', 'super', 'sup'],
-            shortcut: 'Ctrl+.',
-            icon: <Superscript className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).toggleSuperscript().run();
-            },
-         },
-         // Heading commands
-         {
-            title: 'HEADING',
-            description: 'BIG_SECTION_HEADING',
-            searchTerms: ['h1', 'heading1', 'title', 'big'],
-            icon: <Heading1 className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).setNode('heading', { level: 1 }).run();
-            },
-         },
-         {
-            title: 'HEADING',
-            description: 'MEDIUM_SECTION_HEADING',
-            searchTerms: ['h2', 'heading2', 'subtitle'],
-            icon: <Heading2 className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).setNode('heading', { level: 2 }).run();
-            },
-         },
-         {
-            title: 'HEADING',
-            description: 'SMALL_SECTION_HEADING',
-            searchTerms: ['h3', 'heading3', 'subheading'],
-            icon: <Heading3 className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).setNode('heading', { level: 3 }).run();
-            },
-         },
-         // List commands
-         {
-            title: 'BULLET_LIST',
-            description: 'UNORDERED_LIST_BULLETS',
-            searchTerms: ['bullet', 'list', 'ul', 'unordered'],
-            icon: <List className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).toggleBulletList().run();
-            },
-         },
-         {
-            title: 'NUMBERED_LIST',
-            description: 'ORDERED_LIST_NUMBERS',
-            searchTerms: ['numbered', 'ordered', 'ol', '1', 'list'],
-            icon: <ListOrdered className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).toggleOrderedList().run();
-            },
-         },
-         {
-            title: 'TASK_LIST',
-            description: 'INTERACTIVE_TASK_LIST',
-            searchTerms: ['task', 'todo', 'checkbox', 'check'],
-            icon: <CheckSquare className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).toggleTaskList().run();
-            },
-         },
-         // Block elements
-         {
-            title: 'BLOCK_QUOTE',
-            description: 'INSERT_BLOCK_QUOTE',
-            searchTerms: ['quote', 'blockquote', 'citation'],
-            shortcut: 'Ctrl+Shift+Q',
-            icon: <TextQuote className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).toggleBlockquote().run();
-            },
-         },
-         {
-            title: 'CODE_BLOCK',
-            description: 'INSERT_CODE_BLOCK',
-            searchTerms: ['code', 'codeblock', 'pre', 'programming'],
-            shortcut: 'Ctrl+Shift+C',
-            icon: <Code className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).setCodeBlock().run();
-            },
-         },
-         {
-            title: 'HORIZONTAL_RULE',
-            description: 'INSERT_HORIZONTAL_RULE',
-            searchTerms: ['hr', 'horizontal', 'rule', 'divider', 'separator'],
-            shortcut: 'Ctrl+Shift+H',
-            icon: <Minus className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).setHorizontalRule().run();
-            },
-         },
-
-         // Media and advanced elements
-         {
-            title: 'UPLOAD_IMAGE',
-            description: 'UPLOAD_IMAGE_FROM_DEVICE',
-            searchTerms: ['upload', 'image', 'file', 'photo', 'picture', 'resim', 'yükle'],
-            icon: <Upload className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).run();
-               imageCommand({ editor });
-            },
-         },
-         {
-            title: 'IMAGE_URL',
-            description: 'ADD_IMAGE_FROM_URL',
-            searchTerms: ['image', 'url', 'link', 'web', 'resim', 'bağlantı'],
-            icon: <Link2 className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).run();
-               imageUrlCommand({ editor });
-            },
-         },
-         {
-            title: 'IMAGE_GALLERY',
-            description: 'SELECT_FROM_GALLERY',
-            searchTerms: ['gallery', 'library', 'stored', 'saved', 'collection', 'galeri'],
-            icon: <Images className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).run();
-               imageGalleryCommand({ editor });
-            },
-         },
-         {
-            title: 'YOUTUBE',
-            description: 'EMBED_YOUTUBE_VIDEO',
-            searchTerms: ['youtube', 'video', 'embed'],
-            icon: <Youtube className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).run();
-               youtubeCommand({ editor });
-            },
-         },
-         {
-            title: 'TWITTER',
-            description: 'EMBED_TWITTER_POST',
-            searchTerms: ['twitter', 'x', 'tweet', 'social'],
-            icon: <Twitter className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).run();
-               twitterCommand({ editor });
-            },
-         },
-         {
-            title: 'TABLE',
-            description: 'CREATE_TABLE',
-            searchTerms: ['table', 'grid', 'rows', 'columns'],
-            icon: <Table className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor
-                  .chain()
-                  .focus()
-                  .deleteRange(range)
-                  .insertTable({ rows: 3, cols: 3, withHeaderRow: true })
-                  .run();
-            },
-         },
-         {
-            title: 'IMPORT_CONTENT',
-            description: 'IMPORT_FROM_FILE_URL_TEXT',
-            searchTerms: ['import', 'içe', 'aktar', 'yükle', 'dosya', 'file', 'upload'],
-            icon: <Upload className="w-4 h-4 text-blue-500" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).run();
-               importCommand({ editor });
-            },
-         },
-         {
-            title: 'EXPORT_CONTENT',
-            description: 'EXPORT_TO_DOCX_HTML_MARKDOWN',
-            searchTerms: ['export', 'dışa', 'aktar', 'kaydet', 'indir', 'download', 'save'],
-            icon: <Download className="w-4 h-4 text-green-500" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).run();
-               exportCommand({ editor });
-            },
-         },
-
-         // Utility commands
-         {
-            title: 'CLEAR_FORMATTING',
-            description: 'CLEAR_ALL_FORMATTING',
-            searchTerms: ['clear', 'remove', 'formatting', 'reset'],
-            shortcut: 'Ctrl+Shift+X',
-            icon: <Eraser className="w-4 h-4" />,
-            command: ({ editor, range }: { editor: Editor; range: Range }) => {
-               editor.chain().focus().deleteRange(range).clearNodes().unsetAllMarks().run();
-            },
-         },
-      ];
-
-      items = items.filter((item) => {
-         if (item.title === 'IMAGE_URL' && !showImageUrl) return false;
-         if (item.title === 'UPLOAD_IMAGE' && !showImageUpload) return false;
-         if (item.title === 'IMAGE_GALLERY' && !showImageGallery) return false;
-         if (item.title === 'IMPORT_CONTENT' && !showImportData) return false;
-         if (item.title === 'EXPORT_CONTENT' && !showExportData) return false;
-         return true;
-      });
-
-      console.log('Slash command items:', showImageUrl);
-
-      return items.filter(
-         (item) =>
-            item.title.toLowerCase().includes(query.toLowerCase()) ||
-            item.searchTerms?.some((term) => term.toLowerCase().includes(query.toLowerCase()))
-      );
-   },
-   render: () => {
-      let component: ReactRenderer | null = null;
-      let popup: HTMLDivElement | null = null;
-      let cleanup: (() => void) | undefined;
-
-      return {
-         onStart: (props: {
-            editor: Editor;
-            clientRect: () => DOMRect;
-            items: SlashCommandItem[];
-            command: (item: SlashCommandItem) => void;
-            range: Range;
-         }) => {
-            try {
-               component = new ReactRenderer(SlashCommandList, {
-                  props: {
-                     items: props.items,
-                     command: props.command,
-                  },
-                  editor: props.editor,
-               });
-
-               if (!props.clientRect) {
-                  return;
-               }
-
-               popup = document.createElement('div');
-               popup.style.position = 'absolute';
-               popup.style.zIndex = '1000';
-               popup.appendChild(component.element);
-               document.body.appendChild(popup);
-
-               const virtualElement = {
-                  getBoundingClientRect: () => props.clientRect(),
-               };
-
-               const updatePosition = () => {
-                  if (!popup) return;
-
-                  computePosition(virtualElement, popup, {
-                     placement: 'bottom-start',
-                     middleware: [offset(8), flip(), shift({ padding: 8 })],
-                  }).then(({ x, y }) => {
-                     if (popup) {
-                        popup.style.left = `${x}px`;
-                        popup.style.top = `${y}px`;
-                     }
-                  });
-               };
-
-               updatePosition();
-
-               cleanup = autoUpdate(virtualElement, popup, updatePosition);
-            } catch (error) {
-               console.error('Slash command render error:', error);
-            }
-         },
-
-         onUpdate(props: {
-            editor: Editor;
-            clientRect: () => DOMRect;
-            items: SlashCommandItem[];
-            command: (item: SlashCommandItem) => void;
-            range: Range;
-         }) {
-            if (!component) return;
-
-            component.updateProps({
-               items: props.items,
-               command: props.command,
-            });
-
-            if (!props.clientRect || !popup) {
-               return;
-            }
-
-            const virtualElement = {
-               getBoundingClientRect: () => props.clientRect(),
-            };
-
-            computePosition(virtualElement, popup, {
-               placement: 'bottom-start',
-               middleware: [offset(8), flip(), shift({ padding: 8 })],
-            }).then(({ x, y }) => {
-               if (popup) {
-                  popup.style.left = `${x}px`;
-                  popup.style.top = `${y}px`;
-               }
-            });
-         },
-
-         onKeyDown(props: { event: KeyboardEvent }) {
-            if (props.event.key === 'Escape') {
-               cleanup?.();
-               popup?.remove();
-               return true;
-            }
-
-            return (component?.ref as SlashCommandListRef)?.onKeyDown?.(props);
-         },
-
-         onExit() {
-            try {
-               cleanup?.();
-               popup?.remove();
-
-               if (component) {
-                  component.destroy();
-               }
-            } catch (error) {
-               console.error('Slash command exit error:', error);
-            } finally {
-               component = null;
-               popup = null;
-               cleanup = undefined;
-            }
-         },
-      };
-   },
-};
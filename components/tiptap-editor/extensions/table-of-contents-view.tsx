@@ -0,0 +1,79 @@
+'use client';
+
+/**
+ * @module TableOfContentsView
+ *
+ * This module provides the React node view of the table of contents block.
+ * It is a client module of its own so the extension can also be imported on the server,
+ * e.g. by the static renderer, which never creates node views.
+ */
+import {
+   NodeViewWrapper,
+   ReactNodeViewRenderer,
+   useEditorState,
+   type NodeViewProps,
+} from '@tiptap/react';
+import * as React from 'react';
+import { getHeadings, nestHeadings, scrollToHeading, type OutlineItem } from '../outline/outline';
+import { cn } from '../tiptap-utils';
+import { i18n } from '../i18n';
+
+const HeadingList = ({
+   items,
+   onSelect,
+}: {
+   items: OutlineItem[];
+   onSelect: (pos: number) => void;
+}) => (
+   <ul>
+      {items.map((item) => (
+         <li key={item.pos}>
+            <a
+               href={item.id ? `#${item.id}` : undefined}
+               onClick={(event) => {
+                  event.preventDefault();
+                  onSelect(item.pos);
+               }}
+            >
+               {item.text || i18n.t('UNTITLED_HEADING')}
+            </a>
+            {item.children.length > 0 && <HeadingList items={item.children} onSelect={onSelect} />}
+         </li>
+      ))}
+   </ul>
+);
+
+/**
+ * React component rendering the headings of the document as a nested list.
+ *
+ * @param editor - The editor instance.
+ * @param selected - Whether the block is selected.
+ */
+const TableOfContentsComponent = ({ editor, selected }: NodeViewProps) => {
+   const headings = useEditorState({
+      editor,
+      selector: (ctx) => getHeadings(ctx.editor.state.doc),
+   });
+   const items = React.useMemo(() => nestHeadings(headings), [headings]);
+
+   return (
+      <NodeViewWrapper
+         as="nav"
+         data-type="table-of-contents"
+         className={cn('table-of-contents', selected && 'ProseMirror-selectednode')}
+         contentEditable={false}
+      >
+         <p className="table-of-contents-title">{i18n.t('TABLE_OF_CONTENTS')}</p>
+         {items.length ? (
+            <HeadingList items={items} onSelect={(pos) => scrollToHeading(editor, pos)} />
+         ) : (
+            <p className="table-of-contents-empty">{i18n.t('TABLE_OF_CONTENTS_EMPTY')}</p>
+         )}
+      </NodeViewWrapper>
+   );
+};
+
+/**
+ * Creates the node view of a table of contents block.
+ */
+export const createTableOfContentsNodeView = () => ReactNodeViewRenderer(TableOfContentsComponent);
@@ -0,0 +1,99 @@
+/**
+ * @module TableOfContents
+ *
+ * This module provides the table of contents block for the Tiptap editor.
+ * It lists the headings of the document and follows them as they change.
+ *
+ * @remarks
+ * - The block is an atom without content; the headings are read from the document when it is
+ *   rendered, so it never gets out of date.
+ * - In the editor a React node view renders the list, where clicking a heading scrolls to it
+ *   (see `table-of-contents-view.tsx`).
+ * - HTML output (`getHTML`, exports, the static renderers) contains the nested heading list,
+ *   linking to the heading anchors.
+ *
+ * @example
+ * ```tsx
+ * editor.commands.insertTableOfContents()
+ * ```
+ */
+import { Node, mergeAttributes } from '@tiptap/core';
+import type { DOMOutputSpec, Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { getHeadings, nestHeadings, type OutlineItem } from '../outline/outline';
+import { createTableOfContentsNodeView } from './table-of-contents-view';
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      tableOfContents: {
+         /**
+          * Inserts a table of contents block.
+          */
+         insertTableOfContents: () => ReturnType;
+      };
+   }
+}
+
+// Every element has an attributes object, which the static renderers expect
+const listSpec = (items: OutlineItem[]): DOMOutputSpec => [
+   'ul',
+   {},
+   ...items.map((item): DOMOutputSpec => [
+      'li',
+      {},
+      item.id ? ['a', { href: `#${item.id}` }, item.text] : ['span', {}, item.text],
+      ...(item.children.length ? [listSpec(item.children)] : []),
+   ]),
+];
+
+/**
+ * Markup of a table of contents block listing the headings of a document.
+ *
+ * @param doc - The document containing the block.
+ * @param HTMLAttributes - Attributes of the block element.
+ */
+export const tableOfContentsSpec = (
+   doc: ProseMirrorNode | undefined,
+   HTMLAttributes: Record<string, unknown> = {}
+): DOMOutputSpec => {
+   const items = doc ? nestHeadings(getHeadings(doc)) : [];
+   return [
+      'nav',
+      mergeAttributes({ 'data-type': 'table-of-contents' }, HTMLAttributes),
+      // An empty string keeps the element from being serialized as self-closing
+      items.length ? listSpec(items) : '',
+   ];
+};
+
+export const TableOfContents = Node.create({
+   name: 'tableOfContents',
+
+   group: 'block',
+
+   atom: true,
+
+   selectable: true,
+
+   draggable: true,
+
+   parseHTML() {
+      return [{ tag: 'nav[data-type="table-of-contents"]' }];
+   },
+
+   renderHTML({ HTMLAttributes }) {
+      // Without an editor, e.g. in `generateHTML`, the headings are unknown
+      return tableOfContentsSpec(this.editor?.state.doc, HTMLAttributes);
+   },
+
+   addNodeView() {
+      return createTableOfContentsNodeView();
+   },
+
+   addCommands() {
+      return {
+         insertTableOfContents:
+            () =>
+            ({ commands }) =>
+               commands.insertContent({ type: this.name }),
+      };
+   },
+});
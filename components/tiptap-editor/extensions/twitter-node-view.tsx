@@ -0,0 +1,46 @@
+'use client';
+
+/**
+ * @module TwitterNodeView
+ *
+ * This module provides the React node view of the Twitter extension.
+ * It is a client module of its own so the extension can also be imported on the server,
+ * e.g. by the static renderer, which never creates node views.
+ */
+import {
+   NodeViewWrapper,
+   ReactNodeViewRenderer,
+   type ReactNodeViewRendererOptions,
+} from '@tiptap/react';
+import { Tweet } from 'react-tweet';
+import * as React from 'react';
+
+/**
+ * React component for rendering a Tweet node.
+ *
+ * @param node - The node view renderer options.
+ */
+const TweetComponent = ({ node }: { node: Partial<ReactNodeViewRendererOptions> }) => {
+   const url = (node?.attrs as Record<string, string>)?.src;
+   const tweetId = url?.split('/').pop();
+
+   if (!tweetId) {
+      return null;
+   }
+
+   return (
+      <NodeViewWrapper>
+         <div data-twitter="">
+            <Tweet id={tweetId} />
+         </div>
+      </NodeViewWrapper>
+   );
+};
+
+/**
+ * Creates the node view of a tweet node.
+ *
+ * @param attrs - HTML attributes of the node view wrapper.
+ */
+export const createTweetNodeView = (attrs: ReactNodeViewRendererOptions['attrs']) =>
+   ReactNodeViewRenderer(TweetComponent, { attrs });
@@ -7,7 +7,7 @@
  * @remarks
  * - Supports both inline and block tweet nodes.
  * - Paste handler automatically detects and embeds tweets from URLs.
- * - ReactNodeView is used for rendering tweets with the `react-tweet` package.
+ * - ReactNodeView is used for rendering tweets with the `react-tweet` package (see `twitter-node-view.tsx`).
  * - Tweet node is draggable and supports custom HTML attributes.
  * - Includes TypeDoc comments for all options and commands.
  *
@@ -23,13 +23,7 @@
  */
 
 import { Node, mergeAttributes, nodePasteRule } from '@tiptap/core';
-import {
-   NodeViewWrapper,
-   ReactNodeViewRenderer,
-   type ReactNodeViewRendererOptions,
-} from '@tiptap/react';
-import { Tweet } from 'react-tweet';
-import * as React from 'react';
+import { createTweetNodeView } from './twitter-node-view';
 
 /**
  * Global regex for matching Twitter (X) URLs in pasted content.
@@ -53,28 +47,6 @@ export const isValidTwitterUrl = (url: string) => {
    return url.match(TWITTER_REGEX);
 };
 
-/**
- * React component for rendering a Tweet node.
- *
- * @param node - The node view renderer options.
- */
-const TweetComponent = ({ node }: { node: Partial<ReactNodeViewRendererOptions> }) => {
-   const url = (node?.attrs as Record<string, string>)?.src;
-   const tweetId = url?.split('/').pop();
-
-   if (!tweetId) {
-      return null;
-   }
-
-   return (
-      <NodeViewWrapper>
-         <div data-twitter="">
-            <Tweet id={tweetId} />
-         </div>
-      </NodeViewWrapper>
-   );
-};
-
 /**
  * Options for the Twitter extension.
  */
@@ -141,7 +113,7 @@ export const Twitter = Node.create<TwitterOptions>({
    },
 
    addNodeView() {
-      return ReactNodeViewRenderer(TweetComponent, { attrs: this.options.HTMLAttributes });
+      return createTweetNodeView(this.options.HTMLAttributes);
    },
 
    inline() {
@@ -206,4 +178,4 @@ export const Twitter = Node.create<TwitterOptions>({
    renderHTML({ HTMLAttributes }) {
       return ['div', mergeAttributes({ 'data-twitter': '' }, HTMLAttributes)];
    },
-});
\ No newline at end of file
+});
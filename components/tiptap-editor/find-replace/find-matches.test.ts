@@ -0,0 +1,110 @@
+import { getSchema } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { describe, expect, it } from 'vitest';
+import {
+   createSearchRegExp,
+   defaultSearchOptions,
+   findMatches,
+   getReplacement,
+   type SearchOptions,
+} from './find-matches';
+
+const schema = getSchema([StarterKit]);
+
+const search = (text: string, query: string, options: Partial<SearchOptions> = {}) => {
+   const regexp = createSearchRegExp(query, { ...defaultSearchOptions, ...options });
+   return regexp ? [...text.matchAll(regexp)].map((match) => match[0]) : null;
+};
+
+describe('createSearchRegExp', () => {
+   it('searches the query literally without regex', () => {
+      expect(search('Costs $5 (net).', '$5 (net)')).toEqual(['$5 (net)']);
+      expect(search('a.c abc', 'a.c')).toEqual(['a.c']);
+   });
+
+   it('ignores case unless asked not to', () => {
+      expect(search('Word word WORD', 'word')).toEqual(['Word', 'word', 'WORD']);
+      expect(search('Word word WORD', 'word', { caseSensitive: true })).toEqual(['word']);
+   });
+
+   it('matches whole words in any script', () => {
+      expect(search('cat concat cat_s cats', 'cat', { wholeWord: true })).toEqual(['cat']);
+      expect(search('Привет приветствие привет', 'привет', { wholeWord: true })).toEqual([
+         'Привет',
+         'привет',
+      ]);
+      expect(search('Şeker şekerli', 'şeker', { wholeWord: true })).toEqual(['Şeker']);
+      expect(search('ναι ναίσκε', 'ναι', { wholeWord: true })).toEqual(['ναι']);
+   });
+
+   it('applies whole word to every alternative of a regex', () => {
+      expect(search('red reds bred blue', 'red|blue', { regex: true, wholeWord: true })).toEqual([
+         'red',
+         'blue',
+      ]);
+   });
+
+   it('returns null for an empty query or an invalid regex', () => {
+      expect(createSearchRegExp('', defaultSearchOptions)).toBeNull();
+      expect(createSearchRegExp('(unclosed', { ...defaultSearchOptions, regex: true })).toBeNull();
+   });
+});
+
+describe('findMatches', () => {
+   it('finds matches per block with their document positions and groups', () => {
+      const doc = schema.nodeFromJSON({
+         type: 'doc',
+         content: [
+            { type: 'paragraph', content: [{ type: 'text', text: 'colour' }] },
+            { type: 'paragraph', content: [{ type: 'text', text: 'a color' }] },
+         ],
+      });
+      const regexp = createSearchRegExp('colou?(r)', { ...defaultSearchOptions, regex: true })!;
+      expect(findMatches(doc, regexp)).toEqual([
+         { from: 1, to: 7, groups: ['colour', 'r'], namedGroups: undefined },
+         { from: 11, to: 16, groups: ['color', 'r'], namedGroups: undefined },
+      ]);
+   });
+
+   it('does not match across inline nodes', () => {
+      const doc = schema.nodeFromJSON({
+         type: 'doc',
+         content: [
+            {
+               type: 'paragraph',
+               content: [
+                  { type: 'text', text: 'ab' },
+                  { type: 'hardBreak' },
+                  { type: 'text', text: 'cd' },
+               ],
+            },
+         ],
+      });
+      const regexp = createSearchRegExp('b.c', { ...defaultSearchOptions, regex: true })!;
+      expect(findMatches(doc, regexp)).toEqual([]);
+   });
+});
+
+describe('getReplacement', () => {
+   const match = {
+      from: 1,
+      to: 11,
+      groups: ['2024-05-17', '2024', '05'],
+      namedGroups: { year: '2024', month: '05' },
+   };
+
+   it('inserts capture groups in regex mode', () => {
+      expect(getReplacement(match, '$2/$1', true)).toBe('05/2024');
+      expect(getReplacement(match, '$<month>.$<year>', true)).toBe('05.2024');
+      expect(getReplacement(match, '[$&]', true)).toBe('[2024-05-17]');
+   });
+
+   it('writes $$ as a dollar sign and keeps unknown groups as typed', () => {
+      expect(getReplacement(match, '$$1', true)).toBe('$1');
+      expect(getReplacement(match, '$3 $0 $<day>', true)).toBe('$3 $0 $<day>');
+   });
+
+   it('inserts the replacement literally without regex', () => {
+      expect(getReplacement(match, '$1 $$', false)).toBe('$1 $$');
+   });
+});
@@ -0,0 +1,135 @@
+/**
+ * @module FindMatches
+ *
+ * This module searches the text of a ProseMirror document for the find and replace panel.
+ *
+ * @remarks
+ * - Every textblock is searched on its own, including code blocks and the paragraphs of tables,
+ *   task lists and blockquotes; matches do not span blocks.
+ * - Inline nodes such as math, images and hard breaks are placeholders a match cannot contain,
+ *   so they are never replaced. Atom blocks such as block math and embeds have no text.
+ * - Without `regex` the query is searched literally. `wholeWord` only matches between
+ *   non-word characters, in any script.
+ *
+ * @example
+ * ```ts
+ * const regexp = createSearchRegExp('colou?r', { regex: true, caseSensitive: false, wholeWord: true });
+ * const matches = regexp ? findMatches(doc, regexp) : [];
+ * ```
+ */
+import type { Node } from '@tiptap/pm/model';
+
+/**
+ * Search options of the panel.
+ */
+export interface SearchOptions {
+   caseSensitive: boolean;
+   regex: boolean;
+   wholeWord: boolean;
+}
+
+/**
+ * A match in the document.
+ *
+ * @property from - Start position of the match.
+ * @property to - End position of the match.
+ * @property groups - The matched text followed by the capture groups, used by `$1` in replacements.
+ * @property namedGroups - Named capture groups, used by `$<name>` in replacements.
+ */
+export interface SearchMatch {
+   from: number;
+   to: number;
+   groups: string[];
+   namedGroups?: Record<string, string>;
+}
+
+export const defaultSearchOptions: SearchOptions = {
+   caseSensitive: false,
+   regex: false,
+   wholeWord: false,
+};
+
+/**
+ * Stands for an inline node in the searched text.
+ */
+const PLACEHOLDER = '\uFFFC';
+
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+/**
+ * Builds the regular expression of a query.
+ *
+ * @param query - The search query.
+ * @param options - The search options.
+ * @returns The expression, or `null` for an empty query or an invalid regular expression.
+ */
+export const createSearchRegExp = (query: string, options: SearchOptions) => {
+   if (!query) return null;
+
+   const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+   const pattern = options.wholeWord ? `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})` : source;
+
+   try {
+      return new RegExp(pattern, options.caseSensitive ? 'gu' : 'giu');
+   } catch {
+      return null;
+   }
+};
+
+/**
+ * Finds all non-empty matches of an expression in the textblocks of a document.
+ *
+ * @param doc - The document.
+ * @param regexp - A global expression, see `createSearchRegExp`.
+ * @returns The matches in document order.
+ */
+export const findMatches = (doc: Node, regexp: RegExp) => {
+   const matches: SearchMatch[] = [];
+
+   doc.descendants((node, pos) => {
+      if (!node.isTextblock) return true;
+
+      // One character per position, so string offsets are offsets into the block
+      let text = '';
+      node.forEach((child) => {
+         text += child.isText ? child.text : PLACEHOLDER.repeat(child.nodeSize);
+      });
+
+      for (const match of text.matchAll(regexp)) {
+         if (!match[0] || match[0].includes(PLACEHOLDER)) continue;
+         const from = pos + 1 + match.index;
+         matches.push({
+            from,
+            to: from + match[0].length,
+            groups: [...match].map((group) => group ?? ''),
+            namedGroups: match.groups,
+         });
+      }
+      return false;
+   });
+
+   return matches;
+};
+
+/**
+ * Returns the text replacing a match. In regex mode `$&`, `$1` and `$<name>` insert the match
+ * and its capture groups, and `$$` a dollar sign.
+ *
+ * @param match - The match to replace.
+ * @param replacement - The replacement entered by the user.
+ * @param regex - Whether the search uses regular expressions.
+ */
+export const getReplacement = (match: SearchMatch, replacement: string, regex: boolean) => {
+   if (!regex) return replacement;
+
+   return replacement.replace(
+      /\$(\$|&|\d{1,2}|<([^>]*)>)/g,
+      (token, key: string, name?: string) => {
+         if (key === '$') return '$';
+         if (key === '&') return match.groups[0];
+         if (name !== undefined) return match.namedGroups?.[name] ?? token;
+         const index = Number(key);
+         return index > 0 && index < match.groups.length ? match.groups[index] : token;
+      }
+   );
+};
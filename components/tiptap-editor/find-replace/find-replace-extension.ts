@@ -0,0 +1,283 @@
+/**
+ * @module FindReplaceExtension
+ *
+ * This module provides the Tiptap extension behind the find and replace panel. It keeps the
+ * search in plugin state, highlights the matches with decorations and replaces them.
+ *
+ * @remarks
+ * - Matches are searched again after every change of the document, so the highlights follow
+ *   typing, undo and collaborators' edits.
+ * - Stepping through the matches scrolls the current one into view without moving the selection,
+ *   so the focus can stay in the panel.
+ * - `replaceAllMatches` replaces every match in one transaction, undone in one step.
+ *
+ * @example
+ * ```ts
+ * editor.commands.setSearch('colou?r', { regex: true });
+ * editor.commands.findNext();
+ * editor.commands.replaceAllMatches('color');
+ * ```
+ */
+import { Extension, type CommandProps } from '@tiptap/core';
+import { Plugin, PluginKey, type EditorState } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import {
+   createSearchRegExp,
+   defaultSearchOptions,
+   findMatches,
+   getReplacement,
+   type SearchMatch,
+   type SearchOptions,
+} from './find-matches';
+
+/**
+ * State of the search.
+ *
+ * @property query - The search query, empty when nothing is searched.
+ * @property options - The search options.
+ * @property matches - The matches in document order.
+ * @property index - Index of the current match, `-1` without matches.
+ * @property error - Whether the query is not a valid regular expression.
+ */
+export interface FindReplaceState {
+   query: string;
+   options: SearchOptions;
+   matches: SearchMatch[];
+   index: number;
+   error: boolean;
+}
+
+interface FindReplaceMeta {
+   query?: string;
+   options?: SearchOptions;
+   index?: number;
+   /**
+    * Position from which the next current match is searched.
+    */
+   anchor?: number;
+}
+
+export const findReplacePluginKey = new PluginKey<FindReplaceState>('findReplace');
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      findReplace: {
+         /**
+          * Searches the document and highlights the matches. The first match after the cursor
+          * becomes the current one.
+          */
+         setSearch: (query: string, options?: Partial<SearchOptions>) => ReturnType;
+         /**
+          * Makes the next match the current one.
+          */
+         findNext: () => ReturnType;
+         /**
+          * Makes the previous match the current one.
+          */
+         findPrevious: () => ReturnType;
+         /**
+          * Replaces the current match and moves on to the next one.
+          */
+         replaceMatch: (replacement: string) => ReturnType;
+         /**
+          * Replaces all matches in one transaction.
+          */
+         replaceAllMatches: (replacement: string) => ReturnType;
+         /**
+          * Ends the search and removes the highlights.
+          */
+         clearSearch: () => ReturnType;
+      };
+   }
+}
+
+const emptyState: FindReplaceState = {
+   query: '',
+   options: defaultSearchOptions,
+   matches: [],
+   index: -1,
+   error: false,
+};
+
+/**
+ * Returns the state of the search.
+ *
+ * @param state - The editor state.
+ */
+export const getFindReplaceState = (state: EditorState) =>
+   findReplacePluginKey.getState(state) ?? emptyState;
+
+/**
+ * Index of the first match at or after a position, wrapping around to the first match.
+ */
+const indexFrom = (matches: SearchMatch[], pos: number) => {
+   if (!matches.length) return -1;
+   const index = matches.findIndex((match) => match.from >= pos);
+   return index === -1 ? 0 : index;
+};
+
+export const FindReplace = Extension.create({
+   name: 'findReplace',
+
+   addCommands() {
+      const step =
+         (direction: 1 | -1) =>
+         () =>
+         ({ state, tr, dispatch }: CommandProps) => {
+            const { matches, index } = getFindReplaceState(state);
+            if (!matches.length) return false;
+            if (dispatch) {
+               const meta: FindReplaceMeta = {
+                  index: (index + direction + matches.length) % matches.length,
+               };
+               tr.setMeta(findReplacePluginKey, meta);
+            }
+            return true;
+         };
+
+      return {
+         setSearch:
+            (query, options) =>
+            ({ state, tr, dispatch }) => {
+               if (dispatch) {
+                  const meta: FindReplaceMeta = {
+                     query,
+                     options: { ...getFindReplaceState(state).options, ...options },
+                     anchor: state.selection.from,
+                  };
+                  tr.setMeta(findReplacePluginKey, meta);
+               }
+               return true;
+            },
+
+         findNext: step(1),
+
+         findPrevious: step(-1),
+
+         replaceMatch:
+            (replacement) =>
+            ({ editor, state, tr, dispatch }) => {
+               const { matches, index, options } = getFindReplaceState(state);
+               const match = matches[index];
+               if (!match || !editor.isEditable) return false;
+               if (dispatch) {
+                  tr.insertText(
+                     getReplacement(match, replacement, options.regex),
+                     match.from,
+                     match.to
+                  );
+                  const meta: FindReplaceMeta = { anchor: tr.mapping.map(match.to) };
+                  tr.setMeta(findReplacePluginKey, meta);
+               }
+               return true;
+            },
+
+         replaceAllMatches:
+            (replacement) =>
+            ({ editor, state, tr, dispatch }) => {
+               const { matches, options } = getFindReplaceState(state);
+               if (!matches.length || !editor.isEditable) return false;
+               if (dispatch) {
+                  // Back to front, so the positions of the remaining matches stay valid
+                  for (const match of [...matches].reverse()) {
+                     tr.insertText(
+                        getReplacement(match, replacement, options.regex),
+                        match.from,
+                        match.to
+                     );
+                  }
+               }
+               return true;
+            },
+
+         clearSearch:
+            () =>
+            ({ tr, dispatch }) => {
+               if (dispatch) {
+                  const meta: FindReplaceMeta = { query: '' };
+                  tr.setMeta(findReplacePluginKey, meta);
+               }
+               return true;
+            },
+      };
+   },
+
+   addProseMirrorPlugins() {
+      return [
+         new Plugin<FindReplaceState>({
+            key: findReplacePluginKey,
+
+            state: {
+               init: () => emptyState,
+
+               apply: (tr, value) => {
+                  const meta = tr.getMeta(findReplacePluginKey) as FindReplaceMeta | undefined;
+                  if (!meta && (!tr.docChanged || !value.query)) return value;
+
+                  const query = meta?.query ?? value.query;
+                  const options = meta?.options ?? value.options;
+                  if (!query) return { ...emptyState, options };
+
+                  const current = value.matches[value.index];
+                  const queryChanged = query !== value.query || options !== value.options;
+                  const regexp = createSearchRegExp(query, options);
+                  const matches =
+                     queryChanged || tr.docChanged
+                        ? regexp
+                           ? findMatches(tr.doc, regexp)
+                           : []
+                        : value.matches;
+
+                  let index: number;
+                  if (meta?.index !== undefined) {
+                     index = meta.index;
+                  } else if (meta?.anchor !== undefined) {
+                     index = indexFrom(matches, meta.anchor);
+                  } else {
+                     // Keep the current match across edits elsewhere in the document
+                     index = indexFrom(matches, current ? tr.mapping.map(current.from) : 0);
+                  }
+
+                  return {
+                     query,
+                     options,
+                     matches,
+                     index,
+                     error: !regexp && options.regex,
+                  };
+               },
+            },
+
+            props: {
+               decorations: (state) => {
+                  const { matches, index } = getFindReplaceState(state);
+                  if (!matches.length) return DecorationSet.empty;
+
+                  return DecorationSet.create(
+                     state.doc,
+                     matches.map((match, i) =>
+                        Decoration.inline(match.from, match.to, {
+                           class:
+                              i === index ? 'search-match search-match-current' : 'search-match',
+                        })
+                     )
+                  );
+               },
+            },
+
+            view: () => ({
+               update: (view, prevState) => {
+                  const previous = getFindReplaceState(prevState);
+                  const next = getFindReplaceState(view.state);
+                  if (next.index === -1) return;
+                  if (next.index === previous.index && next.query === previous.query) return;
+
+                  view.dom
+                     .querySelector('.search-match-current')
+                     ?.scrollIntoView({ block: 'nearest' });
+               },
+            }),
+         }),
+      ];
+   },
+});
@@ -0,0 +1,302 @@
+/**
+ * @module FindReplacePanel
+ *
+ * This component provides the find and replace panel of the editor, opened with Ctrl/Cmd+F
+ * (find) or Ctrl/Cmd+H (replace).
+ *
+ * @remarks
+ * - Matches are highlighted while typing; Enter and Shift+Enter step through them.
+ * - Options: match case, whole word and regular expression. In regex mode the replacement can
+ *   use `$1`, `$<name>` and `$&`.
+ * - Escape closes the panel and selects the current match in the editor.
+ * - The replace row is hidden in read-only editors.
+ *
+ * @example
+ * ```tsx
+ * const findReplace = useFindReplace();
+ * <FindReplacePanel editor={editor} {...findReplace} />
+ * ```
+ *
+ * @property editor - The Tiptap editor instance.
+ * @property open - Whether the panel is shown.
+ * @property replace - Whether the replace row is shown.
+ * @property request - Increased on every request to open the panel, which focuses the search input.
+ * @property onReplaceChange - Callback fired when the replace row is toggled.
+ * @property onClose - Callback fired when the panel is closed.
+ */
+import * as React from 'react';
+import { type Editor, useEditorState } from '@tiptap/react';
+import {
+   ArrowDown,
+   ArrowUp,
+   CaseSensitive,
+   ChevronRight,
+   Regex,
+   WholeWord,
+   X,
+   type LucideIcon,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '../tiptap-utils';
+import { i18n } from '../i18n';
+import { defaultSearchOptions, type SearchOptions } from './find-matches';
+import { getFindReplaceState } from './find-replace-extension';
+import type { FindReplace } from './useFindReplace';
+
+interface FindReplacePanelProps extends Omit<FindReplace, 'openPanel'> {
+   editor: Editor;
+   className?: string;
+}
+
+/**
+ * Longest selection used as the initial query.
+ */
+const MAX_SELECTED_QUERY = 200;
+
+const OptionToggle = ({
+   icon: Icon,
+   title,
+   pressed,
+   onPressedChange,
+}: {
+   icon: LucideIcon;
+   title: string;
+   pressed: boolean;
+   onPressedChange: (pressed: boolean) => void;
+}) => (
+   <Button
+      variant="ghost"
+      size="sm"
+      className={cn('h-7 w-7 p-0', pressed && 'bg-accent text-accent-foreground')}
+      title={title}
+      aria-pressed={pressed}
+      onClick={() => onPressedChange(!pressed)}
+      type="button"
+   >
+      <Icon className="h-4 w-4" />
+      <span className="sr-only">{title}</span>
+   </Button>
+);
+
+const PanelContent = ({
+   editor,
+   replace,
+   request,
+   onReplaceChange,
+   onClose,
+   className,
+}: Omit<FindReplacePanelProps, 'open'>) => {
+   const [query, setQuery] = React.useState('');
+   const [replacement, setReplacement] = React.useState('');
+   const [options, setOptions] = React.useState<SearchOptions>(defaultSearchOptions);
+   const inputRef = React.useRef<HTMLInputElement>(null);
+
+   const { count, index, error } = useEditorState({
+      editor,
+      selector: (ctx) => {
+         const state = getFindReplaceState(ctx.editor.state);
+         return { count: state.matches.length, index: state.index, error: state.error };
+      },
+   });
+
+   // Start with the selected text and focus the input whenever the panel is requested
+   React.useEffect(() => {
+      const { from, to, $from } = editor.state.selection;
+      if (from !== to && $from.sameParent(editor.state.doc.resolve(to))) {
+         const selected = editor.state.doc.textBetween(from, to);
+         if (selected.length <= MAX_SELECTED_QUERY) setQuery(selected);
+      }
+      requestAnimationFrame(() => inputRef.current?.select());
+   }, [editor, request]);
+
+   React.useEffect(() => {
+      editor.commands.setSearch(query, options);
+   }, [editor, query, options]);
+
+   React.useEffect(
+      () => () => {
+         if (!editor.isDestroyed) editor.commands.clearSearch();
+      },
+      [editor]
+   );
+
+   const close = () => {
+      const { matches, index } = getFindReplaceState(editor.state);
+      const match = matches[index];
+      if (match) {
+         editor.chain().focus().setTextSelection(match).run();
+      } else {
+         editor.commands.focus();
+      }
+      onClose();
+   };
+
+   const handleFindKeyDown = (event: React.KeyboardEvent) => {
+      if (event.key === 'Enter') {
+         event.preventDefault();
+         if (event.shiftKey) {
+            editor.commands.findPrevious();
+         } else {
+            editor.commands.findNext();
+         }
+      } else if (event.key === 'Escape') {
+         event.preventDefault();
+         close();
+      }
+   };
+
+   const handleReplaceKeyDown = (event: React.KeyboardEvent) => {
+      if (event.key === 'Enter') {
+         event.preventDefault();
+         editor.commands.replaceMatch(replacement);
+      } else if (event.key === 'Escape') {
+         event.preventDefault();
+         close();
+      }
+   };
+
+   const setOption = (option: keyof SearchOptions) => (value: boolean) =>
+      setOptions((options) => ({ ...options, [option]: value }));
+
+   const showReplace = replace && editor.isEditable;
+
+   return (
+      <div
+         role="search"
+         className={cn(
+            'flex w-[26rem] max-w-[calc(100vw-2rem)] flex-col gap-1 rounded-md border border-muted bg-background p-1 shadow-md',
+            className
+         )}
+      >
+         <div className="flex items-center gap-1">
+            {editor.isEditable && (
+               <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  title={i18n.t('REPLACE')}
+                  aria-expanded={showReplace}
+                  onClick={() => onReplaceChange(!replace)}
+                  type="button"
+               >
+                  <ChevronRight
+                     className={cn('h-4 w-4 transition-transform', showReplace && 'rotate-90')}
+                  />
+                  <span className="sr-only">{i18n.t('REPLACE')}</span>
+               </Button>
+            )}
+            <Input
+               ref={inputRef}
+               value={query}
+               onChange={(event) => setQuery(event.target.value)}
+               onKeyDown={handleFindKeyDown}
+               placeholder={i18n.t('FIND')}
+               aria-label={i18n.t('FIND')}
+               aria-invalid={error}
+               title={error ? i18n.t('INVALID_REGEX') : undefined}
+               className="h-7 flex-1 text-sm"
+            />
+            <OptionToggle
+               icon={CaseSensitive}
+               title={i18n.t('MATCH_CASE')}
+               pressed={options.caseSensitive}
+               onPressedChange={setOption('caseSensitive')}
+            />
+            <OptionToggle
+               icon={WholeWord}
+               title={i18n.t('WHOLE_WORD')}
+               pressed={options.wholeWord}
+               onPressedChange={setOption('wholeWord')}
+            />
+            <OptionToggle
+               icon={Regex}
+               title={i18n.t('USE_REGEX')}
+               pressed={options.regex}
+               onPressedChange={setOption('regex')}
+            />
+            <span
+               className={cn(
+                  'min-w-16 whitespace-nowrap text-center text-xs text-muted-foreground',
+                  (error || (query && !count)) && 'text-red-600'
+               )}
+               aria-live="polite"
+            >
+               {error
+                  ? i18n.t('INVALID_REGEX')
+                  : query && (count ? `${index + 1}/${count}` : i18n.t('NO_RESULTS'))}
+            </span>
+            <Button
+               variant="ghost"
+               size="sm"
+               className="h-7 w-7 p-0"
+               title={i18n.t('PREVIOUS_MATCH')}
+               disabled={!count}
+               onClick={() => editor.commands.findPrevious()}
+               type="button"
+            >
+               <ArrowUp className="h-4 w-4" />
+               <span className="sr-only">{i18n.t('PREVIOUS_MATCH')}</span>
+            </Button>
+            <Button
+               variant="ghost"
+               size="sm"
+               className="h-7 w-7 p-0"
+               title={i18n.t('NEXT_MATCH')}
+               disabled={!count}
+               onClick={() => editor.commands.findNext()}
+               type="button"
+            >
+               <ArrowDown className="h-4 w-4" />
+               <span className="sr-only">{i18n.t('NEXT_MATCH')}</span>
+            </Button>
+            <Button
+               variant="ghost"
+               size="sm"
+               className="h-7 w-7 p-0"
+               title={i18n.t('CLOSE')}
+               onClick={close}
+               type="button"
+            >
+               <X className="h-4 w-4" />
+               <span className="sr-only">{i18n.t('CLOSE')}</span>
+            </Button>
+         </div>
+         {showReplace && (
+            <div className="flex items-center gap-1 pl-8">
+               <Input
+                  value={replacement}
+                  onChange={(event) => setReplacement(event.target.value)}
+                  onKeyDown={handleReplaceKeyDown}
+                  placeholder={i18n.t('REPLACE_WITH')}
+                  aria-label={i18n.t('REPLACE_WITH')}
+                  className="h-7 flex-1 text-sm"
+               />
+               <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={!count}
+                  onClick={() => editor.commands.replaceMatch(replacement)}
+                  type="button"
+               >
+                  {i18n.t('REPLACE')}
+               </Button>
+               <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={!count}
+                  onClick={() => editor.commands.replaceAllMatches(replacement)}
+                  type="button"
+               >
+                  {i18n.t('REPLACE_ALL')}
+               </Button>
+            </div>
+         )}
+      </div>
+   );
+};
+
+export const FindReplacePanel = ({ open, ...props }: FindReplacePanelProps) =>
+   open ? <PanelContent {...props} /> : null;
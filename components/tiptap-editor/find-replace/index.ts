@@ -0,0 +1,15 @@
+export {
+   createSearchRegExp,
+   findMatches,
+   getReplacement,
+   type SearchMatch,
+   type SearchOptions,
+} from './find-matches';
+export {
+   FindReplace,
+   findReplacePluginKey,
+   getFindReplaceState,
+   type FindReplaceState,
+} from './find-replace-extension';
+export { FindReplacePanel } from './find-replace-panel';
+export { useFindReplace } from './useFindReplace';
@@ -0,0 +1,37 @@
+/**
+ * @module useFindReplace
+ *
+ * This hook keeps the open state of the find and replace panel. The editor opens it with the
+ * `find` (Ctrl/Cmd+F) and `replace` (Ctrl/Cmd+H) shortcuts.
+ *
+ * @example
+ * ```tsx
+ * const findReplace = useFindReplace();
+ * findReplace.openPanel(true);
+ * <FindReplacePanel editor={editor} {...findReplace} />
+ * ```
+ *
+ * @returns Whether the panel is open and shows the replace row, a counter increased on every
+ * request to open it (so the panel focuses its input again), and functions to change the state.
+ */
+import { useCallback, useState } from 'react';
+
+export const useFindReplace = () => {
+   const [state, setState] = useState({ open: false, replace: false, request: 0 });
+
+   const openPanel = useCallback((replace = false) => {
+      setState(({ request }) => ({ open: true, replace, request: request + 1 }));
+   }, []);
+
+   const onReplaceChange = useCallback((replace: boolean) => {
+      setState((state) => ({ ...state, replace }));
+   }, []);
+
+   const onClose = useCallback(() => {
+      setState((state) => ({ ...state, open: false }));
+   }, []);
+
+   return { ...state, openPanel, onReplaceChange, onClose };
+};
+
+export type FindReplace = ReturnType<typeof useFindReplace>;
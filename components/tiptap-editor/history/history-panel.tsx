@@ -0,0 +1,259 @@
+'use client';
+
+/**
+ * @module HistoryPanel
+ *
+ * This module provides the version history side panel of the editor.
+ * It lists snapshots with their timestamp and word count, saves named versions,
+ * previews any snapshot read-only, shows its changes compared to the current document
+ * and restores it into the editor.
+ *
+ * @example
+ * ```tsx
+ * const history = useVersionHistory({ editor, storage, documentKey });
+ * <HistoryPanel editor={editor} history={history} onClose={() => setShowHistory(false)} />
+ * ```
+ *
+ * @property editor - The editor instance, used to compare snapshots with the current document.
+ * @property history - Version history returned by `useVersionHistory`.
+ * @property onClose - Callback fired when the panel is closed.
+ */
+import { useState } from 'react';
+import { Editor, JSONContent } from '@tiptap/react';
+import { Clock, History, Loader, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+   Dialog,
+   DialogContent,
+   DialogDescription,
+   DialogFooter,
+   DialogHeader,
+   DialogTitle,
+} from '@/components/ui/dialog';
+import { i18n } from '../i18n';
+import { cn } from '../tiptap-utils';
+import type { SnapshotSummary } from '../storage';
+import type { VersionHistory } from './useVersionHistory';
+import { SnapshotPreview } from './snapshot-preview';
+import { DocumentDiff } from '../diff';
+
+interface HistoryPanelProps {
+   editor: Editor;
+   history: VersionHistory;
+   onClose?: () => void;
+   className?: string;
+}
+
+/**
+ * Returns the label shown for a snapshot.
+ *
+ * @param snapshot - The snapshot summary.
+ * @returns The snapshot name or a fallback label.
+ */
+const getSnapshotLabel = (snapshot: SnapshotSummary) =>
+   snapshot.name || i18n.t(snapshot.auto ? 'AUTO_VERSION' : 'UNTITLED_VERSION');
+
+/**
+ * Formats a snapshot timestamp in the current UI language.
+ *
+ * @param createdAt - ISO timestamp.
+ * @returns The formatted date and time.
+ */
+const formatTimestamp = (createdAt: string) =>
+   new Date(createdAt).toLocaleString(i18n.getCurrentLanguage(), {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+   });
+
+export const HistoryPanel = ({ editor, history, onClose, className }: HistoryPanelProps) => {
+   const [name, setName] = useState('');
+   const [isSaving, setIsSaving] = useState(false);
+   const [preview, setPreview] = useState<{
+      snapshot: SnapshotSummary;
+      json: JSONContent | null;
+      current: JSONContent;
+   } | null>(null);
+
+   const saveVersion = async () => {
+      setIsSaving(true);
+      const snapshot = await history.createSnapshot({ name });
+      setIsSaving(false);
+      if (snapshot) setName('');
+   };
+
+   const openPreview = async (snapshot: SnapshotSummary) => {
+      setPreview({ snapshot, json: null, current: editor.getJSON() });
+      const loaded = await history.loadSnapshot(snapshot.id);
+      setPreview((preview) =>
+         preview?.snapshot.id === snapshot.id ? { ...preview, json: loaded?.json ?? null } : preview
+      );
+   };
+
+   const restore = async () => {
+      if (!preview) return;
+      if (await history.restoreSnapshot(preview.snapshot.id)) {
+         setPreview(null);
+      }
+   };
+
+   return (
+      <aside
+         className={cn(
+            'flex w-72 shrink-0 flex-col rounded-md border-2 border-muted bg-background',
+            className
+         )}
+      >
+         <div className="flex items-center justify-between border-b px-3 py-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+               <History className="h-4 w-4" />
+               {i18n.t('VERSION_HISTORY')}
+            </div>
+            {onClose && (
+               <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={onClose}
+                  title={i18n.t('CLOSE')}
+               >
+                  <X className="h-4 w-4" />
+               </Button>
+            )}
+         </div>
+
+         <form
+            className="flex gap-2 border-b p-3"
+            onSubmit={(event) => {
+               event.preventDefault();
+               saveVersion();
+            }}
+         >
+            <Input
+               value={name}
+               onChange={(event) => setName(event.target.value)}
+               placeholder={i18n.t('VERSION_NAME')}
+               className="h-8 text-sm"
+            />
+            <Button
+               type="submit"
+               size="icon"
+               className="h-8 w-8 shrink-0"
+               disabled={isSaving}
+               title={i18n.t('SAVE_VERSION')}
+            >
+               {isSaving ? (
+                  <Loader className="h-4 w-4 animate-spin" />
+               ) : (
+                  <Save className="h-4 w-4" />
+               )}
+            </Button>
+         </form>
+
+         {!history.persistent && (
+            <p className="border-b px-3 py-2 text-xs text-muted-foreground">
+               {i18n.t('VERSIONS_NOT_PERSISTED')}
+            </p>
+         )}
+         {history.error && (
+            <p className="border-b px-3 py-2 text-xs text-red-600">{history.error}</p>
+         )}
+
+         <ScrollArea className="max-h-[480px] flex-1">
+            {history.isLoading && history.snapshots.length === 0 ? (
+               <div className="flex justify-center p-4">
+                  <Loader className="h-4 w-4 animate-spin" />
+               </div>
+            ) : history.snapshots.length === 0 ? (
+               <p className="p-4 text-center text-sm text-muted-foreground">
+                  {i18n.t('NO_VERSIONS')}
+               </p>
+            ) : (
+               <ul className="p-1">
+                  {history.snapshots.map((snapshot) => (
+                     <li
+                        key={snapshot.id}
+                        className="group flex items-center gap-2 rounded-sm px-2 py-1.5 hover:bg-accent"
+                     >
+                        <button
+                           type="button"
+                           className="flex min-w-0 flex-1 flex-col items-start text-left"
+                           onClick={() => openPreview(snapshot)}
+                           title={i18n.t('PREVIEW')}
+                        >
+                           <span className="w-full truncate text-sm">
+                              {getSnapshotLabel(snapshot)}
+                           </span>
+                           <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <Clock className="h-3 w-3" />
+                              {formatTimestamp(snapshot.createdAt)} · {snapshot.wordCount}{' '}
+                              {snapshot.wordCount === 1 ? i18n.t('WORD') : i18n.t('WORDS')}
+                           </span>
+                        </button>
+                        <Button
+                           variant="ghost"
+                           size="icon"
+                           className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100"
+                           onClick={() => history.deleteSnapshot(snapshot.id)}
+                           title={i18n.t('DELETE')}
+                        >
+                           <Trash2 className="h-4 w-4" />
+                        </Button>
+                     </li>
+                  ))}
+               </ul>
+            )}
+         </ScrollArea>
+
+         <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+            <DialogContent className="max-w-3xl">
+               <DialogHeader>
+                  <DialogTitle>{preview && getSnapshotLabel(preview.snapshot)}</DialogTitle>
+                  <DialogDescription>
+                     {preview && formatTimestamp(preview.snapshot.createdAt)}
+                  </DialogDescription>
+               </DialogHeader>
+               {preview?.json ? (
+                  <Tabs defaultValue="preview">
+                     <TabsList>
+                        <TabsTrigger value="preview">{i18n.t('PREVIEW')}</TabsTrigger>
+                        <TabsTrigger value="changes">{i18n.t('COMPARE_WITH_CURRENT')}</TabsTrigger>
+                     </TabsList>
+                     <TabsContent
+                        value="preview"
+                        className="max-h-[60vh] overflow-y-auto rounded-md border"
+                     >
+                        <SnapshotPreview content={preview.json} />
+                     </TabsContent>
+                     <TabsContent
+                        value="changes"
+                        className="max-h-[60vh] overflow-y-auto rounded-md border"
+                     >
+                        <DocumentDiff oldContent={preview.json} newContent={preview.current} />
+                     </TabsContent>
+                  </Tabs>
+               ) : (
+                  <div className="flex justify-center rounded-md border p-6">
+                     <Loader className="h-4 w-4 animate-spin" />
+                  </div>
+               )}
+               <DialogFooter className="items-center sm:justify-between">
+                  <span className="text-xs text-muted-foreground">
+                     {i18n.t('RESTORE_VERSION_HINT')}
+                  </span>
+                  <div className="flex gap-2">
+                     <Button variant="outline" onClick={() => setPreview(null)}>
+                        {i18n.t('CANCEL')}
+                     </Button>
+                     <Button onClick={restore} disabled={!preview?.json}>
+                        {i18n.t('RESTORE')}
+                     </Button>
+                  </div>
+               </DialogFooter>
+            </DialogContent>
+         </Dialog>
+      </aside>
+   );
+};
@@ -0,0 +1,9 @@
+export { HistoryPanel } from './history-panel';
+export { SnapshotPreview } from './snapshot-preview';
+export {
+   useVersionHistory,
+   type VersionHistory,
+   type VersionHistoryOptions,
+   type CreateSnapshotOptions,
+} from './useVersionHistory';
+export { createMemorySnapshotStore, getSnapshotStore, type SnapshotStore } from './snapshot-store';
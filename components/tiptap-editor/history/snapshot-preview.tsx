@@ -0,0 +1,47 @@
+'use client';
+
+/**
+ * @module SnapshotPreview
+ *
+ * This module provides a read-only editor rendering a version history snapshot
+ * with the same extensions, and therefore the same styling, as the main editor.
+ *
+ * @example
+ * ```tsx
+ * <SnapshotPreview content={snapshot.json} />
+ * ```
+ *
+ * @property content - Snapshot content as JSON.
+ * @property className - Custom CSS class for the preview.
+ */
+import { EditorContent, JSONContent, useEditor } from '@tiptap/react';
+import { useEffect } from 'react';
+import { defaultExtensions } from '../extensions';
+import { cn } from '../tiptap-utils';
+
+interface SnapshotPreviewProps {
+   content: JSONContent;
+   className?: string;
+}
+
+export const SnapshotPreview = ({ content, className }: SnapshotPreviewProps) => {
+   const editor = useEditor({
+      extensions: defaultExtensions,
+      content,
+      editable: false,
+      immediatelyRender: false,
+      editorProps: {
+         attributes: {
+            class: cn('tiptap prose prose-sm max-w-none focus:outline-none p-4', className),
+         },
+      },
+   });
+
+   useEffect(() => {
+      if (editor && !editor.isDestroyed) {
+         editor.commands.setContent(content, { emitUpdate: false });
+      }
+   }, [editor, content]);
+
+   return <EditorContent editor={editor} />;
+};
@@ -0,0 +1,80 @@
+/**
+ * @module SnapshotStore
+ *
+ * This module resolves where version history snapshots are kept.
+ * Adapters that implement the optional snapshot methods store snapshots next to the document;
+ * for any other adapter (or when persistence is disabled) snapshots are kept in memory.
+ *
+ * @example
+ * ```ts
+ * const store = getSnapshotStore(adapter);
+ * await store.saveSnapshot('post-42', snapshot);
+ * ```
+ */
+import {
+   byNewestSnapshot,
+   toSnapshotSummary,
+   type Snapshot,
+   type StorageAdapter,
+} from '../storage';
+
+/**
+ * The snapshot methods of a storage adapter, all required.
+ */
+export type SnapshotStore = Required<
+   Pick<StorageAdapter, 'listSnapshots' | 'loadSnapshot' | 'saveSnapshot' | 'deleteSnapshot'>
+> & {
+   /**
+    * Whether snapshots survive a page reload.
+    */
+   persistent: boolean;
+};
+
+/**
+ * Creates a snapshot store that keeps snapshots in memory for the lifetime of the page.
+ *
+ * @returns A snapshot store.
+ */
+export const createMemorySnapshotStore = (): SnapshotStore => {
+   const snapshots = new Map<string, Snapshot[]>();
+   const get = (key: string) => snapshots.get(key) ?? [];
+
+   return {
+      persistent: false,
+      listSnapshots: async (key) => get(key).map(toSnapshotSummary).sort(byNewestSnapshot),
+      loadSnapshot: async (key, id) => get(key).find((snapshot) => snapshot.id === id) ?? null,
+      saveSnapshot: async (key, snapshot) => {
+         snapshots.set(key, [...get(key).filter((item) => item.id !== snapshot.id), snapshot]);
+      },
+      deleteSnapshot: async (key, id) => {
+         snapshots.set(
+            key,
+            get(key).filter((snapshot) => snapshot.id !== id)
+         );
+      },
+   };
+};
+
+/**
+ * Returns the snapshot store for a storage adapter.
+ *
+ * @param adapter - The storage adapter, or `null` when persistence is disabled.
+ * @returns The adapter's snapshot methods, or an in-memory store.
+ */
+export const getSnapshotStore = (adapter: StorageAdapter | null): SnapshotStore => {
+   if (
+      adapter?.listSnapshots &&
+      adapter.loadSnapshot &&
+      adapter.saveSnapshot &&
+      adapter.deleteSnapshot
+   ) {
+      return {
+         persistent: true,
+         listSnapshots: adapter.listSnapshots,
+         loadSnapshot: adapter.loadSnapshot,
+         saveSnapshot: adapter.saveSnapshot,
+         deleteSnapshot: adapter.deleteSnapshot,
+      };
+   }
+   return createMemorySnapshotStore();
+};
@@ -0,0 +1,223 @@
+/**
+ * @module useVersionHistory
+ *
+ * This module provides a React hook managing the version history of an editor document.
+ * It lists, creates, loads, restores and deletes snapshots through the storage adapter,
+ * and takes automatic snapshots on an interval while the document keeps changing.
+ *
+ * @remarks
+ * - Restoring replaces the editor content in a single transaction, so it can be undone.
+ * - Automatic snapshots are only taken when the document changed since the last snapshot.
+ * - Only the newest `maxAutoSnapshots` unnamed automatic snapshots are kept.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Editor } from '@tiptap/react';
+import type { Snapshot, SnapshotSummary, StorageAdapter } from '../storage';
+import { getSnapshotStore } from './snapshot-store';
+import { setDocAttributes } from '../tiptap-utils';
+
+/**
+ * Options for the version history hook.
+ */
+export interface VersionHistoryOptions {
+   /**
+    * The editor instance.
+    */
+   editor: Editor | null;
+   /**
+    * Storage adapter of the editor, or `null` when persistence is disabled.
+    */
+   storage: StorageAdapter | null;
+   /**
+    * Key identifying the document in the storage adapter.
+    */
+   documentKey: string;
+   /**
+    * Interval between automatic snapshots in milliseconds, `0` disables them.
+    * @default 300000
+    */
+   interval?: number;
+   /**
+    * Number of unnamed automatic snapshots to keep.
+    * @default 20
+    */
+   maxAutoSnapshots?: number;
+}
+
+/**
+ * Options for creating a snapshot.
+ */
+export interface CreateSnapshotOptions {
+   /**
+    * User-given name of the snapshot.
+    */
+   name?: string;
+   /**
+    * Whether the snapshot is taken automatically.
+    */
+   auto?: boolean;
+}
+
+export type VersionHistory = ReturnType<typeof useVersionHistory>;
+
+/**
+ * Creates a snapshot id that is safe to use in URLs and file names.
+ */
+const createSnapshotId = () =>
+   typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Manages snapshots of an editor document.
+ *
+ * @param options - Editor, storage and automatic snapshot settings.
+ * @returns The snapshot list and actions.
+ */
+export const useVersionHistory = ({
+   editor,
+   storage,
+   documentKey,
+   interval = 5 * 60 * 1000,
+   maxAutoSnapshots = 20,
+}: VersionHistoryOptions) => {
+   const store = useMemo(() => getSnapshotStore(storage), [storage]);
+   const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+   const [isLoading, setIsLoading] = useState(false);
+   const [error, setError] = useState<string | null>(null);
+
+   // Content of the last snapshot, used to skip automatic snapshots without changes
+   const lastSnapshotRef = useRef<string | null>(null);
+
+   const refresh = useCallback(async () => {
+      setIsLoading(true);
+      try {
+         setSnapshots(await store.listSnapshots(documentKey));
+         setError(null);
+      } catch (error) {
+         console.error('Loading version history failed:', error);
+         setError(error instanceof Error ? error.message : String(error));
+      } finally {
+         setIsLoading(false);
+      }
+   }, [store, documentKey]);
+
+   useEffect(() => {
+      lastSnapshotRef.current = null;
+      refresh();
+   }, [refresh]);
+
+   /**
+    * Removes the oldest unnamed automatic snapshots above the limit.
+    */
+   const pruneAutoSnapshots = useCallback(
+      async (list: SnapshotSummary[]) => {
+         const stale = list
+            .filter((snapshot) => snapshot.auto && !snapshot.name)
+            .slice(maxAutoSnapshots);
+         await Promise.all(stale.map((snapshot) => store.deleteSnapshot(documentKey, snapshot.id)));
+         return stale.length ? list.filter((snapshot) => !stale.includes(snapshot)) : list;
+      },
+      [store, documentKey, maxAutoSnapshots]
+   );
+
+   const createSnapshot = useCallback(
+      async ({ name, auto = false }: CreateSnapshotOptions = {}) => {
+         if (!editor) return null;
+         const json = editor.getJSON();
+         const serialized = JSON.stringify(json);
+         if (auto && serialized === lastSnapshotRef.current) return null;
+
+         const snapshot: Snapshot = {
+            id: createSnapshotId(),
+            name: name?.trim() || undefined,
+            auto,
+            createdAt: new Date().toISOString(),
+            wordCount: editor.storage.characterCount?.words() ?? 0,
+            json,
+         };
+         try {
+            await store.saveSnapshot(documentKey, snapshot);
+            lastSnapshotRef.current = serialized;
+            setSnapshots(await pruneAutoSnapshots(await store.listSnapshots(documentKey)));
+            setError(null);
+            return snapshot;
+         } catch (error) {
+            console.error('Saving snapshot failed:', error);
+            setError(error instanceof Error ? error.message : String(error));
+            return null;
+         }
+      },
+      [editor, store, documentKey, pruneAutoSnapshots]
+   );
+
+   const loadSnapshot = useCallback(
+      (id: string) => store.loadSnapshot(documentKey, id),
+      [store, documentKey]
+   );
+
+   const restoreSnapshot = useCallback(
+      async (id: string) => {
+         if (!editor) return false;
+         const snapshot = await store.loadSnapshot(documentKey, id);
+         if (!snapshot) return false;
+         // setContent replaces the document in one transaction, so Undo brings the old content back
+         editor
+            .chain()
+            .focus()
+            .setContent(snapshot.json, { emitUpdate: true })
+            .command(({ tr }) => {
+               setDocAttributes(tr, snapshot.json);
+               return true;
+            })
+            .run();
+         lastSnapshotRef.current = JSON.stringify(editor.getJSON());
+         return true;
+      },
+      [editor, store, documentKey]
+   );
+
+   const deleteSnapshot = useCallback(
+      async (id: string) => {
+         try {
+            await store.deleteSnapshot(documentKey, id);
+            setSnapshots((snapshots) => snapshots.filter((snapshot) => snapshot.id !== id));
+         } catch (error) {
+            console.error('Deleting snapshot failed:', error);
+            setError(error instanceof Error ? error.message : String(error));
+         }
+      },
+      [store, documentKey]
+   );
+
+   // Take automatic snapshots while the document is being edited
+   useEffect(() => {
+      if (!editor || !interval) return;
+      let changed = false;
+      const onUpdate = () => {
+         changed = true;
+      };
+      editor.on('update', onUpdate);
+      const timer = window.setInterval(() => {
+         if (!changed || editor.isEmpty) return;
+         changed = false;
+         createSnapshot({ auto: true });
+      }, interval);
+      return () => {
+         editor.off('update', onUpdate);
+         window.clearInterval(timer);
+      };
+   }, [editor, interval, createSnapshot]);
+
+   return {
+      snapshots,
+      isLoading,
+      error,
+      persistent: store.persistent,
+      refresh,
+      createSnapshot,
+      loadSnapshot,
+      restoreSnapshot,
+      deleteSnapshot,
+   };
+};
@@ -1877,6 +1877,986 @@ const translations: Translations = {
       fr: 'Non enregistré',
       es: 'No guardado',
    },
+   SAVE_RETRYING: {
+      tr: 'Yeniden deneniyor',
+      en: 'Retrying',
+      de: 'Erneuter Versuch',
+      fr: 'Nouvelle tentative',
+      es: 'Reintentando',
+   },
+   SAVE_FAILED: {
+      tr: 'Kaydedilemedi',
+      en: 'Save failed',
+      de: 'Speichern fehlgeschlagen',
+      fr: "Échec de l'enregistrement",
+      es: 'Error al guardar',
+   },
+   SAVE_CONFLICT: {
+      tr: 'Çakışma: belge başka yerde değiştirildi',
+      en: 'Conflict: document changed elsewhere',
+      de: 'Konflikt: Dokument wurde anderswo geändert',
+      fr: 'Conflit : document modifié ailleurs',
+      es: 'Conflicto: documento modificado en otro lugar',
+   },
+   VERSION_HISTORY: {
+      tr: 'Sürüm Geçmişi',
+      en: 'Version History',
+      de: 'Versionsverlauf',
+      fr: 'Historique des versions',
+      es: 'Historial de versiones',
+   },
+   SAVE_VERSION: {
+      tr: 'Sürümü Kaydet',
+      en: 'Save Version',
+      de: 'Version speichern',
+      fr: 'Enregistrer la version',
+      es: 'Guardar versión',
+   },
+   VERSION_NAME: {
+      tr: 'Sürüm adı (isteğe bağlı)',
+      en: 'Version name (optional)',
+      de: 'Versionsname (optional)',
+      fr: 'Nom de la version (facultatif)',
+      es: 'Nombre de la versión (opcional)',
+   },
+   AUTO_VERSION: {
+      tr: 'Otomatik kayıt',
+      en: 'Autosave',
+      de: 'Automatisch gespeichert',
+      fr: 'Enregistrement automatique',
+      es: 'Guardado automático',
+   },
+   UNTITLED_VERSION: {
+      tr: 'Adsız sürüm',
+      en: 'Untitled version',
+      de: 'Unbenannte Version',
+      fr: 'Version sans titre',
+      es: 'Versión sin título',
+   },
+   BEFORE_CLEAR: {
+      tr: 'Temizlemeden önce',
+      en: 'Before clear',
+      de: 'Vor dem Leeren',
+      fr: "Avant l'effacement",
+      es: 'Antes de borrar',
+   },
+   NO_VERSIONS: {
+      tr: 'Henüz kaydedilmiş sürüm yok',
+      en: 'No saved versions yet',
+      de: 'Noch keine gespeicherten Versionen',
+      fr: 'Aucune version enregistrée',
+      es: 'Aún no hay versiones guardadas',
+   },
+   VERSIONS_NOT_PERSISTED: {
+      tr: 'Sürümler yalnızca bu oturumda tutulur',
+      en: 'Versions are only kept for this session',
+      de: 'Versionen werden nur für diese Sitzung behalten',
+      fr: 'Les versions ne sont conservées que pour cette session',
+      es: 'Las versiones solo se conservan durante esta sesión',
+   },
+   PREVIEW: {
+      tr: 'Önizleme',
+      en: 'Preview',
+      de: 'Vorschau',
+      fr: 'Aperçu',
+      es: 'Vista previa',
+   },
+   RESTORE: {
+      tr: 'Geri Yükle',
+      en: 'Restore',
+      de: 'Wiederherstellen',
+      fr: 'Restaurer',
+      es: 'Restaurar',
+   },
+   RESTORE_VERSION_HINT: {
+      tr: 'Geri yükleme geri alınabilir (Ctrl+Z).',
+      en: 'Restoring can be undone (Ctrl+Z).',
+      de: 'Das Wiederherstellen kann rückgängig gemacht werden (Strg+Z).',
+      fr: 'La restauration peut être annulée (Ctrl+Z).',
+      es: 'La restauración se puede deshacer (Ctrl+Z).',
+   },
+   CLOSE: {
+      tr: 'Kapat',
+      en: 'Close',
+      de: 'Schließen',
+      fr: 'Fermer',
+      es: 'Cerrar',
+   },
+   COMPARE_WITH_CURRENT: {
+      tr: 'Güncel sürümle karşılaştır',
+      en: 'Compare with current',
+      de: 'Mit aktueller Version vergleichen',
+      fr: 'Comparer avec la version actuelle',
+      es: 'Comparar con la versión actual',
+   },
+   DIFF_INSERTIONS: {
+      tr: 'ekleme',
+      en: 'insertions',
+      de: 'Einfügungen',
+      fr: 'ajouts',
+      es: 'inserciones',
+   },
+   DIFF_DELETIONS: {
+      tr: 'silme',
+      en: 'deletions',
+      de: 'Löschungen',
+      fr: 'suppressions',
+      es: 'eliminaciones',
+   },
+   DIFF_FORMAT_CHANGES: {
+      tr: 'biçim değişikliği',
+      en: 'formatting changes',
+      de: 'Formatierungsänderungen',
+      fr: 'changements de mise en forme',
+      es: 'cambios de formato',
+   },
+   DIFF_NO_CHANGES: {
+      tr: 'Değişiklik yok',
+      en: 'No changes',
+      de: 'Keine Änderungen',
+      fr: 'Aucun changement',
+      es: 'Sin cambios',
+   },
+   DIFF_PREVIOUS_FORMAT: {
+      tr: 'Önceki biçim',
+      en: 'Previous formatting',
+      de: 'Vorherige Formatierung',
+      fr: 'Mise en forme précédente',
+      es: 'Formato anterior',
+   },
+   GUEST: {
+      tr: 'Misafir',
+      en: 'Guest',
+      de: 'Gast',
+      fr: 'Invité',
+      es: 'Invitado',
+   },
+   YOU: {
+      tr: 'siz',
+      en: 'you',
+      de: 'du',
+      fr: 'vous',
+      es: 'tú',
+   },
+   COLLAB_CONNECTING: {
+      tr: 'Bağlanıyor…',
+      en: 'Connecting…',
+      de: 'Verbinde…',
+      fr: 'Connexion…',
+      es: 'Conectando…',
+   },
+   COLLAB_CONNECTED: {
+      tr: 'Bağlandı',
+      en: 'Connected',
+      de: 'Verbunden',
+      fr: 'Connecté',
+      es: 'Conectado',
+   },
+   COLLAB_DISCONNECTED: {
+      tr: 'Bağlantı kesildi',
+      en: 'Disconnected',
+      de: 'Getrennt',
+      fr: 'Déconnecté',
+      es: 'Desconectado',
+   },
+   CHANGED_IN_OTHER_TAB: {
+      tr: 'Bu belge başka bir sekmede değiştirildi.',
+      en: 'This document was changed in another tab.',
+      de: 'Dieses Dokument wurde in einem anderen Tab geändert.',
+      fr: 'Ce document a été modifié dans un autre onglet.',
+      es: 'Este documento se modificó en otra pestaña.',
+   },
+   CLEARED_IN_OTHER_TAB: {
+      tr: 'Bu belge başka bir sekmede temizlendi.',
+      en: 'This document was cleared in another tab.',
+      de: 'Dieses Dokument wurde in einem anderen Tab geleert.',
+      fr: 'Ce document a été effacé dans un autre onglet.',
+      es: 'Este documento se borró en otra pestaña.',
+   },
+   RELOAD: {
+      tr: 'Yeniden Yükle',
+      en: 'Reload',
+      de: 'Neu laden',
+      fr: 'Recharger',
+      es: 'Recargar',
+   },
+   KEEP_MINE: {
+      tr: 'Benimkini Koru',
+      en: 'Keep Mine',
+      de: 'Meine behalten',
+      fr: 'Garder la mienne',
+      es: 'Mantener la mía',
+   },
+   MORE: {
+      tr: 'Daha fazla',
+      en: 'More',
+      de: 'Mehr',
+      fr: 'Plus',
+      es: 'Más',
+   },
+   COMMAND_PALETTE: {
+      tr: 'Komut paleti',
+      en: 'Command palette',
+      de: 'Befehlspalette',
+      fr: 'Palette de commandes',
+      es: 'Paleta de comandos',
+   },
+   COMMAND_PALETTE_PLACEHOLDER: {
+      tr: 'Bir komut arayın...',
+      en: 'Search for a command...',
+      de: 'Befehl suchen...',
+      fr: 'Rechercher une commande...',
+      es: 'Buscar un comando...',
+   },
+   NO_COMMANDS_FOUND: {
+      tr: 'Komut bulunamadı',
+      en: 'No commands found',
+      de: 'Keine Befehle gefunden',
+      fr: 'Aucune commande trouvée',
+      es: 'No se encontraron comandos',
+   },
+   RECENT_COMMANDS: {
+      tr: 'Son kullanılanlar',
+      en: 'Recently used',
+      de: 'Zuletzt verwendet',
+      fr: 'Utilisées récemment',
+      es: 'Usados recientemente',
+   },
+   FORMATTING: {
+      tr: 'Biçimlendirme',
+      en: 'Formatting',
+      de: 'Formatierung',
+      fr: 'Mise en forme',
+      es: 'Formato',
+   },
+   BLOCKS: {
+      tr: 'Bloklar',
+      en: 'Blocks',
+      de: 'Blöcke',
+      fr: 'Blocs',
+      es: 'Bloques',
+   },
+   MEDIA: {
+      tr: 'Medya',
+      en: 'Media',
+      de: 'Medien',
+      fr: 'Médias',
+      es: 'Multimedia',
+   },
+   HEADING_1: {
+      tr: 'Başlık 1',
+      en: 'Heading 1',
+      de: 'Überschrift 1',
+      fr: 'Titre 1',
+      es: 'Título 1',
+   },
+   HEADING_2: {
+      tr: 'Başlık 2',
+      en: 'Heading 2',
+      de: 'Überschrift 2',
+      fr: 'Titre 2',
+      es: 'Título 2',
+   },
+   HEADING_3: {
+      tr: 'Başlık 3',
+      en: 'Heading 3',
+      de: 'Überschrift 3',
+      fr: 'Titre 3',
+      es: 'Título 3',
+   },
+   UNDO: {
+      tr: 'Geri al',
+      en: 'Undo',
+      de: 'Rückgängig',
+      fr: 'Annuler',
+      es: 'Deshacer',
+   },
+   REDO: {
+      tr: 'Yinele',
+      en: 'Redo',
+      de: 'Wiederholen',
+      fr: 'Rétablir',
+      es: 'Rehacer',
+   },
+   DELETE_TABLE: {
+      tr: 'Tabloyu sil',
+      en: 'Delete table',
+      de: 'Tabelle löschen',
+      fr: 'Supprimer le tableau',
+      es: 'Eliminar tabla',
+   },
+   KEYBOARD_SHORTCUTS: {
+      tr: 'Klavye kısayolları',
+      en: 'Keyboard shortcuts',
+      de: 'Tastenkürzel',
+      fr: 'Raccourcis clavier',
+      es: 'Atajos de teclado',
+   },
+   KEYBOARD_SHORTCUTS_DESC: {
+      tr: 'Bir kısayola tıklayıp yeni tuşlara basın. Backspace kısayolu kaldırır, Escape iptal eder.',
+      en: 'Click a shortcut and press the new keys. Backspace removes it, Escape cancels.',
+      de: 'Klicken Sie auf ein Kürzel und drücken Sie die neuen Tasten. Rücktaste entfernt es, Escape bricht ab.',
+      fr: 'Cliquez sur un raccourci puis appuyez sur les nouvelles touches. Retour arrière le supprime, Échap annule.',
+      es: 'Haga clic en un atajo y pulse las nuevas teclas. Retroceso lo elimina, Escape cancela.',
+   },
+   PRESS_KEYS: {
+      tr: 'Tuşlara basın...',
+      en: 'Press keys...',
+      de: 'Tasten drücken...',
+      fr: 'Appuyez sur les touches...',
+      es: 'Pulse las teclas...',
+   },
+   NO_SHORTCUT: {
+      tr: 'Yok',
+      en: 'None',
+      de: 'Keins',
+      fr: 'Aucun',
+      es: 'Ninguno',
+   },
+   RESET_SHORTCUT: {
+      tr: 'Varsayılana sıfırla',
+      en: 'Reset to default',
+      de: 'Auf Standard zurücksetzen',
+      fr: 'Rétablir la valeur par défaut',
+      es: 'Restablecer valor predeterminado',
+   },
+   RESET_ALL_SHORTCUTS: {
+      tr: 'Tümünü sıfırla',
+      en: 'Reset all',
+      de: 'Alle zurücksetzen',
+      fr: 'Tout réinitialiser',
+      es: 'Restablecer todo',
+   },
+   SHORTCUT_CONFLICT: {
+      tr: 'Şununla da kullanılıyor:',
+      en: 'Also used by:',
+      de: 'Auch verwendet von:',
+      fr: 'Aussi utilisé par :',
+      es: 'También usado por:',
+   },
+   HIGHLIGHT: {
+      tr: 'Vurgula',
+      en: 'Highlight',
+      de: 'Hervorheben',
+      fr: 'Surligner',
+      es: 'Resaltar',
+   },
+   AI_HIGHLIGHT: {
+      tr: 'AI vurgusu',
+      en: 'AI highlight',
+      de: 'KI-Hervorhebung',
+      fr: 'Surlignage IA',
+      es: 'Resaltado de IA',
+   },
+   IMAGE_UPLOAD_AREA: {
+      tr: 'Görsel yükleme alanı',
+      en: 'Image upload area',
+      de: 'Bild-Upload-Bereich',
+      fr: "Zone de téléversement d'image",
+      es: 'Área de carga de imagen',
+   },
+   FIND: {
+      tr: 'Bul',
+      en: 'Find',
+      de: 'Suchen',
+      fr: 'Rechercher',
+      es: 'Buscar',
+   },
+   REPLACE: {
+      tr: 'Değiştir',
+      en: 'Replace',
+      de: 'Ersetzen',
+      fr: 'Remplacer',
+      es: 'Reemplazar',
+   },
+   REPLACE_WITH: {
+      tr: 'Şununla değiştir',
+      en: 'Replace with',
+      de: 'Ersetzen durch',
+      fr: 'Remplacer par',
+      es: 'Reemplazar con',
+   },
+   REPLACE_ALL: {
+      tr: 'Tümünü değiştir',
+      en: 'Replace all',
+      de: 'Alle ersetzen',
+      fr: 'Tout remplacer',
+      es: 'Reemplazar todo',
+   },
+   MATCH_CASE: {
+      tr: 'Büyük/küçük harf eşleştir',
+      en: 'Match case',
+      de: 'Groß-/Kleinschreibung beachten',
+      fr: 'Respecter la casse',
+      es: 'Coincidir mayúsculas y minúsculas',
+   },
+   WHOLE_WORD: {
+      tr: 'Tam kelime',
+      en: 'Whole word',
+      de: 'Ganzes Wort',
+      fr: 'Mot entier',
+      es: 'Palabra completa',
+   },
+   USE_REGEX: {
+      tr: 'Düzenli ifade kullan',
+      en: 'Use regular expression',
+      de: 'Regulären Ausdruck verwenden',
+      fr: 'Utiliser une expression régulière',
+      es: 'Usar expresión regular',
+   },
+   INVALID_REGEX: {
+      tr: 'Geçersiz ifade',
+      en: 'Invalid expression',
+      de: 'Ungültiger Ausdruck',
+      fr: 'Expression invalide',
+      es: 'Expresión no válida',
+   },
+   NO_RESULTS: {
+      tr: 'Sonuç yok',
+      en: 'No results',
+      de: 'Keine Treffer',
+      fr: 'Aucun résultat',
+      es: 'Sin resultados',
+   },
+   PREVIOUS_MATCH: {
+      tr: 'Önceki eşleşme',
+      en: 'Previous match',
+      de: 'Vorheriger Treffer',
+      fr: 'Résultat précédent',
+      es: 'Coincidencia anterior',
+   },
+   NEXT_MATCH: {
+      tr: 'Sonraki eşleşme',
+      en: 'Next match',
+      de: 'Nächster Treffer',
+      fr: 'Résultat suivant',
+      es: 'Siguiente coincidencia',
+   },
+   FIND_AND_REPLACE: {
+      tr: 'Bul ve değiştir',
+      en: 'Find and replace',
+      de: 'Suchen und ersetzen',
+      fr: 'Rechercher et remplacer',
+      es: 'Buscar y reemplazar',
+   },
+   TABLE_OF_CONTENTS: {
+      tr: 'İçindekiler',
+      en: 'Table of contents',
+      de: 'Inhaltsverzeichnis',
+      fr: 'Table des matières',
+      es: 'Índice',
+   },
+   INSERT_TABLE_OF_CONTENTS: {
+      tr: 'Başlıkları listeleyen içindekiler ekle',
+      en: "Insert a list of the document's headings",
+      de: 'Liste der Überschriften einfügen',
+      fr: 'Insérer la liste des titres du document',
+      es: 'Insertar la lista de títulos del documento',
+   },
+   TABLE_OF_CONTENTS_EMPTY: {
+      tr: 'Başlık eklendiğinde burada listelenir',
+      en: 'Headings you add will appear here',
+      de: 'Hinzugefügte Überschriften erscheinen hier',
+      fr: 'Les titres ajoutés apparaîtront ici',
+      es: 'Los títulos que añadas aparecerán aquí',
+   },
+   UNTITLED_HEADING: {
+      tr: 'Başlıksız',
+      en: 'Untitled',
+      de: 'Ohne Titel',
+      fr: 'Sans titre',
+      es: 'Sin título',
+   },
+   OUTLINE: {
+      tr: 'Ana hat',
+      en: 'Outline',
+      de: 'Gliederung',
+      fr: 'Plan',
+      es: 'Esquema',
+   },
+   MOVE_SECTION_HINT: {
+      tr: 'Bölümü taşımak için sürükleyin veya Alt+Yukarı/Aşağı kullanın',
+      en: 'Drag or press Alt+Up/Down to move the section',
+      de: 'Ziehen oder Alt+Pfeil hoch/runter drücken, um den Abschnitt zu verschieben',
+      fr: 'Faites glisser ou appuyez sur Alt+Haut/Bas pour déplacer la section',
+      es: 'Arrastra o pulsa Alt+Arriba/Abajo para mover la sección',
+   },
+   LINK_TO_HEADING: {
+      tr: 'Bu belgedeki bir başlığa bağla',
+      en: 'Link to a heading in this document',
+      de: 'Auf eine Überschrift in diesem Dokument verlinken',
+      fr: 'Lier à un titre de ce document',
+      es: 'Enlazar a un título de este documento',
+   },
+   LINK_ERROR_UNKNOWN_HEADING: {
+      tr: 'Bu belgede böyle bir başlık yok',
+      en: 'No heading in this document has this anchor',
+      de: 'Keine Überschrift in diesem Dokument hat diesen Anker',
+      fr: "Aucun titre de ce document n'a cette ancre",
+      es: 'Ningún título de este documento tiene este ancla',
+   },
+   LINK_BROKEN: {
+      tr: 'Bozuk bağlantı: başlık silinmiş',
+      en: 'Broken link: the heading no longer exists',
+      de: 'Defekter Link: Die Überschrift existiert nicht mehr',
+      fr: "Lien rompu : le titre n'existe plus",
+      es: 'Enlace roto: el título ya no existe',
+   },
+   FOOTNOTE: {
+      tr: 'Dipnot',
+      en: 'Footnote',
+      de: 'Fußnote',
+      fr: 'Note de bas de page',
+      es: 'Nota al pie',
+   },
+   INSERT_FOOTNOTE: {
+      tr: 'Numaralı bir dipnot ekle',
+      en: 'Add a numbered note at the end of the document',
+      de: 'Nummerierte Anmerkung am Dokumentende hinzufügen',
+      fr: 'Ajouter une note numérotée en fin de document',
+      es: 'Añadir una nota numerada al final del documento',
+   },
+   MENTION_USERS: {
+      tr: 'Bahsedilecek kişiler',
+      en: 'People to mention',
+      de: 'Personen zum Erwähnen',
+      fr: 'Personnes à mentionner',
+      es: 'Personas para mencionar',
+   },
+   NO_USERS_FOUND: {
+      tr: 'Kişi bulunamadı',
+      en: 'No people found',
+      de: 'Keine Personen gefunden',
+      fr: 'Aucune personne trouvée',
+      es: 'No se encontraron personas',
+   },
+   LOADING_USERS: {
+      tr: 'Kişiler yükleniyor...',
+      en: 'Loading people...',
+      de: 'Personen werden geladen...',
+      fr: 'Chargement des personnes...',
+      es: 'Cargando personas...',
+   },
+   COMMENTS: {
+      tr: 'Yorumlar',
+      en: 'Comments',
+      de: 'Kommentare',
+      fr: 'Commentaires',
+      es: 'Comentarios',
+   },
+   ADD_COMMENT: {
+      tr: 'Yorum ekle',
+      en: 'Add comment',
+      de: 'Kommentar hinzufügen',
+      fr: 'Ajouter un commentaire',
+      es: 'Añadir comentario',
+   },
+   COMMENT: {
+      tr: 'Yorum yap',
+      en: 'Comment',
+      de: 'Kommentieren',
+      fr: 'Commenter',
+      es: 'Comentar',
+   },
+   COMMENT_PLACEHOLDER: {
+      tr: 'Yorumunuzu yazın...',
+      en: 'Write a comment...',
+      de: 'Kommentar schreiben...',
+      fr: 'Écrire un commentaire...',
+      es: 'Escribe un comentario...',
+   },
+   REPLY_PLACEHOLDER: {
+      tr: 'Yanıtla...',
+      en: 'Reply...',
+      de: 'Antworten...',
+      fr: 'Répondre...',
+      es: 'Responder...',
+   },
+   RESOLVE: {
+      tr: 'Çözüldü olarak işaretle',
+      en: 'Resolve',
+      de: 'Als erledigt markieren',
+      fr: 'Résoudre',
+      es: 'Resolver',
+   },
+   REOPEN: {
+      tr: 'Yeniden aç',
+      en: 'Reopen',
+      de: 'Wieder öffnen',
+      fr: 'Rouvrir',
+      es: 'Reabrir',
+   },
+   RESOLVED_BY: {
+      tr: 'Çözen:',
+      en: 'Resolved by',
+      de: 'Erledigt von',
+      fr: 'Résolu par',
+      es: 'Resuelto por',
+   },
+   SHOW_RESOLVED: {
+      tr: 'Çözülenleri göster',
+      en: 'Show resolved',
+      de: 'Erledigte anzeigen',
+      fr: 'Afficher les résolus',
+      es: 'Mostrar resueltos',
+   },
+   NO_COMMENTS: {
+      tr: 'Henüz yorum yok. Yorum eklemek için metin seçin.',
+      en: 'No comments yet. Select text to add one.',
+      de: 'Noch keine Kommentare. Wählen Sie Text aus, um einen hinzuzufügen.',
+      fr: 'Aucun commentaire. Sélectionnez du texte pour en ajouter un.',
+      es: 'Aún no hay comentarios. Selecciona texto para añadir uno.',
+   },
+   COMMENT_DETACHED: {
+      tr: 'Yorumlanan metin silindi',
+      en: 'The commented text was deleted',
+      de: 'Der kommentierte Text wurde gelöscht',
+      fr: 'Le texte commenté a été supprimé',
+      es: 'El texto comentado fue eliminado',
+   },
+   COMMENTS_NOT_PERSISTED: {
+      tr: 'Yorumlar yalnızca bu oturumda tutulur',
+      en: 'Comments are only kept for this session',
+      de: 'Kommentare werden nur für diese Sitzung behalten',
+      fr: 'Les commentaires ne sont conservés que pour cette session',
+      es: 'Los comentarios solo se conservan durante esta sesión',
+   },
+   SUGGESTING: {
+      tr: 'Öneriliyor',
+      en: 'Suggesting',
+      de: 'Vorschlagen',
+      fr: 'Suggestion',
+      es: 'Sugiriendo',
+   },
+   EDITING: {
+      tr: 'Düzenleniyor',
+      en: 'Editing',
+      de: 'Bearbeiten',
+      fr: 'Modification',
+      es: 'Editando',
+   },
+   SUGGEST_CHANGES: {
+      tr: 'Değişiklik öner',
+      en: 'Suggest changes',
+      de: 'Änderungen vorschlagen',
+      fr: 'Suggérer des modifications',
+      es: 'Sugerir cambios',
+   },
+   TRACKED_CHANGES: {
+      tr: 'Önerilen değişiklikler',
+      en: 'Suggested changes',
+      de: 'Vorgeschlagene Änderungen',
+      fr: 'Modifications suggérées',
+      es: 'Cambios sugeridos',
+   },
+   ACCEPT: {
+      tr: 'Kabul et',
+      en: 'Accept',
+      de: 'Annehmen',
+      fr: 'Accepter',
+      es: 'Aceptar',
+   },
+   REJECT: {
+      tr: 'Reddet',
+      en: 'Reject',
+      de: 'Ablehnen',
+      fr: 'Refuser',
+      es: 'Rechazar',
+   },
+   ACCEPT_ALL: {
+      tr: 'Tümünü kabul et',
+      en: 'Accept all',
+      de: 'Alle annehmen',
+      fr: 'Tout accepter',
+      es: 'Aceptar todo',
+   },
+   REJECT_ALL: {
+      tr: 'Tümünü reddet',
+      en: 'Reject all',
+      de: 'Alle ablehnen',
+      fr: 'Tout refuser',
+      es: 'Rechazar todo',
+   },
+   NO_TRACKED_CHANGES: {
+      tr: 'Önerilen değişiklik yok. Düzenlemelerinizi öneri olarak kaydetmek için öneri modunu açın.',
+      en: 'No suggested changes. Switch to suggesting to record your edits as suggestions.',
+      de: 'Keine vorgeschlagenen Änderungen. Wechseln Sie zu Vorschlagen, um Ihre Bearbeitungen als Vorschläge aufzuzeichnen.',
+      fr: 'Aucune modification suggérée. Passez en mode suggestion pour enregistrer vos modifications comme suggestions.',
+      es: 'No hay cambios sugeridos. Cambia a sugerir para registrar tus ediciones como sugerencias.',
+   },
+   INSERTED: {
+      tr: 'Eklendi',
+      en: 'Added',
+      de: 'Hinzugefügt',
+      fr: 'Ajouté',
+      es: 'Añadido',
+   },
+   DELETED: {
+      tr: 'Silindi',
+      en: 'Deleted',
+      de: 'Gelöscht',
+      fr: 'Supprimé',
+      es: 'Eliminado',
+   },
+   CALLOUT: {
+      tr: 'Bilgi kutusu',
+      en: 'Callout',
+      de: 'Hinweisbox',
+      fr: 'Encadré',
+      es: 'Recuadro',
+   },
+   INSERT_CALLOUT: {
+      tr: 'Not, ipucu veya uyarıyı öne çıkar',
+      en: 'Highlight a note, tip or warning',
+      de: 'Hinweis, Tipp oder Warnung hervorheben',
+      fr: 'Mettre en avant une note, une astuce ou un avertissement',
+      es: 'Destaca una nota, un consejo o una advertencia',
+   },
+   CALLOUT_INFO: {
+      tr: 'Bilgi',
+      en: 'Info',
+      de: 'Info',
+      fr: 'Info',
+      es: 'Info',
+   },
+   CALLOUT_TIP: {
+      tr: 'İpucu',
+      en: 'Tip',
+      de: 'Tipp',
+      fr: 'Astuce',
+      es: 'Consejo',
+   },
+   CALLOUT_WARNING: {
+      tr: 'Uyarı',
+      en: 'Warning',
+      de: 'Warnung',
+      fr: 'Avertissement',
+      es: 'Advertencia',
+   },
+   CALLOUT_DANGER: {
+      tr: 'Tehlike',
+      en: 'Danger',
+      de: 'Gefahr',
+      fr: 'Danger',
+      es: 'Peligro',
+   },
+   CALLOUT_ICON: {
+      tr: 'Simge',
+      en: 'Icon',
+      de: 'Symbol',
+      fr: 'Icône',
+      es: 'Icono',
+   },
+   CALLOUT_ICON_PLACEHOLDER: {
+      tr: 'Emoji',
+      en: 'Emoji',
+      de: 'Emoji',
+      fr: 'Emoji',
+      es: 'Emoji',
+   },
+   CALLOUT_TITLE_PLACEHOLDER: {
+      tr: 'Başlık (isteğe bağlı)',
+      en: 'Title (optional)',
+      de: 'Titel (optional)',
+      fr: 'Titre (facultatif)',
+      es: 'Título (opcional)',
+   },
+   REMOVE_CALLOUT: {
+      tr: 'Bilgi kutusunu kaldır',
+      en: 'Remove callout',
+      de: 'Hinweisbox entfernen',
+      fr: "Supprimer l'encadré",
+      es: 'Quitar recuadro',
+   },
+   DETAILS: {
+      tr: 'Açılır bölüm',
+      en: 'Collapsible section',
+      de: 'Aufklappbarer Abschnitt',
+      fr: 'Section repliable',
+      es: 'Sección desplegable',
+   },
+   INSERT_DETAILS: {
+      tr: 'Açılıp kapanabilen bir bölüm ekle',
+      en: 'Add a section that can be expanded and collapsed',
+      de: 'Abschnitt zum Auf- und Zuklappen einfügen',
+      fr: 'Ajouter une section dépliable et repliable',
+      es: 'Añade una sección que se puede expandir y contraer',
+   },
+   DETAILS_SUMMARY_PLACEHOLDER: {
+      tr: 'Özet',
+      en: 'Summary',
+      de: 'Zusammenfassung',
+      fr: 'Résumé',
+      es: 'Resumen',
+   },
+   EXPAND_SECTION: {
+      tr: 'Bölümü aç',
+      en: 'Expand section',
+      de: 'Abschnitt aufklappen',
+      fr: 'Déplier la section',
+      es: 'Expandir sección',
+   },
+   COLLAPSE_SECTION: {
+      tr: 'Bölümü kapat',
+      en: 'Collapse section',
+      de: 'Abschnitt zuklappen',
+      fr: 'Replier la section',
+      es: 'Contraer sección',
+   },
+   TWO_COLUMNS: {
+      tr: '2 sütun',
+      en: '2 columns',
+      de: '2 Spalten',
+      fr: '2 colonnes',
+      es: '2 columnas',
+   },
+   THREE_COLUMNS: {
+      tr: '3 sütun',
+      en: '3 columns',
+      de: '3 Spalten',
+      fr: '3 colonnes',
+      es: '3 columnas',
+   },
+   FOUR_COLUMNS: {
+      tr: '4 sütun',
+      en: '4 columns',
+      de: '4 Spalten',
+      fr: '4 colonnes',
+      es: '4 columnas',
+   },
+   INSERT_COLUMNS: {
+      tr: 'Blokları yan yana yerleştir',
+      en: 'Place blocks side by side',
+      de: 'Blöcke nebeneinander anordnen',
+      fr: 'Placer des blocs côte à côte',
+      es: 'Coloca bloques uno al lado del otro',
+   },
+   COLUMN_LAYOUT: {
+      tr: 'Sütun düzeni',
+      en: 'Column layout',
+      de: 'Spaltenlayout',
+      fr: 'Disposition des colonnes',
+      es: 'Diseño de columnas',
+   },
+   REMOVE_COLUMNS: {
+      tr: 'Sütunları kaldır',
+      en: 'Remove columns',
+      de: 'Spalten entfernen',
+      fr: 'Supprimer les colonnes',
+      es: 'Quitar columnas',
+   },
+   RESIZE_COLUMNS: {
+      tr: 'Sütunları yeniden boyutlandır',
+      en: 'Resize columns',
+      de: 'Spaltenbreite ändern',
+      fr: 'Redimensionner les colonnes',
+      es: 'Cambiar el ancho de las columnas',
+   },
+   PAGE_BREAK: {
+      tr: 'Sayfa sonu',
+      en: 'Page break',
+      de: 'Seitenumbruch',
+      fr: 'Saut de page',
+      es: 'Salto de página',
+   },
+   INSERT_PAGE_BREAK: {
+      tr: 'Sonraki içeriği yeni sayfada başlat',
+      en: 'Start the following content on a new page',
+      de: 'Folgenden Inhalt auf einer neuen Seite beginnen',
+      fr: 'Commencer la suite sur une nouvelle page',
+      es: 'Empezar el contenido siguiente en una página nueva',
+   },
+   PRINT_LAYOUT: {
+      tr: 'Baskı düzeni',
+      en: 'Print layout',
+      de: 'Seitenlayout',
+      fr: 'Mode page',
+      es: 'Diseño de impresión',
+   },
+   PAGE_SETUP: {
+      tr: 'Sayfa yapısı',
+      en: 'Page setup',
+      de: 'Seite einrichten',
+      fr: 'Mise en page',
+      es: 'Configurar página',
+   },
+   PAPER_SIZE: {
+      tr: 'Kağıt boyutu',
+      en: 'Paper size',
+      de: 'Papierformat',
+      fr: 'Format du papier',
+      es: 'Tamaño del papel',
+   },
+   MARGINS_MM: {
+      tr: 'Kenar boşlukları (mm)',
+      en: 'Margins (mm)',
+      de: 'Ränder (mm)',
+      fr: 'Marges (mm)',
+      es: 'Márgenes (mm)',
+   },
+   MARGIN_TOP: {
+      tr: 'Üst',
+      en: 'Top',
+      de: 'Oben',
+      fr: 'Haut',
+      es: 'Superior',
+   },
+   MARGIN_BOTTOM: {
+      tr: 'Alt',
+      en: 'Bottom',
+      de: 'Unten',
+      fr: 'Bas',
+      es: 'Inferior',
+   },
+   MARGIN_LEFT: {
+      tr: 'Sol',
+      en: 'Left',
+      de: 'Links',
+      fr: 'Gauche',
+      es: 'Izquierdo',
+   },
+   MARGIN_RIGHT: {
+      tr: 'Sağ',
+      en: 'Right',
+      de: 'Rechts',
+      fr: 'Droite',
+      es: 'Derecho',
+   },
+   PAGE_HEADER: {
+      tr: 'Üst bilgi',
+      en: 'Header',
+      de: 'Kopfzeile',
+      fr: 'En-tête',
+      es: 'Encabezado',
+   },
+   PAGE_FOOTER: {
+      tr: 'Alt bilgi',
+      en: 'Footer',
+      de: 'Fußzeile',
+      fr: 'Pied de page',
+      es: 'Pie de página',
+   },
+   PAGE_FOOTER_HINT: {
+      tr: 'Sayfa numarası alt bilginin ardından gelir.',
+      en: 'The page number follows the footer.',
+      de: 'Die Seitenzahl folgt auf die Fußzeile.',
+      fr: 'Le numéro de page suit le pied de page.',
+      es: 'El número de página sigue al pie de página.',
+   },
+   PRINT: {
+      tr: 'Yazdır',
+      en: 'Print',
+      de: 'Drucken',
+      fr: 'Imprimer',
+      es: 'Imprimir',
+   },
+   BUILT_IN_SHORTCUT: {
+      tr: 'yerleşik',
+      en: 'built-in',
+      de: 'integriert',
+      fr: 'intégré',
+      es: 'integrado',
+   },
 };
 
 /**
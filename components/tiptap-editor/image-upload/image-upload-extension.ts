@@ -24,8 +24,8 @@
  * @property onSuccess - Callback for successful uploads.
  */
 
-import { mergeAttributes, Node, ReactNodeViewRenderer } from '@tiptap/react';
-import { ImageUploadNode } from './image-upload';
+import { mergeAttributes, Node } from '@tiptap/core';
+import { createImageUploadNodeView } from './image-upload';
 
 export type UploadFunction = (
    file: File,
@@ -120,7 +120,7 @@ export const ImageUpload = Node.create<ImageUploadNodeOptions>({
    },
 
    addNodeView() {
-      return ReactNodeViewRenderer(ImageUploadNode);
+      return createImageUploadNodeView();
    },
 
    addCommands() {
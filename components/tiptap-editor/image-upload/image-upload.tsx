@@ -26,7 +26,7 @@
 
 import * as React from 'react';
 import type { NodeViewProps } from '@tiptap/react';
-import { NodeViewWrapper } from '@tiptap/react';
+import { NodeViewWrapper, ReactNodeViewRenderer } from '@tiptap/react';
 import { CloseIcon, CloudUploadIcon, FileIcon, FileCornerIcon } from '../icon';
 import './image-upload.scss';
 import { i18n } from '../i18n';
@@ -409,3 +409,8 @@ export const ImageUploadNode: React.FC<NodeViewProps> = (props) => {
       </NodeViewWrapper>
    );
 };
+
+/**
+ * Node view factory for the ImageUpload extension, which stays free of React imports.
+ */
+export const createImageUploadNodeView = () => ReactNodeViewRenderer(ImageUploadNode);
@@ -1,3 +1,93 @@
 export { Tiptap } from './tiptap';
+export { type TiptapHandle, type EditorSelection } from './useEditorHandle';
 export { BubbleMenuSelector } from './menu/bubble-menu';
 export { FooMenuSelector } from './menu/floating-menu';
+export {
+   FixedToolbar,
+   Toolbar,
+   defaultBubbleMenuToolbar,
+   defaultFloatingMenuToolbar,
+   defaultFixedToolbar,
+   type ToolbarConfig,
+   type ToolbarItem,
+   type CustomToolbarItem,
+   type BuiltInToolbarItem,
+} from './toolbar';
+export {
+   CommandPalette,
+   useCommandPalette,
+   getPaletteCommands,
+   type PaletteCommand,
+} from './command-palette';
+export {
+   getDefaultSlashCommandGroups,
+   addSlashCommandGroup,
+   addSlashCommandItems,
+   removeSlashCommands,
+   moveSlashCommand,
+   type SlashCommandItem,
+   type SlashCommandItemSource,
+   type SlashCommandGroup,
+} from './extensions/slash-command-groups';
+export {
+   ShortcutsDialog,
+   useKeymap,
+   resolveKeymap,
+   type KeymapBindings,
+   type KeymapOverrides,
+} from './keymap';
+export { FindReplace, FindReplacePanel, useFindReplace, type SearchOptions } from './find-replace';
+export {
+   OutlineSidebar,
+   getHeadings,
+   moveSection,
+   shiftSection,
+   type OutlineHeading,
+} from './outline';
+export { TableOfContents } from './extensions/table-of-contents';
+export { Callout, CALLOUT_TYPES, type CalloutType } from './extensions/callout';
+export { DetailsKit } from './extensions/details';
+export { ColumnsKit, COLUMN_LAYOUTS } from './extensions/columns';
+export { PageBreak } from './extensions/page-break';
+export { FootnoteKit } from './extensions/footnotes';
+export {
+   Mention,
+   MentionSuggestion,
+   createMentionSource,
+   type MentionSource,
+   type MentionUser,
+} from './mention';
+export {
+   CommentMark,
+   CommentsSidebar,
+   useComments,
+   createHttpCommentStore,
+   createMemoryCommentStore,
+   type CommentAuthor,
+   type CommentStore,
+   type CommentThread,
+} from './comments';
+export {
+   TrackChanges,
+   TrackChangesSidebar,
+   Insertion,
+   Deletion,
+   getTrackedChanges,
+   type TrackChangesAuthor,
+   type TrackedChange,
+} from './track-changes';
+export {
+   createLocalStorageAdapter,
+   createIndexedDBAdapter,
+   createHttpAdapter,
+   StorageConflictError,
+   type StorageAdapter,
+   type StoredDocument,
+   type Snapshot,
+   type SnapshotSummary,
+} from './storage';
+export { HistoryPanel, SnapshotPreview, useVersionHistory } from './history';
+export { DocumentDiff, diffDocuments, diffExtensions, type DiffSummary } from './diff';
+export { CollaboratorList, useCollaboration, type CollaborationOptions } from './collaboration';
+export { createTabChannel, useTabSync, type TabSyncMessage } from './tab-sync';
+export { TiptapRenderer, renderHTML, type RenderHTMLOptions } from './renderer';
@@ -0,0 +1,16 @@
+export {
+   eventToBinding,
+   EXTENSION_CONFLICT_PREFIX,
+   findKeymapConflicts,
+   getDefaultBindings,
+   getExtensionBindings,
+   matchKeymap,
+   normalizeBinding,
+   resolveKeymap,
+   type ExtensionBindings,
+   type KeymapBindings,
+   type KeymapOverrides,
+} from './keymap';
+export { Keymap, type KeymapExtensionOptions } from './keymap-extension';
+export { useKeymap, type Keymap as KeymapState, type KeymapOptions } from './useKeymap';
+export { ShortcutsDialog } from './shortcuts-dialog';
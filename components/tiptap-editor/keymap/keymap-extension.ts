@@ -0,0 +1,64 @@
+/**
+ * @module KeymapExtension
+ *
+ * This module provides the Tiptap extension running the commands of the keymap on keydown.
+ *
+ * @remarks
+ * - Runs before the shortcuts of the other extensions, so overrides take precedence.
+ * - The default shortcut of a rebound command is swallowed, so the extension defining it does
+ *   not run any more.
+ * - The keymap is read on every keydown, so changes apply without recreating the editor.
+ *
+ * @example
+ * ```ts
+ * Keymap.configure({ getKeymap: () => ({ commands, bindings }) })
+ * ```
+ */
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import type { PaletteCommand } from '../command-palette/palette-commands';
+import { matchKeymap, type KeymapBindings } from './keymap';
+
+export interface KeymapExtensionOptions {
+   /**
+    * Returns the current commands and their bindings.
+    */
+   getKeymap: () => { commands: PaletteCommand[]; bindings: KeymapBindings } | null;
+}
+
+export const Keymap = Extension.create<KeymapExtensionOptions>({
+   name: 'keymap',
+
+   priority: 1000,
+
+   addOptions() {
+      return {
+         getKeymap: () => null,
+      };
+   },
+
+   addProseMirrorPlugins() {
+      const { editor } = this;
+      const { getKeymap } = this.options;
+
+      return [
+         new Plugin({
+            key: new PluginKey('keymap'),
+            props: {
+               handleKeyDown: (_view, event) => {
+                  const keymap = getKeymap();
+                  if (!keymap) return false;
+
+                  const command = matchKeymap(event, keymap.commands, keymap.bindings);
+                  if (!command) return false;
+                  if (command === 'blocked') return true;
+                  if (command.isAvailable && !command.isAvailable(editor)) return false;
+
+                  command.run(editor);
+                  return true;
+               },
+            },
+         }),
+      ];
+   },
+});
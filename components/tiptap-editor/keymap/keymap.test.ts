@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { PaletteCommand } from '../command-palette/palette-commands';
+import { eventToBinding, matchKeymap, resolveKeymap } from './keymap';
+
+const keydown = (
+   key: string,
+   code: string,
+   modifiers: Partial<Pick<KeyboardEvent, 'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey'>> = {}
+) => ({ key, code, metaKey: false, ctrlKey: false, altKey: false, shiftKey: false, ...modifiers });
+
+const command = (id: string, shortcut: string) =>
+   ({
+      id,
+      title: id,
+      group: 'FORMATTING',
+      icon: () => null,
+      shortcut,
+      run: () => {},
+   }) as PaletteCommand;
+
+const commands = [
+   command('codeBlock', 'Mod+Alt+C'),
+   command('heading3', 'Mod+Alt+3'),
+   command('bold', 'Mod+B'),
+   command('blockquote', 'Mod+Shift+B'),
+];
+
+const usePlatform = (platform: string) => vi.stubGlobal('navigator', { platform });
+
+describe('eventToBinding', () => {
+   afterEach(() => {
+      vi.unstubAllGlobals();
+   });
+
+   it('reads letters and digits from the key code', () => {
+      usePlatform('Win32');
+      expect(eventToBinding(keydown('c', 'KeyC', { ctrlKey: true, altKey: true }))).toBe(
+         'Mod+Alt+C'
+      );
+      expect(eventToBinding(keydown('3', 'Digit3', { ctrlKey: true, altKey: true }))).toBe(
+         'Mod+Alt+3'
+      );
+      expect(eventToBinding(keydown('Control', 'ControlLeft', { ctrlKey: true }))).toBeNull();
+   });
+
+   it('ignores characters typed with AltGr', () => {
+      usePlatform('Win32');
+      expect(eventToBinding(keydown('ć', 'KeyC', { ctrlKey: true, altKey: true }))).toBeNull();
+      expect(eventToBinding(keydown('#', 'Digit3', { ctrlKey: true, altKey: true }))).toBeNull();
+      expect(eventToBinding(keydown('}', 'Digit0', { ctrlKey: true, altKey: true }))).toBeNull();
+      expect(eventToBinding(keydown('µ', 'KeyM', { ctrlKey: true, altKey: true }))).toBeNull();
+   });
+
+   it('keeps Option characters on Apple platforms', () => {
+      usePlatform('MacIntel');
+      expect(eventToBinding(keydown('ç', 'KeyC', { metaKey: true, altKey: true }))).toBe(
+         'Mod+Alt+C'
+      );
+      expect(eventToBinding(keydown('ç', 'KeyC', { ctrlKey: true, altKey: true }))).toBe(
+         'Ctrl+Alt+C'
+      );
+   });
+
+   it('reads the unshifted key with Shift', () => {
+      usePlatform('Win32');
+      expect(eventToBinding(keydown('B', 'KeyB', { ctrlKey: true, shiftKey: true }))).toBe(
+         'Mod+Shift+B'
+      );
+      expect(eventToBinding(keydown('&', 'Digit7', { ctrlKey: true, shiftKey: true }))).toBe(
+         'Mod+Shift+7'
+      );
+   });
+});
+
+describe('matchKeymap', () => {
+   afterEach(() => {
+      vi.unstubAllGlobals();
+   });
+
+   it('runs the command bound to the event', () => {
+      usePlatform('Win32');
+      const bindings = resolveKeymap(commands);
+      const event = keydown('c', 'KeyC', { ctrlKey: true, altKey: true });
+      expect(matchKeymap(event, commands, bindings)).toBe(commands[0]);
+   });
+
+   it('leaves characters typed with AltGr to the editor', () => {
+      usePlatform('Win32');
+      const bindings = resolveKeymap(commands);
+      const event = keydown('#', 'Digit3', { ctrlKey: true, altKey: true });
+      expect(matchKeymap(event, commands, bindings)).toBeNull();
+   });
+
+   it('blocks the default binding of a rebound command, also with Shift', () => {
+      usePlatform('MacIntel');
+      const bindings = resolveKeymap(commands, { blockquote: 'Mod+Alt+Q' });
+      const event = keydown('B', 'KeyB', { metaKey: true, shiftKey: true });
+      expect(matchKeymap(event, commands, bindings)).toBe('blocked');
+   });
+});
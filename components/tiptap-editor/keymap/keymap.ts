@@ -0,0 +1,257 @@
+/**
+ * @module Keymap
+ *
+ * This module resolves the keyboard shortcuts of the editor commands: the default binding of a
+ * command is its `shortcut`, which app and user overrides can replace or remove.
+ *
+ * @remarks
+ * - Bindings are keys joined with `+`, e.g. `Mod+Shift+B`; `Mod` is Command on Apple platforms
+ *   and Ctrl elsewhere. Letters are uppercase, modifiers come in the order Mod, Ctrl, Alt, Shift.
+ * - Keys are read from `event.code` for letters, digits and punctuation, so bindings with Alt or
+ *   Shift work on every keyboard layout. Ctrl+Alt typing a character (AltGr outside Apple
+ *   platforms, e.g. `ć` on Polish keyboards) is not a binding.
+ * - A binding used by several commands is a conflict; the first command in the list wins.
+ * - Commands also run before the shortcuts of the editor extensions, e.g. `Mod+Enter` of the hard
+ *   break. A command taking the shortcut of an extension not named in its `extensions` is a
+ *   conflict as well, see `getExtensionBindings`.
+ *
+ * @example
+ * ```ts
+ * const bindings = resolveKeymap(commands, { bold: 'Mod+Shift+B', italic: null });
+ * const conflicts = findKeymapConflicts(bindings); // { 'Mod+Shift+B': ['bold', 'blockquote'] }
+ * ```
+ */
+import { getExtensionField, getSchemaTypeByName, type Editor } from '@tiptap/core';
+import type { PaletteCommand } from '../command-palette/palette-commands';
+import { isMac } from '../tiptap-utils';
+
+/**
+ * Binding of every command by id, `null` when the command has no shortcut.
+ */
+export type KeymapBindings = Record<string, string | null>;
+
+/**
+ * Bindings replacing the defaults, `null` removes the shortcut of a command.
+ */
+export type KeymapOverrides = Partial<KeymapBindings>;
+
+/**
+ * Names of the extensions using a binding in their keyboard shortcuts, by binding.
+ */
+export type ExtensionBindings = Record<string, string[]>;
+
+/**
+ * Prefix of the extension names listed by `findKeymapConflicts`, to tell them from command ids.
+ */
+export const EXTENSION_CONFLICT_PREFIX = 'extension:';
+
+const MODIFIERS = ['Mod', 'Ctrl', 'Alt', 'Shift'];
+
+const CODE_KEYS: Record<string, string> = {
+   Backquote: '`',
+   Backslash: '\\',
+   BracketLeft: '[',
+   BracketRight: ']',
+   Comma: ',',
+   Equal: '=',
+   Minus: '-',
+   Period: '.',
+   Quote: "'",
+   Semicolon: ';',
+   Slash: '/',
+};
+
+/**
+ * Brings a binding into canonical form, so `shift+mod+b` and `Mod+Shift+B` are equal.
+ *
+ * @param binding - Keys joined with `+`.
+ */
+export const normalizeBinding = (binding: string) => {
+   const keys = binding.split(/\+(?!$)/).map((key) => {
+      const modifier = MODIFIERS.find((name) => name.toLowerCase() === key.toLowerCase());
+      if (modifier) return modifier;
+      return key.length === 1 ? key.toUpperCase() : key;
+   });
+   const modifiers = MODIFIERS.filter((modifier) => keys.includes(modifier));
+   const rest = keys.filter((key) => !MODIFIERS.includes(key));
+   return [...modifiers, ...rest].join('+');
+};
+
+/**
+ * Converts a ProseMirror key name like `Shift-Mod-z` to a binding.
+ *
+ * @param key - Modifiers and key joined with `-`.
+ */
+const keyNameToBinding = (key: string) => {
+   const mac = isMac();
+   const parts = key.split(/-(?!$)/);
+   const modifiers = parts.slice(0, -1).map((modifier) => {
+      if (/^(cmd|meta|m)$/i.test(modifier)) return mac ? 'Mod' : 'Meta';
+      // Ctrl is Mod outside Apple platforms, as in `eventToBinding`
+      if (/^(ctrl|control|c)$/i.test(modifier)) return mac ? 'Ctrl' : 'Mod';
+      if (/^(alt|a)$/i.test(modifier)) return 'Alt';
+      if (/^(shift|s)$/i.test(modifier)) return 'Shift';
+      return modifier;
+   });
+   return normalizeBinding([...modifiers, parts[parts.length - 1]].join('+'));
+};
+
+/**
+ * Returns the bindings of the keyboard shortcuts of the editor extensions.
+ *
+ * @param editor - The editor.
+ */
+export const getExtensionBindings = (editor: Editor): ExtensionBindings => {
+   const bindings: ExtensionBindings = {};
+   for (const extension of editor.extensionManager.extensions) {
+      // The context the extension manager calls `addKeyboardShortcuts` with
+      const addKeyboardShortcuts = getExtensionField<() => Record<string, unknown>>(
+         extension,
+         'addKeyboardShortcuts',
+         {
+            name: extension.name,
+            options: extension.options,
+            storage:
+               editor.extensionStorage[extension.name as keyof typeof editor.extensionStorage],
+            editor,
+            type: getSchemaTypeByName(extension.name, editor.schema),
+         }
+      );
+      if (!addKeyboardShortcuts) continue;
+      for (const key of Object.keys(addKeyboardShortcuts())) {
+         const binding = keyNameToBinding(key);
+         const names = bindings[binding] ?? [];
+         if (!names.includes(extension.name)) bindings[binding] = [...names, extension.name];
+      }
+   }
+   return bindings;
+};
+
+/**
+ * Returns the binding of a keydown event, or `null` for a lone modifier key and for a character
+ * typed with AltGr.
+ *
+ * @param event - The keydown event.
+ */
+export const eventToBinding = (
+   event: Pick<KeyboardEvent, 'key' | 'code' | 'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey'>
+) => {
+   if (['Meta', 'Control', 'Alt', 'Shift', 'CapsLock', 'Dead'].includes(event.key)) return null;
+
+   const mac = isMac();
+   const key = /^Key[A-Z]$/.test(event.code)
+      ? event.code.slice(3)
+      : /^Digit\d$/.test(event.code)
+        ? event.code.slice(5)
+        : (CODE_KEYS[event.code] ?? (event.key.length === 1 ? event.key.toUpperCase() : event.key));
+
+   // AltGr arrives as Ctrl+Alt outside Apple platforms; as in ProseMirror's keymap, the
+   // character it types (other than the key itself) is left to the editor
+   if (
+      !mac &&
+      event.ctrlKey &&
+      event.altKey &&
+      event.key.length === 1 &&
+      event.key.toUpperCase() !== key
+   ) {
+      return null;
+   }
+
+   return [
+      (mac ? event.metaKey : event.ctrlKey) && 'Mod',
+      mac && event.ctrlKey && 'Ctrl',
+      event.altKey && 'Alt',
+      event.shiftKey && 'Shift',
+      key,
+   ]
+      .filter(Boolean)
+      .join('+');
+};
+
+/**
+ * Returns the default binding of every command with a shortcut.
+ *
+ * @param commands - The editor commands.
+ */
+export const getDefaultBindings = (commands: PaletteCommand[]): KeymapBindings =>
+   Object.fromEntries(
+      commands.map((command) => [
+         command.id,
+         command.shortcut ? normalizeBinding(command.shortcut) : null,
+      ])
+   );
+
+/**
+ * Applies overrides to the default bindings.
+ *
+ * @param commands - The editor commands.
+ * @param overrides - App and user overrides, later ones win.
+ * @returns The active binding of every command.
+ */
+export const resolveKeymap = (
+   commands: PaletteCommand[],
+   ...overrides: (KeymapOverrides | undefined)[]
+): KeymapBindings => {
+   const bindings = getDefaultBindings(commands);
+   for (const override of overrides) {
+      for (const [id, binding] of Object.entries(override ?? {})) {
+         if (!(id in bindings) || binding === undefined) continue;
+         bindings[id] = binding ? normalizeBinding(binding) : null;
+      }
+   }
+   return bindings;
+};
+
+/**
+ * Returns the bindings used by more than one command, or by a command and an extension other
+ * than the one the command stands for.
+ *
+ * @param bindings - The active bindings.
+ * @param extensionBindings - The bindings of the extensions, see `getExtensionBindings`.
+ * @param commands - The editor commands, to know the extension of each command.
+ * @returns Command ids and prefixed extension names by conflicting binding.
+ */
+export const findKeymapConflicts = (
+   bindings: KeymapBindings,
+   extensionBindings: ExtensionBindings = {},
+   commands: PaletteCommand[] = []
+) => {
+   const extensions = new Map(commands.map(({ id, extensions }) => [id, extensions ?? []]));
+   const ids: Record<string, string[]> = {};
+   for (const [id, binding] of Object.entries(bindings)) {
+      if (binding) ids[binding] = [...(ids[binding] ?? []), id];
+   }
+   for (const [binding, commandIds] of Object.entries(ids)) {
+      const shadowed = (extensionBindings[binding] ?? []).filter(
+         (name) => !commandIds.some((id) => extensions.get(id)?.includes(name))
+      );
+      ids[binding] = [...commandIds, ...shadowed.map((name) => EXTENSION_CONFLICT_PREFIX + name)];
+   }
+   return Object.fromEntries(Object.entries(ids).filter(([, commands]) => commands.length > 1));
+};
+
+/**
+ * Finds the command bound to a keydown event.
+ *
+ * @param event - The keydown event.
+ * @param commands - The editor commands, in priority order.
+ * @param bindings - The active bindings.
+ * @returns The command, `'blocked'` when the event is the default binding of a command that was
+ * rebound (so the extension defining it does not run), or `null`.
+ */
+export const matchKeymap = (
+   event: Parameters<typeof eventToBinding>[0],
+   commands: PaletteCommand[],
+   bindings: KeymapBindings
+): PaletteCommand | 'blocked' | null => {
+   const binding = eventToBinding(event);
+   if (!binding) return null;
+
+   const command = commands.find(({ id }) => bindings[id] === binding);
+   if (command) return command;
+
+   const rebound = commands.some(
+      ({ shortcut }) => shortcut && normalizeBinding(shortcut) === binding
+   );
+   return rebound ? 'blocked' : null;
+};
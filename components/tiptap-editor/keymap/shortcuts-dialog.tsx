@@ -0,0 +1,172 @@
+/**
+ * @module ShortcutsDialog
+ *
+ * This component provides the keyboard shortcuts help dialog. It lists the active binding of
+ * every command in the current language and lets the user record new ones.
+ *
+ * @remarks
+ * - Click a shortcut and press the new keys; Backspace removes it, Escape cancels.
+ * - Bindings used by several commands are flagged with the other commands.
+ * - Changed bindings can be reset one by one or all at once.
+ *
+ * @example
+ * ```tsx
+ * <ShortcutsDialog open={open} onOpenChange={setOpen} commands={commands} keymap={keymap} />
+ * ```
+ *
+ * @property open - Whether the dialog is open.
+ * @property onOpenChange - Callback fired when the dialog is opened or closed.
+ * @property commands - The editor commands.
+ * @property keymap - Active bindings and functions to change them, see `useKeymap`.
+ */
+import * as React from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+   Dialog,
+   DialogContent,
+   DialogDescription,
+   DialogHeader,
+   DialogTitle,
+} from '@/components/ui/dialog';
+import { PALETTE_GROUPS, type PaletteCommand } from '../command-palette/palette-commands';
+import { cn, formatShortcut } from '../tiptap-utils';
+import { i18n } from '../i18n';
+import { EXTENSION_CONFLICT_PREFIX, eventToBinding } from './keymap';
+import type { Keymap } from './useKeymap';
+
+interface ShortcutsDialogProps {
+   open: boolean;
+   onOpenChange: (open: boolean) => void;
+   commands: PaletteCommand[];
+   keymap: Keymap;
+}
+
+export const ShortcutsDialog = ({ open, onOpenChange, commands, keymap }: ShortcutsDialogProps) => {
+   const [recording, setRecording] = React.useState<string | null>(null);
+   const { bindings, defaults, conflicts, setBinding, resetBinding, resetAll } = keymap;
+   const titles = Object.fromEntries(commands.map(({ id, title }) => [id, i18n.t(title)]));
+   const getConflictTitle = (id: string) =>
+      id.startsWith(EXTENSION_CONFLICT_PREFIX)
+         ? `${id.slice(EXTENSION_CONFLICT_PREFIX.length)} (${i18n.t('BUILT_IN_SHORTCUT')})`
+         : titles[id];
+
+   React.useEffect(() => {
+      if (!open) setRecording(null);
+   }, [open]);
+
+   const handleRecordKeyDown = (id: string, event: React.KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.key === 'Backspace' || event.key === 'Delete') {
+         setBinding(id, null);
+         setRecording(null);
+         return;
+      }
+
+      const binding = eventToBinding(event);
+      // Wait for a key combination; plain characters are needed for typing
+      if (!binding || !/(Mod|Ctrl|Alt)\+/.test(binding)) return;
+
+      setBinding(id, binding);
+      setRecording(null);
+   };
+
+   return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+         <DialogContent
+            className="sm:max-w-lg"
+            onEscapeKeyDown={(event) => {
+               if (!recording) return;
+               event.preventDefault();
+               setRecording(null);
+            }}
+         >
+            <DialogHeader>
+               <DialogTitle>{i18n.t('KEYBOARD_SHORTCUTS')}</DialogTitle>
+               <DialogDescription>{i18n.t('KEYBOARD_SHORTCUTS_DESC')}</DialogDescription>
+            </DialogHeader>
+            <div className="max-h-[60vh] space-y-4 overflow-y-auto pr-1">
+               {PALETTE_GROUPS.map((group) => {
+                  const groupCommands = commands.filter((command) => command.group === group);
+                  if (!groupCommands.length) return null;
+
+                  return (
+                     <section key={group}>
+                        <h3 className="mb-1 text-xs font-medium text-muted-foreground">
+                           {i18n.t(group)}
+                        </h3>
+                        {groupCommands.map((command) => {
+                           const Icon = command.icon;
+                           const binding = bindings[command.id];
+                           const others = binding
+                              ? (conflicts[binding] ?? []).filter((id) => id !== command.id)
+                              : [];
+
+                           return (
+                              <div
+                                 key={command.id}
+                                 className="flex items-center gap-2 py-1 text-sm"
+                              >
+                                 <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                 <div className="min-w-0 flex-1">
+                                    <div>{i18n.t(command.title)}</div>
+                                    {others.length > 0 && (
+                                       <div className="flex items-center gap-1 text-xs text-amber-700">
+                                          <AlertTriangle className="h-3 w-3" />
+                                          {i18n.t('SHORTCUT_CONFLICT')}{' '}
+                                          {others.map(getConflictTitle).join(', ')}
+                                       </div>
+                                    )}
+                                 </div>
+                                 {binding !== defaults[command.id] && (
+                                    <Button
+                                       variant="ghost"
+                                       size="sm"
+                                       className="h-7 w-7 p-0"
+                                       title={i18n.t('RESET_SHORTCUT')}
+                                       onClick={() => resetBinding(command.id)}
+                                    >
+                                       <RotateCcw className="h-3.5 w-3.5" />
+                                       <span className="sr-only">{i18n.t('RESET_SHORTCUT')}</span>
+                                    </Button>
+                                 )}
+                                 <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className={cn(
+                                       'h-7 min-w-20 font-mono text-xs',
+                                       !binding && 'text-muted-foreground',
+                                       others.length > 0 && 'border-amber-400'
+                                    )}
+                                    onClick={() => setRecording(command.id)}
+                                    onBlur={() => setRecording(null)}
+                                    onKeyDown={
+                                       recording === command.id
+                                          ? (event) => handleRecordKeyDown(command.id, event)
+                                          : undefined
+                                    }
+                                 >
+                                    {recording === command.id
+                                       ? i18n.t('PRESS_KEYS')
+                                       : binding
+                                         ? formatShortcut(binding)
+                                         : i18n.t('NO_SHORTCUT')}
+                                 </Button>
+                              </div>
+                           );
+                        })}
+                     </section>
+                  );
+               })}
+            </div>
+            <div className="flex justify-end">
+               <Button variant="outline" size="sm" onClick={resetAll}>
+                  {i18n.t('RESET_ALL_SHORTCUTS')}
+               </Button>
+            </div>
+         </DialogContent>
+      </Dialog>
+   );
+};
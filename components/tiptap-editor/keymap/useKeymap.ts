@@ -0,0 +1,124 @@
+/**
+ * @module useKeymap
+ *
+ * This hook resolves the active shortcuts of the editor commands and keeps the overrides of the
+ * current user in localStorage.
+ *
+ * @remarks
+ * - Bindings are resolved from the command defaults, the app overrides and the user overrides.
+ * - User overrides are stored per user id, so people sharing a browser keep their own keymap.
+ * - `conflicts` lists bindings used by several commands, or taken from an extension when its
+ *   `extensionBindings` are given.
+ *
+ * @example
+ * ```tsx
+ * const keymap = useKeymap({ commands, overrides: { bold: 'Mod+Shift+B' }, userId: 'ada' });
+ * keymap.setBinding('italic', 'Mod+Alt+I');
+ * keymap.resetBinding('italic');
+ * ```
+ *
+ * @returns The active bindings, conflicts and functions to change the user overrides.
+ */
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { PaletteCommand } from '../command-palette/palette-commands';
+import {
+   findKeymapConflicts,
+   resolveKeymap,
+   type ExtensionBindings,
+   type KeymapOverrides,
+} from './keymap';
+
+export interface KeymapOptions {
+   commands: PaletteCommand[];
+   /**
+    * App-wide overrides of the default bindings.
+    */
+   overrides?: KeymapOverrides;
+   /**
+    * Id of the user whose overrides are stored.
+    */
+   userId: string;
+   /**
+    * Shortcuts of the editor extensions, reported when a command takes one of them.
+    */
+   extensionBindings?: ExtensionBindings;
+}
+
+/**
+ * Returns the localStorage key of the overrides of a user.
+ *
+ * @param userId - Id of the user.
+ */
+const getStorageKey = (userId: string) => `tiptap-keymap:${userId}`;
+
+const readOverrides = (userId: string): KeymapOverrides => {
+   if (typeof window === 'undefined') return {};
+   try {
+      const stored = JSON.parse(window.localStorage.getItem(getStorageKey(userId)) ?? '{}');
+      return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+   } catch {
+      return {};
+   }
+};
+
+const writeOverrides = (userId: string, overrides: KeymapOverrides) => {
+   try {
+      if (Object.keys(overrides).length) {
+         window.localStorage.setItem(getStorageKey(userId), JSON.stringify(overrides));
+      } else {
+         window.localStorage.removeItem(getStorageKey(userId));
+      }
+   } catch {
+      // Storage is full or disabled, the overrides then only last for this page
+   }
+};
+
+export const useKeymap = ({ commands, overrides, userId, extensionBindings }: KeymapOptions) => {
+   const [userOverrides, setUserOverrides] = useState<KeymapOverrides>(() => readOverrides(userId));
+
+   useEffect(() => {
+      setUserOverrides(readOverrides(userId));
+   }, [userId]);
+
+   const bindings = useMemo(
+      () => resolveKeymap(commands, overrides, userOverrides),
+      [commands, overrides, userOverrides]
+   );
+   const defaults = useMemo(() => resolveKeymap(commands, overrides), [commands, overrides]);
+   const conflicts = useMemo(
+      () => findKeymapConflicts(bindings, extensionBindings, commands),
+      [bindings, extensionBindings, commands]
+   );
+
+   const update = useCallback(
+      (change: (current: KeymapOverrides) => KeymapOverrides) => {
+         setUserOverrides((current) => {
+            const next = change(current);
+            writeOverrides(userId, next);
+            return next;
+         });
+      },
+      [userId]
+   );
+
+   const setBinding = useCallback(
+      (id: string, binding: string | null) => update((current) => ({ ...current, [id]: binding })),
+      [update]
+   );
+
+   const resetBinding = useCallback(
+      (id: string) =>
+         update((current) => {
+            const next = { ...current };
+            delete next[id];
+            return next;
+         }),
+      [update]
+   );
+
+   const resetAll = useCallback(() => update(() => ({})), [update]);
+
+   return { bindings, defaults, conflicts, setBinding, resetBinding, resetAll };
+};
+
+export type Keymap = ReturnType<typeof useKeymap>;
@@ -0,0 +1,6 @@
+export { Mention, createMentionSource, type MentionSource, type MentionUser } from './mention';
+export {
+   MentionSuggestion,
+   mentionSuggestionPluginKey,
+   type MentionSuggestionOptions,
+} from './mention-suggestion';
@@ -0,0 +1,311 @@
+/**
+ * @module MentionSuggestion
+ *
+ * This module provides the `@` menu of the Tiptap editor, which suggests users to mention.
+ *
+ * - MentionList: React component listing the matching users.
+ * - MentionSuggestion: Tiptap Extension that opens the menu when the user types "@".
+ * - renderMentionMenu: Popup rendering of the menu, positioned like the slash command menu.
+ *
+ * @remarks
+ * - Users come from an async `source`, by default the `/api/users` route. It is searched again
+ *   as the query changes; outdated requests are aborted.
+ * - `onMention` is called with every user picked from the menu, e.g. to send a notification.
+ * - Keyboard navigation is supported (up/down/enter/escape).
+ *
+ * @example
+ * ```tsx
+ * MentionSuggestion.configure({
+ *    source: createMentionSource('/api/team/members'),
+ *    onMention: (user) => notify(user.id),
+ * });
+ * ```
+ */
+import React from 'react';
+import { Extension, type Editor } from '@tiptap/core';
+import Suggestion, { type SuggestionOptions, type SuggestionProps } from '@tiptap/suggestion';
+import { PluginKey } from '@tiptap/pm/state';
+import { ReactRenderer } from '@tiptap/react';
+import { computePosition, flip, shift, offset, autoUpdate } from '@floating-ui/dom';
+import { cn } from '../tiptap-utils';
+import { i18n } from '../i18n';
+import { createMentionSource, type MentionSource, type MentionUser } from './mention';
+
+type MentionSuggestionProps = SuggestionProps<MentionUser, MentionUser>;
+
+/**
+ * Maximum number of users listed in the menu.
+ */
+const MAX_ITEMS = 8;
+
+/**
+ * Props for the MentionList component.
+ *
+ * @property items - Matching users
+ * @property loading - Whether the users are being loaded
+ * @property command - Function to execute when a user is selected
+ */
+interface MentionListProps {
+   items: MentionUser[];
+   loading: boolean;
+   command: (user: MentionUser) => void;
+}
+
+interface MentionListRef {
+   onKeyDown: ({ event }: { event: KeyboardEvent }) => boolean;
+}
+
+/**
+ * MentionList component displays the matching users and handles selection.
+ *
+ * @param props - MentionListProps, contains the users and selection handler
+ * @param ref - Used for external keyboard event handling
+ */
+const MentionList = React.forwardRef<MentionListRef, MentionListProps>((props, ref) => {
+   const [selectedIndex, setSelectedIndex] = React.useState(0);
+   const listRef = React.useRef<HTMLDivElement>(null);
+   const { items } = props;
+
+   React.useEffect(() => setSelectedIndex(0), [items]);
+
+   React.useEffect(() => {
+      listRef.current
+         ?.querySelector('[aria-selected="true"]')
+         ?.scrollIntoView({ block: 'nearest' });
+   }, [selectedIndex]);
+
+   React.useImperativeHandle(ref, () => ({
+      onKeyDown: ({ event }: { event: KeyboardEvent }) => {
+         if (!items.length) {
+            return false;
+         }
+
+         if (event.key === 'ArrowUp') {
+            setSelectedIndex((selectedIndex + items.length - 1) % items.length);
+            return true;
+         }
+
+         if (event.key === 'ArrowDown') {
+            setSelectedIndex((selectedIndex + 1) % items.length);
+            return true;
+         }
+
+         if (event.key === 'Enter' || event.key === 'Tab') {
+            const user = items[selectedIndex];
+            if (user) props.command(user);
+            return true;
+         }
+
+         return false;
+      },
+   }));
+
+   return (
+      <div
+         ref={listRef}
+         role="listbox"
+         aria-label={i18n.t('MENTION_USERS')}
+         className="z-50 h-auto max-h-[330px] w-64 overflow-y-auto rounded-md border border-muted bg-background px-1 py-2 shadow-md transition-all"
+      >
+         {items.length ? (
+            items.map((user, index) => (
+               <button
+                  className={cn(
+                     'flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-sm hover:bg-accent',
+                     index === selectedIndex && 'bg-accent text-accent-foreground'
+                  )}
+                  key={user.id}
+                  role="option"
+                  aria-selected={index === selectedIndex}
+                  onClick={() => props.command(user)}
+               >
+                  {user.avatar ? (
+                     // eslint-disable-next-line @next/next/no-img-element
+                     <img src={user.avatar} alt="" className="h-6 w-6 shrink-0 rounded-full" />
+                  ) : (
+                     <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-muted text-xs font-medium">
+                        {user.label.charAt(0).toUpperCase()}
+                     </span>
+                  )}
+                  <span className="min-w-0 flex-1">
+                     <span className="block truncate text-xs font-medium">{user.label}</span>
+                     {user.description && (
+                        <span className="block truncate text-xs text-muted-foreground">
+                           {user.description}
+                        </span>
+                     )}
+                  </span>
+               </button>
+            ))
+         ) : (
+            <div className="px-2 py-1 text-xs text-muted-foreground">
+               {i18n.t(props.loading ? 'LOADING_USERS' : 'NO_USERS_FOUND')}
+            </div>
+         )}
+      </div>
+   );
+});
+
+MentionList.displayName = 'MentionList';
+
+/**
+ * Renders the mention menu in a popup positioned at the cursor.
+ */
+const renderMentionMenu = () => {
+   let component: ReactRenderer<MentionListRef, MentionListProps> | null = null;
+   let popup: HTMLDivElement | null = null;
+   let cleanup: (() => void) | undefined;
+   let virtualElement = { getBoundingClientRect: () => new DOMRect() };
+
+   const updatePosition = () => {
+      if (!popup) return;
+
+      computePosition(virtualElement, popup, {
+         placement: 'bottom-start',
+         middleware: [offset(8), flip(), shift({ padding: 8 })],
+      }).then(({ x, y }) => {
+         if (popup) {
+            popup.style.left = `${x}px`;
+            popup.style.top = `${y}px`;
+         }
+      });
+   };
+
+   return {
+      onStart: (props: MentionSuggestionProps) => {
+         try {
+            component = new ReactRenderer(MentionList, {
+               props: { items: props.items, loading: props.loading, command: props.command },
+               editor: props.editor,
+            });
+
+            if (!props.clientRect) {
+               return;
+            }
+
+            virtualElement = {
+               getBoundingClientRect: () => props.clientRect?.() ?? new DOMRect(),
+            };
+
+            popup = document.createElement('div');
+            popup.style.position = 'absolute';
+            popup.style.zIndex = '1000';
+            popup.appendChild(component.element);
+            document.body.appendChild(popup);
+
+            updatePosition();
+
+            cleanup = autoUpdate(virtualElement, popup, updatePosition);
+         } catch (error) {
+            console.error('Mention menu render error:', error);
+         }
+      },
+
+      onUpdate(props: MentionSuggestionProps) {
+         if (!component) return;
+
+         component.updateProps({
+            items: props.items,
+            loading: props.loading,
+            command: props.command,
+         });
+
+         if (!props.clientRect) {
+            return;
+         }
+
+         virtualElement = {
+            getBoundingClientRect: () => props.clientRect?.() ?? new DOMRect(),
+         };
+         updatePosition();
+      },
+
+      onKeyDown(props: { event: KeyboardEvent }) {
+         if (props.event.key === 'Escape') {
+            cleanup?.();
+            popup?.remove();
+            return true;
+         }
+
+         return component?.ref?.onKeyDown(props) ?? false;
+      },
+
+      onExit() {
+         try {
+            cleanup?.();
+            popup?.remove();
+            component?.destroy();
+         } catch (error) {
+            console.error('Mention menu exit error:', error);
+         } finally {
+            component = null;
+            popup = null;
+            cleanup = undefined;
+         }
+      },
+   };
+};
+
+/**
+ * Options of the MentionSuggestion extension.
+ *
+ * @property source - Returns the users matching the query typed after "@"
+ * @property onMention - Called with every user mentioned from the menu
+ * @property suggestion - Options of the Suggestion plugin
+ */
+export interface MentionSuggestionOptions {
+   source: MentionSource;
+   onMention?: (user: MentionUser, editor: Editor) => void;
+   suggestion: Omit<SuggestionOptions<MentionUser, MentionUser>, 'editor'>;
+}
+
+export const mentionSuggestionPluginKey = new PluginKey('mentionSuggestion');
+
+/**
+ * MentionSuggestion Tiptap Extension.
+ * Manages the "@" menu and inserts `mention` nodes, which must be part of the editor.
+ */
+export const MentionSuggestion = Extension.create<MentionSuggestionOptions>({
+   name: 'mentionSuggestion',
+
+   addOptions() {
+      return {
+         source: createMentionSource(),
+         onMention: undefined,
+         suggestion: {
+            char: '@',
+            pluginKey: mentionSuggestionPluginKey,
+            // Wait for a pause in typing before searching a remote source
+            debounce: 150,
+            allow: ({ state, range }) =>
+               !!state.doc
+                  .resolve(range.from)
+                  .parent.type.contentMatch.matchType(state.schema.nodes.mention),
+            render: renderMentionMenu,
+         },
+      };
+   },
+
+   addProseMirrorPlugins() {
+      const { source, onMention, suggestion } = this.options;
+
+      return [
+         Suggestion<MentionUser, MentionUser>({
+            editor: this.editor,
+            items: async ({ query, signal }) => {
+               try {
+                  return (await source(query, { signal })).slice(0, MAX_ITEMS);
+               } catch (error) {
+                  if (!signal.aborted) console.error('Mention source error:', error);
+                  return [];
+               }
+            },
+            command: ({ editor, range, props: user }) => {
+               editor.chain().focus().deleteRange(range).insertMention(user).run();
+               onMention?.(user, editor);
+            },
+            ...suggestion,
+         }),
+      ];
+   },
+});
@@ -0,0 +1,128 @@
+/**
+ * @module Mention
+ *
+ * This module provides the `@` mention node of the Tiptap editor and the user sources the
+ * mention menu searches.
+ *
+ * @remarks
+ * - A mention is an atomic inline node storing the `id` and `label` of the user; it is deleted
+ *   and selected as a whole.
+ * - The HTML is `<span data-type="mention" data-id="…" data-label="…">@label</span>`, which is
+ *   parsed back on paste and import. Exported HTML keeps `data-id` and `data-label`.
+ * - The Markdown and plain text of a mention is `@label`.
+ * - The node has no client code, so it is part of `defaultExtensions` and also renders on the
+ *   server; the `@` menu is the `MentionSuggestion` extension.
+ *
+ * @example
+ * ```ts
+ * editor.chain().focus().insertMention({ id: 'u1', label: 'Ada Lovelace' }).run();
+ * ```
+ */
+import { Node, mergeAttributes } from '@tiptap/core';
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      mention: {
+         /**
+          * Inserts a mention of a user at the cursor, followed by a space.
+          */
+         insertMention: (user: Pick<MentionUser, 'id' | 'label'>) => ReturnType;
+      };
+   }
+}
+
+/**
+ * A user that can be mentioned.
+ *
+ * @property id - Unique id of the user, stored in the mention.
+ * @property label - Name shown in the mention and the menu.
+ * @property description - Secondary text of the menu, e.g. the email address or team.
+ * @property avatar - URL of the avatar shown in the menu.
+ */
+export interface MentionUser {
+   id: string;
+   label: string;
+   description?: string;
+   avatar?: string;
+}
+
+/**
+ * Returns the users matching a query typed after `@`.
+ * The signal is aborted when the query changes or the menu closes.
+ */
+export type MentionSource = (
+   query: string,
+   options: { signal: AbortSignal }
+) => Promise<MentionUser[]> | MentionUser[];
+
+/**
+ * Creates a mention source searching the users of an HTTP endpoint, which is called with the
+ * query as `q` and answers `{ users: MentionUser[] }`, like the demo `/api/users` route.
+ *
+ * @param url - URL of the endpoint.
+ * @returns The mention source.
+ */
+export const createMentionSource =
+   (url = '/api/users'): MentionSource =>
+   async (query, { signal }) => {
+      const response = await fetch(`${url}?q=${encodeURIComponent(query)}`, { signal });
+      if (!response.ok) throw new Error(`Failed to load users: ${response.status}`);
+      const { users } = (await response.json()) as { users: MentionUser[] };
+      return users;
+   };
+
+export const Mention = Node.create({
+   name: 'mention',
+
+   group: 'inline',
+
+   inline: true,
+
+   atom: true,
+
+   selectable: true,
+
+   addAttributes() {
+      return {
+         id: {
+            default: null,
+            parseHTML: (element) => element.getAttribute('data-id'),
+            renderHTML: (attributes) => ({ 'data-id': attributes.id }),
+         },
+         label: {
+            default: null,
+            parseHTML: (element) =>
+               element.getAttribute('data-label') || element.textContent?.replace(/^@/, '') || null,
+            renderHTML: (attributes) => ({ 'data-label': attributes.label }),
+         },
+      };
+   },
+
+   parseHTML() {
+      return [{ tag: 'span[data-type="mention"]' }];
+   },
+
+   renderHTML({ node, HTMLAttributes }) {
+      return [
+         'span',
+         mergeAttributes(HTMLAttributes, { 'data-type': 'mention', class: 'mention' }),
+         `@${node.attrs.label ?? node.attrs.id}`,
+      ];
+   },
+
+   renderText({ node }) {
+      return `@${node.attrs.label ?? node.attrs.id}`;
+   },
+
+   addCommands() {
+      return {
+         insertMention:
+            ({ id, label }) =>
+            ({ commands }) =>
+               commands.insertContent([
+                  { type: this.name, attrs: { id, label } },
+                  { type: 'text', text: ' ' },
+               ]),
+      };
+   },
+});
@@ -0,0 +1,11 @@
+export {
+   getHeadings,
+   getSectionRange,
+   moveSection,
+   nestHeadings,
+   scrollToHeading,
+   shiftSection,
+   type OutlineHeading,
+   type OutlineItem,
+} from './outline';
+export { OutlineSidebar } from './outline-sidebar';
@@ -0,0 +1,189 @@
+'use client';
+
+/**
+ * @module OutlineSidebar
+ *
+ * This module provides the outline sidebar of the editor, listing the headings of the document.
+ *
+ * @remarks
+ * - Clicking a heading scrolls to it; the heading containing the cursor is highlighted.
+ * - Top-level headings can be dragged to move their whole section, or moved with Alt+ArrowUp and
+ *   Alt+ArrowDown.
+ * - Sections cannot be moved in read-only editors.
+ *
+ * @example
+ * ```tsx
+ * <OutlineSidebar editor={editor} className="sticky top-4" />
+ * ```
+ *
+ * @property editor - The editor instance.
+ * @property onClose - Callback fired when the sidebar is closed; without it there is no close button.
+ * @property className - Custom CSS class for the sidebar.
+ */
+import * as React from 'react';
+import { type Editor, useEditorState } from '@tiptap/react';
+import { GripVertical, ListTree, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { i18n } from '../i18n';
+import { cn } from '../tiptap-utils';
+import { getHeadings, moveSection, scrollToHeading, shiftSection } from './outline';
+
+interface OutlineSidebarProps {
+   editor: Editor;
+   onClose?: () => void;
+   className?: string;
+}
+
+/**
+ * Indentation of a heading per level, in rem.
+ */
+const INDENT = 0.75;
+
+export const OutlineSidebar = ({ editor, onClose, className }: OutlineSidebarProps) => {
+   const { headings, active, editable } = useEditorState({
+      editor,
+      selector: (ctx) => {
+         const { doc, selection } = ctx.editor.state;
+         const headings = getHeadings(doc);
+         const active = headings.filter((heading) => heading.pos < selection.from).pop();
+         return { headings, active: active?.pos, editable: ctx.editor.isEditable };
+      },
+   });
+   const [dragged, setDragged] = React.useState<number | null>(null);
+   // Position the dragged section is dropped before; the end of the document for the last slot
+   const [dropTarget, setDropTarget] = React.useState<number | null>(null);
+   const listRef = React.useRef<HTMLUListElement>(null);
+   const focusActive = React.useRef(false);
+
+   // Keep the focus on a heading moved with the keyboard, whose position has changed
+   React.useEffect(() => {
+      if (!focusActive.current) return;
+      focusActive.current = false;
+      listRef.current?.querySelector<HTMLElement>('[aria-current="location"]')?.focus();
+   }, [active]);
+
+   const endDrag = () => {
+      setDragged(null);
+      setDropTarget(null);
+   };
+
+   const drop = () => {
+      if (dragged !== null && dropTarget !== null) moveSection(editor, dragged, dropTarget);
+      endDrag();
+   };
+
+   const handleKeyDown = (event: React.KeyboardEvent, pos: number) => {
+      if (!event.altKey || (event.key !== 'ArrowUp' && event.key !== 'ArrowDown')) return;
+      event.preventDefault();
+      focusActive.current = shiftSection(editor, pos, event.key === 'ArrowUp' ? -1 : 1);
+   };
+
+   const end = editor.state.doc.content.size;
+
+   return (
+      <aside
+         className={cn(
+            'flex w-56 shrink-0 flex-col rounded-md border-2 border-muted bg-background',
+            className
+         )}
+         aria-label={i18n.t('OUTLINE')}
+      >
+         <div className="flex items-center justify-between border-b px-3 py-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+               <ListTree className="h-4 w-4" />
+               {i18n.t('OUTLINE')}
+            </div>
+            {onClose && (
+               <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={onClose}
+                  title={i18n.t('CLOSE')}
+               >
+                  <X className="h-4 w-4" />
+               </Button>
+            )}
+         </div>
+         <ScrollArea className="max-h-[480px] flex-1">
+            {headings.length === 0 ? (
+               <p className="p-4 text-center text-sm text-muted-foreground">
+                  {i18n.t('TABLE_OF_CONTENTS_EMPTY')}
+               </p>
+            ) : (
+               <ul ref={listRef} className="p-1" onDragLeave={() => setDropTarget(null)}>
+                  {headings.map((heading) => {
+                     const movable = editable && heading.movable;
+                     return (
+                        <li
+                           key={heading.pos}
+                           draggable={movable}
+                           onDragStart={(event) => {
+                              event.dataTransfer.effectAllowed = 'move';
+                              setDragged(heading.pos);
+                           }}
+                           onDragOver={(event) => {
+                              if (dragged === null || !heading.movable) return;
+                              event.preventDefault();
+                              setDropTarget(heading.pos);
+                           }}
+                           onDrop={(event) => {
+                              event.preventDefault();
+                              drop();
+                           }}
+                           onDragEnd={endDrag}
+                           className={cn(
+                              'group flex items-center gap-1 rounded-sm border-t-2 border-transparent',
+                              dropTarget === heading.pos && 'border-primary',
+                              dragged === heading.pos && 'opacity-50'
+                           )}
+                           style={{ paddingLeft: `${(heading.level - 1) * INDENT}rem` }}
+                        >
+                           <GripVertical
+                              className={cn(
+                                 'h-3 w-3 shrink-0 text-muted-foreground opacity-0',
+                                 movable && 'cursor-grab group-hover:opacity-100'
+                              )}
+                              aria-hidden
+                           />
+                           <button
+                              type="button"
+                              className={cn(
+                                 'min-w-0 flex-1 truncate rounded-sm px-1 py-1 text-left text-sm hover:bg-accent',
+                                 heading.level === 1 && 'font-medium',
+                                 active === heading.pos && 'bg-accent text-accent-foreground'
+                              )}
+                              aria-current={active === heading.pos ? 'location' : undefined}
+                              title={movable ? i18n.t('MOVE_SECTION_HINT') : undefined}
+                              onClick={() => scrollToHeading(editor, heading.pos)}
+                              onKeyDown={(event) => movable && handleKeyDown(event, heading.pos)}
+                           >
+                              {heading.text || i18n.t('UNTITLED_HEADING')}
+                           </button>
+                        </li>
+                     );
+                  })}
+                  {dragged !== null && (
+                     <li
+                        aria-hidden
+                        onDragOver={(event) => {
+                           event.preventDefault();
+                           setDropTarget(end);
+                        }}
+                        onDrop={(event) => {
+                           event.preventDefault();
+                           drop();
+                        }}
+                        className={cn(
+                           'h-4 border-t-2 border-transparent',
+                           dropTarget === end && 'border-primary'
+                        )}
+                     />
+                  )}
+               </ul>
+            )}
+         </ScrollArea>
+      </aside>
+   );
+};
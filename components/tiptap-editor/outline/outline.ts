@@ -0,0 +1,171 @@
+/**
+ * @module Outline
+ *
+ * This module reads the heading structure of a document and moves whole sections, for the table
+ * of contents block and the outline sidebar.
+ *
+ * @remarks
+ * - A section is a top-level heading with the blocks following it, up to the next top-level
+ *   heading of the same or a higher level.
+ * - Headings nested in other blocks (lists, tables, quotes) are listed but cannot be moved.
+ * - Moving a section is one transaction, undone in one step.
+ *
+ * @example
+ * ```ts
+ * const headings = getHeadings(editor.state.doc);
+ * moveSection(editor, headings[2].pos, headings[0].pos); // move the third section to the top
+ * ```
+ */
+import type { Editor } from '@tiptap/core';
+import type { Node } from '@tiptap/pm/model';
+import { TextSelection } from '@tiptap/pm/state';
+
+/**
+ * A heading of the document.
+ *
+ * @property level - Heading level, 1 to 6.
+ * @property text - Text of the heading.
+ * @property pos - Position of the heading node.
+ * @property id - Anchor id of the heading (see `HeadingAnchors`).
+ * @property movable - Whether the heading is a top-level block, so its section can be moved.
+ */
+export interface OutlineHeading {
+   level: number;
+   text: string;
+   pos: number;
+   id: string | null;
+   movable: boolean;
+}
+
+/**
+ * A heading with the headings of its subsections.
+ */
+export interface OutlineItem extends OutlineHeading {
+   children: OutlineItem[];
+}
+
+/**
+ * Returns the headings of a document in order.
+ *
+ * @param doc - The document.
+ */
+export const getHeadings = (doc: Node) => {
+   const headings: OutlineHeading[] = [];
+   doc.descendants((node, pos, parent) => {
+      if (node.type.name !== 'heading') return true;
+      headings.push({
+         level: node.attrs.level,
+         text: node.textContent,
+         pos,
+         id: node.attrs.id ?? null,
+         movable: parent === doc,
+      });
+      return false;
+   });
+   return headings;
+};
+
+/**
+ * Nests the headings by level, e.g. for a table of contents. A heading that skips levels is
+ * nested under the closest higher heading.
+ *
+ * @param headings - The headings in document order.
+ */
+export const nestHeadings = (headings: OutlineHeading[]) => {
+   const root: OutlineItem[] = [];
+   const stack: OutlineItem[] = [];
+
+   for (const heading of headings) {
+      const item: OutlineItem = { ...heading, children: [] };
+      while (stack.length && stack[stack.length - 1].level >= item.level) stack.pop();
+      (stack.length ? stack[stack.length - 1].children : root).push(item);
+      stack.push(item);
+   }
+   return root;
+};
+
+/**
+ * Returns the range of the section starting with a top-level heading.
+ *
+ * @param doc - The document.
+ * @param pos - Position of the heading.
+ * @returns The range, or `null` when there is no top-level heading at the position.
+ */
+export const getSectionRange = (doc: Node, pos: number) => {
+   const heading = doc.nodeAt(pos);
+   if (!heading || heading.type.name !== 'heading' || doc.resolve(pos).depth !== 0) return null;
+
+   let to = pos + heading.nodeSize;
+   while (to < doc.content.size) {
+      const node = doc.nodeAt(to);
+      if (!node || (node.type.name === 'heading' && node.attrs.level <= heading.attrs.level)) {
+         break;
+      }
+      to += node.nodeSize;
+   }
+   return { from: pos, to };
+};
+
+/**
+ * Moves a section to another top-level position.
+ *
+ * @param editor - The editor instance.
+ * @param pos - Position of the heading starting the section.
+ * @param target - Top-level position to move the section to, e.g. the position of another
+ * heading or the end of the document.
+ * @returns Whether the section was moved; it is not moved into itself. The cursor is put at the
+ * start of the moved heading.
+ */
+export const moveSection = (editor: Editor, pos: number, target: number) => {
+   const { state } = editor;
+   const range = getSectionRange(state.doc, pos);
+   if (!range || !editor.isEditable || (target >= range.from && target <= range.to)) return false;
+
+   const { content } = state.doc.slice(range.from, range.to);
+   const tr = state.tr.delete(range.from, range.to);
+   const insertAt = tr.mapping.map(target);
+   tr.insert(insertAt, content)
+      .setSelection(TextSelection.create(tr.doc, insertAt + 1))
+      .scrollIntoView();
+   editor.view.dispatch(tr);
+   return true;
+};
+
+/**
+ * Moves a section before the previous or after the next section of the same level. A section is
+ * not moved out of the section containing it.
+ *
+ * @param editor - The editor instance.
+ * @param pos - Position of the heading starting the section.
+ * @param direction - `-1` to move the section up, `1` to move it down.
+ * @returns Whether the section was moved.
+ */
+export const shiftSection = (editor: Editor, pos: number, direction: -1 | 1) => {
+   const { doc } = editor.state;
+   const range = getSectionRange(doc, pos);
+   if (!range) return false;
+   const level = doc.nodeAt(pos)!.attrs.level;
+
+   if (direction === 1) {
+      const next = doc.nodeAt(range.to);
+      const nextRange = next?.attrs.level === level ? getSectionRange(doc, range.to) : null;
+      return !!nextRange && moveSection(editor, pos, nextRange.to);
+   }
+
+   const previous = getHeadings(doc)
+      .filter((heading) => heading.movable && heading.pos < pos && heading.level <= level)
+      .pop();
+   return !!previous && previous.level === level && moveSection(editor, pos, previous.pos);
+};
+
+/**
+ * Scrolls a heading to the top of the view and puts the cursor at its start.
+ *
+ * @param editor - The editor instance.
+ * @param pos - Position of the heading.
+ */
+export const scrollToHeading = (editor: Editor, pos: number) => {
+   editor.commands.setTextSelection(pos + 1);
+   const dom = editor.view.nodeDOM(pos);
+   if (dom instanceof HTMLElement) dom.scrollIntoView({ behavior: 'smooth', block: 'start' });
+};
@@ -0,0 +1,20 @@
+export {
+   MAX_PAGE_MARGIN,
+   PAGE_SIZES,
+   defaultPageSetup,
+   getPageMetrics,
+   getPageSetup,
+   paginate,
+   type PageBlock,
+   type PageGap,
+   type PageMetrics,
+   type PageSetup,
+   type PageSize,
+} from './page-layout';
+export {
+   PageLayout,
+   getPageLayoutState,
+   pageLayoutPluginKey,
+   type PageLayoutState,
+} from './page-layout-extension';
+export { PageSetupPopover } from './page-setup-popover';
@@ -0,0 +1,327 @@
+/**
+ * @module PageLayoutExtension
+ *
+ * This module provides the Tiptap extension behind the print layout. It stores the page setup in
+ * the document and, while the print layout is on, shows the content on pages of the chosen paper
+ * size with their margins, header and footer.
+ *
+ * @remarks
+ * - The page setup is the `page` attribute of the document node, changed with `setPageSetup` and
+ *   undone like any edit. `setContent` only replaces the content; use `setDocAttributes` from
+ *   `tiptap-utils` to load the attribute with it.
+ * - Whether the print layout is on is plugin state of the editor, not part of the document.
+ * - The blocks are measured after every change and whenever the editor resizes, e.g. when images
+ *   load. Widgets between the blocks draw the end of a page, with its footer and page number, the
+ *   gap to the next page and the header of the next page (see `paginate`).
+ * - When printing, every gap becomes a page break and the paper size of the page setup is used,
+ *   so the printed pages match the ones on screen.
+ *
+ * @example
+ * ```ts
+ * editor.commands.setPageSetup({ size: 'letter', footer: 'Draft' });
+ * editor.commands.togglePrintLayout();
+ * ```
+ */
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey, type EditorState } from '@tiptap/pm/state';
+import { Decoration, DecorationSet, type EditorView } from '@tiptap/pm/view';
+import {
+   PAGE_SIZES,
+   getPageMetrics,
+   getPageSetup,
+   paginate,
+   type PageBlock,
+   type PageGap,
+   type PageSetup,
+} from './page-layout';
+
+/**
+ * State of the print layout.
+ *
+ * @property enabled - Whether the content is shown on pages.
+ * @property gaps - Ends of all pages but the last one, as measured last.
+ * @property lastFill - Empty space left on the last page.
+ */
+export interface PageLayoutState {
+   enabled: boolean;
+   gaps: PageGap[];
+   lastFill: number;
+}
+
+type PageLayoutMeta = Partial<PageLayoutState>;
+
+export const pageLayoutPluginKey = new PluginKey<PageLayoutState>('pageLayout');
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      pageLayout: {
+         /**
+          * Changes the paper size, margins, header or footer of the document.
+          */
+         setPageSetup: (setup: Partial<PageSetup>) => ReturnType;
+         /**
+          * Shows the content on pages, or as one continuous sheet.
+          */
+         setPrintLayout: (enabled: boolean) => ReturnType;
+         /**
+          * Turns the print layout on or off.
+          */
+         togglePrintLayout: () => ReturnType;
+      };
+   }
+}
+
+const emptyState: PageLayoutState = { enabled: false, gaps: [], lastFill: 0 };
+
+/**
+ * Returns the state of the print layout.
+ *
+ * @param state - The editor state.
+ */
+export const getPageLayoutState = (state: EditorState) =>
+   pageLayoutPluginKey.getState(state) ?? emptyState;
+
+/**
+ * Top and bottom margin of a block, including the margins of its first and last child, which
+ * collapse with them when the block has no padding or border, as in node view wrappers and lists.
+ */
+const getBlockMargins = (element: HTMLElement) => {
+   const style = getComputedStyle(element);
+   const margin = (child: Element | null, side: 'Top' | 'Bottom') => {
+      if (!child || Number.parseFloat(style[`padding${side}`]) > 0) return 0;
+      if (Number.parseFloat(style[`border${side}Width`]) > 0) return 0;
+      return Number.parseFloat(getComputedStyle(child)[`margin${side}`]) || 0;
+   };
+   return {
+      marginTop: Math.max(
+         Number.parseFloat(style.marginTop) || 0,
+         margin(element.firstElementChild, 'Top')
+      ),
+      marginBottom: Math.max(
+         Number.parseFloat(style.marginBottom) || 0,
+         margin(element.lastElementChild, 'Bottom')
+      ),
+   };
+};
+
+/**
+ * Measures the top-level blocks of the editor.
+ */
+const measureBlocks = (view: EditorView) => {
+   const blocks: PageBlock[] = [];
+   view.state.doc.forEach((node, pos) => {
+      const dom = view.nodeDOM(pos);
+      if (!(dom instanceof HTMLElement)) return;
+      blocks.push({
+         pos,
+         height: dom.getBoundingClientRect().height,
+         ...getBlockMargins(dom),
+         breakAfter: node.type.name === 'pageBreak',
+      });
+   });
+   return blocks;
+};
+
+/**
+ * Creates the element drawn at the end of a page: the empty rest of the page and the footer,
+ * then the gap and the header of the next page unless it is the last page.
+ */
+const createPageEnd = (setup: PageSetup, fill: number, page: number, last: boolean) => {
+   const element = (className: string, text?: string) => {
+      const div = document.createElement('div');
+      div.className = className;
+      if (text) div.textContent = text;
+      return div;
+   };
+
+   const end = element(last ? 'page-gap page-gap-last' : 'page-gap');
+   end.contentEditable = 'false';
+   end.setAttribute('aria-hidden', 'true');
+   const rest = element('page-fill');
+   rest.style.height = `${fill}px`;
+   const footer = element('page-footer');
+   footer.append(element('page-footer-text', setup.footer), element('page-number', String(page)));
+   end.append(rest, footer);
+   if (!last) end.append(element('page-separator'), element('page-header', setup.header));
+   return end;
+};
+
+export const PageLayout = Extension.create({
+   name: 'pageLayout',
+
+   addGlobalAttributes() {
+      return [
+         {
+            types: ['doc'],
+            attributes: {
+               page: { default: null, rendered: false },
+            },
+         },
+      ];
+   },
+
+   addCommands() {
+      return {
+         setPageSetup:
+            (setup) =>
+            ({ editor, state, tr, dispatch }) => {
+               if (!editor.isEditable) return false;
+               if (dispatch) tr.setDocAttribute('page', { ...getPageSetup(state.doc), ...setup });
+               return true;
+            },
+
+         setPrintLayout:
+            (enabled) =>
+            ({ tr, dispatch }) => {
+               if (dispatch) {
+                  const meta: PageLayoutMeta = { enabled };
+                  tr.setMeta(pageLayoutPluginKey, meta);
+               }
+               return true;
+            },
+
+         togglePrintLayout:
+            () =>
+            ({ state, commands }) =>
+               commands.setPrintLayout(!getPageLayoutState(state).enabled),
+      };
+   },
+
+   addProseMirrorPlugins() {
+      return [
+         new Plugin<PageLayoutState>({
+            key: pageLayoutPluginKey,
+
+            state: {
+               init: () => emptyState,
+
+               apply: (tr, value) => {
+                  const meta = tr.getMeta(pageLayoutPluginKey) as PageLayoutMeta | undefined;
+                  if (meta?.enabled === false) return emptyState;
+                  const next = meta ? { ...value, ...meta } : value;
+                  if (!tr.docChanged || meta?.gaps) return next;
+                  // Keep the pages in place until the blocks are measured again
+                  return {
+                     ...next,
+                     gaps: next.gaps.map((gap) => ({ ...gap, pos: tr.mapping.map(gap.pos) })),
+                  };
+               },
+            },
+
+            props: {
+               attributes: (state): Record<string, string> => {
+                  if (!getPageLayoutState(state).enabled) return {};
+                  const setup = getPageSetup(state.doc);
+                  const { width, height, margins } = getPageMetrics(setup);
+                  return {
+                     class: 'print-layout',
+                     style: [
+                        `--page-width: ${width}px`,
+                        `--page-height: ${height}px`,
+                        `--page-margin-top: ${margins.top}px`,
+                        `--page-margin-right: ${margins.right}px`,
+                        `--page-margin-bottom: ${margins.bottom}px`,
+                        `--page-margin-left: ${margins.left}px`,
+                     ].join('; '),
+                     // Shown at the top of the first page, the other pages get it from their gap
+                     'data-page-header': setup.header,
+                  };
+               },
+
+               decorations: (state) => {
+                  const { enabled, gaps, lastFill } = getPageLayoutState(state);
+                  if (!enabled) return DecorationSet.empty;
+                  const setup = getPageSetup(state.doc);
+                  const key = (page: number, fill: number) =>
+                     `page-${page}-${fill}-${setup.header}-${setup.footer}`;
+
+                  return DecorationSet.create(state.doc, [
+                     ...gaps
+                        .filter((gap) => gap.pos <= state.doc.content.size)
+                        .map((gap, index) =>
+                           Decoration.widget(
+                              gap.pos,
+                              () => createPageEnd(setup, gap.fill, index + 1, false),
+                              { side: -1, key: key(index + 1, gap.fill), ignoreSelection: true }
+                           )
+                        ),
+                     Decoration.widget(
+                        state.doc.content.size,
+                        () => createPageEnd(setup, lastFill, gaps.length + 1, true),
+                        { side: 1, key: key(gaps.length + 1, lastFill), ignoreSelection: true }
+                     ),
+                  ]);
+               },
+            },
+
+            view: (editorView) => {
+               let frame = 0;
+               let printStyle: HTMLStyleElement | null = null;
+
+               const measure = () => {
+                  frame = 0;
+                  const state = getPageLayoutState(editorView.state);
+                  if (!state.enabled) return;
+                  const { contentHeight } = getPageMetrics(getPageSetup(editorView.state.doc));
+                  const { gaps, lastFill } = paginate(measureBlocks(editorView), contentHeight);
+                  const unchanged =
+                     lastFill === state.lastFill &&
+                     gaps.length === state.gaps.length &&
+                     gaps.every(
+                        (gap, index) =>
+                           gap.pos === state.gaps[index].pos && gap.fill === state.gaps[index].fill
+                     );
+                  if (unchanged) return;
+                  const meta: PageLayoutMeta = { gaps, lastFill };
+                  editorView.dispatch(
+                     editorView.state.tr
+                        .setMeta(pageLayoutPluginKey, meta)
+                        .setMeta('addToHistory', false)
+                  );
+               };
+
+               const schedule = () => {
+                  if (!frame) frame = requestAnimationFrame(measure);
+               };
+
+               // Paper size of the printed pages, which `@page` cannot take from the editor
+               const updatePrintStyle = (state: EditorState) => {
+                  if (!getPageLayoutState(state).enabled) {
+                     printStyle?.remove();
+                     printStyle = null;
+                     return;
+                  }
+                  const { width, height } = PAGE_SIZES[getPageSetup(state.doc).size];
+                  const css = `@media print { @page { size: ${width}mm ${height}mm; margin: 0; } }`;
+                  if (!printStyle) {
+                     printStyle = document.createElement('style');
+                     document.head.append(printStyle);
+                  }
+                  if (printStyle.textContent !== css) printStyle.textContent = css;
+               };
+
+               const observer = new ResizeObserver(schedule);
+               observer.observe(editorView.dom);
+
+               return {
+                  update: (view, prevState) => {
+                     const enabled = getPageLayoutState(view.state).enabled;
+                     if (
+                        enabled &&
+                        (view.state.doc !== prevState.doc || !getPageLayoutState(prevState).enabled)
+                     ) {
+                        schedule();
+                     }
+                     updatePrintStyle(view.state);
+                  },
+                  destroy: () => {
+                     cancelAnimationFrame(frame);
+                     observer.disconnect();
+                     printStyle?.remove();
+                  },
+               };
+            },
+         }),
+      ];
+   },
+});
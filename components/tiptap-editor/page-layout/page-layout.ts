@@ -0,0 +1,163 @@
+/**
+ * @module PageLayout
+ *
+ * This module reads the page setup of a document and splits its blocks into pages for the print
+ * layout.
+ *
+ * @remarks
+ * - The page setup is the `page` attribute of the document node (see `PageLayout`), so it is
+ *   saved and restored with the content. Documents without one use `defaultPageSetup`.
+ * - Pages are filled with whole top-level blocks: a block that does not fit on the rest of a page
+ *   starts the next one, and a page break ends the page. A block taller than a page is not split.
+ * - Sizes are in CSS pixels, 96 to the inch, so a page has the same size on screen and on paper.
+ *
+ * @example
+ * ```ts
+ * const setup = getPageSetup(editor.state.doc);
+ * const { contentHeight } = getPageMetrics(setup);
+ * const { gaps, lastFill } = paginate(blocks, contentHeight);
+ * ```
+ */
+import type { Node } from '@tiptap/pm/model';
+import type { PageSetupSchema, PageSizeSchema } from '@/schemas/export';
+
+export type PageSize = PageSizeSchema;
+
+export type PageSetup = PageSetupSchema;
+
+/**
+ * Width and height of the paper sizes in millimeters.
+ */
+export const PAGE_SIZES: Record<PageSize, { width: number; height: number }> = {
+   a4: { width: 210, height: 297 },
+   letter: { width: 215.9, height: 279.4 },
+};
+
+/**
+ * Widest margin in millimeters, as accepted by the DOCX export.
+ */
+export const MAX_PAGE_MARGIN = 100;
+
+/**
+ * Page setup of documents without one: A4 with margins of an inch, as in Word.
+ */
+export const defaultPageSetup: PageSetup = {
+   size: 'a4',
+   margins: { top: 25.4, right: 25.4, bottom: 25.4, left: 25.4 },
+   header: '',
+   footer: '',
+};
+
+/**
+ * CSS pixels per millimeter.
+ */
+const PX_PER_MM = 96 / 25.4;
+
+/**
+ * Returns the page setup of a document, completed with the defaults.
+ *
+ * @param doc - The document.
+ */
+export const getPageSetup = (doc: Node): PageSetup => {
+   const page: Partial<PageSetup> | null = doc.attrs.page ?? null;
+   return {
+      ...defaultPageSetup,
+      ...page,
+      margins: { ...defaultPageSetup.margins, ...page?.margins },
+   };
+};
+
+/**
+ * Dimensions of a page in CSS pixels.
+ *
+ * @property width - Width of the page.
+ * @property height - Height of the page.
+ * @property margins - Margins of the page.
+ * @property contentHeight - Height left for the content between the top and bottom margins.
+ */
+export interface PageMetrics {
+   width: number;
+   height: number;
+   margins: { top: number; right: number; bottom: number; left: number };
+   contentHeight: number;
+}
+
+/**
+ * Returns the dimensions of the pages of a page setup in CSS pixels.
+ *
+ * @param setup - The page setup.
+ */
+export const getPageMetrics = (setup: PageSetup): PageMetrics => {
+   const px = (mm: number) => Math.round(mm * PX_PER_MM * 100) / 100;
+   const { width, height } = PAGE_SIZES[setup.size] ?? PAGE_SIZES.a4;
+   const margins = {
+      top: px(setup.margins.top),
+      right: px(setup.margins.right),
+      bottom: px(setup.margins.bottom),
+      left: px(setup.margins.left),
+   };
+   return {
+      width: px(width),
+      height: px(height),
+      margins,
+      contentHeight: Math.max(px(height) - margins.top - margins.bottom, 1),
+   };
+};
+
+/**
+ * A top-level block as laid out on screen.
+ *
+ * @property pos - Position of the block.
+ * @property height - Height of the block without its margins.
+ * @property marginTop - Top margin of the block.
+ * @property marginBottom - Bottom margin of the block.
+ * @property breakAfter - Whether the block ends the page, like a page break.
+ */
+export interface PageBlock {
+   pos: number;
+   height: number;
+   marginTop: number;
+   marginBottom: number;
+   breakAfter: boolean;
+}
+
+/**
+ * The end of a page, before the block starting the next one.
+ *
+ * @property pos - Position of the block starting the next page.
+ * @property fill - Empty space left at the bottom of the page, in whole pixels.
+ */
+export interface PageGap {
+   pos: number;
+   fill: number;
+}
+
+/**
+ * Splits blocks into pages.
+ * Margins between blocks collapse as in CSS, and the margins at the top and bottom of a page are
+ * dropped.
+ *
+ * @param blocks - The top-level blocks in document order.
+ * @param contentHeight - Height of the content of a page.
+ * @returns The ends of all pages but the last one, and the space left on the last page.
+ */
+export const paginate = (blocks: PageBlock[], contentHeight: number) => {
+   const gaps: PageGap[] = [];
+   let used = 0;
+   let previousMargin = 0;
+   let breakBefore = false;
+
+   for (const block of blocks) {
+      const spacing = used > 0 ? Math.max(previousMargin, block.marginTop) : 0;
+      if (breakBefore || (used > 0 && used + spacing + block.height > contentHeight)) {
+         gaps.push({ pos: block.pos, fill: Math.max(Math.floor(contentHeight - used), 0) });
+         used = block.height;
+      } else {
+         used += spacing + block.height;
+      }
+      previousMargin = block.marginBottom;
+      breakBefore = block.breakAfter;
+   }
+
+   return { gaps, lastFill: Math.max(Math.floor(contentHeight - used), 0) };
+};
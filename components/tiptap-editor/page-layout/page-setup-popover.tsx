@@ -0,0 +1,189 @@
+/**
+ * @module PageSetupPopover
+ *
+ * This component provides the page setup of the print layout: paper size, margins, header and
+ * footer of the document, and a button printing it.
+ *
+ * @remarks
+ * - Every change is stored in the document right away and undone like any edit.
+ * - In a read-only editor the settings are shown but cannot be changed.
+ *
+ * @example
+ * ```tsx
+ * <PageSetupPopover editor={editor} />
+ * ```
+ *
+ * @property editor - The Tiptap editor instance.
+ * @property className - Custom CSS class for the trigger button.
+ */
+import * as React from 'react';
+import { type Editor, useEditorState } from '@tiptap/react';
+import { Printer, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '../tiptap-utils';
+import { i18n } from '../i18n';
+import { MAX_PAGE_MARGIN, getPageSetup, type PageSetup, type PageSize } from './page-layout';
+
+interface PageSetupPopoverProps {
+   editor: Editor;
+   className?: string;
+}
+
+const PAGE_SIZE_LABELS: Record<PageSize, string> = {
+   a4: 'A4 (210 × 297 mm)',
+   letter: 'Letter (8.5 × 11 in)',
+};
+
+const MARGINS = [
+   { side: 'top', label: 'MARGIN_TOP' },
+   { side: 'bottom', label: 'MARGIN_BOTTOM' },
+   { side: 'left', label: 'MARGIN_LEFT' },
+   { side: 'right', label: 'MARGIN_RIGHT' },
+] as const;
+
+/**
+ * Number input of a margin. Keeps what is typed until it is a valid margin, so the field can be
+ * cleared while typing.
+ */
+const MarginInput = ({
+   id,
+   value,
+   disabled,
+   onChange,
+}: {
+   id: string;
+   value: number;
+   disabled: boolean;
+   onChange: (value: number) => void;
+}) => {
+   const [draft, setDraft] = React.useState(String(value));
+
+   React.useEffect(() => {
+      setDraft((draft) => (Number.parseFloat(draft) === value ? draft : String(value)));
+   }, [value]);
+
+   return (
+      <Input
+         id={id}
+         type="number"
+         min={0}
+         max={MAX_PAGE_MARGIN}
+         step={1}
+         className="h-8"
+         value={draft}
+         disabled={disabled}
+         onChange={(event) => {
+            setDraft(event.target.value);
+            const margin = Number.parseFloat(event.target.value);
+            if (Number.isFinite(margin) && margin >= 0 && margin <= MAX_PAGE_MARGIN) {
+               onChange(margin);
+            }
+         }}
+         onBlur={() => setDraft(String(value))}
+      />
+   );
+};
+
+export const PageSetupPopover = ({ editor, className }: PageSetupPopoverProps) => {
+   const id = React.useId();
+   const { setup, editable } = useEditorState({
+      editor,
+      selector: ({ editor }) => ({
+         setup: getPageSetup(editor.state.doc),
+         editable: editor.isEditable,
+      }),
+   });
+
+   const update = (change: Partial<PageSetup>) => editor.commands.setPageSetup(change);
+
+   return (
+      <Popover>
+         <PopoverTrigger asChild>
+            <button
+               className={cn(
+                  'rounded-lg bg-accent px-2 py-1 text-sm text-muted-foreground hover:text-foreground',
+                  className
+               )}
+               title={i18n.t('PAGE_SETUP')}
+            >
+               <Settings2 className="h-4 w-4" />
+            </button>
+         </PopoverTrigger>
+         <PopoverContent align="end" className="w-72 space-y-3">
+            <div className="text-sm font-medium">{i18n.t('PAGE_SETUP')}</div>
+            <div className="space-y-1">
+               <Label htmlFor={`${id}-size`} className="text-xs">
+                  {i18n.t('PAPER_SIZE')}
+               </Label>
+               <select
+                  id={`${id}-size`}
+                  value={setup.size}
+                  disabled={!editable}
+                  onChange={(event) => update({ size: event.target.value as PageSize })}
+                  className="h-8 w-full rounded-md border border-input bg-background px-2 text-sm"
+               >
+                  {Object.entries(PAGE_SIZE_LABELS).map(([size, label]) => (
+                     <option key={size} value={size}>
+                        {label}
+                     </option>
+                  ))}
+               </select>
+            </div>
+            <fieldset className="space-y-1">
+               <legend className="mb-1 text-xs font-medium">{i18n.t('MARGINS_MM')}</legend>
+               <div className="grid grid-cols-2 gap-2">
+                  {MARGINS.map(({ side, label }) => (
+                     <div key={side} className="space-y-1">
+                        <Label htmlFor={`${id}-${side}`} className="text-xs text-muted-foreground">
+                           {i18n.t(label)}
+                        </Label>
+                        <MarginInput
+                           id={`${id}-${side}`}
+                           value={setup.margins[side]}
+                           disabled={!editable}
+                           onChange={(margin) =>
+                              update({ margins: { ...setup.margins, [side]: margin } })
+                           }
+                        />
+                     </div>
+                  ))}
+               </div>
+            </fieldset>
+            <div className="space-y-1">
+               <Label htmlFor={`${id}-header`} className="text-xs">
+                  {i18n.t('PAGE_HEADER')}
+               </Label>
+               <Input
+                  id={`${id}-header`}
+                  className="h-8"
+                  maxLength={500}
+                  value={setup.header}
+                  disabled={!editable}
+                  onChange={(event) => update({ header: event.target.value })}
+               />
+            </div>
+            <div className="space-y-1">
+               <Label htmlFor={`${id}-footer`} className="text-xs">
+                  {i18n.t('PAGE_FOOTER')}
+               </Label>
+               <Input
+                  id={`${id}-footer`}
+                  className="h-8"
+                  maxLength={500}
+                  value={setup.footer}
+                  disabled={!editable}
+                  onChange={(event) => update({ footer: event.target.value })}
+               />
+               <p className="text-xs text-muted-foreground">{i18n.t('PAGE_FOOTER_HINT')}</p>
+            </div>
+            <Button size="sm" className="w-full" onClick={() => window.print()}>
+               <Printer className="h-4 w-4" />
+               {i18n.t('PRINT')}
+            </Button>
+         </PopoverContent>
+      </Popover>
+   );
+};
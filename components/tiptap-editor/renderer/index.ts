@@ -0,0 +1,2 @@
+export { renderHTML, RENDERER_CLASS, type RenderHTMLOptions } from './render-html';
+export { TiptapRenderer } from './tiptap-renderer';
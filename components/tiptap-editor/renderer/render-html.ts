@@ -0,0 +1,83 @@
+/**
+ * @module renderHTML
+ *
+ * This module renders Tiptap JSON content to a static HTML string without creating an editor,
+ * so it also runs on the server (SSR, RSS feeds, emails).
+ *
+ * @remarks
+ * - Uses the editor's `defaultExtensions`, so the output has the same classes as the editor.
+ * - Code blocks are highlighted and math is rendered with KaTeX, like in the editor.
+ * - Tweets become the standard embed markup (a link inside `blockquote.twitter-tweet`).
+ * - Table of contents blocks list the headings of the content.
+ *
+ * @example
+ * ```ts
+ * const html = renderHTML(document.json);
+ * const page = renderHTML(document.json, { wrap: true }); // inside <div class="tiptap prose prose-sm">
+ * ```
+ */
+import type { JSONContent } from '@tiptap/core';
+import {
+   domOutputSpecToHTMLString,
+   renderToHTMLString,
+   serializeAttrsToHTMLString,
+} from '@tiptap/static-renderer/pm/html-string';
+import { escapeHTML } from '@tiptap/static-renderer/json/html-string';
+import { defaultExtensions } from '../extensions';
+import {
+   createTableOfContentsSpec,
+   getTweetId,
+   highlightCode,
+   imageSpec,
+   renderMath,
+   tableSpec,
+} from './static-nodes';
+
+/**
+ * Classes of the element the editor renders its content in.
+ */
+export const RENDERER_CLASS = 'tiptap prose prose-sm';
+
+export interface RenderHTMLOptions {
+   /**
+    * Whether to wrap the content in an element with the editor's classes.
+    * @default false
+    */
+   wrap?: boolean;
+}
+
+/**
+ * Renders JSON content to HTML.
+ *
+ * @param content - Tiptap JSON content.
+ * @param options - Rendering options.
+ * @returns HTML string.
+ */
+export const renderHTML = (content: JSONContent, { wrap = false }: RenderHTMLOptions = {}) => {
+   const tableOfContentsSpec = createTableOfContentsSpec(content);
+   const html = renderToHTMLString({
+      content,
+      extensions: defaultExtensions,
+      options: {
+         nodeMapping: {
+            text: ({ node, parent }) =>
+               parent?.type.name === 'codeBlock'
+                  ? highlightCode(node.text ?? '', parent.attrs.language)
+                  : escapeHTML(node.text ?? ''),
+            inlineMath: ({ node }) =>
+               `<span class="tiptap-mathematics-render" data-type="inline-math"${serializeAttrsToHTMLString({ 'data-latex': node.attrs.latex })}>${renderMath(node.attrs.latex, false)}</span>`,
+            blockMath: ({ node }) =>
+               `<div class="tiptap-mathematics-render" data-type="block-math"${serializeAttrsToHTMLString({ 'data-latex': node.attrs.latex })}><div class="block-math-inner">${renderMath(node.attrs.latex, true)}</div></div>`,
+            twitter: ({ node }) => {
+               const src = node.attrs.src;
+               if (!getTweetId(src)) return '';
+               return `<div data-twitter=""${serializeAttrsToHTMLString({ src })}><blockquote class="twitter-tweet"><a${serializeAttrsToHTMLString({ href: src })}>${escapeHTML(src)}</a></blockquote></div>`;
+            },
+            imageResizer: ({ node }) => domOutputSpecToHTMLString(imageSpec(node))(),
+            table: ({ node, children }) => domOutputSpecToHTMLString(tableSpec(node))(children),
+            tableOfContents: () => domOutputSpecToHTMLString(tableOfContentsSpec())(),
+         },
+      },
+   });
+   return wrap ? `<div class="${RENDERER_CLASS}">${html}</div>` : html;
+};
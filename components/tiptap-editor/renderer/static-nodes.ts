@@ -0,0 +1,135 @@
+/**
+ * @module StaticNodes
+ *
+ * This module provides the pieces shared by the HTML string and React renderers for nodes
+ * whose editor markup comes from a node view or a plugin rather than from `renderHTML`.
+ *
+ * @remarks
+ * - Code is highlighted with the editor's lowlight instance, so token classes match.
+ * - Math is rendered with KaTeX using the editor's options.
+ * - Images and tables get the wrappers the editor's node views add around them.
+ * - Table of contents blocks list the headings of the whole document being rendered.
+ */
+import { getSchema, type JSONContent } from '@tiptap/core';
+import { Node, type DOMOutputSpec } from '@tiptap/pm/model';
+import { createColGroup } from '@tiptap/extension-table';
+import { getEmbedUrlFromYoutubeUrl, type YoutubeOptions } from '@tiptap/extension-youtube';
+import { escapeHTML } from '@tiptap/static-renderer/json/html-string';
+import katex from 'katex';
+import { defaultExtensions, katexOptions, lowlight } from '../extensions';
+import { tableOfContentsSpec } from '../extensions/table-of-contents';
+
+/**
+ * Minimum cell width of tables, Tiptap's default.
+ */
+const TABLE_CELL_MIN_WIDTH = 25;
+
+type HighlightNode = ReturnType<typeof lowlight.highlight>['children'][number];
+
+const toHTML = (nodes: HighlightNode[]): string =>
+   nodes
+      .map((node) => {
+         if (node.type === 'text') return escapeHTML(node.value);
+         if (node.type !== 'element') return '';
+         const className = ([] as unknown[]).concat(node.properties.className ?? []).join(' ');
+         return `<span class="${className}">${toHTML(node.children)}</span>`;
+      })
+      .join('');
+
+/**
+ * Highlights code like the editor does: with the given language when it is registered,
+ * otherwise with language detection.
+ *
+ * @param code - Code block text.
+ * @param language - Language of the code block.
+ * @returns Highlighted HTML.
+ */
+export const highlightCode = (code: string, language?: string | null) => {
+   const tree =
+      language && lowlight.registered(language)
+         ? lowlight.highlight(language, code)
+         : lowlight.highlightAuto(code);
+   return toHTML(tree.children);
+};
+
+/**
+ * Renders a formula with KaTeX.
+ *
+ * @param latex - The formula.
+ * @param displayMode - Whether to render a block formula.
+ * @returns KaTeX HTML.
+ */
+export const renderMath = (latex: string, displayMode: boolean) =>
+   katex.renderToString(latex, { ...katexOptions, displayMode });
+
+/**
+ * Returns the id of a tweet from its URL.
+ *
+ * @param src - Tweet URL.
+ */
+export const getTweetId = (src?: string | null) => src?.split('/').pop() || null;
+
+/**
+ * Attributes of the iframe of a YouTube video, built with the editor's YouTube options.
+ *
+ * @param node - The YouTube node.
+ */
+export const getYoutubeEmbed = (node: Node) => {
+   const options = defaultExtensions.find((extension) => extension.name === 'youtube')
+      ?.options as YoutubeOptions;
+   return {
+      src: getEmbedUrlFromYoutubeUrl({
+         ...options,
+         url: node.attrs.src,
+         startAt: node.attrs.start,
+      }),
+      width: node.attrs.width ?? options.width,
+      height: node.attrs.height ?? options.height,
+      className: options.HTMLAttributes.class as string | undefined,
+      allowFullScreen: options.allowFullscreen,
+   };
+};
+
+/**
+ * Markup of a resized image: the wrapper and container the image node view renders.
+ *
+ * @param node - The image node.
+ */
+export const imageSpec = (node: Node): DOMOutputSpec => {
+   const { wrapperStyle, ...attrs } = node.attrs;
+   const imgAttrs = Object.fromEntries(
+      Object.entries(attrs).filter(([, value]) => value !== null && value !== undefined)
+   );
+   return [
+      'div',
+      { style: wrapperStyle || 'display: flex;' },
+      ['div', { style: attrs.style }, ['img', imgAttrs]],
+   ];
+};
+
+/**
+ * Markup of a table in the scroll wrapper the table node view renders; rows go into the hole.
+ *
+ * @param node - The table node.
+ */
+export const tableSpec = (node: Node): DOMOutputSpec => {
+   const { colgroup, tableWidth, tableMinWidth } = createColGroup(node, TABLE_CELL_MIN_WIDTH);
+   const style = tableWidth ? `width: ${tableWidth}` : `min-width: ${tableMinWidth}`;
+   return [
+      'div',
+      { class: 'tableWrapper' },
+      ['table', { style }, ...(colgroup ? [colgroup] : []), ['tbody', 0]],
+   ];
+};
+
+/**
+ * Returns the markup of the table of contents blocks of a document. The headings are read once,
+ * when the first block is rendered.
+ *
+ * @param content - The document being rendered.
+ */
+export const createTableOfContentsSpec = (content: JSONContent) => {
+   let spec: DOMOutputSpec | undefined;
+   return () =>
+      (spec ??= tableOfContentsSpec(Node.fromJSON(getSchema(defaultExtensions), content)));
+};
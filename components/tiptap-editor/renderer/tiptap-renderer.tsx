@@ -0,0 +1,120 @@
+/**
+ * @module TiptapRenderer
+ *
+ * This module provides a read-only React component rendering Tiptap JSON content without
+ * creating an editor, for displaying published content.
+ *
+ * @remarks
+ * - Uses the editor's `defaultExtensions`, so the markup and classes match the editor.
+ * - No menus, drag handle or dialogs are loaded; it also works as a React Server Component.
+ * - Tweets are rendered with `react-tweet`, math with KaTeX and code is highlighted.
+ * - Table of contents blocks list the headings of the content.
+ *
+ * @example
+ * ```tsx
+ * <TiptapRenderer content={post.json} className="max-w-none" />
+ * ```
+ *
+ * @property content - Content to render as JSON.
+ * @property className - Custom CSS class for the container.
+ */
+import type { JSONContent } from '@tiptap/core';
+import {
+   renderToReactElement,
+   domOutputSpecToReactElement,
+} from '@tiptap/static-renderer/pm/react';
+import { Tweet } from 'react-tweet';
+import { defaultExtensions } from '../extensions';
+import { cn } from '../tiptap-utils';
+import { RENDERER_CLASS } from './render-html';
+import {
+   createTableOfContentsSpec,
+   getTweetId,
+   getYoutubeEmbed,
+   highlightCode,
+   imageSpec,
+   renderMath,
+   tableSpec,
+} from './static-nodes';
+
+interface TiptapRendererProps {
+   content: JSONContent;
+   className?: string;
+}
+
+export const TiptapRenderer = ({ content, className }: TiptapRendererProps) => {
+   const tableOfContentsSpec = createTableOfContentsSpec(content);
+   return (
+      <div className={cn(RENDERER_CLASS, className)}>
+         {renderToReactElement({
+            content,
+            extensions: defaultExtensions,
+            options: {
+               nodeMapping: {
+                  text: ({ node, parent }) =>
+                     parent?.type.name === 'codeBlock' ? (
+                        <span
+                           dangerouslySetInnerHTML={{
+                              __html: highlightCode(node.text ?? '', parent.attrs.language),
+                           }}
+                        />
+                     ) : (
+                        (node.text ?? '')
+                     ),
+                  inlineMath: ({ node }) => (
+                     <span
+                        className="tiptap-mathematics-render"
+                        data-type="inline-math"
+                        data-latex={node.attrs.latex}
+                        dangerouslySetInnerHTML={{ __html: renderMath(node.attrs.latex, false) }}
+                     />
+                  ),
+                  blockMath: ({ node }) => (
+                     <div
+                        className="tiptap-mathematics-render"
+                        data-type="block-math"
+                        data-latex={node.attrs.latex}
+                     >
+                        <div
+                           className="block-math-inner"
+                           dangerouslySetInnerHTML={{ __html: renderMath(node.attrs.latex, true) }}
+                        />
+                     </div>
+                  ),
+                  twitter: ({ node }) => {
+                     const tweetId = getTweetId(node.attrs.src);
+                     if (!tweetId) return null;
+                     return (
+                        <div data-twitter="">
+                           <Tweet id={tweetId} />
+                        </div>
+                     );
+                  },
+                  youtube: ({ node }) => {
+                     const { src, ...attrs } = getYoutubeEmbed(node);
+                     if (!src) return null;
+                     return (
+                        <div data-youtube-video="">
+                           <iframe src={src} {...attrs} />
+                        </div>
+                     );
+                  },
+                  taskItem: ({ node, children }) => (
+                     <li data-checked={node.attrs.checked} data-type="taskItem">
+                        <label>
+                           <input type="checkbox" checked={node.attrs.checked} readOnly />
+                           <span />
+                        </label>
+                        <div>{children}</div>
+                     </li>
+                  ),
+                  imageResizer: ({ node }) => domOutputSpecToReactElement(imageSpec(node))(),
+                  table: ({ node, children }) =>
+                     domOutputSpecToReactElement(tableSpec(node))(children),
+                  tableOfContents: () => domOutputSpecToReactElement(tableOfContentsSpec())(),
+               },
+            },
+         })}
+      </div>
+   );
+};
@@ -9,6 +9,8 @@
  * - Validates URLs for allowed protocols (HTTP/HTTPS) and blocks suspicious domains.
  * - Supports adding links to selected text or inserting as new text.
  * - Displays validation errors and security warnings.
+ * - Links to headings of the same document (`#anchor`) can be picked from a list; links to
+ *   headings that no longer exist are reported.
  * - Allows removing links and changing link target (_self, _blank).
  * - Shows preview of display text for the link.
  *
@@ -27,10 +29,12 @@ import { PopoverContent } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
 import { Popover, PopoverTrigger } from '@radix-ui/react-popover';
 import { Editor } from '@tiptap/react';
-import { Check, Trash, Link, AlertTriangle } from 'lucide-react';
+import { Check, Trash, Link, AlertTriangle, Hash } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { i18n } from '../i18n';
+import { getAnchorId, getHeadingIds, isAnchorHref } from '../extensions/heading-anchors';
+import { getHeadings } from '../outline/outline';
 
 // Güvenlik kontrolleri
 const DISALLOWED_PROTOCOLS = ['ftp', 'file', 'mailto'];
@@ -118,6 +122,20 @@ export function validateUrl(url: string): { isValid: boolean; error?: string } {
    }
 }
 
+/**
+ * Validates a link: `#anchor` links must point to a heading of the document, other links are
+ * validated with `validateUrl`.
+ *
+ * @param editor - The editor instance.
+ * @param link - The link to validate.
+ */
+export function validateLink(editor: Editor, link: string): { isValid: boolean; error?: string } {
+   if (!link.startsWith('#')) return validateUrl(link);
+   return isAnchorHref(link) && getHeadingIds(editor.state.doc).has(getAnchorId(link))
+      ? { isValid: true }
+      : { isValid: false, error: i18n.t('LINK_ERROR_UNKNOWN_HEADING') };
+}
+
 interface LinkSelectorProps {
    editor: Editor;
    open: boolean;
@@ -148,7 +166,7 @@ export const LinkSelector = ({ editor, open, onOpenChange }: LinkSelectorProps)
       if (url.trim()) {
          setIsValidating(true);
          const timer = setTimeout(() => {
-            const validation = validateUrl(url);
+            const validation = validateLink(editor, url);
             setValidationError(validation.error || '');
             setIsValidating(false);
          }, 500);
@@ -158,39 +176,26 @@ export const LinkSelector = ({ editor, open, onOpenChange }: LinkSelectorProps)
          setValidationError('');
          setIsValidating(false);
       }
-   }, [url]);
+   }, [url, editor]);
 
    if (!editor) return null;
 
-   const handleSubmit = (e: React.FormEvent) => {
-      e.preventDefault();
-
-      const validation = validateUrl(url);
-      if (!validation.isValid) {
-         setValidationError(validation.error || i18n.t('LINK_ERROR_INVALID_FORMAT'));
-         return;
-      }
-
-      const validUrl = getUrlFromString(url);
-      if (!validUrl) return;
-
+   const applyLink = (href: string, displayText: string) => {
       // ✅ Seçili metin var mı kontrol et
       const { from, to } = editor.state.selection;
       const hasSelection = from !== to;
 
       if (hasSelection) {
          // ✅ Metin seçiliyse, mevcut metni link yap
-         editor.chain().focus().setLink({ href: validUrl }).run();
+         editor.chain().focus().setLink({ href }).run();
       } else {
          // ✅ Metin seçili değilse, URL'yi metin olarak ekle ve link yap
-         const displayText = getDisplayText(validUrl);
-
          editor
             .chain()
             .focus()
             .insertContent(displayText)
             .setTextSelection({ from: from, to: from + displayText.length })
-            .setLink({ href: validUrl })
+            .setLink({ href })
             .run();
       }
 
@@ -198,6 +203,27 @@ export const LinkSelector = ({ editor, open, onOpenChange }: LinkSelectorProps)
       setValidationError('');
    };
 
+   const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+
+      const validation = validateLink(editor, url);
+      if (!validation.isValid) {
+         setValidationError(validation.error || i18n.t('LINK_ERROR_INVALID_FORMAT'));
+         return;
+      }
+
+      if (isAnchorHref(url)) {
+         const heading = headings.find((heading) => heading.id === getAnchorId(url));
+         applyLink(url, heading?.text || url);
+         return;
+      }
+
+      const validUrl = getUrlFromString(url);
+      if (!validUrl) return;
+
+      applyLink(validUrl, getDisplayText(validUrl));
+   };
+
    // ✅ URL'den okunabilir metin oluştur
    const getDisplayText = (url: string): string => {
       try {
@@ -236,6 +262,18 @@ export const LinkSelector = ({ editor, open, onOpenChange }: LinkSelectorProps)
 
    const isLinkActive = editor.isActive('link');
    const currentLink = editor.getAttributes('link').href;
+   const isCurrentLinkBroken =
+      isAnchorHref(currentLink) && !getHeadingIds(editor.state.doc).has(getAnchorId(currentLink));
+
+   // Headings to link to, filtered by the typed `#anchor` or heading text
+   const headings = getHeadings(editor.state.doc).filter(
+      (heading): heading is typeof heading & { id: string } => !!heading.id
+   );
+   const headingQuery = url.startsWith('#') ? url.slice(1).toLowerCase() : '';
+   const headingOptions = headings.filter(
+      (heading) =>
+         heading.id.includes(headingQuery) || heading.text.toLowerCase().includes(headingQuery)
+   );
    const hasError = validationError.length > 0;
    const canSubmit = url.trim() && !hasError && !isValidating;
 
@@ -324,6 +362,41 @@ export const LinkSelector = ({ editor, open, onOpenChange }: LinkSelectorProps)
                      </form>
                   </div>
 
+                  {/* Belgedeki başlıklara bağlantı */}
+                  {headings.length > 0 && (
+                     <div className="border-t pt-3">
+                        <p className="text-xs text-muted-foreground mb-1">
+                           {i18n.t('LINK_TO_HEADING')}
+                        </p>
+                        <div className="max-h-40 overflow-y-auto" role="listbox">
+                           {headingOptions.map((heading) => (
+                              <button
+                                 key={heading.pos}
+                                 type="button"
+                                 role="option"
+                                 aria-selected={currentLink === `#${heading.id}`}
+                                 onClick={() => applyLink(`#${heading.id}`, heading.text)}
+                                 className={cn(
+                                    'flex w-full items-center gap-1 rounded-sm px-2 py-1 text-left text-sm hover:bg-accent',
+                                    currentLink === `#${heading.id}` && 'bg-accent'
+                                 )}
+                                 style={{ paddingLeft: `${0.5 + (heading.level - 1) * 0.75}rem` }}
+                              >
+                                 <Hash className="h-3 w-3 shrink-0 text-muted-foreground" />
+                                 <span className="truncate">
+                                    {heading.text || i18n.t('UNTITLED_HEADING')}
+                                 </span>
+                              </button>
+                           ))}
+                           {headingOptions.length === 0 && (
+                              <p className="px-2 py-1 text-xs text-muted-foreground">
+                                 {i18n.t('NO_RESULTS')}
+                              </p>
+                           )}
+                        </div>
+                     </div>
+                  )}
+
                   {/* Güvenlik bildirimi
                   <div className="bg-muted/50 rounded p-3 text-xs text-muted-foreground">
                      <p className="font-medium mb-1">🔒 Güvenlik Kontrolleri:</p>
@@ -342,7 +415,20 @@ export const LinkSelector = ({ editor, open, onOpenChange }: LinkSelectorProps)
                               <p className="text-xs text-muted-foreground mb-1">
                                  {i18n.t('CURRENT_LINK')}
                               </p>
-                              <p className="text-sm truncate text-blue-600">{currentLink}</p>
+                              <p
+                                 className={cn(
+                                    'text-sm truncate text-blue-600',
+                                    isCurrentLinkBroken && 'text-red-600 line-through'
+                                 )}
+                              >
+                                 {currentLink}
+                              </p>
+                              {isCurrentLinkBroken && (
+                                 <p className="flex items-center gap-1 text-xs text-red-600">
+                                    <AlertTriangle className="h-3 w-3" />
+                                    {i18n.t('LINK_BROKEN')}
+                                 </p>
+                              )}
                            </div>
                            <Button
                               size="sm"
@@ -2,7 +2,7 @@
  * @module Selector
  *
  * This module provides the Selector React component for choosing formatting options in the Tiptap editor.
- * It displays a list of formatting actions such as bold, italic, underline, lists, code, block quote, and clear formatting.
+ * It displays a list of formatting actions such as bold, italic, underline, lists, code, block quote, callout, and clear formatting.
  * All UI strings should be localized via i18n for multi-language support.
  *
  * @remarks
@@ -33,6 +33,7 @@ import {
    Subscript,
    Superscript,
    TextQuote,
+   Info,
    Trash2,
    Minus,
 } from 'lucide-react';
@@ -96,6 +97,12 @@ const listItems: SelectorItem[] = [
       icon: TextQuote,
       shortcut: 'Ctrl+Shift+Q',
    },
+   {
+      name: 'CALLOUT',
+      command: (editor) => editor.chain().focus().toggleCallout().run(),
+      isActive: (editor) => editor.isActive('callout'),
+      icon: Info,
+   },
    {
       name: 'CODE',
       command: (editor) => editor.chain().focus().toggleCode().run(),
@@ -177,6 +184,7 @@ const listItems: SelectorItem[] = [
          const hasBlocks =
             editor.isActive('heading') ||
             editor.isActive('blockquote') ||
+            editor.isActive('callout') ||
             editor.isActive('codeBlock') ||
             editor.isActive('bulletList') ||
             editor.isActive('orderedList') ||
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHttpAdapter } from './http-adapter';
+
+const doc = (text: string) => ({
+   json: { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] },
+   html: `<p>${text}</p>`,
+});
+
+/**
+ * Answers PUT requests like the document route: a save based on an old revision is a conflict.
+ * The first response is held until `release` is called.
+ */
+const createServer = () => {
+   let revision = 0;
+   let release = () => {};
+   const held = new Promise<void>((resolve) => {
+      release = resolve;
+   });
+   const revisions: number[] = [];
+
+   const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(String(init.body));
+      revisions.push(body.revision);
+      if (revisions.length === 1) await held;
+      if (body.revision !== revision) {
+         return Response.json({ error: 'Revision conflict' }, { status: 409 });
+      }
+      revision += 1;
+      return Response.json({ ...body, revision });
+   });
+
+   return { fetch, release, revisions };
+};
+
+describe('createHttpAdapter', () => {
+   afterEach(() => {
+      vi.unstubAllGlobals();
+   });
+
+   it('sends a save started while another is in flight with the revision of the first', async () => {
+      const server = createServer();
+      vi.stubGlobal('fetch', server.fetch);
+      const adapter = createHttpAdapter({ baseUrl: '/api/documents' });
+
+      const first = adapter.save('post', doc('Draft'));
+      const second = adapter.save('post', doc('Draft, edited'));
+      await vi.waitFor(() => expect(server.fetch).toHaveBeenCalledTimes(1));
+      server.release();
+
+      await expect(first).resolves.toMatchObject({ revision: 1 });
+      await expect(second).resolves.toMatchObject({ revision: 2 });
+      expect(server.revisions).toEqual([0, 1]);
+   });
+});
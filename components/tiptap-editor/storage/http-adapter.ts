@@ -0,0 +1,168 @@
+/**
+ * @module HttpAdapter
+ *
+ * This module provides a storage adapter that persists editor documents to an HTTP backend.
+ * Documents are addressed as `<baseUrl>/<key>`: `GET` loads, `PUT` saves and `DELETE` clears.
+ *
+ * @remarks
+ * - A `404` response on load is treated as "no document yet".
+ * - The adapter remembers the `revision` of every loaded or saved document and sends it with
+ *   the next save; a `409` response rejects with `StorageConflictError`.
+ * - Saves of the same document are sent one after the other, so each one carries the revision
+ *   returned for the previous one.
+ * - Any other non-2xx response rejects, so the editor can retry and show the error.
+ * - Extra headers (e.g. authorization) can be passed as an object or a function.
+ * - Snapshots live under `<baseUrl>/<key>/snapshots` (`GET` lists, `POST` creates) and
+ *   `<baseUrl>/<key>/snapshots/<id>` (`GET` loads, `DELETE` removes).
+ *
+ * @example
+ * ```tsx
+ * <Tiptap
+ *   storage={createHttpAdapter({ baseUrl: '/api/documents', headers: { Authorization: token } })}
+ *   documentKey="post-42"
+ * />
+ * ```
+ *
+ * @property baseUrl - Base URL of the document endpoint.
+ * @property headers - Extra request headers or a function returning them.
+ */
+import {
+   StorageConflictError,
+   type Snapshot,
+   type SnapshotSummary,
+   type StorageAdapter,
+   type StoredDocument,
+} from './storage-adapter';
+
+/**
+ * Options for the HTTP adapter.
+ */
+export interface HttpAdapterOptions {
+   /**
+    * Base URL of the document endpoint, without a trailing slash.
+    */
+   baseUrl: string;
+   /**
+    * Extra request headers, or a function returning them for every request.
+    */
+   headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+}
+
+/**
+ * Creates a storage adapter backed by an HTTP endpoint.
+ *
+ * @param options - Endpoint URL and headers.
+ * @returns A storage adapter.
+ */
+export const createHttpAdapter = ({ baseUrl, headers }: HttpAdapterOptions): StorageAdapter => {
+   // Last known revision per document key
+   const revisions = new Map<string, number>();
+   // Last save per document key, the next one waits for it
+   const saves = new Map<string, Promise<StoredDocument | undefined>>();
+
+   const request = async (key: string, init: RequestInit = {}, path = '') => {
+      const extraHeaders = typeof headers === 'function' ? await headers() : headers;
+      return fetch(`${baseUrl}/${encodeURIComponent(key)}${path}`, {
+         ...init,
+         headers: {
+            'Content-Type': 'application/json',
+            ...extraHeaders,
+            ...init.headers,
+         },
+      });
+   };
+
+   const ensureOk = async (response: Response) => {
+      if (!response.ok) {
+         const data = await response.json().catch(() => null);
+         if (response.status === 409) {
+            throw new StorageConflictError(data?.error, data?.current);
+         }
+         throw new Error(data?.error || `Request failed with status ${response.status}`);
+      }
+      return response;
+   };
+
+   const rememberRevision = (key: string, document?: StoredDocument) => {
+      if (typeof document?.revision === 'number') revisions.set(key, document.revision);
+   };
+
+   return {
+      load: async (key) => {
+         const response = await request(key);
+         if (response.status === 404) {
+            revisions.delete(key);
+            return null;
+         }
+         await ensureOk(response);
+         const document = (await response.json()) as StoredDocument;
+         rememberRevision(key, document);
+         return document;
+      },
+
+      save: (key, document) => {
+         const previous = saves.get(key) ?? Promise.resolve(undefined);
+         const save = previous
+            .catch(() => undefined)
+            .then(async () => {
+               const response = await ensureOk(
+                  await request(key, {
+                     method: 'PUT',
+                     body: JSON.stringify({
+                        ...document,
+                        revision: revisions.get(key) ?? 0,
+                     }),
+                  })
+               );
+               const stored = (await response.json().catch(() => undefined)) as
+                  StoredDocument | undefined;
+               rememberRevision(key, stored);
+               return stored;
+            });
+         saves.set(key, save);
+         const forget = () => {
+            if (saves.get(key) === save) saves.delete(key);
+         };
+         save.then(forget, forget);
+         return save;
+      },
+
+      clear: async (key) => {
+         const response = await request(key, { method: 'DELETE' });
+         revisions.delete(key);
+         if (response.status === 404) return;
+         await ensureOk(response);
+      },
+
+      listSnapshots: async (key) => {
+         const response = await ensureOk(await request(key, {}, '/snapshots'));
+         const { snapshots } = (await response.json()) as {
+            snapshots: SnapshotSummary[];
+         };
+         return snapshots;
+      },
+
+      loadSnapshot: async (key, id) => {
+         const response = await request(key, {}, `/snapshots/${encodeURIComponent(id)}`);
+         if (response.status === 404) return null;
+         await ensureOk(response);
+         return (await response.json()) as Snapshot;
+      },
+
+      saveSnapshot: async (key, snapshot) => {
+         await ensureOk(
+            await request(key, { method: 'POST', body: JSON.stringify(snapshot) }, '/snapshots')
+         );
+      },
+
+      deleteSnapshot: async (key, id) => {
+         const response = await request(
+            key,
+            { method: 'DELETE' },
+            `/snapshots/${encodeURIComponent(id)}`
+         );
+         if (response.status === 404) return;
+         await ensureOk(response);
+      },
+   };
+};
@@ -0,0 +1,14 @@
+export {
+   byNewestSnapshot,
+   saveWithRetry,
+   toSnapshotSummary,
+   StorageConflictError,
+   type StorageAdapter,
+   type StoredDocument,
+   type SaveRetryOptions,
+   type Snapshot,
+   type SnapshotSummary,
+} from './storage-adapter';
+export { createLocalStorageAdapter, getLocalStorageKeys } from './local-storage-adapter';
+export { createIndexedDBAdapter, type IndexedDBAdapterOptions } from './indexeddb-adapter';
+export { createHttpAdapter, type HttpAdapterOptions } from './http-adapter';
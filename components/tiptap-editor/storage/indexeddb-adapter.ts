@@ -0,0 +1,202 @@
+/**
+ * @module IndexedDBAdapter
+ *
+ * This module provides a storage adapter that persists editor documents in IndexedDB.
+ * It is a better fit than localStorage for large documents (e.g. with embedded base64 images),
+ * since IndexedDB is not limited to a few megabytes and does not block the main thread.
+ * Snapshots for version history live in a second object store, indexed by document key.
+ * Stores missing from an existing database, e.g. after changing their names, are created by
+ * upgrading it to a new version. The upgrade fails while another tab keeps the database open
+ * with an older version, and is tried again on the next call.
+ *
+ * @example
+ * ```tsx
+ * <Tiptap storage={createIndexedDBAdapter({ databaseName: 'my-app' })} documentKey="post-42" />
+ * ```
+ *
+ * @property databaseName - Name of the IndexedDB database (default: 'tiptap-editor').
+ * @property storeName - Name of the object store (default: 'documents').
+ * @property snapshotStoreName - Name of the snapshot object store (default: 'snapshots').
+ */
+import {
+   byNewestSnapshot,
+   toSnapshotSummary,
+   type Snapshot,
+   type StorageAdapter,
+   type StoredDocument,
+} from './storage-adapter';
+
+/**
+ * Options for the IndexedDB adapter.
+ */
+export interface IndexedDBAdapterOptions {
+   /**
+    * Name of the IndexedDB database.
+    * @default 'tiptap-editor'
+    */
+   databaseName?: string;
+   /**
+    * Name of the object store holding the documents.
+    * @default 'documents'
+    */
+   storeName?: string;
+   /**
+    * Name of the object store holding version history snapshots.
+    * @default 'snapshots'
+    */
+   snapshotStoreName?: string;
+}
+
+/**
+ * A snapshot as stored in IndexedDB, tagged with the key of its document.
+ */
+type SnapshotRecord = Snapshot & { documentKey: string };
+
+/**
+ * Wraps an IDBRequest in a promise.
+ *
+ * @param request - The IndexedDB request.
+ * @returns A promise resolving to the request result.
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+   new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+   });
+
+/**
+ * Creates a storage adapter backed by IndexedDB.
+ *
+ * @param options - Database and store names.
+ * @returns A storage adapter.
+ */
+export const createIndexedDBAdapter = ({
+   databaseName = 'tiptap-editor',
+   storeName = 'documents',
+   snapshotStoreName = 'snapshots',
+}: IndexedDBAdapterOptions = {}): StorageAdapter => {
+   let database: Promise<IDBDatabase> | null = null;
+
+   const hasStores = (db: IDBDatabase) =>
+      db.objectStoreNames.contains(storeName) && db.objectStoreNames.contains(snapshotStoreName);
+
+   /**
+    * Opens the database at its current version, or at `version` to create missing stores.
+    * An existing database opened with other store names is upgraded to a new version.
+    */
+   const connect = async (version?: number): Promise<IDBDatabase> => {
+      const request = window.indexedDB.open(databaseName, version);
+      request.onupgradeneeded = () => {
+         const db = request.result;
+         if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName);
+         }
+         if (!db.objectStoreNames.contains(snapshotStoreName)) {
+            db.createObjectStore(snapshotStoreName).createIndex('documentKey', 'documentKey');
+         }
+      };
+      const db = await new Promise<IDBDatabase>((resolve, reject) => {
+         request.onsuccess = () => resolve(request.result);
+         request.onerror = () => reject(request.error);
+         // Another connection (e.g. an older tab) keeps the previous version open: fail instead
+         // of waiting for it, and close the database should the upgrade go through later
+         request.onblocked = () => {
+            request.onsuccess = () => request.result.close();
+            reject(new Error(`Database "${databaseName}" is in use by another tab`));
+         };
+      });
+      if (!hasStores(db)) {
+         db.close();
+         return connect(db.version + 1);
+      }
+      // Let other adapters on the same database upgrade it, reopening on the next call
+      db.onversionchange = () => {
+         db.close();
+         database = null;
+      };
+      return db;
+   };
+
+   const openDatabase = () => {
+      if (!database) {
+         database = connect().catch((error) => {
+            // Allow the next call to try again
+            database = null;
+            throw error;
+         });
+      }
+      return database;
+   };
+
+   const withStore = async <T>(
+      mode: IDBTransactionMode,
+      callback: (store: IDBObjectStore) => IDBRequest<T>,
+      name = storeName
+   ) => {
+      const db = await openDatabase();
+      const transaction = db.transaction(name, mode);
+      return promisifyRequest(callback(transaction.objectStore(name)));
+   };
+
+   const snapshotId = (key: string, id: string) => `${key}/${id}`;
+
+   return {
+      load: async (key) => {
+         const document = await withStore<StoredDocument | undefined>('readonly', (store) =>
+            store.get(key)
+         );
+         return document ?? null;
+      },
+
+      save: async (key, document) => {
+         const stored: StoredDocument = {
+            ...document,
+            updatedAt: new Date().toISOString(),
+         };
+         await withStore('readwrite', (store) => store.put(stored, key));
+         return stored;
+      },
+
+      clear: async (key) => {
+         await withStore('readwrite', (store) => store.delete(key));
+      },
+
+      listSnapshots: async (key) => {
+         const records = await withStore<SnapshotRecord[]>(
+            'readonly',
+            (store) => store.index('documentKey').getAll(key),
+            snapshotStoreName
+         );
+         return records.map(toSnapshotSummary).sort(byNewestSnapshot);
+      },
+
+      loadSnapshot: async (key, id) => {
+         const record = await withStore<SnapshotRecord | undefined>(
+            'readonly',
+            (store) => store.get(snapshotId(key, id)),
+            snapshotStoreName
+         );
+         if (!record) return null;
+         // eslint-disable-next-line @typescript-eslint/no-unused-vars
+         const { documentKey, ...snapshot } = record;
+         return snapshot;
+      },
+
+      saveSnapshot: async (key, snapshot) => {
+         const record: SnapshotRecord = { ...snapshot, documentKey: key };
+         await withStore(
+            'readwrite',
+            (store) => store.put(record, snapshotId(key, snapshot.id)),
+            snapshotStoreName
+         );
+      },
+
+      deleteSnapshot: async (key, id) => {
+         await withStore(
+            'readwrite',
+            (store) => store.delete(snapshotId(key, id)),
+            snapshotStoreName
+         );
+      },
+   };
+};
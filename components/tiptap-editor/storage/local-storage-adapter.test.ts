@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalStorageAdapter } from './local-storage-adapter';
+
+/**
+ * A localStorage holding at most `limit` characters, like the quota of browsers.
+ */
+const createStorage = (limit: number) => {
+   const items = new Map<string, string>();
+   const size = () =>
+      [...items].reduce((total, [key, value]) => total + key.length + value.length, 0);
+   return {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+         const previous = items.get(key);
+         items.set(key, value);
+         if (size() > limit) {
+            if (previous === undefined) items.delete(key);
+            else items.set(key, previous);
+            throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+         }
+      },
+      removeItem: (key: string) => items.delete(key),
+   };
+};
+
+const content = (text: string) => ({
+   type: 'doc',
+   content: [{ type: 'paragraph', content: [{ type: 'text', text }] }],
+});
+
+const snapshot = (id: string, minute: number, auto = true) => ({
+   id,
+   auto,
+   createdAt: `2026-01-01T10:${String(minute).padStart(2, '0')}:00.000Z`,
+   wordCount: 100,
+   json: content('word '.repeat(100)),
+});
+
+describe('createLocalStorageAdapter', () => {
+   beforeEach(() => {
+      vi.stubGlobal('window', { localStorage: createStorage(3000) });
+   });
+
+   afterEach(() => {
+      vi.unstubAllGlobals();
+   });
+
+   it('drops the oldest automatic snapshots when the document does not fit', async () => {
+      const adapter = createLocalStorageAdapter();
+      await adapter.saveSnapshot!('post', snapshot('named', 0, false));
+      await adapter.saveSnapshot!('post', snapshot('first', 5));
+      await adapter.saveSnapshot!('post', snapshot('second', 10));
+      await adapter.saveSnapshot!('post', snapshot('third', 15));
+
+      const document = { json: content('text '.repeat(200)) };
+      await expect(adapter.save('post', document)).resolves.toEqual(document);
+
+      const ids = (await adapter.listSnapshots!('post')).map(({ id }) => id);
+      expect(ids).toContain('named');
+      expect(ids).not.toContain('first');
+      expect(await adapter.load('post')).toMatchObject({ json: document.json });
+   });
+
+   it('keeps the new snapshot when the snapshots do not fit', async () => {
+      const adapter = createLocalStorageAdapter();
+      for (let minute = 0; minute < 6; minute++) {
+         await adapter.saveSnapshot!('post', snapshot(`auto-${minute}`, minute));
+      }
+
+      const ids = (await adapter.listSnapshots!('post')).map(({ id }) => id);
+      expect(ids[0]).toBe('auto-5');
+      expect(ids).not.toContain('auto-0');
+   });
+
+   it('still fails when there is no automatic snapshot left to drop', async () => {
+      const adapter = createLocalStorageAdapter();
+      await expect(adapter.save('post', { json: content('text '.repeat(1000)) })).rejects.toThrow(
+         'quota'
+      );
+   });
+});
@@ -0,0 +1,141 @@
+/**
+ * @module LocalStorageAdapter
+ *
+ * This module provides a storage adapter that persists editor documents in `window.localStorage`.
+ * The JSON and HTML of a document are stored under `<key>-json-content` and `<key>-html-content`,
+ * which keeps documents saved with the default `inan` key readable after upgrading.
+ * Snapshots for version history are kept as one array under `<key>-snapshots`. When the storage
+ * is full, the oldest automatic snapshots of the document are dropped to make room.
+ *
+ * @example
+ * ```tsx
+ * <Tiptap storage={createLocalStorageAdapter()} documentKey="post-42" />
+ * ```
+ */
+import {
+   byNewestSnapshot,
+   toSnapshotSummary,
+   type Snapshot,
+   type StorageAdapter,
+   type StoredDocument,
+} from './storage-adapter';
+
+/**
+ * Returns the localStorage keys used for a document key.
+ *
+ * @param key - The document key.
+ * @returns The JSON and HTML item keys.
+ */
+export const getLocalStorageKeys = (key: string) => ({
+   json: `${key}-json-content`,
+   html: `${key}-html-content`,
+   snapshots: `${key}-snapshots`,
+});
+
+const readSnapshots = (key: string): Snapshot[] => {
+   const snapshots = window.localStorage.getItem(getLocalStorageKeys(key).snapshots);
+   return snapshots ? JSON.parse(snapshots) : [];
+};
+
+const isQuotaError = (error: unknown) =>
+   error instanceof DOMException &&
+   (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Removes the oldest automatic snapshot from a list, other than the snapshot being kept.
+ *
+ * @returns The shorter list, or `null` when there is no automatic snapshot left to drop.
+ */
+const withoutOldestAutoSnapshot = (snapshots: Snapshot[], keep?: string) => {
+   const oldest = snapshots
+      .filter((snapshot) => snapshot.auto && snapshot.id !== keep)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+   return oldest ? snapshots.filter((snapshot) => snapshot !== oldest) : null;
+};
+
+/**
+ * Writes the snapshots of a document, dropping the oldest automatic ones while they don't fit.
+ *
+ * @param keep - Id of a snapshot that is never dropped, e.g. the one being saved.
+ */
+const writeSnapshots = (key: string, snapshots: Snapshot[], keep?: string) => {
+   while (true) {
+      try {
+         window.localStorage.setItem(getLocalStorageKeys(key).snapshots, JSON.stringify(snapshots));
+         return;
+      } catch (error) {
+         const fewer = isQuotaError(error) ? withoutOldestAutoSnapshot(snapshots, keep) : null;
+         if (!fewer) throw error;
+         snapshots = fewer;
+      }
+   }
+};
+
+/**
+ * Writes an item of a document, dropping its oldest automatic snapshots while the storage is full.
+ */
+const setItem = (key: string, item: string, value: string) => {
+   while (true) {
+      try {
+         window.localStorage.setItem(item, value);
+         return;
+      } catch (error) {
+         const fewer = isQuotaError(error) ? withoutOldestAutoSnapshot(readSnapshots(key)) : null;
+         if (!fewer) throw error;
+         writeSnapshots(key, fewer);
+      }
+   }
+};
+
+/**
+ * Creates a storage adapter backed by `window.localStorage`.
+ *
+ * @returns A storage adapter.
+ */
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+   load: async (key) => {
+      const keys = getLocalStorageKeys(key);
+      const json = window.localStorage.getItem(keys.json);
+      if (!json) return null;
+
+      return {
+         json: JSON.parse(json),
+         html: window.localStorage.getItem(keys.html) ?? undefined,
+      };
+   },
+
+   save: async (key, document: StoredDocument) => {
+      const keys = getLocalStorageKeys(key);
+      setItem(key, keys.json, JSON.stringify(document.json));
+      if (document.html !== undefined) {
+         setItem(key, keys.html, document.html);
+      }
+      return document;
+   },
+
+   clear: async (key) => {
+      const keys = getLocalStorageKeys(key);
+      window.localStorage.removeItem(keys.json);
+      window.localStorage.removeItem(keys.html);
+   },
+
+   listSnapshots: async (key) => readSnapshots(key).map(toSnapshotSummary).sort(byNewestSnapshot),
+
+   loadSnapshot: async (key, id) =>
+      readSnapshots(key).find((snapshot) => snapshot.id === id) ?? null,
+
+   saveSnapshot: async (key, snapshot) => {
+      writeSnapshots(
+         key,
+         [...readSnapshots(key).filter((existing) => existing.id !== snapshot.id), snapshot],
+         snapshot.id
+      );
+   },
+
+   deleteSnapshot: async (key, id) => {
+      writeSnapshots(
+         key,
+         readSnapshots(key).filter((snapshot) => snapshot.id !== id)
+      );
+   },
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { saveWithRetry, type StorageAdapter } from './storage-adapter';
+
+const doc = { json: { type: 'doc', content: [] }, html: '' };
+
+const createAdapter = (save: StorageAdapter['save']): StorageAdapter => ({
+   load: async () => null,
+   save,
+   clear: async () => {},
+});
+
+describe('saveWithRetry', () => {
+   it('retries a failed save', async () => {
+      const save = vi
+         .fn<StorageAdapter['save']>()
+         .mockRejectedValueOnce(new Error('Unavailable'))
+         .mockResolvedValueOnce({ ...doc, revision: 1 });
+
+      await expect(
+         saveWithRetry(createAdapter(save), 'post', doc, { retryDelay: 0 })
+      ).resolves.toMatchObject({ revision: 1 });
+      expect(save).toHaveBeenCalledTimes(2);
+   });
+
+   it('stops retrying once a newer save started', async () => {
+      const save = vi.fn<StorageAdapter['save']>().mockRejectedValue(new Error('Unavailable'));
+      let current = true;
+
+      const saving = saveWithRetry(createAdapter(save), 'post', doc, {
+         retryDelay: 0,
+         onRetry: () => {
+            current = false;
+         },
+         isCurrent: () => current,
+      });
+
+      await expect(saving).rejects.toThrow('Unavailable');
+      expect(save).toHaveBeenCalledTimes(1);
+   });
+});
@@ -0,0 +1,170 @@
+/**
+ * @module StorageAdapter
+ *
+ * This module defines the persistence contract used by the Tiptap editor component.
+ * An adapter knows how to load, save and clear a single document identified by a key,
+ * so the editor can persist to localStorage, IndexedDB, a backend or anything else.
+ *
+ * @remarks
+ * - Every method is async so network and database backends fit the same interface.
+ * - `load` resolves to `null` when nothing has been stored under the key yet.
+ * - `save` may resolve to the stored document (e.g. with server metadata) or nothing.
+ * - `saveWithRetry` retries failed saves with exponential backoff and reports each attempt.
+ * - Adapters throw `StorageConflictError` when the stored document changed underneath the editor;
+ *   conflicts are never retried.
+ * - Adapters may also store named snapshots of a document for version history. The snapshot
+ *   methods are optional; the editor keeps snapshots in memory for adapters without them.
+ *
+ * @example
+ * ```ts
+ * const adapter: StorageAdapter = createLocalStorageAdapter();
+ * await adapter.save('my-doc', { json: editor.getJSON(), html: editor.getHTML() });
+ * const stored = await adapter.load('my-doc');
+ * ```
+ */
+import type { JSONContent } from '@tiptap/react';
+
+/**
+ * A document as persisted by a storage adapter.
+ *
+ * @property json - Editor content as Tiptap JSON.
+ * @property html - Rendered HTML of the content (optional).
+ * @property revision - Revision number for adapters with optimistic concurrency (optional).
+ * @property updatedAt - ISO timestamp of the last save (optional).
+ */
+export interface StoredDocument {
+   json: JSONContent;
+   html?: string;
+   revision?: number;
+   updatedAt?: string;
+}
+
+/**
+ * Thrown by adapters when a save is based on an outdated revision of the document.
+ *
+ * @property current - The document as currently stored, when the backend returns it.
+ */
+export class StorageConflictError extends Error {
+   current?: StoredDocument;
+
+   constructor(message = 'The document was changed by someone else', current?: StoredDocument) {
+      super(message);
+      this.name = 'StorageConflictError';
+      this.current = current;
+   }
+}
+
+/**
+ * A saved version of a document.
+ *
+ * @property id - Unique snapshot id.
+ * @property name - User-given name (optional, automatic snapshots have none).
+ * @property auto - Whether the snapshot was taken automatically.
+ * @property createdAt - ISO timestamp of the snapshot.
+ * @property wordCount - Number of words in the snapshot.
+ * @property json - Snapshot content as Tiptap JSON.
+ */
+export interface Snapshot {
+   id: string;
+   name?: string;
+   auto?: boolean;
+   createdAt: string;
+   wordCount: number;
+   json: JSONContent;
+}
+
+/**
+ * Snapshot metadata without its content, as returned by `listSnapshots`.
+ */
+export type SnapshotSummary = Omit<Snapshot, 'json'>;
+
+/**
+ * Persistence adapter used by the editor.
+ *
+ * @property load - Loads the document stored under `key`, or `null` if there is none.
+ * @property save - Stores the document under `key`.
+ * @property clear - Removes the document stored under `key`.
+ * @property listSnapshots - Lists the snapshots of a document, newest first (optional).
+ * @property loadSnapshot - Loads a snapshot with its content (optional).
+ * @property saveSnapshot - Stores a snapshot (optional).
+ * @property deleteSnapshot - Removes a snapshot (optional).
+ */
+export interface StorageAdapter {
+   load: (key: string) => Promise<StoredDocument | null>;
+   save: (key: string, document: StoredDocument) => Promise<StoredDocument | void>;
+   clear: (key: string) => Promise<void>;
+   listSnapshots?: (key: string) => Promise<SnapshotSummary[]>;
+   loadSnapshot?: (key: string, id: string) => Promise<Snapshot | null>;
+   saveSnapshot?: (key: string, snapshot: Snapshot) => Promise<void>;
+   deleteSnapshot?: (key: string, id: string) => Promise<void>;
+}
+
+/**
+ * Strips the content from a snapshot.
+ *
+ * @param snapshot - The snapshot.
+ * @returns The snapshot metadata.
+ */
+export const toSnapshotSummary = ({
+   id,
+   name,
+   auto,
+   createdAt,
+   wordCount,
+}: Snapshot): SnapshotSummary => ({ id, name, auto, createdAt, wordCount });
+
+/**
+ * Sorts snapshots newest first.
+ */
+export const byNewestSnapshot = (a: SnapshotSummary, b: SnapshotSummary) =>
+   b.createdAt.localeCompare(a.createdAt);
+
+/**
+ * Options for `saveWithRetry`.
+ *
+ * @property retries - Number of retries after the first failed attempt.
+ * @property retryDelay - Base delay in milliseconds, doubled for every retry.
+ * @property onRetry - Called before each retry with the attempt number and the last error.
+ * @property isCurrent - Whether the document is still the latest to save; once a newer save
+ *   started, retries stop so they never overwrite it.
+ */
+export interface SaveRetryOptions {
+   retries?: number;
+   retryDelay?: number;
+   onRetry?: (attempt: number, error: unknown) => void;
+   isCurrent?: () => boolean;
+}
+
+/**
+ * Saves a document through an adapter, retrying failed attempts with exponential backoff.
+ *
+ * @param adapter - The storage adapter.
+ * @param key - The document key.
+ * @param document - The document to save.
+ * @param options - Retry options.
+ * @returns The adapter's save result.
+ * @throws The last error when every attempt failed or the document is no longer current, or a
+ * `StorageConflictError` immediately.
+ */
+export const saveWithRetry = async (
+   adapter: StorageAdapter,
+   key: string,
+   document: StoredDocument,
+   { retries = 3, retryDelay = 1000, onRetry, isCurrent = () => true }: SaveRetryOptions = {}
+): Promise<StoredDocument | void> => {
+   let attempt = 0;
+
+   while (true) {
+      try {
+         return await adapter.save(key, document);
+      } catch (error) {
+         if (error instanceof StorageConflictError || attempt >= retries || !isCurrent()) {
+            throw error;
+         }
+         attempt += 1;
+         onRetry?.(attempt, error);
+         await new Promise((resolve) => setTimeout(resolve, retryDelay * 2 ** (attempt - 1)));
+         if (!isCurrent()) throw error;
+      }
+   }
+};
@@ -0,0 +1,3 @@
+export { createTabChannel, type TabChannel, type TabSyncMessage } from './tab-channel';
+export { useTabSync, type TabSyncOptions } from './useTabSync';
+export { TabSyncBanner } from './tab-sync-banner';
@@ -0,0 +1,105 @@
+/**
+ * @module TabChannel
+ *
+ * This module provides a small message channel between browser tabs of the same origin.
+ * It uses `BroadcastChannel` and falls back to `storage` events where it is not available.
+ *
+ * @remarks
+ * - Messages only announce that a document was saved or cleared; receivers load the document
+ *   from their storage adapter, so the adapter stays the single source of truth.
+ * - Every channel has a random tab id, and messages sent by the same tab are ignored.
+ *
+ * @example
+ * ```ts
+ * const channel = createTabChannel();
+ * const unsubscribe = channel.subscribe((message) => console.log(message.type, message.documentKey));
+ * channel.post({ type: 'saved', documentKey: 'post-42' });
+ * ```
+ */
+
+/**
+ * A change announced to the other tabs.
+ */
+export interface TabSyncMessage {
+   type: 'saved' | 'cleared';
+   documentKey: string;
+}
+
+interface Envelope extends TabSyncMessage {
+   tabId: string;
+   sentAt: number;
+}
+
+export interface TabChannel {
+   tabId: string;
+   post: (message: TabSyncMessage) => void;
+   subscribe: (listener: (message: TabSyncMessage) => void) => () => void;
+   close: () => void;
+}
+
+/**
+ * Creates a channel between tabs.
+ *
+ * @param name - Channel name, shared by all tabs that should talk to each other.
+ * @returns The channel.
+ */
+export const createTabChannel = (name = 'tiptap-editor-tab-sync'): TabChannel => {
+   const tabId =
+      typeof crypto !== 'undefined' && 'randomUUID' in crypto
+         ? crypto.randomUUID()
+         : Math.random().toString(36).slice(2);
+   const listeners = new Set<(message: TabSyncMessage) => void>();
+
+   const receive = (envelope: Envelope | null) => {
+      if (!envelope || envelope.tabId === tabId) return;
+      const { type, documentKey } = envelope;
+      listeners.forEach((listener) => listener({ type, documentKey }));
+   };
+
+   if (typeof BroadcastChannel !== 'undefined') {
+      const channel = new BroadcastChannel(name);
+      channel.onmessage = (event: MessageEvent<Envelope>) => receive(event.data);
+      return {
+         tabId,
+         post: (message) => channel.postMessage({ ...message, tabId, sentAt: Date.now() }),
+         subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+         },
+         close: () => {
+            listeners.clear();
+            channel.close();
+         },
+      };
+   }
+
+   // `storage` events only fire in the other tabs, and only when the value changes,
+   // so every message carries a timestamp and is removed right after being written
+   const onStorage = (event: StorageEvent) => {
+      if (event.key !== name || !event.newValue) return;
+      try {
+         receive(JSON.parse(event.newValue));
+      } catch {
+         // Ignore values not written by this channel
+      }
+   };
+   window.addEventListener('storage', onStorage);
+   return {
+      tabId,
+      post: (message) => {
+         window.localStorage.setItem(
+            name,
+            JSON.stringify({ ...message, tabId, sentAt: Date.now() })
+         );
+         window.localStorage.removeItem(name);
+      },
+      subscribe: (listener) => {
+         listeners.add(listener);
+         return () => listeners.delete(listener);
+      },
+      close: () => {
+         listeners.clear();
+         window.removeEventListener('storage', onStorage);
+      },
+   };
+};
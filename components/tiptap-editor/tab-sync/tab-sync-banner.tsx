@@ -0,0 +1,45 @@
+'use client';
+
+/**
+ * @module TabSyncBanner
+ *
+ * This module provides the banner shown when the document was saved or cleared in another tab
+ * while this tab still has unsaved changes.
+ *
+ * @example
+ * ```tsx
+ * <TabSyncBanner type="saved" onReload={reload} onKeepMine={keepMine} />
+ * ```
+ *
+ * @property type - What happened in the other tab.
+ * @property onReload - Replace the local changes with the other tab's version.
+ * @property onKeepMine - Keep the local changes and save them over the other tab's version.
+ */
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { i18n } from '../i18n';
+import type { TabSyncMessage } from './tab-channel';
+
+interface TabSyncBannerProps {
+   type: TabSyncMessage['type'];
+   onReload: () => void;
+   onKeepMine: () => void;
+}
+
+export const TabSyncBanner = ({ type, onReload, onKeepMine }: TabSyncBannerProps) => (
+   <div
+      role="alert"
+      className="mb-2 flex flex-wrap items-center gap-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-100"
+   >
+      <AlertTriangle className="h-4 w-4 shrink-0" />
+      <span className="flex-1">
+         {i18n.t(type === 'cleared' ? 'CLEARED_IN_OTHER_TAB' : 'CHANGED_IN_OTHER_TAB')}
+      </span>
+      <Button size="sm" variant="outline" className="h-7" onClick={onKeepMine}>
+         {i18n.t('KEEP_MINE')}
+      </Button>
+      <Button size="sm" className="h-7" onClick={onReload}>
+         {i18n.t('RELOAD')}
+      </Button>
+   </div>
+);
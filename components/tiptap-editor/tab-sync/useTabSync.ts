@@ -0,0 +1,69 @@
+/**
+ * @module useTabSync
+ *
+ * This module provides a React hook announcing saves and clears of a document to other tabs
+ * and calling back when another tab saved or cleared the same document.
+ *
+ * @example
+ * ```ts
+ * const { notify } = useTabSync({
+ *    enabled: true,
+ *    documentKey: 'post-42',
+ *    onMessage: (message) => reloadFromStorage(message.type),
+ * });
+ * notify('saved');
+ * ```
+ */
+import { useCallback, useEffect, useRef } from 'react';
+import { createTabChannel, type TabChannel, type TabSyncMessage } from './tab-channel';
+
+export interface TabSyncOptions {
+   /**
+    * Whether to listen and announce changes.
+    */
+   enabled: boolean;
+   /**
+    * Key of the document; messages for other documents are ignored.
+    */
+   documentKey: string;
+   /**
+    * Called when another tab saved or cleared the document.
+    */
+   onMessage: (message: TabSyncMessage) => void;
+}
+
+/**
+ * Synchronises a document between tabs.
+ *
+ * @param options - Document key and message callback.
+ * @returns `notify`, announcing a save or clear to the other tabs.
+ */
+export const useTabSync = ({ enabled, documentKey, onMessage }: TabSyncOptions) => {
+   const channelRef = useRef<TabChannel | null>(null);
+   // Keep the latest callback without resubscribing on every render
+   const onMessageRef = useRef(onMessage);
+   useEffect(() => {
+      onMessageRef.current = onMessage;
+   });
+
+   useEffect(() => {
+      if (!enabled) return;
+      const channel = createTabChannel();
+      channelRef.current = channel;
+      const unsubscribe = channel.subscribe((message) => {
+         if (message.documentKey === documentKey) onMessageRef.current(message);
+      });
+      return () => {
+         unsubscribe();
+         channel.close();
+         channelRef.current = null;
+      };
+   }, [enabled, documentKey]);
+
+   const notify = useCallback(
+      (type: TabSyncMessage['type']) => channelRef.current?.post({ type, documentKey }),
+      [documentKey]
+   );
+
+   return { notify };
+};
@@ -0,0 +1,37 @@
+// @vitest-environment jsdom
+import { Editor } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { afterEach, describe, expect, it } from 'vitest';
+import { replaceContentPreservingSelection } from './tiptap-utils';
+
+const paragraph = (text: string) => ({
+   type: 'doc',
+   content: [{ type: 'paragraph', content: [{ type: 'text', text }] }],
+});
+
+describe('replaceContentPreservingSelection', () => {
+   let editor: Editor;
+
+   afterEach(() => {
+      editor?.destroy();
+   });
+
+   it('undoes the replacement back to the previous content', () => {
+      editor = new Editor({ extensions: [StarterKit], content: paragraph('Draft') });
+      editor.commands.insertContentAt(6, ' edited');
+      replaceContentPreservingSelection(editor, paragraph('From outside'));
+
+      editor.commands.undo();
+      expect(editor.getJSON()).toEqual(paragraph('Draft edited'));
+      editor.commands.undo();
+      expect(editor.getJSON()).toEqual(paragraph('Draft'));
+   });
+
+   it('keeps the first loaded content out of the undo history', () => {
+      editor = new Editor({ extensions: [StarterKit], content: paragraph('') });
+      replaceContentPreservingSelection(editor, paragraph('Loaded'), { addToHistory: false });
+
+      expect(editor.can().undo()).toBe(false);
+      expect(editor.getJSON()).toEqual(paragraph('Loaded'));
+   });
+});
@@ -1,7 +1,9 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import type { Attrs, Node } from '@tiptap/pm/model';
-import type { Editor } from '@tiptap/react';
+import type { Transaction } from '@tiptap/pm/state';
+import { closeHistory } from '@tiptap/pm/history';
+import type { Content, Editor, JSONContent } from '@tiptap/react';
 
 export function cn(...inputs: ClassValue[]) {
    return twMerge(clsx(inputs));
@@ -47,6 +49,83 @@ export function getActiveMarkAttrs(editor: Editor | null, markName: string): Att
    return mark?.attrs ?? null;
 }
 
+/**
+ * Sets the attributes of the document node, like the page setup, to those of JSON content.
+ * `setContent` only replaces the content of the document, so it is used along with it.
+ * Attributes missing from the content, and all of them for HTML content, get their defaults.
+ * @param tr - The transaction setting the content
+ * @param content - The new content
+ */
+export const setDocAttributes = (tr: Transaction, content: Content) => {
+   const json = content && typeof content === 'object' && !Array.isArray(content) ? content : null;
+   const attrs = (json as JSONContent | null)?.attrs ?? {};
+   Object.entries(tr.doc.type.spec.attrs ?? {}).forEach(([name, spec]) => {
+      const value = name in attrs ? attrs[name] : (spec.default ?? null);
+      if (JSON.stringify(tr.doc.attrs[name]) !== JSON.stringify(value)) {
+         tr.setDocAttribute(name, value);
+      }
+   });
+};
+
+/**
+ * Replaces the editor content without emitting an update, keeping the selection where it was
+ * (clamped to the new document). The replacement is a step of the undo history, so undo brings
+ * back the previous content instead of applying older steps to the new one.
+ * @param editor - The editor instance
+ * @param content - The new content
+ * @param options - `addToHistory: false` keeps the replacement out of the undo history, for the
+ * first loaded content only, when there is nothing to undo yet
+ */
+export const replaceContentPreservingSelection = (
+   editor: Editor,
+   content: Content,
+   { addToHistory = true }: { addToHistory?: boolean } = {}
+) => {
+   const { from, to } = editor.state.selection;
+   editor
+      .chain()
+      .command(({ tr }) => {
+         // An undo step of its own, not merged with the typing before it
+         if (addToHistory) closeHistory(tr);
+         else tr.setMeta('addToHistory', false);
+         return true;
+      })
+      .setContent(content, { emitUpdate: false })
+      .command(({ tr }) => {
+         setDocAttributes(tr, content);
+         return true;
+      })
+      .setTextSelection({ from, to })
+      .run();
+};
+
+/**
+ * Lowercases and strips diacritics for search, so `kalin` finds `Kalın` and `subindice` finds
+ * `Subíndice`.
+ */
+export const normalizeSearchText = (text: string) =>
+   text.normalize('NFD').replace(/\p{M}/gu, '').replace(/ı/g, 'i').toLowerCase();
+
+/**
+ * Checks if the user is on an Apple platform, where `Mod` is the Command key.
+ */
+export const isMac = () =>
+   typeof navigator !== 'undefined' && /Mac|iPhone|iPad|iPod/.test(navigator.platform);
+
+const MAC_KEYS: Record<string, string> = { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧' };
+
+/**
+ * Formats a shortcut like `Mod+Shift+B` for display: `⌘⇧B` on Apple platforms, `Ctrl+Shift+B` elsewhere.
+ * @param shortcut - Keys joined with `+`, `Mod` being Command on Apple platforms and Ctrl elsewhere
+ */
+export const formatShortcut = (shortcut: string) => {
+   const keys = shortcut.split(/\+(?!$)/);
+   if (isMac()) return keys.map((key) => MAC_KEYS[key] ?? key.toUpperCase()).join('');
+   return keys
+      .map((key) => (key === 'Mod' ? 'Ctrl' : key.length === 1 ? key.toUpperCase() : key))
+      .join('+');
+};
+
 /**
  * Checks if a node is empty
  */
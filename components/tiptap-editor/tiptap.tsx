@@ -9,50 +9,180 @@
  * @remarks
  * - Uses Tiptap extensions for formatting, tables, images, and more.
  * - Supports multi-language UI via the i18n system and LanguageSelector.
- * - Automatically saves and loads editor content from localStorage.
- * - Displays word count, save status, and allows clearing localStorage.
+ * - Works as a controlled (`value`) or uncontrolled (`defaultValue`) component; external updates keep the selection.
+ * - Automatically saves and loads editor content through a pluggable storage adapter (localStorage by default).
+ * - Displays word count, save status (including errors and retries), and allows clearing the stored document.
+ * - Keeps a version history with named and automatic snapshots that can be previewed and restored.
+ * - Optional outline sidebar listing the headings, where sections are reordered by dragging.
+ * - `@` mentions of users from a pluggable `mentionSource`, reported through `onMention`.
+ * - Optional comment threads anchored to text, with replies and resolving, in a sidebar.
+ * - Optional suggesting mode recording edits as tracked changes, accepted or rejected in a sidebar.
+ * - Optional print layout showing the content on pages, with the paper size, margins, header and
+ *   footer of the document's page setup.
+ * - Keeps tabs editing the same document in sync and asks before discarding unsaved changes.
+ * - Optional real-time collaboration through a Yjs websocket server, with remote carets and a user list.
+ * - Exposes an imperative handle through `ref` for focusing, editing, exporting and subscribing to editor events.
  * - Bubble menus and table menus are shown conditionally via props.
  * - SSR-safe: waits for client-side mount before initializing the editor.
  *
  * @example
  * ```tsx
  * <Tiptap
- *   initialValue={myContent}
- *   onChange={(json) => console.log(json)}
+ *   value={myContent}
+ *   onChange={setMyContent}
  *   editable={true}
  *   showBubbleMenu={true}
  *   showTableMenu={true}
+ *   storage={createIndexedDBAdapter()}
+ *   documentKey="post-42"
  * />
  * ```
  *
- * @property initialValue - Initial editor content as JSON.
+ * @property value - Controlled editor content as JSON.
+ * @property defaultValue - Content of a new document, used when nothing is stored yet.
+ * @property initialValue - Deprecated alias of `defaultValue`.
  * @property onChange - Callback fired when editor content changes.
  * @property editable - Whether the editor is editable.
  * @property className - Custom CSS class for the editor container.
  * @property showBubbleMenu - Whether to show the bubble menu.
  * @property showTableMenu - Whether to show the table menu.
  * @property showFooMenu - Whether to show the foo menu.
+ * @property toolbar - Items and layout of the menus and the fixed toolbar.
+ * @property toolbarMode - Whether to show the bubble menu, a fixed toolbar or both.
+ * @property showCommandPalette - Whether Ctrl/Cmd+K opens the command palette.
+ * @property showFindReplace - Whether Ctrl/Cmd+F and Ctrl/Cmd+H open the find and replace panel.
+ * @property keymap - Shortcuts replacing the defaults by command id.
+ * @property slashCommands - Groups of the slash command menu, or a function changing the built-in ones.
+ * @property mentionSource - Returns the users suggested after `@`; the `@` menu is off without it.
+ * @property onMention - Callback fired when a user is mentioned from the `@` menu.
+ * @property userId - Id of the current user, used to store their shortcuts.
+ * @property storage - Storage adapter used to persist the document.
+ * @property documentKey - Key identifying the document in the storage adapter.
+ * @property showHistory - Whether to show the version history button and panel.
+ * @property showOutline - Whether to show the outline button and sidebar.
+ * @property showComments - Whether to enable comment threads and show the comments sidebar.
+ * @property commentStore - Store keeping the comment threads.
+ * @property commentAuthor - Author of new comments and suggestions.
+ * @property showTrackChanges - Whether to show the suggesting toggle and the tracked changes sidebar.
+ * @property showPrintLayout - Whether to show the print layout toggle and the page setup.
+ * @property snapshotInterval - Interval between automatic snapshots in milliseconds.
+ * @property collaboration - Yjs websocket server, room and user for real-time collaboration.
+ * @property syncTabs - Whether to follow saves and clears of the document in other tabs.
+ * @property ref - Imperative handle to focus, edit, read, clear and save the document (see `TiptapHandle`).
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { EditorContent, useEditor, JSONContent, Editor } from '@tiptap/react';
-import { SlashCommand, slashCommandSuggestion } from './extensions/slash-command';
+import { SlashCommand, type SlashCommandOptions } from './extensions/slash-command';
 import { defaultExtensions } from './extensions';
-import { cn } from './tiptap-utils';
+import { cn, replaceContentPreservingSelection } from './tiptap-utils';
 import { BubbleMenuSelector, FooMenuSelector, TableBubbleMenu } from './menu';
+import { FixedToolbar, type ToolbarConfig } from './toolbar';
+import {
+   CommandPalette,
+   getPaletteCommands,
+   useCommandPalette,
+   type PaletteCommand,
+} from './command-palette';
+import {
+   Keymap,
+   ShortcutsDialog,
+   getExtensionBindings,
+   matchKeymap,
+   useKeymap,
+   type KeymapBindings,
+   type KeymapOverrides,
+} from './keymap';
 import { useDebouncedCallback } from 'use-debounce';
 import hljs from 'highlight.js';
 import DragHandle from '@tiptap/extension-drag-handle-react';
-import { GripVertical, Loader } from 'lucide-react';
+import {
+   CheckCheck,
+   Command as CommandIcon,
+   FileDiff,
+   FileText,
+   GripVertical,
+   History,
+   Keyboard,
+   ListTree,
+   Loader,
+   MessageSquare,
+   MessageSquarePlus,
+   PenLine,
+   Replace,
+   Save,
+   Search,
+   Trash2,
+   X,
+} from 'lucide-react';
 import { i18n, LanguageSelector } from './i18n';
+import {
+   createLocalStorageAdapter,
+   saveWithRetry,
+   StorageConflictError,
+   type StorageAdapter,
+} from './storage';
+import { HistoryPanel, useVersionHistory } from './history';
+import {
+   CollaboratorList,
+   getCollaborationExtensions,
+   useCollaboration,
+   withoutUndoRedo,
+   type CollaborationOptions,
+} from './collaboration';
+import { TabSyncBanner, useTabSync, type TabSyncMessage } from './tab-sync';
+import { FindReplace, FindReplacePanel, useFindReplace } from './find-replace';
+import { OutlineSidebar } from './outline';
+import {
+   CommentsSidebar,
+   createHttpCommentStore,
+   getCommentsState,
+   useComments,
+   type CommentAuthor,
+   type CommentStore,
+} from './comments';
+import { TrackChanges, TrackChangesSidebar, getTrackChangesState } from './track-changes';
+import { PageLayout, PageSetupPopover, getPageLayoutState } from './page-layout';
+import { MentionSuggestion, type MentionSource, type MentionUser } from './mention';
+import { useEditorHandle, type TiptapHandle } from './useEditorHandle';
+
+/**
+ * Number of times a failed save is retried before the save status shows an error.
+ */
+const SAVE_RETRIES = 3;
+
+/**
+ * Save status shown in the status pill. Values are i18n keys.
+ */
+type SaveStatus =
+   | 'SAVED'
+   | 'UNSAVED'
+   | 'SAVING'
+   | 'SAVE_RETRYING'
+   | 'SAVE_FAILED'
+   | 'SAVE_CONFLICT'
+   | 'CLEARED';
 
 export interface Props {
+   /**
+    * Controlled editor content as JSON.
+    * Whenever it differs from the editor content, the editor is updated in place, keeping the
+    * selection. `null` leaves the content to the stored document or `defaultValue`, which is then
+    * reported through `onChange`. Takes precedence over the stored document and `defaultValue`.
+    */
+   value?: JSONContent | null;
+   /**
+    * Content of a new document as JSON, used when nothing is stored under `documentKey` yet.
+    * Later changes of the prop are ignored.
+    */
+   defaultValue?: JSONContent | null;
    /**
     * Initial editor content as JSON.
+    * @deprecated Use `defaultValue`, or `value` for a controlled editor.
     */
    initialValue?: JSONContent | null;
    /**
-    * Callback fired when editor content changes.
+    * Callback fired when editor content changes, including content loaded from storage.
     */
    onChange?: (value: JSONContent) => void;
    /**
@@ -95,12 +225,126 @@ export interface Props {
     * Whether to show the export data option.
     */
    showExportData?: boolean;
+   /**
+    * Items and layout of the bubble menu, the floating menu and the fixed toolbar.
+    * Defaults to `defaultBubbleMenuToolbar`, `defaultFloatingMenuToolbar` and `defaultFixedToolbar`.
+    */
+   toolbar?: ToolbarConfig;
+   /**
+    * Where the formatting toolbar is shown: in the bubble menu on selection, in a fixed bar
+    * above the content, or both.
+    * @default 'bubble'
+    */
+   toolbarMode?: 'bubble' | 'fixed' | 'both';
+   /**
+    * Whether Ctrl/Cmd+K opens the command palette.
+    * @default true
+    */
+   showCommandPalette?: boolean;
+   /**
+    * Whether Ctrl/Cmd+F and Ctrl/Cmd+H open the find and replace panel.
+    * @default true
+    */
+   showFindReplace?: boolean;
+   /**
+    * Shortcuts replacing the defaults by command id, e.g. `{ bold: 'Mod+Shift+B', italic: null }`.
+    * Users can override them again in the shortcuts dialog.
+    */
+   keymap?: KeymapOverrides;
+   /**
+    * Id of the current user; their shortcut overrides are stored under it.
+    * @default 'default'
+    */
+   userId?: string;
+   /**
+    * Groups of the slash command menu, or a function adding, removing and reordering items of
+    * the built-in groups, e.g. `(defaults) => addSlashCommandItems(defaults, 'blocks', [item])`.
+    */
+   slashCommands?: SlashCommandOptions['groups'];
+   /**
+    * Returns the users suggested when typing `@`, searched again as the query changes. Without
+    * it the `@` menu is off; `createMentionSource(url)` searches an endpoint such as `/api/users`.
+    */
+   mentionSource?: MentionSource;
+   /**
+    * Callback fired when a user is mentioned from the `@` menu, e.g. to notify them.
+    */
+   onMention?: (user: MentionUser, editor: Editor) => void;
+   /**
+    * Storage adapter used to persist the document.
+    * Defaults to a localStorage adapter; pass `null` to disable persistence.
+    */
+   storage?: StorageAdapter | null;
+   /**
+    * Key identifying the document in the storage adapter.
+    * Use a different key for every editor instance on a page.
+    * @default 'inan'
+    */
+   documentKey?: string;
+   /**
+    * Whether to show the version history button and panel, and take automatic snapshots.
+    * @default false
+    */
+   showHistory?: boolean;
+   /**
+    * Whether to show the outline button and the sidebar listing the headings, where whole
+    * sections can be reordered by dragging their headings.
+    * @default false
+    */
+   showOutline?: boolean;
+   /**
+    * Whether to enable comment threads: the comment button of the bubble menu and the
+    * comments sidebar, which opens when a comment is started or commented text is clicked.
+    * @default false
+    */
+   showComments?: boolean;
+   /**
+    * Store keeping the comment threads of the document.
+    * Defaults to the `/api/comments` routes.
+    */
+   commentStore?: CommentStore;
+   /**
+    * Author of new comments and suggested changes. Defaults to the collaboration user, or `userId`.
+    */
+   commentAuthor?: CommentAuthor;
+   /**
+    * Whether to show the toggle between editing and suggesting next to the save status, and the
+    * sidebar where suggested changes are accepted or rejected.
+    * @default false
+    */
+   showTrackChanges?: boolean;
+   /**
+    * Whether to show the toggle between the continuous view and the print layout, where the
+    * content is shown on pages, and the page setup of the document.
+    * @default false
+    */
+   showPrintLayout?: boolean;
+   /**
+    * Interval between automatic snapshots in milliseconds, `0` disables them.
+    * @default 300000
+    */
+   snapshotInterval?: number;
+   /**
+    * Enables real-time collaboration with a Yjs websocket server.
+    * The content then comes from the shared document; stored content only seeds an empty room.
+    */
+   collaboration?: CollaborationOptions;
+   /**
+    * Whether to follow saves and clears of the same document in other tabs.
+    * Remote changes are loaded right away when there are no unsaved local changes;
+    * otherwise a banner lets the user reload or keep their version.
+    * Ignored while collaborating, since the shared document already syncs tabs.
+    * @default true
+    */
+   syncTabs?: boolean;
 }
 
 /**
  * Tiptap editor React component.
  *
- * @param initialValue - Initial editor content as JSON.
+ * @param value - Controlled editor content as JSON.
+ * @param defaultValue - Content of a new document as JSON.
+ * @param initialValue - Deprecated alias of `defaultValue`.
  * @param onChange - Callback fired when editor content changes.
  * @param editable - Whether the editor is editable.
  * @param className - Custom CSS class for the editor container.
@@ -112,32 +356,124 @@ export interface Props {
  * @param showImageGallery - Whether to show the image gallery.
  * @param importData - Whether to show the import data option.
  * @param exportData - Whether to show the export data option.
+ * @param toolbar - Items and layout of the menus and the fixed toolbar.
+ * @param toolbarMode - Whether to show the bubble menu, a fixed toolbar or both.
+ * @param showCommandPalette - Whether Ctrl/Cmd+K opens the command palette.
+ * @param showFindReplace - Whether Ctrl/Cmd+F and Ctrl/Cmd+H open the find and replace panel.
+ * @param keymap - Shortcuts replacing the defaults by command id.
+ * @param slashCommands - Groups of the slash command menu, or a function changing the built-in ones.
+ * @param mentionSource - Returns the users suggested after `@`; the `@` menu is off without it.
+ * @param onMention - Callback fired when a user is mentioned from the `@` menu.
+ * @param userId - Id of the current user, used to store their shortcuts.
+ * @param storage - Storage adapter used to persist the document.
+ * @param documentKey - Key identifying the document in the storage adapter.
+ * @param showHistory - Whether to show the version history button and panel.
+ * @param showOutline - Whether to show the outline button and sidebar.
+ * @param showComments - Whether to enable comment threads and show the comments sidebar.
+ * @param commentStore - Store keeping the comment threads.
+ * @param commentAuthor - Author of new comments and suggestions.
+ * @param showTrackChanges - Whether to show the suggesting toggle and the tracked changes sidebar.
+ * @param showPrintLayout - Whether to show the print layout toggle and the page setup.
+ * @param snapshotInterval - Interval between automatic snapshots in milliseconds.
+ * @param collaboration - Yjs websocket server, room and user for real-time collaboration.
+ * @param syncTabs - Whether to follow saves and clears of the document in other tabs.
+ * @param ref - Imperative handle to the editor.
  */
 
-const Tiptap: React.FC<Props> = ({
-   initialValue,
-   onChange,
-   editable = true,
-   className,
-   showBubbleMenu = true,
-   showTableMenu = true,
-   showFooMenu = false,
-   showImageUrl = false,
-   showImageUpload = false,
-   showImageGallery = true,
-   showImportData = true,
-   showExportData = true,
-}) => {
+const TiptapEditor = (
+   {
+      value,
+      defaultValue,
+      initialValue,
+      onChange,
+      editable = true,
+      className,
+      showBubbleMenu = true,
+      showTableMenu = true,
+      showFooMenu = false,
+      showImageUrl = false,
+      showImageUpload = false,
+      showImageGallery = true,
+      showImportData = true,
+      showExportData = true,
+      toolbar,
+      toolbarMode = 'bubble',
+      showCommandPalette = true,
+      showFindReplace = true,
+      keymap: keymapOverrides,
+      userId = 'default',
+      slashCommands,
+      mentionSource,
+      onMention,
+      storage,
+      documentKey = 'inan',
+      showHistory = false,
+      showOutline = false,
+      showComments = false,
+      commentStore,
+      commentAuthor,
+      showTrackChanges = false,
+      showPrintLayout = false,
+      snapshotInterval = 5 * 60 * 1000,
+      collaboration,
+      syncTabs = true,
+   }: Props,
+   ref: React.ForwardedRef<TiptapHandle>
+) => {
    const [initialContent, setInitialContent] = useState<null | JSONContent>(null);
-   const [saveStatus, setSaveStatus] = useState('Saved');
+   const [saveStatus, setSaveStatus] = useState<SaveStatus>('SAVED');
+   const [saveError, setSaveError] = useState<string | null>(null);
+   const [retryAttempt, setRetryAttempt] = useState(0);
    const [charsCount, setCharsCount] = useState<number | undefined>();
    const [isMounted, setIsMounted] = useState(false);
+   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+   const [isOutlineOpen, setIsOutlineOpen] = useState(true);
+   const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+   const [isChangesOpen, setIsChangesOpen] = useState(false);
+   const [remoteChange, setRemoteChange] = useState<TabSyncMessage['type'] | null>(null);
 
    // Ensure client-side mounting before initializing the editor
    useEffect(() => {
       setIsMounted(true);
    }, []);
 
+   // `undefined` falls back to localStorage, `null` disables persistence
+   const adapter = useMemo(
+      () => (storage === undefined ? createLocalStorageAdapter() : storage),
+      [storage]
+   );
+
+   const collab = useCollaboration(collaboration, documentKey);
+
+   // Identifies the latest save so stale results don't overwrite the status
+   const saveIdRef = useRef(0);
+   // Whether the editor has changes that are not stored yet
+   const isDirtyRef = useRef(false);
+   // Saves wait while the user decides about a change made in another tab
+   const remoteChangeRef = useRef<TabSyncMessage['type'] | null>(null);
+   // The content last reported through `onChange`, to recognise it when it comes back as `value`
+   const emittedValueRef = useRef<JSONContent | null>(null);
+   // Commands and shortcuts read by the keymap extension on keydown
+   const keymapRef = useRef<{ commands: PaletteCommand[]; bindings: KeymapBindings } | null>(null);
+   // Slash command groups read by the slash command extension on every query
+   const slashCommandsRef = useRef(slashCommands);
+   slashCommandsRef.current = slashCommands;
+   // Mention props read by the mention extension on every query and mention
+   const mentionRef = useRef({ source: mentionSource, onMention });
+   mentionRef.current = { source: mentionSource, onMention };
+   // The `@` menu is only registered with a source; the editor is recreated when one comes or goes
+   const hasMentionSource = Boolean(mentionSource);
+   // Author of suggested changes, read by the track changes extension on every edit
+   const authorRef = useRef<CommentAuthor>({ id: userId, name: userId });
+   // Props only read when the document is loaded
+   const valueRef = useRef(value);
+   const fallbackValue = defaultValue !== undefined ? defaultValue : initialValue;
+   const fallbackValueRef = useRef(fallbackValue);
+   useEffect(() => {
+      valueRef.current = value;
+      fallbackValueRef.current = fallbackValue;
+   });
+
    /**
     * Highlights code blocks in the editor HTML using highlight.js.
     *
@@ -152,6 +488,17 @@ const Tiptap: React.FC<Props> = ({
       return new XMLSerializer().serializeToString(doc);
    };
 
+   /**
+    * Reports the editor content through `onChange`.
+    *
+    * @param editor - The Tiptap editor instance.
+    */
+   const emitChange = (editor: Editor) => {
+      const json = editor.getJSON();
+      emittedValueRef.current = json;
+      onChange?.(json);
+   };
+
    /**
     * Debounced callback for saving editor content and updating word count.
     *
@@ -160,58 +507,196 @@ const Tiptap: React.FC<Props> = ({
    const debouncedUpdates = useDebouncedCallback(async (editor: Editor) => {
       const json = editor.getJSON();
       setCharsCount(editor.storage.characterCount.words());
-      window.localStorage.setItem('inan-html-content', highlightCodeblocks(editor.getHTML()));
-      window.localStorage.setItem('inan-json-content', JSON.stringify(json));
-      setSaveStatus(i18n.t('SAVED'));
+      if (!adapter) {
+         setSaveStatus('SAVED');
+         return;
+      }
+      if (remoteChangeRef.current) return;
+
+      const saveId = ++saveIdRef.current;
+      setSaveStatus('SAVING');
+      setSaveError(null);
+      const content = { json, html: highlightCodeblocks(editor.getHTML()) };
+      try {
+         const saved = await saveWithRetry(adapter, documentKey, content, {
+            retries: SAVE_RETRIES,
+            isCurrent: () => saveId === saveIdRef.current,
+            onRetry: (attempt) => {
+               if (saveId !== saveIdRef.current) return;
+               setRetryAttempt(attempt);
+               setSaveStatus('SAVE_RETRYING');
+            },
+         });
+         if (saveId !== saveIdRef.current) return;
+         isDirtyRef.current = false;
+         setSaveStatus('SAVED');
+         tabSync.notify('saved');
+         emitSave(saved || content);
+      } catch (error) {
+         console.error('Save failed:', error);
+         if (saveId !== saveIdRef.current) return;
+         setSaveError(error instanceof Error ? error.message : String(error));
+         setSaveStatus(error instanceof StorageConflictError ? 'SAVE_CONFLICT' : 'SAVE_FAILED');
+      }
    }, 500);
 
    /**
-    * Clears editor content from localStorage and resets the editor.
+    * Clears the stored document and resets the editor.
     */
-   const clearLocalStorage = () => {
-      window.localStorage.removeItem('inan-html-content');
-      window.localStorage.removeItem('inan-json-content');
+   const clearStorage = async () => {
+      // Keep the cleared content restorable from the version history
+      if (showHistory && editor && !editor.isEmpty) {
+         await history.createSnapshot({
+            name: i18n.t('BEFORE_CLEAR'),
+            auto: true,
+         });
+      }
+      debouncedUpdates.cancel();
+      // Invalidate in-flight saves so they can't report over the cleared state
+      saveIdRef.current += 1;
       setInitialContent(null);
       if (editor) {
          editor.commands.clearContent();
       }
-      setSaveStatus(i18n.t('CLEARED'));
+      try {
+         await adapter?.clear(documentKey);
+         isDirtyRef.current = false;
+         setSaveError(null);
+         setSaveStatus('CLEARED');
+         tabSync.notify('cleared');
+      } catch (error) {
+         console.error('Clear failed:', error);
+         setSaveError(error instanceof Error ? error.message : String(error));
+         setSaveStatus('SAVE_FAILED');
+      }
+   };
+
+   const showRemoteChange = (type: TabSyncMessage['type'] | null) => {
+      remoteChangeRef.current = type;
+      setRemoteChange(type);
    };
 
-   // Load initial content from localStorage or props
+   /**
+    * Loads the version another tab saved (or the empty document it cleared) into the editor.
+    *
+    * @param type - What happened in the other tab.
+    */
+   const applyRemoteChange = async (type: TabSyncMessage['type']) => {
+      showRemoteChange(null);
+      if (!editor || !adapter) return;
+      debouncedUpdates.cancel();
+      saveIdRef.current += 1;
+      try {
+         const stored = type === 'saved' ? await adapter.load(documentKey) : null;
+         replaceContentPreservingSelection(editor, stored?.json ?? '');
+         isDirtyRef.current = false;
+         setCharsCount(editor.storage.characterCount.words());
+         setSaveError(null);
+         setSaveStatus(stored ? 'SAVED' : 'CLEARED');
+         emitChange(editor);
+      } catch (error) {
+         console.error('Reload failed:', error);
+         setSaveError(error instanceof Error ? error.message : String(error));
+         setSaveStatus('SAVE_FAILED');
+      }
+   };
+
+   /**
+    * Dismisses a change made in another tab and saves the local version over it.
+    */
+   const keepLocalChanges = async () => {
+      showRemoteChange(null);
+      if (!editor || !adapter) return;
+      // Loading refreshes the revision the adapter sends, so the save replaces the other version
+      await adapter.load(documentKey).catch(() => null);
+      debouncedUpdates(editor);
+      debouncedUpdates.flush();
+   };
+
+   const tabSync = useTabSync({
+      enabled: syncTabs && !!adapter && !collaboration,
+      documentKey,
+      onMessage: ({ type }) => {
+         if (isDirtyRef.current) showRemoteChange(type);
+         else applyRemoteChange(type);
+      },
+   });
+
+   // Load the initial content: `value`, then the stored document, then `defaultValue`
    useEffect(() => {
       if (!isMounted) return;
-      const content = window.localStorage.getItem('inan-json-content');
-      if (content) setInitialContent(JSON.parse(content));
-      else setInitialContent(initialValue ?? null);
-   }, [initialValue, isMounted]);
+      if (valueRef.current) {
+         setInitialContent(valueRef.current);
+         return;
+      }
+      if (!adapter) {
+         setInitialContent(fallbackValueRef.current ?? null);
+         return;
+      }
+
+      let cancelled = false;
+      adapter
+         .load(documentKey)
+         .then((stored) => {
+            if (cancelled) return;
+            setInitialContent(valueRef.current || stored?.json || fallbackValueRef.current || null);
+         })
+         .catch((error) => {
+            console.error('Load failed:', error);
+            if (cancelled) return;
+            setSaveError(error instanceof Error ? error.message : String(error));
+            setSaveStatus('SAVE_FAILED');
+            setInitialContent(valueRef.current || fallbackValueRef.current || null);
+         });
+      return () => {
+         cancelled = true;
+      };
+   }, [isMounted, adapter, documentKey]);
 
    const editor = useEditor(
       {
          shouldRerenderOnTransaction: true,
          extensions: [
+            Keymap.configure({ getKeymap: () => keymapRef.current }),
             SlashCommand.configure({
-               suggestion: slashCommandSuggestion,
+               groups: (defaults) => {
+                  const groups = slashCommandsRef.current;
+                  return typeof groups === 'function' ? groups(defaults) : (groups ?? defaults);
+               },
                showImageUrl,
                showImageUpload,
                showImageGallery,
                showImportData,
                showExportData,
             }),
-            ...defaultExtensions,
+            ...(hasMentionSource
+               ? [
+                    MentionSuggestion.configure({
+                       source: (query, options) =>
+                          mentionRef.current.source?.(query, options) ?? [],
+                       onMention: (user, editor) => mentionRef.current.onMention?.(user, editor),
+                    }),
+                 ]
+               : []),
+            FindReplace,
+            TrackChanges.configure({ getAuthor: () => authorRef.current }),
+            PageLayout,
+            ...(collab.session
+               ? [
+                    ...withoutUndoRedo(defaultExtensions),
+                    ...getCollaborationExtensions(collab.session, collab.user),
+                 ]
+               : defaultExtensions),
          ],
-         content: isMounted
-            ? initialValue || initialValue !== null
-               ? initialValue
-               : initialContent
-            : initialContent,
+         // While collaborating the content comes from the shared document
+         content: collab.session ? undefined : value || initialContent,
          editable,
          immediatelyRender: false,
          onUpdate: ({ editor }) => {
-            const json = editor.getJSON();
-            onChange?.(json);
+            emitChange(editor);
+            isDirtyRef.current = true;
             debouncedUpdates(editor);
-            setSaveStatus(i18n.t('UNSAVED'));
+            setSaveStatus('UNSAVED');
          },
          editorProps: {
             attributes: {
@@ -228,20 +713,45 @@ const Tiptap: React.FC<Props> = ({
          },
          autofocus: true,
       },
-      [isMounted]
+      [isMounted, collab.session, hasMentionSource]
    );
 
-   // Set initial content if provided
+   // Show the loaded content, unless the editor already has it
    useEffect(() => {
-      if (!isMounted || !editor || !initialContent) return;
-      if (
-         initialValue === null &&
-         JSON.stringify(initialContent) !== JSON.stringify(editor.getJSON())
-      ) {
-         editor.commands.setContent(initialContent);
-      }
+      if (!editor || !initialContent || collaboration) return;
+      if (JSON.stringify(initialContent) === JSON.stringify(editor.getJSON())) return;
+      // Loading is not an edit, undo must not bring back the empty editor
+      replaceContentPreservingSelection(editor, initialContent, { addToHistory: false });
+      setCharsCount(editor.storage.characterCount.words());
+      emitChange(editor);
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+   }, [editor, initialContent]);
+
+   // Follow a controlled `value` without remounting or moving the cursor
+   useEffect(() => {
+      if (!editor || !value || collaboration) return;
+      // Skip the content the editor just reported through `onChange`
+      if (value === emittedValueRef.current) return;
+      if (JSON.stringify(value) === JSON.stringify(editor.getJSON())) return;
+      replaceContentPreservingSelection(editor, value);
+      isDirtyRef.current = true;
+      setSaveStatus('UNSAVED');
+      debouncedUpdates(editor);
       // eslint-disable-next-line react-hooks/exhaustive-deps
-   }, [editor, initialContent, isMounted]);
+   }, [editor, value]);
+
+   // Seed an empty collaboration room with the stored or initial content once it is synced
+   useEffect(() => {
+      if (!editor || !collab.session || !collab.isSynced || !initialContent) return;
+      const { ydoc, provider } = collab.session;
+      const isCollaborating = editor.extensionManager.extensions.some(
+         (extension) => extension.name === 'collaboration'
+      );
+      if (!isCollaborating || ydoc.getXmlFragment('default').length > 0) return;
+      // Leave seeding to the users who were already in the room
+      if (provider.awareness.getStates().size > 1) return;
+      editor.commands.setContent(initialContent);
+   }, [editor, collab.session, collab.isSynced, initialContent]);
 
    useEffect(() => {
       if (editor) {
@@ -249,7 +759,281 @@ const Tiptap: React.FC<Props> = ({
       }
    }, [editor, editable]);
 
-   if (!editor) {
+   const history = useVersionHistory({
+      editor,
+      storage: adapter,
+      documentKey,
+      interval: showHistory ? snapshotInterval : 0,
+   });
+
+   const defaultCommentStore = useMemo(() => createHttpCommentStore(), []);
+   const author = useMemo<CommentAuthor>(
+      () =>
+         commentAuthor ??
+         (collab.session
+            ? { id: userId, name: collab.user.name, color: collab.user.color }
+            : { id: userId, name: userId }),
+      [commentAuthor, collab.session, collab.user, userId]
+   );
+   authorRef.current = author;
+   const comments = useComments({
+      editor,
+      store: showComments ? (commentStore ?? defaultCommentStore) : null,
+      documentKey,
+      author,
+   });
+
+   // Edits are only recorded as suggestions while the toggle is shown
+   useEffect(() => {
+      if (editor && !showTrackChanges && getTrackChangesState(editor.state)?.enabled) {
+         editor.commands.setTrackChanges(false);
+      }
+   }, [editor, showTrackChanges]);
+
+   // The print layout is only shown while its toggle is
+   useEffect(() => {
+      if (editor && !showPrintLayout && getPageLayoutState(editor.state).enabled) {
+         editor.commands.setPrintLayout(false);
+      }
+   }, [editor, showPrintLayout]);
+
+   const saveNow = async () => {
+      if (!editor) return;
+      debouncedUpdates(editor);
+      await debouncedUpdates.flush();
+   };
+
+   const { emitSave } = useEditorHandle(ref, editor, { clear: clearStorage, save: saveNow });
+
+   const commandPalette = useCommandPalette();
+   const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+   const findReplace = useFindReplace();
+   const { openPanel: openFindReplace } = findReplace;
+   const { onOpenChange: setCommandPaletteOpen } = commandPalette;
+   // Read when the save and clear commands run, so the commands only change with their options
+   const documentActionsRef = useRef({ save: saveNow, clear: clearStorage });
+   documentActionsRef.current = { save: saveNow, clear: clearStorage };
+   const paletteCommands = useMemo(
+      () =>
+         getPaletteCommands({
+            showImageUrl,
+            showImageUpload,
+            showImageGallery,
+            showImportData,
+            showExportData,
+            documentCommands: [
+               {
+                  id: 'save',
+                  title: 'SAVE',
+                  group: 'DOCUMENT',
+                  icon: Save,
+                  shortcut: 'Mod+S',
+                  global: true,
+                  run: () => void documentActionsRef.current.save(),
+               },
+               {
+                  id: 'clear',
+                  title: 'CLEAR',
+                  group: 'DOCUMENT',
+                  icon: Trash2,
+                  run: () => void documentActionsRef.current.clear(),
+               },
+               ...(showFindReplace
+                  ? [
+                       {
+                          id: 'find',
+                          title: 'FIND',
+                          group: 'DOCUMENT' as const,
+                          icon: Search,
+                          shortcut: 'Mod+F',
+                          global: true,
+                          run: () => openFindReplace(false),
+                       },
+                       {
+                          id: 'replace',
+                          title: 'FIND_AND_REPLACE',
+                          group: 'DOCUMENT' as const,
+                          icon: Replace,
+                          shortcut: 'Mod+H',
+                          global: true,
+                          isAvailable: (editor: Editor) => editor.isEditable,
+                          run: () => openFindReplace(true),
+                       },
+                    ]
+                  : []),
+               ...(showHistory
+                  ? [
+                       {
+                          id: 'versionHistory',
+                          title: 'VERSION_HISTORY',
+                          group: 'DOCUMENT' as const,
+                          icon: History,
+                          run: () => setIsHistoryOpen((open) => !open),
+                       },
+                    ]
+                  : []),
+               ...(showComments
+                  ? [
+                       {
+                          id: 'addComment',
+                          title: 'ADD_COMMENT',
+                          group: 'DOCUMENT' as const,
+                          icon: MessageSquarePlus,
+                          shortcut: 'Mod+Alt+M',
+                          isAvailable: (editor: Editor) => editor.can().startComment(),
+                          run: (editor: Editor) => editor.chain().focus().startComment().run(),
+                       },
+                       {
+                          id: 'comments',
+                          title: 'COMMENTS',
+                          group: 'DOCUMENT' as const,
+                          icon: MessageSquare,
+                          run: () => setIsCommentsOpen((open) => !open),
+                       },
+                    ]
+                  : []),
+               ...(showTrackChanges
+                  ? [
+                       {
+                          id: 'suggestChanges',
+                          title: 'SUGGEST_CHANGES',
+                          group: 'DOCUMENT' as const,
+                          icon: PenLine,
+                          shortcut: 'Mod+Alt+S',
+                          isAvailable: (editor: Editor) => editor.isEditable,
+                          run: (editor: Editor) => editor.commands.toggleTrackChanges(),
+                       },
+                       {
+                          id: 'trackedChanges',
+                          title: 'TRACKED_CHANGES',
+                          group: 'DOCUMENT' as const,
+                          icon: FileDiff,
+                          run: () => setIsChangesOpen((open) => !open),
+                       },
+                       {
+                          id: 'acceptAllChanges',
+                          title: 'ACCEPT_ALL',
+                          group: 'DOCUMENT' as const,
+                          icon: CheckCheck,
+                          isAvailable: (editor: Editor) =>
+                             editor.isEditable && editor.can().acceptAllChanges(),
+                          run: (editor: Editor) => editor.chain().focus().acceptAllChanges().run(),
+                       },
+                       {
+                          id: 'rejectAllChanges',
+                          title: 'REJECT_ALL',
+                          group: 'DOCUMENT' as const,
+                          icon: X,
+                          isAvailable: (editor: Editor) =>
+                             editor.isEditable && editor.can().rejectAllChanges(),
+                          run: (editor: Editor) => editor.chain().focus().rejectAllChanges().run(),
+                       },
+                    ]
+                  : []),
+               ...(showPrintLayout
+                  ? [
+                       {
+                          id: 'printLayout',
+                          title: 'PRINT_LAYOUT',
+                          group: 'DOCUMENT' as const,
+                          icon: FileText,
+                          run: (editor: Editor) => editor.commands.togglePrintLayout(),
+                       },
+                    ]
+                  : []),
+               ...(showOutline
+                  ? [
+                       {
+                          id: 'outline',
+                          title: 'OUTLINE',
+                          group: 'DOCUMENT' as const,
+                          icon: ListTree,
+                          run: () => setIsOutlineOpen((open) => !open),
+                       },
+                    ]
+                  : []),
+               {
+                  id: 'keyboardShortcuts',
+                  title: 'KEYBOARD_SHORTCUTS',
+                  group: 'DOCUMENT',
+                  icon: Keyboard,
+                  shortcut: 'Mod+/',
+                  global: true,
+                  run: () => setIsShortcutsOpen(true),
+               },
+            ],
+         }),
+      [
+         showImageUrl,
+         showImageUpload,
+         showImageGallery,
+         showImportData,
+         showExportData,
+         showFindReplace,
+         showHistory,
+         showComments,
+         showTrackChanges,
+         showPrintLayout,
+         showOutline,
+         openFindReplace,
+      ]
+   );
+   const keymapCommands = useMemo<PaletteCommand[]>(
+      () =>
+         showCommandPalette
+            ? [
+                 ...paletteCommands,
+                 {
+                    id: 'commandPalette',
+                    title: 'COMMAND_PALETTE',
+                    group: 'DOCUMENT',
+                    icon: CommandIcon,
+                    shortcut: 'Mod+K',
+                    global: true,
+                    run: () => setCommandPaletteOpen(true),
+                 },
+              ]
+            : paletteCommands,
+      [showCommandPalette, paletteCommands, setCommandPaletteOpen]
+   );
+   const extensionBindings = useMemo(
+      () => (editor ? getExtensionBindings(editor) : undefined),
+      [editor]
+   );
+   const keymap = useKeymap({
+      commands: keymapCommands,
+      overrides: keymapOverrides,
+      userId,
+      extensionBindings,
+   });
+   keymapRef.current = { commands: keymapCommands, bindings: keymap.bindings };
+
+   /**
+    * Runs the global shortcuts (palette, help, save) while the focus is outside the editor
+    * content, e.g. in the toolbar. Inside the content the keymap extension already ran them.
+    */
+   const handleGlobalShortcut = (event: React.KeyboardEvent) => {
+      if (event.defaultPrevented || !editor) return;
+      const command = matchKeymap(event, keymapCommands, keymap.bindings);
+      if (!command || command === 'blocked' || !command.global) return;
+      event.preventDefault();
+      command.run(editor);
+   };
+
+   const showFixedToolbar = editable && toolbarMode !== 'bubble';
+   // Starting a comment or clicking commented text opens the comments sidebar
+   const commentsState = editor ? getCommentsState(editor.state) : null;
+   const showCommentsSidebar =
+      showComments &&
+      (isCommentsOpen || !!commentsState?.pending || !!commentsState?.activeThreadId);
+   const isSuggesting = !!(editor && getTrackChangesState(editor.state)?.enabled);
+   const isPrintLayout = !!(editor && getPageLayoutState(editor.state).enabled);
+   const closeComments = () => {
+      setIsCommentsOpen(false);
+      editor?.chain().cancelComment().setActiveComment(null).run();
+   };
+
+   if (!editor || (collaboration && !collab.session)) {
       return (
          <div className={cn('editor-loading flex items-center justify-center h-full ')}>
             <Loader className="animate-spin" />
@@ -259,17 +1043,106 @@ const Tiptap: React.FC<Props> = ({
    }
 
    return (
-      <div className={cn('relative w-full max-w-screen-lg')}>
-         <div className="flex absolute right-2 top-2 z-10 mb-5 gap-2">
+      <div className={cn('relative w-full max-w-screen-lg')} onKeyDown={handleGlobalShortcut}>
+         <div
+            className={cn(
+               'flex z-10 gap-2',
+               showFixedToolbar ? 'mb-2 justify-end' : 'absolute right-2 top-2 mb-5'
+            )}
+         >
+            {showOutline && (
+               <button
+                  onClick={() => setIsOutlineOpen((open) => !open)}
+                  className={cn(
+                     'rounded-lg bg-accent px-2 py-1 text-sm text-muted-foreground hover:text-foreground',
+                     isOutlineOpen && 'text-foreground'
+                  )}
+                  title={i18n.t('OUTLINE')}
+               >
+                  <ListTree className="h-4 w-4" />
+               </button>
+            )}
+            {showComments && (
+               <button
+                  onClick={() => (showCommentsSidebar ? closeComments() : setIsCommentsOpen(true))}
+                  className={cn(
+                     'rounded-lg bg-accent px-2 py-1 text-sm text-muted-foreground hover:text-foreground',
+                     showCommentsSidebar && 'text-foreground'
+                  )}
+                  title={i18n.t('COMMENTS')}
+               >
+                  <MessageSquare className="h-4 w-4" />
+               </button>
+            )}
+            {showTrackChanges && (
+               <button
+                  onClick={() => setIsChangesOpen((open) => !open)}
+                  className={cn(
+                     'rounded-lg bg-accent px-2 py-1 text-sm text-muted-foreground hover:text-foreground',
+                     isChangesOpen && 'text-foreground'
+                  )}
+                  title={i18n.t('TRACKED_CHANGES')}
+               >
+                  <FileDiff className="h-4 w-4" />
+               </button>
+            )}
+            {showHistory && (
+               <button
+                  onClick={() => setIsHistoryOpen((open) => !open)}
+                  className={cn(
+                     'rounded-lg bg-accent px-2 py-1 text-sm text-muted-foreground hover:text-foreground',
+                     isHistoryOpen && 'text-foreground'
+                  )}
+                  title={i18n.t('VERSION_HISTORY')}
+               >
+                  <History className="h-4 w-4" />
+               </button>
+            )}
+            {showPrintLayout && (
+               <button
+                  onClick={() => editor.commands.togglePrintLayout()}
+                  className={cn(
+                     'rounded-lg bg-accent px-2 py-1 text-sm text-muted-foreground hover:text-foreground',
+                     isPrintLayout && 'text-foreground'
+                  )}
+                  title={i18n.t('PRINT_LAYOUT')}
+                  aria-pressed={isPrintLayout}
+               >
+                  <FileText className="h-4 w-4" />
+               </button>
+            )}
+            {showPrintLayout && isPrintLayout && <PageSetupPopover editor={editor} />}
             <button
-               onClick={clearLocalStorage}
+               onClick={clearStorage}
                className="rounded-lg bg-red-500 hover:bg-red-600 text-white px-2 py-1 text-sm"
-               title="localStorage'ı temizle"
+               title={i18n.t('CLEAR')}
             >
                {i18n.t('CLEAR')}
             </button>
-            <div className="rounded-lg bg-accent px-2 py-1 text-sm text-muted-foreground">
-               {saveStatus}
+            {showTrackChanges && editable && (
+               <button
+                  onClick={() => editor.chain().focus().toggleTrackChanges().run()}
+                  className={cn(
+                     'flex items-center gap-1 rounded-lg bg-accent px-2 py-1 text-sm text-muted-foreground whitespace-nowrap hover:text-foreground',
+                     isSuggesting && 'bg-green-100 text-green-800 hover:text-green-900'
+                  )}
+                  title={i18n.t('SUGGEST_CHANGES')}
+                  aria-pressed={isSuggesting}
+               >
+                  <PenLine className="h-4 w-4" />
+                  {i18n.t(isSuggesting ? 'SUGGESTING' : 'EDITING')}
+               </button>
+            )}
+            <div
+               className={cn(
+                  'rounded-lg bg-accent px-2 py-1 text-sm text-muted-foreground whitespace-nowrap',
+                  saveStatus === 'SAVE_FAILED' && 'bg-red-100 text-red-700',
+                  saveStatus === 'SAVE_CONFLICT' && 'bg-amber-100 text-amber-800'
+               )}
+               title={saveError ?? undefined}
+            >
+               {i18n.t(saveStatus)}
+               {saveStatus === 'SAVE_RETRYING' && ` (${retryAttempt}/${SAVE_RETRIES})`}
             </div>
             <div
                className={
@@ -280,9 +1153,24 @@ const Tiptap: React.FC<Props> = ({
             >
                {charsCount} {charsCount === 1 ? i18n.t('WORD') : i18n.t('WORDS')}
             </div>
+            {collab.session && (
+               <CollaboratorList status={collab.status} collaborators={collab.collaborators} />
+            )}
             <LanguageSelector />
          </div>
-         {showBubbleMenu && (
+         {showFixedToolbar && (
+            <FixedToolbar
+               editor={editor}
+               showImageUrl={showImageUrl}
+               showImageUpload={showImageUpload}
+               showImageGallery={showImageGallery}
+               showImportData={showImportData}
+               showExportData={showExportData}
+               showComments={showComments}
+               config={toolbar}
+            />
+         )}
+         {showBubbleMenu && toolbarMode !== 'fixed' && (
             <BubbleMenuSelector
                editor={editor}
                showImageUrl={showImageUrl}
@@ -290,16 +1178,102 @@ const Tiptap: React.FC<Props> = ({
                showImageGallery={showImageGallery}
                showImportData={showImportData}
                showExportData={showExportData}
+               showComments={showComments}
+               toolbar={toolbar}
             />
          )}
          {showTableMenu && <TableBubbleMenu editor={editor} />}
-         {showFooMenu && <FooMenuSelector editor={editor} />}
+         {showFooMenu && (
+            <FooMenuSelector
+               editor={editor}
+               showImageUrl={showImageUrl}
+               showImageUpload={showImageUpload}
+               showImageGallery={showImageGallery}
+               showImportData={showImportData}
+               showExportData={showExportData}
+               showComments={showComments}
+               toolbar={toolbar}
+            />
+         )}
+         {showCommandPalette && (
+            <CommandPalette
+               editor={editor}
+               commands={paletteCommands.map((command) => ({
+                  ...command,
+                  shortcut: keymap.bindings[command.id] ?? undefined,
+               }))}
+               {...commandPalette}
+            />
+         )}
+         <ShortcutsDialog
+            open={isShortcutsOpen}
+            onOpenChange={setIsShortcutsOpen}
+            commands={keymapCommands}
+            keymap={keymap}
+         />
          <DragHandle editor={editor}>
             <GripVertical />
          </DragHandle>
-         <EditorContent editor={editor} />
+         {remoteChange && (
+            <TabSyncBanner
+               type={remoteChange}
+               onReload={() => applyRemoteChange(remoteChange)}
+               onKeepMine={keepLocalChanges}
+            />
+         )}
+         <div className="flex items-start gap-4">
+            {showOutline && isOutlineOpen && (
+               <OutlineSidebar
+                  editor={editor}
+                  onClose={() => setIsOutlineOpen(false)}
+                  className="sticky top-4 hidden md:flex"
+               />
+            )}
+            <div className="relative min-w-0 flex-1">
+               {showFindReplace && (
+                  // Zero-height sticky row, so the panel stays in view without moving the content
+                  <div className="sticky top-2 z-20 flex h-0 justify-end">
+                     <FindReplacePanel
+                        editor={editor}
+                        {...findReplace}
+                        className={cn('mr-3', showFixedToolbar ? 'mt-2' : 'mt-12')}
+                     />
+                  </div>
+               )}
+               <EditorContent
+                  editor={editor}
+                  className={cn(isPrintLayout && 'print-layout-container')}
+               />
+            </div>
+            {showHistory && isHistoryOpen && (
+               <HistoryPanel
+                  editor={editor}
+                  history={history}
+                  onClose={() => setIsHistoryOpen(false)}
+                  className="sticky top-4"
+               />
+            )}
+            {showCommentsSidebar && (
+               <CommentsSidebar
+                  editor={editor}
+                  comments={comments}
+                  onClose={closeComments}
+                  className="sticky top-4"
+               />
+            )}
+            {showTrackChanges && isChangesOpen && (
+               <TrackChangesSidebar
+                  editor={editor}
+                  onClose={() => setIsChangesOpen(false)}
+                  className="sticky top-4"
+               />
+            )}
+         </div>
       </div>
    );
 };
 
+const Tiptap = React.forwardRef(TiptapEditor);
+Tiptap.displayName = 'Tiptap';
+
 export { Tiptap };
@@ -0,0 +1,57 @@
+/**
+ * @module FixedToolbar
+ *
+ * This component provides a classic toolbar above the editor content, rendering a toolbar config
+ * on one line.
+ *
+ * @remarks
+ * - Sticks to the top of the viewport while the editor is scrolled.
+ * - On narrow widths (`useIsMobile`) only the first `mobileGroups` groups stay visible, the
+ *   other items move to the overflow menu.
+ *
+ * @example
+ * ```tsx
+ * <FixedToolbar editor={editor} config={defaultFixedToolbar} />
+ * ```
+ *
+ * @property editor - The Tiptap editor instance.
+ * @property config - The toolbar config, defaults to `defaultFixedToolbar`.
+ * @property className - Custom CSS class for the toolbar container.
+ */
+import * as React from 'react';
+import { type Editor } from '@tiptap/react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { cn } from '../tiptap-utils';
+import { collapseToolbar, defaultFixedToolbar, type ToolbarConfig } from './toolbar-config';
+import { type ToolbarItemOptions } from './toolbar-items';
+import { Toolbar } from './toolbar';
+
+export interface FixedToolbarProps extends ToolbarItemOptions {
+   editor: Editor;
+   config?: ToolbarConfig;
+   className?: string;
+}
+
+export const FixedToolbar = ({
+   editor,
+   config = defaultFixedToolbar,
+   className,
+   ...options
+}: FixedToolbarProps) => {
+   const isMobile = useIsMobile();
+   const visibleConfig = React.useMemo(
+      () => (isMobile ? collapseToolbar(config) : config),
+      [isMobile, config]
+   );
+
+   return (
+      <div
+         className={cn(
+            'fixed-toolbar sticky top-0 z-20 mb-2 rounded-md border border-muted bg-background shadow-sm',
+            className
+         )}
+      >
+         <Toolbar editor={editor} config={visibleConfig} layout="bar" {...options} />
+      </div>
+   );
+};
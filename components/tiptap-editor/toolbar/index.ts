@@ -0,0 +1,14 @@
+export { Toolbar, type ToolbarProps } from './toolbar';
+export { FixedToolbar, type FixedToolbarProps } from './fixed-toolbar';
+export { ToolbarItemView, ContextAIButton, type ToolbarItemOptions } from './toolbar-items';
+export {
+   defaultBubbleMenuToolbar,
+   defaultFloatingMenuToolbar,
+   defaultFixedToolbar,
+   getToolbarItemKey,
+   collapseToolbar,
+   type BuiltInToolbarItem,
+   type CustomToolbarItem,
+   type ToolbarItem,
+   type ToolbarConfig,
+} from './toolbar-config';
@@ -0,0 +1,170 @@
+/**
+ * @module ToolbarConfig
+ *
+ * This module defines the declarative toolbar config shared by the bubble menu, the floating menu
+ * and the fixed toolbar, and the default layouts of these surfaces.
+ *
+ * @remarks
+ * - A config lists groups of items in display order; the menus stack groups as rows, the fixed
+ *   toolbar puts them on one line with a separator between groups.
+ * - Built-in items are referenced by name, `'|'` is a separator. The `comment` item is only
+ *   shown when comments are enabled.
+ * - Custom items provide an icon, a label and a command, optionally `isActive` / `isDisabled`.
+ * - `more` items are collapsed into an overflow menu, `end` items are pinned to the end.
+ * - On narrow widths the fixed toolbar keeps `mobileGroups` groups and collapses the others.
+ *
+ * @example
+ * ```tsx
+ * const toolbar: ToolbarConfig = {
+ *    groups: [['undoRedo', '|', 'blockType', '|', 'link', '|', highlight]],
+ *    more: ['math', 'importExport'],
+ *    end: ['contextAI'],
+ * };
+ * ```
+ */
+import type { Editor } from '@tiptap/react';
+import type * as React from 'react';
+
+/**
+ * Names of the built-in toolbar items.
+ */
+export type BuiltInToolbarItem =
+   | 'blockType'
+   | 'alignment'
+   | 'fontSize'
+   | 'lineHeight'
+   | 'undoRedo'
+   | 'link'
+   | 'math'
+   | 'color'
+   | 'fontFamily'
+   | 'image'
+   | 'importExport'
+   | 'table'
+   | 'youtube'
+   | 'twitter'
+   | 'comment'
+   | 'contextAI';
+
+/**
+ * A toolbar button running a command.
+ */
+export interface CustomToolbarItem {
+   /**
+    * Unique id of the item, used as React key.
+    */
+   id: string;
+   /**
+    * Label shown as tooltip and next to the icon in the overflow menu.
+    */
+   label: string;
+   /**
+    * Icon component, e.g. a Lucide icon.
+    */
+   icon: React.ComponentType<{ className?: string }>;
+   /**
+    * Runs when the button is clicked.
+    */
+   command: (editor: Editor) => void;
+   /**
+    * Whether the button is highlighted, re-evaluated on every editor transaction.
+    */
+   isActive?: (editor: Editor) => boolean;
+   /**
+    * Whether the button is disabled, re-evaluated on every editor transaction.
+    */
+   isDisabled?: (editor: Editor) => boolean;
+}
+
+/**
+ * A built-in item, a separator (`'|'`) or a custom item.
+ */
+export type ToolbarItem = BuiltInToolbarItem | '|' | CustomToolbarItem;
+
+export interface ToolbarConfig {
+   /**
+    * Groups of items in display order.
+    * Menus render each group as a row; the fixed toolbar separates groups.
+    */
+   groups: ToolbarItem[][];
+   /**
+    * Items collapsed into the overflow "more" menu.
+    */
+   more?: ToolbarItem[];
+   /**
+    * Items pinned to the end of the toolbar.
+    */
+   end?: ToolbarItem[];
+   /**
+    * Number of groups the fixed toolbar keeps visible on narrow widths; the other groups move
+    * to the overflow menu.
+    * @default 1
+    */
+   mobileGroups?: number;
+}
+
+/**
+ * Default layout of the bubble menu.
+ */
+export const defaultBubbleMenuToolbar: ToolbarConfig = {
+   groups: [
+      ['blockType', '|', 'alignment', '|', 'fontSize', '|', 'lineHeight', '|', 'undoRedo'],
+      ['link', '|', 'math', '|', 'color', '|', 'fontFamily', '|', 'image', '|', 'importExport'],
+   ],
+   end: ['comment', 'contextAI'],
+};
+
+/**
+ * Default layout of the floating menu.
+ */
+export const defaultFloatingMenuToolbar: ToolbarConfig = {
+   groups: [
+      ['blockType', '|', 'alignment', '|', 'fontSize', '|', 'lineHeight', '|', 'undoRedo'],
+      ['link', '|', 'color', '|', 'fontFamily', '|', 'image'],
+   ],
+   end: ['contextAI'],
+};
+
+/**
+ * Default layout of the fixed toolbar.
+ */
+export const defaultFixedToolbar: ToolbarConfig = {
+   groups: [
+      ['undoRedo'],
+      ['blockType', 'fontFamily', 'fontSize'],
+      ['color', 'alignment', 'lineHeight'],
+      ['link', 'image', 'table', 'math'],
+      ['importExport'],
+   ],
+   more: ['youtube', 'twitter'],
+   end: ['comment', 'contextAI'],
+   mobileGroups: 2,
+};
+
+/**
+ * Returns the React key of an item.
+ *
+ * @param item - The toolbar item.
+ * @param index - Position of the item in its list.
+ */
+export const getToolbarItemKey = (item: ToolbarItem, index: number) =>
+   typeof item === 'string' ? `${item}-${index}` : item.id;
+
+/**
+ * Moves the groups after `mobileGroups` to the front of the overflow menu, dropping separators.
+ *
+ * @param config - The toolbar config.
+ * @returns The collapsed config.
+ */
+export const collapseToolbar = (config: ToolbarConfig): ToolbarConfig => {
+   const visibleGroups = config.mobileGroups ?? 1;
+   const collapsed = config.groups
+      .slice(visibleGroups)
+      .flat()
+      .filter((item) => item !== '|');
+   return {
+      ...config,
+      groups: config.groups.slice(0, visibleGroups),
+      more: [...collapsed, ...(config.more ?? [])],
+   };
+};
@@ -0,0 +1,260 @@
+/**
+ * @module ToolbarItems
+ *
+ * This module renders single toolbar items: the built-in selectors, separators, custom buttons
+ * and the ContextAI button.
+ *
+ * @remarks
+ * - Built-in selectors get their open state from the `useSelectors` state of the toolbar.
+ * - Custom buttons re-evaluate `isActive` and `isDisabled` with `useEditorState`.
+ *
+ * @example
+ * ```tsx
+ * <ToolbarItemView editor={editor} item="link" selectors={selectors} />
+ * ```
+ */
+import * as React from 'react';
+import { type Editor, useEditorState } from '@tiptap/react';
+import { Brain, MessageSquarePlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Separator } from '@/components/ui/separator';
+import {
+   type useSelectors,
+   Selector,
+   AlignmentSelector,
+   FontFamilySelector,
+   FontSizeSelector,
+   ColorSelector,
+   LineHeightSelector,
+   MathSelector,
+   UndoRedoSelector,
+   LinkSelector,
+   ImageSelector,
+   ImportExportSelector,
+   TwitterSelector,
+   YoutubeSelector,
+} from '../selector';
+import { TableSelector } from '../selector/table-selector';
+import { ContextAI } from '../extensions/context-ai';
+import { cn } from '../tiptap-utils';
+import { i18n } from '../i18n';
+import type { CustomToolbarItem, ToolbarItem } from './toolbar-config';
+
+/**
+ * Options of built-in items, passed down from the editor props.
+ */
+export interface ToolbarItemOptions {
+   showImageUrl?: boolean;
+   showImageUpload?: boolean;
+   showImageGallery?: boolean;
+   showImportData?: boolean;
+   showExportData?: boolean;
+   showComments?: boolean;
+}
+
+interface ToolbarItemViewProps extends ToolbarItemOptions {
+   editor: Editor;
+   item: ToolbarItem;
+   selectors: ReturnType<typeof useSelectors>;
+   /**
+    * Whether the item is rendered in the overflow menu, where custom buttons show their label.
+    */
+   inMenu?: boolean;
+}
+
+/**
+ * ContextAI button opening the AI popover.
+ *
+ * @param editor - The Tiptap editor instance.
+ */
+export const ContextAIButton = ({ editor }: { editor: Editor }) => {
+   const [openContextAI, setOpenContextAI] = React.useState(false);
+   const handleContextAIOpenChange = React.useCallback((open: boolean) => {
+      setOpenContextAI(open);
+   }, []);
+
+   const handleContextAIButtonClick = React.useCallback((e: React.MouseEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setOpenContextAI(true);
+   }, []);
+
+   return (
+      <Popover open={openContextAI} onOpenChange={handleContextAIOpenChange} modal={true}>
+         <PopoverTrigger asChild>
+            <Button
+               className="gap-1 rounded-none text-purple-600 hover:text-purple-700 hover:bg-purple-50"
+               variant="ghost"
+               size="sm"
+               onClick={handleContextAIButtonClick}
+            >
+               <Brain className="h-4 w-4" />
+               {i18n.t('CONTEXT_AI')}
+            </Button>
+         </PopoverTrigger>
+         <PopoverContent
+            side="bottom"
+            align="end"
+            className="p-0 w-auto"
+            onInteractOutside={(e) => {
+               if (e.target instanceof Element && e.target.closest('[data-context-ai]')) {
+                  e.preventDefault();
+               }
+            }}
+         >
+            <div data-context-ai>
+               <ContextAI editor={editor} onOpenChange={handleContextAIOpenChange} />
+            </div>
+         </PopoverContent>
+      </Popover>
+   );
+};
+
+/**
+ * Button starting a comment on the selection, whose first comment is written in the sidebar.
+ *
+ * @param editor - The Tiptap editor instance.
+ */
+export const CommentButton = ({ editor }: { editor: Editor }) => {
+   const canComment = useEditorState({
+      editor,
+      selector: (ctx) => !!ctx.editor?.view && ctx.editor.can().startComment(),
+   });
+
+   return (
+      <Button
+         className="gap-1 rounded-none"
+         variant="ghost"
+         size="sm"
+         title={i18n.t('ADD_COMMENT')}
+         disabled={!canComment}
+         onClick={() => editor.chain().focus().startComment().run()}
+         type="button"
+      >
+         <MessageSquarePlus className="h-4 w-4" />
+         <span className="sr-only">{i18n.t('ADD_COMMENT')}</span>
+      </Button>
+   );
+};
+
+/**
+ * Button of a custom toolbar item.
+ *
+ * @param editor - The Tiptap editor instance.
+ * @param item - The custom item.
+ * @param inMenu - Whether to show the label next to the icon.
+ */
+export const CustomToolbarButton = ({
+   editor,
+   item,
+   inMenu,
+}: {
+   editor: Editor;
+   item: CustomToolbarItem;
+   inMenu?: boolean;
+}) => {
+   const { isActive, isDisabled } = useEditorState({
+      editor,
+      selector: (ctx) => ({
+         isActive: !!ctx.editor?.view && !!item.isActive?.(ctx.editor),
+         isDisabled: !!ctx.editor?.view && !!item.isDisabled?.(ctx.editor),
+      }),
+   });
+   const Icon = item.icon;
+
+   return (
+      <Button
+         variant="ghost"
+         size="sm"
+         className={cn('rounded-none', inMenu && 'w-full justify-start gap-2')}
+         title={item.label}
+         aria-pressed={item.isActive ? isActive : undefined}
+         disabled={isDisabled}
+         onClick={() => item.command(editor)}
+         type="button"
+      >
+         <Icon className={cn('h-4 w-4', isActive && 'text-blue-500')} />
+         {inMenu ? item.label : <span className="sr-only">{item.label}</span>}
+      </Button>
+   );
+};
+
+/**
+ * Renders a toolbar item.
+ *
+ * @param editor - The Tiptap editor instance.
+ * @param item - The item to render.
+ * @param selectors - Open state of the built-in selectors.
+ * @param inMenu - Whether the item is rendered in the overflow menu.
+ */
+export const ToolbarItemView = ({
+   editor,
+   item,
+   selectors,
+   inMenu,
+   showImageUrl,
+   showImageUpload,
+   showImageGallery,
+   showImportData,
+   showExportData,
+   showComments,
+}: ToolbarItemViewProps) => {
+   if (typeof item !== 'string') {
+      return <CustomToolbarButton editor={editor} item={item} inMenu={inMenu} />;
+   }
+
+   switch (item) {
+      case '|':
+         return <Separator orientation="vertical" />;
+      case 'blockType':
+         return <Selector editor={editor} {...selectors.selector} />;
+      case 'alignment':
+         return <AlignmentSelector editor={editor} {...selectors.alignment} />;
+      case 'fontSize':
+         return <FontSizeSelector editor={editor} {...selectors.fontSize} />;
+      case 'lineHeight':
+         return <LineHeightSelector editor={editor} {...selectors.lineHeight} />;
+      case 'undoRedo':
+         return <UndoRedoSelector editor={editor} />;
+      case 'link':
+         return <LinkSelector editor={editor} {...selectors.link} />;
+      case 'math':
+         return <MathSelector editor={editor} />;
+      case 'color':
+         return <ColorSelector editor={editor} {...selectors.color} />;
+      case 'fontFamily':
+         return <FontFamilySelector editor={editor} {...selectors.fontFamily} />;
+      case 'image':
+         return (
+            <ImageSelector
+               editor={editor}
+               showImageUrl={showImageUrl}
+               showImageUpload={showImageUpload}
+               showImageGallery={showImageGallery}
+               {...selectors.image}
+            />
+         );
+      case 'importExport':
+         return (
+            <ImportExportSelector
+               editor={editor}
+               showImportData={showImportData}
+               showExportData={showExportData}
+               {...selectors.importExport}
+            />
+         );
+      case 'table':
+         return <TableSelector editor={editor} {...selectors.table} />;
+      case 'youtube':
+         return <YoutubeSelector editor={editor} {...selectors.youtube} />;
+      case 'twitter':
+         return <TwitterSelector editor={editor} {...selectors.twitter} />;
+      case 'comment':
+         return showComments ? <CommentButton editor={editor} /> : null;
+      case 'contextAI':
+         return <ContextAIButton editor={editor} />;
+      default:
+         return null;
+   }
+};
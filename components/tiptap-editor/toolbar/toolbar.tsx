@@ -0,0 +1,121 @@
+/**
+ * @module Toolbar
+ *
+ * This module renders a declarative toolbar config. It is the content of the bubble menu, the
+ * floating menu and the fixed toolbar.
+ *
+ * @remarks
+ * - `layout="menu"` stacks the groups as rows and puts the `end` items in a side panel.
+ * - `layout="bar"` puts the groups on one wrapping line with separators and the `end` items last.
+ * - `more` items are collapsed into a popover opened with the "more" button.
+ *
+ * @example
+ * ```tsx
+ * <Toolbar editor={editor} config={defaultFixedToolbar} layout="bar" />
+ * ```
+ *
+ * @property editor - The Tiptap editor instance.
+ * @property config - The toolbar config.
+ * @property layout - How the groups are laid out.
+ */
+import * as React from 'react';
+import { type Editor } from '@tiptap/react';
+import { MoreHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Separator } from '@/components/ui/separator';
+import { useSelectors } from '../selector';
+import { i18n } from '../i18n';
+import { getToolbarItemKey, type ToolbarConfig, type ToolbarItem } from './toolbar-config';
+import { ToolbarItemView, type ToolbarItemOptions } from './toolbar-items';
+
+export interface ToolbarProps extends ToolbarItemOptions {
+   editor: Editor;
+   config: ToolbarConfig;
+   layout?: 'menu' | 'bar';
+}
+
+type ItemListProps = Omit<ToolbarProps, 'config' | 'layout'> & {
+   items: ToolbarItem[];
+   selectors: ReturnType<typeof useSelectors>;
+   inMenu?: boolean;
+};
+
+const ItemList = ({ items, ...props }: ItemListProps) =>
+   items.map((item, index) => (
+      <ToolbarItemView key={getToolbarItemKey(item, index)} item={item} {...props} />
+   ));
+
+/**
+ * Overflow "more" button with the collapsed items.
+ */
+const MoreMenu = (props: ItemListProps) => {
+   const [open, setOpen] = React.useState(false);
+
+   return (
+      <Popover open={open} onOpenChange={setOpen}>
+         <PopoverTrigger asChild>
+            <Button
+               size="sm"
+               variant="ghost"
+               className="h-8 w-8 p-0 rounded-none"
+               title={i18n.t('MORE')}
+               type="button"
+            >
+               <MoreHorizontal className="h-4 w-4" />
+               <span className="sr-only">{i18n.t('MORE')}</span>
+            </Button>
+         </PopoverTrigger>
+         <PopoverContent align="end" side="bottom" sideOffset={8} className="w-auto max-w-xs p-1">
+            <div className="flex flex-wrap items-center gap-1">
+               <ItemList {...props} inMenu />
+            </div>
+         </PopoverContent>
+      </Popover>
+   );
+};
+
+export const Toolbar = ({ config, layout = 'menu', ...props }: ToolbarProps) => {
+   const selectors = useSelectors();
+   const { groups, more = [], end = [] } = config;
+   const itemProps = { ...props, selectors };
+   const moreMenu = more.length > 0 && <MoreMenu items={more} {...itemProps} />;
+
+   if (layout === 'bar') {
+      return (
+         <div role="toolbar" className="flex flex-wrap items-center gap-1 p-1">
+            {groups.map((group, index) => (
+               <div key={index} className="flex h-8 items-center gap-1">
+                  {index > 0 && <Separator orientation="vertical" />}
+                  <ItemList items={group} {...itemProps} />
+               </div>
+            ))}
+            {moreMenu}
+            {end.length > 0 && (
+               <div className="ml-auto flex h-8 items-center gap-1">
+                  <ItemList items={end} {...itemProps} />
+               </div>
+            )}
+         </div>
+      );
+   }
+
+   return (
+      <>
+         <div role="toolbar" className="flex flex-col p-1">
+            {groups.map((group, index) => (
+               <div key={index} className="flex items-center gap-1 p-1 h-8 mb-1">
+                  <ItemList items={group} {...itemProps} />
+                  {index === groups.length - 1 && moreMenu}
+               </div>
+            ))}
+            {groups.length === 0 && moreMenu}
+         </div>
+         {end.length > 0 && (
+            <div className="flex items-center border-l border-muted">
+               <ItemList items={end} {...itemProps} />
+            </div>
+         )}
+      </>
+   );
+};
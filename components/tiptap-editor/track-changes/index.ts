@@ -0,0 +1,13 @@
+export {
+   Deletion,
+   Insertion,
+   TrackChanges,
+   getTrackChangesState,
+   getTrackedChanges,
+   trackChangesPluginKey,
+   type TrackChangesAuthor,
+   type TrackChangesOptions,
+   type TrackChangesState,
+   type TrackedChange,
+} from './track-changes-extension';
+export { TrackChangesSidebar } from './track-changes-sidebar';
@@ -0,0 +1,523 @@
+/**
+ * @module TrackChanges
+ *
+ * This module provides track changes for the Tiptap editor: insertion and deletion marks with
+ * their author and time, and a suggesting mode recording edits as such marks instead of applying
+ * them.
+ *
+ * @remarks
+ * - While suggesting, typed and pasted text gets an insertion mark, and deleted text is put back
+ *   with a deletion mark. Deleting suggested text removes it for real.
+ * - Consecutive edits of the same author extend the neighbouring change instead of starting a
+ *   new one, so a typed word is one change.
+ * - Only text is tracked. Changes of the structure, like splitting and joining paragraphs, and
+ *   of formatting are applied directly.
+ * - Undo, loaded content and changes of collaborators are never recorded as suggestions.
+ * - `acceptChange` and `rejectChange` resolve one change by id, `acceptAllChanges` and
+ *   `rejectAllChanges` all of them.
+ * - The marks are part of `defaultExtensions`, so suggestions survive loading and saving
+ *   documents in editors without track changes. HTML uses `ins` and `del` elements, which the
+ *   DOCX export turns into Word revisions.
+ *
+ * @example
+ * ```ts
+ * TrackChanges.configure({ getAuthor: () => ({ id: 'u-ada', name: 'Ada Lovelace' }) });
+ * editor.commands.toggleTrackChanges();
+ * editor.commands.acceptAllChanges();
+ * ```
+ */
+import { Extension, Mark, mergeAttributes } from '@tiptap/core';
+import type { MarkType, Node as ProseMirrorNode, Slice } from '@tiptap/pm/model';
+import {
+   Plugin,
+   PluginKey,
+   TextSelection,
+   type EditorState,
+   type Transaction,
+} from '@tiptap/pm/state';
+import { ReplaceStep } from '@tiptap/pm/transform';
+
+declare module '@tiptap/core' {
+   interface Commands<ReturnType> {
+      trackChanges: {
+         /**
+          * Turns suggesting on or off.
+          */
+         setTrackChanges: (enabled: boolean) => ReturnType;
+         /**
+          * Turns suggesting on or off, whichever it is not.
+          */
+         toggleTrackChanges: () => ReturnType;
+         /**
+          * Applies a change: keeps inserted text, removes deleted text.
+          */
+         acceptChange: (id: string) => ReturnType;
+         /**
+          * Discards a change: removes inserted text, keeps deleted text.
+          */
+         rejectChange: (id: string) => ReturnType;
+         /**
+          * Applies all changes of the document.
+          */
+         acceptAllChanges: () => ReturnType;
+         /**
+          * Discards all changes of the document.
+          */
+         rejectAllChanges: () => ReturnType;
+      };
+   }
+}
+
+/**
+ * Author of a change.
+ *
+ * @property id - Unique id of the user.
+ * @property name - Display name.
+ * @property color - Color of the user (optional).
+ */
+export interface TrackChangesAuthor {
+   id: string;
+   name: string;
+   color?: string;
+}
+
+/**
+ * A change of the document: all text with the same insertion or deletion mark.
+ *
+ * @property id - Unique change id.
+ * @property type - Whether text was inserted or deleted.
+ * @property author - Author of the change.
+ * @property createdAt - ISO timestamp of the change.
+ * @property from - Start of the first marked text.
+ * @property to - End of the last marked text.
+ * @property text - The inserted or deleted text.
+ */
+export interface TrackedChange {
+   id: string;
+   type: 'insertion' | 'deletion';
+   author: TrackChangesAuthor;
+   createdAt: string;
+   from: number;
+   to: number;
+   text: string;
+}
+
+export interface TrackChangesOptions {
+   /**
+    * Returns the author of new changes.
+    */
+   getAuthor: () => TrackChangesAuthor;
+}
+
+/**
+ * State of the track changes plugin.
+ *
+ * @property enabled - Whether edits are recorded as suggestions.
+ */
+export interface TrackChangesState {
+   enabled: boolean;
+}
+
+type TrackChangesMeta = { enabled: boolean } | { skip: true };
+
+export const trackChangesPluginKey = new PluginKey<TrackChangesState>('trackChanges');
+
+/**
+ * Returns the track changes plugin state of an editor state.
+ */
+export const getTrackChangesState = (state: EditorState) => trackChangesPluginKey.getState(state);
+
+const CHANGE_MARKS = ['insertion', 'deletion'] as const;
+
+const createChangeId = () =>
+   typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Returns the change marks of a node.
+ */
+const getChangeMark = (node: ProseMirrorNode | null | undefined) =>
+   node?.marks.find((mark) => (CHANGE_MARKS as readonly string[]).includes(mark.type.name));
+
+/**
+ * Returns the changes of a document, grouped by id, in document order.
+ *
+ * @param doc - The document.
+ * @returns The changes.
+ */
+export const getTrackedChanges = (doc: ProseMirrorNode) => {
+   const changes = new Map<string, TrackedChange>();
+   doc.descendants((node, pos) => {
+      if (!node.isInline) return true;
+      const mark = getChangeMark(node);
+      if (!mark?.attrs.id) return false;
+      const text = node.isText ? (node.text ?? '') : '';
+      const change = changes.get(mark.attrs.id);
+      if (change) {
+         change.to = pos + node.nodeSize;
+         change.text += text;
+      } else {
+         changes.set(mark.attrs.id, {
+            id: mark.attrs.id,
+            type: mark.type.name as TrackedChange['type'],
+            author: {
+               id: mark.attrs.authorId ?? '',
+               name: mark.attrs.authorName ?? '',
+               ...(mark.attrs.authorColor ? { color: mark.attrs.authorColor } : {}),
+            },
+            createdAt: mark.attrs.createdAt ?? '',
+            from: pos,
+            to: pos + node.nodeSize,
+            text,
+         });
+      }
+      return false;
+   });
+   return Array.from(changes.values());
+};
+
+/**
+ * Attributes shared by the insertion and deletion marks.
+ */
+const changeAttributes = () => ({
+   id: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-change-id'),
+      renderHTML: (attributes: Record<string, string | null>) => ({
+         'data-change-id': attributes.id,
+      }),
+   },
+   authorId: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-author-id'),
+      renderHTML: (attributes: Record<string, string | null>) => ({
+         'data-author-id': attributes.authorId,
+      }),
+   },
+   authorName: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-author'),
+      renderHTML: (attributes: Record<string, string | null>) => ({
+         'data-author': attributes.authorName,
+      }),
+   },
+   authorColor: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-author-color'),
+      renderHTML: (attributes: Record<string, string | null>) =>
+         attributes.authorColor ? { 'data-author-color': attributes.authorColor } : {},
+   },
+   createdAt: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-created-at'),
+      renderHTML: (attributes: Record<string, string | null>) => ({
+         'data-created-at': attributes.createdAt,
+      }),
+   },
+});
+
+export const Insertion = Mark.create({
+   name: 'insertion',
+
+   inclusive: false,
+
+   excludes: 'insertion deletion',
+
+   addAttributes: changeAttributes,
+
+   parseHTML() {
+      return [{ tag: 'ins[data-change-id]' }];
+   },
+
+   renderHTML({ HTMLAttributes }) {
+      return ['ins', mergeAttributes(HTMLAttributes), 0];
+   },
+});
+
+export const Deletion = Mark.create({
+   name: 'deletion',
+
+   inclusive: false,
+
+   excludes: 'insertion deletion',
+
+   addAttributes: changeAttributes,
+
+   parseHTML() {
+      return [{ tag: 'del[data-change-id]' }];
+   },
+
+   renderHTML({ HTMLAttributes }) {
+      return ['del', mergeAttributes(HTMLAttributes), 0];
+   },
+});
+
+/**
+ * Whether a transaction was made by the user, as opposed to undo, loading content, other
+ * plugins or collaborators.
+ */
+const isTrackable = (tr: Transaction) =>
+   tr.docChanged &&
+   !tr.getMeta(trackChangesPluginKey) &&
+   !tr.getMeta('appendedTransaction') &&
+   !tr.getMeta('preventUpdate') &&
+   tr.getMeta('addToHistory') !== false &&
+   !tr.getMeta('history$') &&
+   !tr.getMeta('y-sync$');
+
+/**
+ * Returns the id of a change of the same author and type right before or after a range, so an
+ * edit continues it.
+ */
+const findAdjacentChangeId = (
+   doc: ProseMirrorNode,
+   from: number,
+   to: number,
+   type: MarkType,
+   authorId: string
+) => {
+   for (const node of [doc.resolve(from).nodeBefore, doc.resolve(to).nodeAfter]) {
+      const mark = node?.marks.find((mark) => mark.type === type);
+      if (mark && mark.attrs.authorId === authorId && mark.attrs.id) return mark.attrs.id as string;
+   }
+   return null;
+};
+
+/**
+ * Marks the text of a range that is not marked yet as changed by the author, continuing an
+ * adjacent change.
+ */
+const markRange = (
+   tr: Transaction,
+   from: number,
+   to: number,
+   type: MarkType,
+   author: TrackChangesAuthor
+) => {
+   const mark = type.create({
+      id: findAdjacentChangeId(tr.doc, from, to, type, author.id) ?? createChangeId(),
+      authorId: author.id,
+      authorName: author.name,
+      authorColor: author.color ?? null,
+      createdAt: new Date().toISOString(),
+   });
+   tr.doc.nodesBetween(from, to, (node, pos) => {
+      if (!node.isInline) return true;
+      if (!type.isInSet(node.marks)) {
+         tr.addMark(Math.max(from, pos), Math.min(to, pos + node.nodeSize), mark);
+      }
+      return false;
+   });
+};
+
+/**
+ * Whether a deleted slice contains text that would be put back as a deletion: text without an
+ * insertion mark, since deleting a suggested insertion removes it.
+ */
+const hasTrackableText = (slice: Slice) => {
+   let found = false;
+   slice.content.descendants((node) => {
+      if (node.isText && !node.marks.some((mark) => mark.type.name === 'insertion')) found = true;
+      return !found;
+   });
+   return found;
+};
+
+/**
+ * Records the text changes of the user transactions as suggestions: inserted text gets an
+ * insertion mark, deleted text is put back with a deletion mark.
+ *
+ * @param transactions - The applied transactions.
+ * @param oldState - The state before them.
+ * @param newState - The state after them.
+ * @param author - Author of the changes.
+ * @returns A transaction recording the changes, or `null`.
+ */
+const trackTransactions = (
+   transactions: readonly Transaction[],
+   oldState: EditorState,
+   newState: EditorState,
+   author: TrackChangesAuthor
+) => {
+   const { insertion, deletion } = newState.schema.marks;
+   if (!insertion || !deletion) return null;
+
+   // Maps of all steps, to map positions of a step to the new document
+   const stepMaps = transactions.flatMap((tr) => tr.mapping.maps);
+   const inserted: { from: number; to: number }[] = [];
+   const deleted: { pos: number; slice: Slice; backward: boolean }[] = [];
+   let stepIndex = 0;
+   for (const tr of transactions) {
+      const trackable = isTrackable(tr);
+      tr.steps.forEach((step, index) => {
+         stepIndex += 1;
+         if (!trackable || !(step instanceof ReplaceStep)) return;
+         const { from, to, slice } = step;
+         const rest = stepMaps.slice(stepIndex);
+         const map = (pos: number, assoc: number) =>
+            rest.reduce((mapped, stepMap) => stepMap.map(mapped, assoc), pos);
+
+         if (to > from) {
+            const removed = tr.docs[index].slice(from, to);
+            if (hasTrackableText(removed)) {
+               const { selection } = oldState;
+               deleted.push({
+                  pos: map(from, -1),
+                  slice: removed,
+                  // Backspace deletes the text before an empty selection
+                  backward: selection.empty && selection.from === to,
+               });
+            }
+         }
+         if (slice.size > 0) {
+            const start = map(from, 1);
+            const end = map(from + slice.size, -1);
+            if (start < end) inserted.push({ from: start, to: end });
+         }
+      });
+   }
+   if (!inserted.length && !deleted.length) return null;
+
+   const tr = newState.tr;
+   tr.setMeta(trackChangesPluginKey, { skip: true } satisfies TrackChangesMeta);
+
+   // Deleted text is put back before text inserted at the same position
+   let cursor: { pos: number; steps: number } | null = null;
+   for (const { pos, slice, backward } of deleted.sort((a, b) => b.pos - a.pos)) {
+      const at = tr.mapping.map(pos, -1);
+      if (!tr.doc.resolve(at).parent.type.allowsMarkType(deletion)) continue;
+      const size = tr.doc.content.size;
+      tr.replace(at, at, slice);
+      const end = at + tr.doc.content.size - size;
+      const steps = tr.steps.length;
+
+      // Suggested insertions are deleted for real, the remaining text is marked as deleted
+      const suggested: { from: number; to: number }[] = [];
+      tr.doc.nodesBetween(at, end, (node, nodePos) => {
+         if (!node.isInline) return true;
+         if (insertion.isInSet(node.marks)) {
+            suggested.push({
+               from: Math.max(at, nodePos),
+               to: Math.min(end, nodePos + node.nodeSize),
+            });
+         }
+         return false;
+      });
+      let start = at;
+      for (const range of [...suggested, { from: end, to: end }]) {
+         if (range.from > start) markRange(tr, start, range.from, deletion, author);
+         start = range.to;
+      }
+      for (const range of suggested.reverse()) tr.delete(range.from, range.to);
+
+      // Backspace leaves the cursor before the deleted text, Delete after it
+      cursor = {
+         pos: backward ? at : tr.mapping.slice(steps).map(end, -1),
+         steps: tr.steps.length,
+      };
+   }
+
+   for (const { from, to } of inserted) {
+      const start = tr.mapping.map(from, 1);
+      const end = tr.mapping.map(to, -1);
+      if (start >= end) continue;
+      tr.removeMark(start, end, deletion);
+      markRange(tr, start, end, insertion, author);
+   }
+
+   // Only a pure deletion moves the cursor; after an insertion it stays behind the new text
+   if (cursor && !inserted.length) {
+      const pos = tr.mapping.slice(cursor.steps).map(cursor.pos);
+      tr.setSelection(TextSelection.create(tr.doc, pos));
+   }
+   return tr.docChanged ? tr : null;
+};
+
+/**
+ * Accepts or rejects the changes with the given ids, or all changes.
+ *
+ * @param tr - Transaction to add the changes to.
+ * @param ids - Ids of the changes, `null` for all.
+ * @param accept - Whether to accept or reject them.
+ * @returns Whether any change was found.
+ */
+const resolveChanges = (tr: Transaction, ids: string[] | null, accept: boolean) => {
+   const removals: { from: number; to: number }[] = [];
+   const unmarks: { from: number; to: number; type: MarkType }[] = [];
+   tr.doc.descendants((node, pos) => {
+      if (!node.isInline) return true;
+      const mark = getChangeMark(node);
+      if (!mark || (ids && !ids.includes(mark.attrs.id))) return false;
+      const range = { from: pos, to: pos + node.nodeSize };
+      const keep = (mark.type.name === 'insertion') === accept;
+      if (keep) unmarks.push({ ...range, type: mark.type });
+      else removals.push(range);
+      return false;
+   });
+   if (!removals.length && !unmarks.length) return false;
+
+   for (const { from, to, type } of unmarks) tr.removeMark(from, to, type);
+   for (const { from, to } of removals.reverse()) tr.delete(from, to);
+   tr.setMeta(trackChangesPluginKey, { skip: true } satisfies TrackChangesMeta);
+   return true;
+};
+
+export const TrackChanges = Extension.create<TrackChangesOptions>({
+   name: 'trackChanges',
+
+   addOptions() {
+      return {
+         getAuthor: () => ({ id: 'default', name: 'default' }),
+      };
+   },
+
+   addCommands() {
+      const setEnabled =
+         (enabled: (state: EditorState) => boolean) =>
+         () =>
+         ({ state, tr, dispatch }: { state: EditorState; tr: Transaction; dispatch?: unknown }) => {
+            if (dispatch) {
+               tr.setMeta(trackChangesPluginKey, {
+                  enabled: enabled(state),
+               } satisfies TrackChangesMeta);
+            }
+            return true;
+         };
+      const resolve =
+         (ids: string[] | null, accept: boolean) =>
+         ({ tr, dispatch }: { tr: Transaction; dispatch?: unknown }) => {
+            if (!dispatch) return getTrackedChanges(tr.doc).some((c) => !ids || ids.includes(c.id));
+            return resolveChanges(tr, ids, accept);
+         };
+
+      return {
+         setTrackChanges: (enabled) => setEnabled(() => enabled)(),
+         toggleTrackChanges: setEnabled((state) => !getTrackChangesState(state)?.enabled),
+         acceptChange: (id) => resolve([id], true),
+         rejectChange: (id) => resolve([id], false),
+         acceptAllChanges: () => resolve(null, true),
+         rejectAllChanges: () => resolve(null, false),
+      };
+   },
+
+   addProseMirrorPlugins() {
+      return [
+         new Plugin<TrackChangesState>({
+            key: trackChangesPluginKey,
+            state: {
+               init: () => ({ enabled: false }),
+               apply: (tr, value) => {
+                  const meta = tr.getMeta(trackChangesPluginKey) as TrackChangesMeta | undefined;
+                  return meta && 'enabled' in meta ? { enabled: meta.enabled } : value;
+               },
+            },
+            appendTransaction: (transactions, oldState, newState) => {
+               if (!getTrackChangesState(oldState)?.enabled) return null;
+               if (!transactions.some(isTrackable)) return null;
+               return trackTransactions(transactions, oldState, newState, this.options.getAuthor());
+            },
+         }),
+      ];
+   },
+});
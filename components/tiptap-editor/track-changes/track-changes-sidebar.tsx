@@ -0,0 +1,210 @@
+'use client';
+
+/**
+ * @module TrackChangesSidebar
+ *
+ * This module provides the sidebar listing the suggested changes of the document in document
+ * order, with their author and time.
+ *
+ * @remarks
+ * - Every change can be accepted or rejected; the header accepts or rejects all of them.
+ * - Clicking a change selects its text.
+ * - The list follows the document, so changes resolved by undo or by collaborators disappear.
+ *
+ * @example
+ * ```tsx
+ * <TrackChangesSidebar editor={editor} onClose={() => setOpen(false)} />
+ * ```
+ *
+ * @property editor - The editor instance.
+ * @property onClose - Callback fired when the sidebar is closed; without it there is no close button.
+ * @property className - Custom CSS class for the sidebar.
+ */
+import * as React from 'react';
+import { type Editor, useEditorState } from '@tiptap/react';
+import { Check, CheckCheck, FileDiff, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { i18n } from '../i18n';
+import { cn } from '../tiptap-utils';
+import { getTrackedChanges, type TrackedChange } from './track-changes-extension';
+
+interface TrackChangesSidebarProps {
+   editor: Editor;
+   onClose?: () => void;
+   className?: string;
+}
+
+/**
+ * Formats the time of a change in the current UI language.
+ */
+const formatTimestamp = (createdAt: string) =>
+   createdAt
+      ? new Date(createdAt).toLocaleString(i18n.getCurrentLanguage(), {
+           dateStyle: 'medium',
+           timeStyle: 'short',
+        })
+      : '';
+
+const ChangeCard = ({
+   change,
+   editable,
+   onSelect,
+   onAccept,
+   onReject,
+}: {
+   change: TrackedChange;
+   editable: boolean;
+   onSelect: () => void;
+   onAccept: () => void;
+   onReject: () => void;
+}) => (
+   <li className="rounded-md border border-muted p-2 text-left" onClick={onSelect}>
+      <div className="mb-1 flex items-center gap-2">
+         <span
+            className="h-2 w-2 shrink-0 rounded-full bg-muted-foreground"
+            style={change.author.color ? { backgroundColor: change.author.color } : undefined}
+            aria-hidden
+         />
+         <span className="min-w-0 flex-1 truncate text-xs font-medium">
+            {change.author.name || change.author.id}
+         </span>
+         {editable && (
+            <div className="flex shrink-0 gap-1">
+               <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title={i18n.t('ACCEPT')}
+                  onClick={(event) => {
+                     event.stopPropagation();
+                     onAccept();
+                  }}
+               >
+                  <Check className="h-3.5 w-3.5" />
+               </Button>
+               <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title={i18n.t('REJECT')}
+                  onClick={(event) => {
+                     event.stopPropagation();
+                     onReject();
+                  }}
+               >
+                  <X className="h-3.5 w-3.5" />
+               </Button>
+            </div>
+         )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+         {i18n.t(change.type === 'insertion' ? 'INSERTED' : 'DELETED')}
+         {change.createdAt && (
+            <>
+               {' · '}
+               <time dateTime={change.createdAt}>{formatTimestamp(change.createdAt)}</time>
+            </>
+         )}
+      </p>
+      <p
+         className={cn(
+            'mt-1 line-clamp-3 break-words text-sm',
+            change.type === 'insertion'
+               ? 'text-green-700 underline dark:text-green-400'
+               : 'text-red-700 line-through dark:text-red-400'
+         )}
+      >
+         {change.text}
+      </p>
+   </li>
+);
+
+export const TrackChangesSidebar = ({ editor, onClose, className }: TrackChangesSidebarProps) => {
+   const { changes, editable } = useEditorState({
+      editor,
+      selector: (ctx) => ({
+         changes: getTrackedChanges(ctx.editor.state.doc),
+         editable: ctx.editor.isEditable,
+      }),
+   });
+
+   const selectChange = (change: TrackedChange) => {
+      editor.chain().focus().setTextSelection({ from: change.from, to: change.to }).run();
+      const { node } = editor.view.domAtPos(change.from);
+      const element = node instanceof HTMLElement ? node : node.parentElement;
+      element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+   };
+
+   return (
+      <aside
+         className={cn(
+            'flex w-72 shrink-0 flex-col rounded-md border-2 border-muted bg-background',
+            className
+         )}
+         aria-label={i18n.t('TRACKED_CHANGES')}
+      >
+         <div className="flex items-center justify-between border-b px-3 py-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+               <FileDiff className="h-4 w-4" />
+               {i18n.t('TRACKED_CHANGES')}
+            </div>
+            {onClose && (
+               <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={onClose}
+                  title={i18n.t('CLOSE')}
+               >
+                  <X className="h-4 w-4" />
+               </Button>
+            )}
+         </div>
+
+         {editable && changes.length > 0 && (
+            <div className="flex gap-2 border-b px-3 py-2">
+               <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => editor.chain().focus().acceptAllChanges().run()}
+               >
+                  <CheckCheck className="h-4 w-4" />
+                  {i18n.t('ACCEPT_ALL')}
+               </Button>
+               <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => editor.chain().focus().rejectAllChanges().run()}
+               >
+                  <X className="h-4 w-4" />
+                  {i18n.t('REJECT_ALL')}
+               </Button>
+            </div>
+         )}
+
+         <ScrollArea className="max-h-[480px] flex-1">
+            {changes.length === 0 ? (
+               <p className="p-4 text-center text-sm text-muted-foreground">
+                  {i18n.t('NO_TRACKED_CHANGES')}
+               </p>
+            ) : (
+               <ul className="flex flex-col gap-2 p-2">
+                  {changes.map((change) => (
+                     <ChangeCard
+                        key={change.id}
+                        change={change}
+                        editable={editable}
+                        onSelect={() => selectChange(change)}
+                        onAccept={() => editor.chain().focus().acceptChange(change.id).run()}
+                        onReject={() => editor.chain().focus().rejectChange(change.id).run()}
+                     />
+                  ))}
+               </ul>
+            )}
+         </ScrollArea>
+      </aside>
+   );
+};
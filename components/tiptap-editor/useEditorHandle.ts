@@ -0,0 +1,205 @@
+/**
+ * @module useEditorHandle
+ *
+ * This module provides the imperative handle exposed by the Tiptap component through its `ref`.
+ *
+ * @remarks
+ * - The handle keeps the same identity for the lifetime of the component; its methods always
+ *   act on the current editor, so it is safe to store it or use it in effects.
+ * - Methods called before the editor is created do nothing and getters return empty values.
+ * - Event subscriptions return a function that removes the listener again.
+ *
+ * @example
+ * ```tsx
+ * const editorRef = useRef<TiptapHandle>(null);
+ *
+ * useEffect(() => editorRef.current?.onSave((document) => console.log('saved', document)), []);
+ *
+ * <Tiptap ref={editorRef} />
+ * <button onClick={() => editorRef.current?.insertContent('<p>Hello</p>')}>Insert</button>
+ * ```
+ */
+import { useEffect, useImperativeHandle, useRef, type ForwardedRef } from 'react';
+import type { Content, Editor, FocusPosition, JSONContent } from '@tiptap/react';
+import { getMarkdown } from './extensions/import-export';
+import type { StoredDocument } from './storage';
+
+/**
+ * The selection passed to `onSelectionChange` listeners.
+ *
+ * @property from - Start position of the selection.
+ * @property to - End position of the selection.
+ * @property empty - Whether the selection is a cursor.
+ * @property text - Selected text, empty for a cursor.
+ */
+export interface EditorSelection {
+   from: number;
+   to: number;
+   empty: boolean;
+   text: string;
+}
+
+/**
+ * Removes a listener added with one of the `on…` methods.
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Imperative API of the Tiptap component.
+ */
+export interface TiptapHandle {
+   /**
+    * Returns the underlying editor, `null` until it is created.
+    */
+   getEditor: () => Editor | null;
+   /**
+    * Focuses the editor, optionally moving the cursor.
+    */
+   focus: (position?: FocusPosition) => void;
+   /**
+    * Inserts content (JSON, HTML or text) at the cursor, replacing the selection.
+    */
+   insertContent: (content: Content) => void;
+   /**
+    * Replaces the whole document. The change can be undone.
+    * Pass `emitUpdate: false` to skip `onChange` and autosaving.
+    */
+   setContent: (content: Content, options?: { emitUpdate?: boolean }) => void;
+   /**
+    * Returns the document as JSON.
+    */
+   getJSON: () => JSONContent | null;
+   /**
+    * Returns the document as HTML.
+    */
+   getHTML: () => string;
+   /**
+    * Returns the document as Markdown.
+    */
+   getMarkdown: () => string;
+   /**
+    * Clears the editor and the stored document, like the clear button.
+    */
+   clear: () => Promise<void>;
+   /**
+    * Saves pending changes right away instead of waiting for the autosave.
+    */
+   save: () => Promise<void>;
+   /**
+    * Called when the selection changes without the document changing.
+    */
+   onSelectionChange: (listener: (selection: EditorSelection) => void) => Unsubscribe;
+   /**
+    * Called when the editor gains focus.
+    */
+   onFocus: (listener: (event: FocusEvent) => void) => Unsubscribe;
+   /**
+    * Called when the editor loses focus.
+    */
+   onBlur: (listener: (event: FocusEvent) => void) => Unsubscribe;
+   /**
+    * Called after the document was stored by the storage adapter.
+    */
+   onSave: (listener: (document: StoredDocument) => void) => Unsubscribe;
+}
+
+interface EditorHandleActions {
+   clear: () => Promise<void>;
+   save: () => Promise<void>;
+}
+
+interface Listeners {
+   selectionChange: Set<(selection: EditorSelection) => void>;
+   focus: Set<(event: FocusEvent) => void>;
+   blur: Set<(event: FocusEvent) => void>;
+   save: Set<(document: StoredDocument) => void>;
+}
+
+const subscribe = <T>(listeners: Set<T>, listener: T): Unsubscribe => {
+   listeners.add(listener);
+   return () => {
+      listeners.delete(listener);
+   };
+};
+
+/**
+ * Exposes a `TiptapHandle` through `ref`.
+ *
+ * @param ref - The ref forwarded to the Tiptap component.
+ * @param editor - The current editor, `null` while it is created.
+ * @param actions - Component actions behind `clear` and `save`.
+ * @returns `emitSave`, to be called after every successful save.
+ */
+export const useEditorHandle = (
+   ref: ForwardedRef<TiptapHandle>,
+   editor: Editor | null,
+   actions: EditorHandleActions
+) => {
+   // The handle is created once and reads the latest values from these refs
+   const editorRef = useRef(editor);
+   const actionsRef = useRef(actions);
+   useEffect(() => {
+      editorRef.current = editor;
+      actionsRef.current = actions;
+   });
+
+   const listenersRef = useRef<Listeners>({
+      selectionChange: new Set(),
+      focus: new Set(),
+      blur: new Set(),
+      save: new Set(),
+   });
+
+   useEffect(() => {
+      if (!editor) return;
+      const listeners = listenersRef.current;
+      const onSelectionUpdate = ({ editor }: { editor: Editor }) => {
+         const { from, to, empty } = editor.state.selection;
+         const text = editor.state.doc.textBetween(from, to, ' ');
+         listeners.selectionChange.forEach((listener) => listener({ from, to, empty, text }));
+      };
+      const onFocus = ({ event }: { event: FocusEvent }) =>
+         listeners.focus.forEach((listener) => listener(event));
+      const onBlur = ({ event }: { event: FocusEvent }) =>
+         listeners.blur.forEach((listener) => listener(event));
+
+      editor.on('selectionUpdate', onSelectionUpdate);
+      editor.on('focus', onFocus);
+      editor.on('blur', onBlur);
+      return () => {
+         editor.off('selectionUpdate', onSelectionUpdate);
+         editor.off('focus', onFocus);
+         editor.off('blur', onBlur);
+      };
+   }, [editor]);
+
+   useImperativeHandle(ref, () => {
+      const listeners = listenersRef.current;
+      return {
+         getEditor: () => editorRef.current,
+         focus: (position) => {
+            editorRef.current?.commands.focus(position);
+         },
+         insertContent: (content) => {
+            editorRef.current?.chain().focus().insertContent(content).run();
+         },
+         setContent: (content, { emitUpdate = true } = {}) => {
+            editorRef.current?.commands.setContent(content, { emitUpdate });
+         },
+         getJSON: () => editorRef.current?.getJSON() ?? null,
+         getHTML: () => editorRef.current?.getHTML() ?? '',
+         getMarkdown: () => (editorRef.current ? getMarkdown(editorRef.current) : ''),
+         clear: () => actionsRef.current.clear(),
+         save: () => actionsRef.current.save(),
+         onSelectionChange: (listener) => subscribe(listeners.selectionChange, listener),
+         onFocus: (listener) => subscribe(listeners.focus, listener),
+         onBlur: (listener) => subscribe(listeners.blur, listener),
+         onSave: (listener) => subscribe(listeners.save, listener),
+      };
+   }, []);
+
+   const emitSave = (document: StoredDocument) =>
+      listenersRef.current.save.forEach((listener) => listener(document));
+
+   return { emitSave };
+};
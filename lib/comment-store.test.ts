@@ -0,0 +1,54 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+   CommentThreadExistsError,
+   addComment,
+   createThread,
+   listThreads,
+   setThreadResolved,
+} from './comment-store';
+
+const author = { id: 'ada', name: 'Ada' };
+
+const comment = (id: string, body: string) => ({
+   id,
+   author,
+   body,
+   createdAt: new Date().toISOString(),
+});
+
+describe('comment store', () => {
+   let dir: string;
+
+   beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'comments-'));
+      process.env.COMMENTS_DIR = dir;
+   });
+
+   afterEach(async () => {
+      delete process.env.COMMENTS_DIR;
+      await rm(dir, { recursive: true, force: true });
+   });
+
+   it('keeps a stored thread when it is created again', async () => {
+      const thread = {
+         id: 'thread',
+         quote: 'Draft',
+         createdAt: new Date().toISOString(),
+         comments: [comment('first', 'Looks good')],
+      };
+      await createThread('post', thread);
+      await addComment('post', 'thread', comment('reply', 'Agreed'));
+      await setThreadResolved('post', 'thread', true, author);
+
+      const error = await createThread('post', thread).catch((error: unknown) => error);
+      expect(error).toBeInstanceOf(CommentThreadExistsError);
+      expect((error as CommentThreadExistsError).current.comments).toHaveLength(2);
+
+      const [stored] = await listThreads('post');
+      expect(stored.resolved).toBe(true);
+      expect(stored.comments.map((item) => item.id)).toEqual(['first', 'reply']);
+   });
+});
@@ -0,0 +1,188 @@
+/**
+ * @module CommentStore
+ *
+ * Filesystem-backed comment thread store used by the `/api/comments` routes.
+ * The threads of a document are one JSON file, `data/comments/<documentId>.json`
+ * (override with `COMMENTS_DIR`).
+ *
+ * @remarks
+ * - Threads are anchored in the document by a comment mark carrying the thread id; this store
+ *   only keeps the conversation.
+ * - Replies and resolving are separate operations, so concurrent replies are never lost.
+ * - Writes go to a temporary file first and are renamed into place, and writes to the threads of
+ *   the same document are serialized within the process.
+ */
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type { CommentAuthorSchema, CommentSchema, CommentThreadSchema } from '@/schemas/comment';
+
+/**
+ * A stored comment thread.
+ */
+export interface CommentThreadRecord {
+   id: string;
+   quote: string;
+   createdAt: string;
+   resolved: boolean;
+   resolvedAt?: string;
+   resolvedBy?: CommentAuthorSchema;
+   comments: CommentSchema[];
+}
+
+/**
+ * Thrown when a thread does not exist.
+ */
+export class CommentThreadNotFoundError extends Error {
+   constructor(documentId: string, threadId: string) {
+      super(`Comment thread not found: ${documentId}/${threadId}`);
+      this.name = 'CommentThreadNotFoundError';
+   }
+}
+
+/**
+ * Thrown when a thread is created with the id of a stored thread. Carries the stored thread.
+ */
+export class CommentThreadExistsError extends Error {
+   current: CommentThreadRecord;
+
+   constructor(documentId: string, current: CommentThreadRecord) {
+      super(`Comment thread already exists: ${documentId}/${current.id}`);
+      this.name = 'CommentThreadExistsError';
+      this.current = current;
+   }
+}
+
+const getCommentsDir = () => process.env.COMMENTS_DIR || join(process.cwd(), 'data', 'comments');
+
+const getThreadsPath = (documentId: string) => join(getCommentsDir(), `${documentId}.json`);
+
+// Pending write per document id, used to serialize writes
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `task` after every previously queued task for the same document has settled.
+ */
+const withLock = <T>(documentId: string, task: () => Promise<T>): Promise<T> => {
+   const previous = locks.get(documentId) ?? Promise.resolve();
+   const next = previous.catch(() => undefined).then(task);
+   locks.set(documentId, next);
+   return next.finally(() => {
+      if (locks.get(documentId) === next) locks.delete(documentId);
+   });
+};
+
+const readThreads = async (documentId: string): Promise<CommentThreadRecord[]> => {
+   try {
+      return JSON.parse(await readFile(getThreadsPath(documentId), 'utf8'));
+   } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+   }
+};
+
+const writeThreads = async (documentId: string, threads: CommentThreadRecord[]) => {
+   await mkdir(getCommentsDir(), { recursive: true });
+   const path = getThreadsPath(documentId);
+   const tempPath = `${path}.${randomUUID()}.tmp`;
+   await writeFile(tempPath, JSON.stringify(threads, null, 2), 'utf8');
+   await rename(tempPath, path);
+};
+
+/**
+ * Applies `update` to a thread and stores the result.
+ *
+ * @throws CommentThreadNotFoundError when the thread does not exist.
+ */
+const updateThread = (
+   documentId: string,
+   threadId: string,
+   update: (thread: CommentThreadRecord) => CommentThreadRecord
+) =>
+   withLock(documentId, async () => {
+      const threads = await readThreads(documentId);
+      const index = threads.findIndex((thread) => thread.id === threadId);
+      if (index === -1) throw new CommentThreadNotFoundError(documentId, threadId);
+      threads[index] = update(threads[index]);
+      await writeThreads(documentId, threads);
+      return threads[index];
+   });
+
+/**
+ * Lists the threads of a document, oldest first.
+ */
+export async function listThreads(documentId: string): Promise<CommentThreadRecord[]> {
+   const threads = await readThreads(documentId);
+   return threads.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Stores a new thread.
+ *
+ * @throws CommentThreadExistsError when a thread with the id already exists.
+ */
+export async function createThread(
+   documentId: string,
+   input: CommentThreadSchema
+): Promise<CommentThreadRecord> {
+   return withLock(documentId, async () => {
+      const thread: CommentThreadRecord = { ...input, resolved: input.resolved ?? false };
+      const threads = await readThreads(documentId);
+      const existing = threads.find((item) => item.id === thread.id);
+      if (existing) throw new CommentThreadExistsError(documentId, existing);
+      await writeThreads(documentId, [...threads, thread]);
+      return thread;
+   });
+}
+
+/**
+ * Adds a reply to a thread. A reply with an id that is already in the thread is ignored.
+ *
+ * @throws CommentThreadNotFoundError when the thread does not exist.
+ */
+export async function addComment(
+   documentId: string,
+   threadId: string,
+   comment: CommentSchema
+): Promise<CommentThreadRecord> {
+   return updateThread(documentId, threadId, (thread) =>
+      thread.comments.some((item) => item.id === comment.id)
+         ? thread
+         : { ...thread, comments: [...thread.comments, comment] }
+   );
+}
+
+/**
+ * Resolves or reopens a thread.
+ *
+ * @throws CommentThreadNotFoundError when the thread does not exist.
+ */
+export async function setThreadResolved(
+   documentId: string,
+   threadId: string,
+   resolved: boolean,
+   resolvedBy?: CommentAuthorSchema
+): Promise<CommentThreadRecord> {
+   return updateThread(documentId, threadId, (thread) => ({
+      ...thread,
+      resolved,
+      resolvedAt: resolved ? new Date().toISOString() : undefined,
+      resolvedBy: resolved ? resolvedBy : undefined,
+   }));
+}
+
+/**
+ * Deletes a thread.
+ *
+ * @throws CommentThreadNotFoundError when the thread does not exist.
+ */
+export async function deleteThread(documentId: string, threadId: string): Promise<void> {
+   return withLock(documentId, async () => {
+      const threads = await readThreads(documentId);
+      const remaining = threads.filter((thread) => thread.id !== threadId);
+      if (remaining.length === threads.length) {
+         throw new CommentThreadNotFoundError(documentId, threadId);
+      }
+      await writeThreads(documentId, remaining);
+   });
+}
@@ -0,0 +1,63 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+   DocumentNotFoundError,
+   createDocument,
+   deleteDocument,
+   deleteSnapshots,
+   getDocument,
+   getSnapshot,
+   listSnapshots,
+   saveSnapshot,
+   updateDocument,
+} from './document-store';
+
+const content = (text: string) => ({
+   type: 'doc',
+   content: [{ type: 'paragraph', content: [{ type: 'text', text }] }],
+});
+
+describe('document store', () => {
+   let dir: string;
+
+   beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'documents-'));
+      process.env.DOCUMENTS_DIR = dir;
+   });
+
+   afterEach(async () => {
+      delete process.env.DOCUMENTS_DIR;
+      await rm(dir, { recursive: true, force: true });
+   });
+
+   it('restores a cleared document from the snapshot taken before clearing', async () => {
+      await createDocument({ id: 'post', json: content('Draft') });
+      // What clearing the editor does with the HTTP adapter
+      await saveSnapshot('post', {
+         id: 'before-clear',
+         name: 'Before clear',
+         createdAt: new Date().toISOString(),
+         wordCount: 1,
+         json: content('Draft'),
+      });
+      await deleteDocument('post');
+
+      await expect(getDocument('post')).rejects.toThrow(DocumentNotFoundError);
+      const snapshot = await getSnapshot('post', 'before-clear');
+      await updateDocument('post', { json: snapshot.json });
+
+      expect((await getDocument('post')).json).toEqual(content('Draft'));
+   });
+
+   it('deletes all snapshots of a document', async () => {
+      const createdAt = new Date().toISOString();
+      await saveSnapshot('post', { id: 'a', createdAt, wordCount: 1, json: content('A') });
+      await saveSnapshot('post', { id: 'b', createdAt, wordCount: 1, json: content('B') });
+
+      await deleteSnapshots('post');
+
+      expect(await listSnapshots('post')).toEqual([]);
+   });
+});
@@ -0,0 +1,311 @@
+/**
+ * @module DocumentStore
+ *
+ * Filesystem-backed document store used by the `/api/documents` routes.
+ * Every document is a JSON file in `data/documents/<id>.json` (override with `DOCUMENTS_DIR`).
+ *
+ * @remarks
+ * - Each document carries a `revision` that is incremented on every update.
+ * - Updates must name the revision they are based on; a mismatch throws `RevisionConflictError`.
+ * - Writes go to a temporary file first and are renamed into place, so readers never see partial files.
+ * - Writes to the same document are serialized within the process.
+ * - Version history snapshots live next to their document in `<id>.snapshots/<snapshotId>.json`.
+ *   Deleting the document keeps them, so a cleared document can be restored from the snapshot
+ *   taken before; `deleteSnapshots` removes them.
+ */
+import { mkdir, readdir, readFile, rename, rm, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type { JSONContent } from '@tiptap/react';
+
+/**
+ * A stored document.
+ */
+export interface DocumentRecord {
+   id: string;
+   title?: string;
+   json: JSONContent;
+   html?: string;
+   revision: number;
+   createdAt: string;
+   updatedAt: string;
+}
+
+/**
+ * Document metadata returned by `listDocuments`.
+ */
+export type DocumentSummary = Omit<DocumentRecord, 'json' | 'html'>;
+
+/**
+ * A stored version history snapshot.
+ */
+export interface SnapshotRecord {
+   id: string;
+   name?: string;
+   auto?: boolean;
+   createdAt: string;
+   wordCount: number;
+   json: JSONContent;
+}
+
+/**
+ * Snapshot metadata returned by `listSnapshots`.
+ */
+export type SnapshotSummary = Omit<SnapshotRecord, 'json'>;
+
+/**
+ * Thrown when a document or snapshot does not exist.
+ */
+export class DocumentNotFoundError extends Error {
+   constructor(id: string) {
+      super(`Document not found: ${id}`);
+      this.name = 'DocumentNotFoundError';
+   }
+}
+
+/**
+ * Thrown when an update is based on an outdated revision, or a create targets an existing id.
+ */
+export class RevisionConflictError extends Error {
+   current: DocumentRecord;
+
+   constructor(current: DocumentRecord) {
+      super(`Revision conflict: document ${current.id} is at revision ${current.revision}`);
+      this.name = 'RevisionConflictError';
+      this.current = current;
+   }
+}
+
+const getDocumentsDir = () => process.env.DOCUMENTS_DIR || join(process.cwd(), 'data', 'documents');
+
+const getDocumentPath = (id: string) => join(getDocumentsDir(), `${id}.json`);
+
+const getSnapshotsDir = (id: string) => join(getDocumentsDir(), `${id}.snapshots`);
+
+// Pending write per document id, used to serialize writes
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `task` after every previously queued task for the same id has settled.
+ */
+const withLock = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+   const previous = locks.get(id) ?? Promise.resolve();
+   const next = previous.catch(() => undefined).then(task);
+   locks.set(id, next);
+   return next.finally(() => {
+      if (locks.get(id) === next) locks.delete(id);
+   });
+};
+
+const readJSON = async <T>(path: string): Promise<T | null> => {
+   try {
+      return JSON.parse(await readFile(path, 'utf8'));
+   } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+   }
+};
+
+const writeJSON = async (dir: string, path: string, data: unknown) => {
+   await mkdir(dir, { recursive: true });
+   const tempPath = `${path}.${randomUUID()}.tmp`;
+   await writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+   await rename(tempPath, path);
+};
+
+const readDocument = (id: string) => readJSON<DocumentRecord>(getDocumentPath(id));
+
+const writeDocument = (document: DocumentRecord) =>
+   writeJSON(getDocumentsDir(), getDocumentPath(document.id), document);
+
+/**
+ * Lists all documents, most recently updated first.
+ */
+export async function listDocuments(): Promise<DocumentSummary[]> {
+   let files: string[];
+   try {
+      files = await readdir(getDocumentsDir());
+   } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+   }
+
+   const documents = await Promise.all(
+      files.filter((file) => file.endsWith('.json')).map((file) => readDocument(file.slice(0, -5)))
+   );
+
+   return documents
+      .filter((document): document is DocumentRecord => document !== null)
+      .map(({ id, title, revision, createdAt, updatedAt }) => ({
+         id,
+         title,
+         revision,
+         createdAt,
+         updatedAt,
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Reads a document.
+ *
+ * @throws DocumentNotFoundError when the document does not exist.
+ */
+export async function getDocument(id: string): Promise<DocumentRecord> {
+   const document = await readDocument(id);
+   if (!document) throw new DocumentNotFoundError(id);
+   return document;
+}
+
+/**
+ * Creates a document at revision 1.
+ *
+ * @throws RevisionConflictError when a document with the id already exists.
+ */
+export async function createDocument(input: {
+   id?: string;
+   title?: string;
+   json: JSONContent;
+   html?: string;
+}): Promise<DocumentRecord> {
+   const id = input.id ?? randomUUID();
+   return withLock(id, async () => {
+      const existing = await readDocument(id);
+      if (existing) throw new RevisionConflictError(existing);
+
+      const now = new Date().toISOString();
+      const document: DocumentRecord = {
+         id,
+         title: input.title,
+         json: input.json,
+         html: input.html,
+         revision: 1,
+         createdAt: now,
+         updatedAt: now,
+      };
+      await writeDocument(document);
+      return document;
+   });
+}
+
+/**
+ * Updates a document and increments its revision.
+ * A missing document is created when no base revision (or revision 0) is given.
+ *
+ * @throws RevisionConflictError when `revision` does not match the stored revision.
+ * @throws DocumentNotFoundError when a base revision is given for a missing document.
+ */
+export async function updateDocument(
+   id: string,
+   input: { revision?: number; title?: string; json: JSONContent; html?: string }
+): Promise<DocumentRecord> {
+   return withLock(id, async () => {
+      const existing = await readDocument(id);
+      const baseRevision = input.revision ?? 0;
+      const currentRevision = existing?.revision ?? 0;
+      if (!existing && baseRevision > 0) {
+         throw new DocumentNotFoundError(id);
+      }
+      if (existing && baseRevision !== currentRevision) {
+         throw new RevisionConflictError(existing);
+      }
+
+      const now = new Date().toISOString();
+      const document: DocumentRecord = {
+         id,
+         title: input.title ?? existing?.title,
+         json: input.json,
+         html: input.html,
+         revision: currentRevision + 1,
+         createdAt: existing?.createdAt ?? now,
+         updatedAt: now,
+      };
+      await writeDocument(document);
+      return document;
+   });
+}
+
+/**
+ * Deletes a document. Its snapshots are kept.
+ *
+ * @throws DocumentNotFoundError when the document does not exist.
+ */
+export async function deleteDocument(id: string): Promise<void> {
+   return withLock(id, async () => {
+      try {
+         await unlink(getDocumentPath(id));
+      } catch (error) {
+         if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new DocumentNotFoundError(id);
+         }
+         throw error;
+      }
+   });
+}
+
+/**
+ * Lists the snapshots of a document, newest first.
+ */
+export async function listSnapshots(id: string): Promise<SnapshotSummary[]> {
+   let files: string[];
+   try {
+      files = await readdir(getSnapshotsDir(id));
+   } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+   }
+
+   const snapshots = await Promise.all(
+      files
+         .filter((file) => file.endsWith('.json'))
+         .map((file) => readJSON<SnapshotRecord>(join(getSnapshotsDir(id), file)))
+   );
+
+   return snapshots
+      .filter((snapshot): snapshot is SnapshotRecord => snapshot !== null)
+      .map(({ id, name, auto, createdAt, wordCount }) => ({ id, name, auto, createdAt, wordCount }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Reads a snapshot.
+ *
+ * @throws DocumentNotFoundError when the snapshot does not exist.
+ */
+export async function getSnapshot(id: string, snapshotId: string): Promise<SnapshotRecord> {
+   const snapshot = await readJSON<SnapshotRecord>(join(getSnapshotsDir(id), `${snapshotId}.json`));
+   if (!snapshot) throw new DocumentNotFoundError(`${id}/${snapshotId}`);
+   return snapshot;
+}
+
+/**
+ * Stores a snapshot, replacing any snapshot with the same id.
+ */
+export async function saveSnapshot(id: string, snapshot: SnapshotRecord): Promise<SnapshotRecord> {
+   const dir = getSnapshotsDir(id);
+   await writeJSON(dir, join(dir, `${snapshot.id}.json`), snapshot);
+   return snapshot;
+}
+
+/**
+ * Deletes all snapshots of a document.
+ */
+export async function deleteSnapshots(id: string): Promise<void> {
+   await rm(getSnapshotsDir(id), { recursive: true, force: true });
+}
+
+/**
+ * Deletes a snapshot.
+ *
+ * @throws DocumentNotFoundError when the snapshot does not exist.
+ */
+export async function deleteSnapshot(id: string, snapshotId: string): Promise<void> {
+   try {
+      await unlink(join(getSnapshotsDir(id), `${snapshotId}.json`));
+   } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+         throw new DocumentNotFoundError(`${id}/${snapshotId}`);
+      }
+      throw error;
+   }
+}
@@ -0,0 +1,114 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { convertHTMLToDocx } from './docx-export';
+import type { PageSetupSchema } from '@/schemas/export';
+
+/**
+ * Converts HTML and returns the XML parts of the DOCX file.
+ */
+const convert = async (html: string, page?: PageSetupSchema) => {
+   const zip = await JSZip.loadAsync(await convertHTMLToDocx(html, page));
+   const read = (path: string) => zip.file(path)?.async('string') ?? Promise.resolve('');
+   const footers = await Promise.all(
+      Object.keys(zip.files)
+         .filter((path) => /^word\/footer\d*\.xml$/.test(path))
+         .map((path) => read(path))
+   );
+   return {
+      document: await read('word/document.xml'),
+      footnotes: await read('word/footnotes.xml'),
+      relationships: await read('word/_rels/document.xml.rels'),
+      contentTypes: await read('[Content_Types].xml'),
+      footers: footers.join(''),
+   };
+};
+
+// Markers the exporter puts into the HTML; none may be left in the file
+const MARKERS = /[\uE000-\uE009]/;
+
+const callout = (type: string, title: string, content: string) =>
+   `<aside data-callout="${type}"><div data-callout-header><strong data-callout-title>${title}</strong></div><div data-callout-content>${content}</div></aside>`;
+
+describe('convertHTMLToDocx', () => {
+   it('turns footnote references and the endnotes section into Word footnotes', async () => {
+      const { document, footnotes, relationships, contentTypes } = await convert(
+         '<p>Claim<sup><a role="doc-noteref" href="#fn-a">1</a></sup> and another' +
+            '<sup><a role="doc-noteref" href="#fn-b">2</a></sup>.</p>' +
+            '<section role="doc-endnotes"><ol>' +
+            '<li id="fn-a" role="doc-endnote"><p>First source</p></li>' +
+            '<li id="fn-b" role="doc-endnote"><p>Second &amp; last</p></li>' +
+            '</ol></section>'
+      );
+      expect(document).toContain('<w:footnoteReference w:id="1"/>');
+      expect(document).toContain('<w:footnoteReference w:id="2"/>');
+      expect(document).not.toContain('First source');
+      expect(footnotes).toMatch(/<w:footnote w:id="1">.*First source.*<\/w:footnote>/);
+      expect(footnotes).toContain('Second &amp; last');
+      expect(relationships).toContain('Target="footnotes.xml"');
+      expect(contentTypes).toContain('PartName="/word/footnotes.xml"');
+      expect(document).not.toMatch(MARKERS);
+   });
+
+   it('turns suggested changes into Word insertions and deletions', async () => {
+      const { document } = await convert(
+         '<p>Keep <ins data-change-id="1" data-author="Ada" data-created-at="2026-01-02T03:04:05.678Z">new</ins>' +
+            ' <del data-change-id="2" data-author="Linus">old</del> text</p>'
+      );
+      expect(document).toMatch(
+         /<w:ins w:id="1" w:author="Ada" w:date="2026-01-02T03:04:05Z">.*?new.*?<\/w:ins>/
+      );
+      expect(document).toMatch(
+         /<w:del w:id="2" w:author="Linus"[^>]*>.*?<w:delText xml:space="preserve">old<\/w:delText>/
+      );
+      expect(document).not.toMatch(MARKERS);
+   });
+
+   it('shades the paragraphs of callouts in the color of their type, also when nested', async () => {
+      const { document } = await convert(
+         callout(
+            'tip',
+            'Hint',
+            `<p>Outer text</p>${callout('danger', 'Careful', '<p>Inner text</p>')}`
+         ) + '<p>After</p>'
+      );
+      const paragraphs = document.match(/<w:p>[\s\S]*?<\/w:p>/g) ?? [];
+      const fillOf = (text: string) =>
+         paragraphs.find((paragraph) => paragraph.includes(text))?.match(/w:fill="(\w+)"/)?.[1];
+      expect(fillOf('Hint')).toBe('F0FDF4');
+      expect(fillOf('Outer text')).toBe('F0FDF4');
+      expect(fillOf('Careful')).toBe('FEF2F2');
+      expect(fillOf('Inner text')).toBe('FEF2F2');
+      expect(fillOf('After')).toBeUndefined();
+      expect(document).not.toMatch(MARKERS);
+   });
+
+   it('turns columns into a borderless table, columns without a width sharing the rest', async () => {
+      const { document } = await convert(
+         '<div data-columns><div data-column><p>Left</p></div>' +
+            '<div data-column data-width="25"><p>Right</p></div></div>'
+      );
+      const widths = [...document.matchAll(/<w:gridCol w:w="(\d+)"\/>/g)].map(([, width]) =>
+         Number(width)
+      );
+      expect(widths).toHaveLength(2);
+      expect(widths[0] / (widths[0] + widths[1])).toBeCloseTo(0.75, 2);
+      expect(document).not.toMatch(/<w:(top|left|bottom|right) w:val="single"/);
+      expect(document).toContain('Left');
+      expect(document).not.toMatch(MARKERS);
+   });
+
+   it('sets the paper size and margins and writes the footer before the page number', async () => {
+      const { document, footers } = await convert('<p>Body</p>', {
+         size: 'letter',
+         margins: { top: 25.4, right: 20, bottom: 25.4, left: 20 },
+         header: '',
+         footer: 'Draft & notes',
+      });
+      expect(document).toMatch(/<w:pgSz w:w="12240" w:h="15840"/);
+      expect(document).toMatch(
+         /<w:pgMar w:top="1440" w:right="1134" w:bottom="1440" w:left="1134"/
+      );
+      expect(footers).toContain('Draft &amp; notes');
+      expect(footers).toContain('PAGE');
+   });
+});
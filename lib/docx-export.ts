@@ -0,0 +1,539 @@
+/**
+ * @module DocxExport
+ *
+ * Converts the HTML exported by the editor to a DOCX file, used by the `/api/file/export` route.
+ * The conversion is done by `html-to-docx`; this module adds the parts it cannot produce.
+ *
+ * @remarks
+ * - Footnotes: the references (`a[role="doc-noteref"]`) and the footnotes section
+ *   (`section[role="doc-endnotes"]`) become real Word footnotes, numbered by Word.
+ *   Footnote text is exported as plain paragraphs.
+ * - Suggested changes: text of `ins[data-change-id]` and `del[data-change-id]` becomes Word
+ *   insertions and deletions with their author and date, shown as tracked changes in Word.
+ *   Changes that end up outside a plain text run are exported as accepted.
+ * - Callouts (`aside[data-callout]`): their title becomes a bold paragraph, and every paragraph
+ *   gets the shading and border of the callout type; Word draws consecutive paragraphs with the
+ *   same border as one box.
+ * - Columns (`div[data-columns]`): a table without borders with a cell per column, as wide as
+ *   the column. `html-to-docx` drops nested tables, so columns containing a table or other
+ *   columns are exported one after another.
+ * - Page setup: the paper size and margins of the document, and its header and footer text on
+ *   every page, followed by the page number in the footer. Page breaks
+ *   (`div[data-page-break]`) are turned into Word page breaks by `html-to-docx`.
+ */
+import HTMLtoDOCX from 'html-to-docx';
+import JSZip from 'jszip';
+import * as cheerio from 'cheerio';
+import type { PageSetupSchema } from '@/schemas/export';
+
+/**
+ * Encloses the number of a footnote in the text passed to `html-to-docx`, so its reference can be
+ * found in the generated document. Private use characters never occur in exported text.
+ */
+const FOOTNOTE_MARKER_START = '\uE000';
+const FOOTNOTE_MARKER_END = '\uE001';
+const FOOTNOTE_MARKER = new RegExp(`${FOOTNOTE_MARKER_START}(\\d+)${FOOTNOTE_MARKER_END}`, 'g');
+
+/**
+ * Enclose the text of a suggested change: the insertion or deletion marker, the number of the
+ * change, a separator, the text and an end marker.
+ */
+const INSERTION_MARKER = '\uE002';
+const DELETION_MARKER = '\uE003';
+const CHANGE_TEXT_MARKER = '\uE004';
+const CHANGE_END_MARKER = '\uE005';
+const CHANGE_MARKER = new RegExp(
+   `([${INSERTION_MARKER}${DELETION_MARKER}])(\\d+)${CHANGE_TEXT_MARKER}([^${CHANGE_END_MARKER}]*)${CHANGE_END_MARKER}`,
+   'g'
+);
+
+/**
+ * Starts a paragraph of a callout: the marker, the index of the callout type and an end marker.
+ */
+const CALLOUT_MARKER_START = '\uE006';
+const CALLOUT_MARKER_END = '\uE007';
+const CALLOUT_MARKER = new RegExp(`${CALLOUT_MARKER_START}(\\d+)${CALLOUT_MARKER_END}`, 'g');
+
+/**
+ * Shading and border color of every callout type, the Tailwind colors used in the editor.
+ */
+const CALLOUT_STYLES = [
+   { type: 'info', fill: 'EFF6FF', border: '3B82F6' },
+   { type: 'tip', fill: 'F0FDF4', border: '22C55E' },
+   { type: 'warning', fill: 'FFFBEB', border: 'F59E0B' },
+   { type: 'danger', fill: 'FEF2F2', border: 'EF4444' },
+];
+
+/**
+ * Paragraph properties that come after the border and shading, in the order of the schema.
+ */
+const PARAGRAPH_PROPERTIES_AFTER_SHADING =
+   /<w:(tabs|suppressAutoHyphens|kinsoku|wordWrap|overflowPunct|topLinePunct|autoSpaceDE|autoSpaceDN|bidi|adjustRightInd|snapToGrid|spacing|ind|contextualSpacing|mirrorIndents|suppressOverlap|jc|textDirection|textAlignment|textboxTightWrap|outlineLvl|divId|cnfStyle|rPr|sectPr|pPrChange)\b/;
+
+/**
+ * Encloses the number of a columns block in a paragraph before the content of its first column,
+ * to find its table in the generated document.
+ */
+const COLUMNS_MARKER_START = '\uE008';
+const COLUMNS_MARKER_END = '\uE009';
+const COLUMNS_MARKER = new RegExp(`${COLUMNS_MARKER_START}(\\d+)${COLUMNS_MARKER_END}`);
+
+/**
+ * Table and cell borders turned off.
+ */
+const NO_BORDERS = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+   .map((side) => `<w:${side} w:val="nil"/>`)
+   .join('');
+
+/**
+ * Author and date of a suggested change.
+ */
+interface Revision {
+   author: string;
+   date: string;
+}
+
+/**
+ * Width and height of the paper sizes in twips, twentieths of a point.
+ */
+const PAGE_SIZES_TWIPS: Record<PageSetupSchema['size'], { width: number; height: number }> = {
+   a4: { width: 11906, height: 16838 },
+   letter: { width: 12240, height: 15840 },
+};
+
+const mmToTwips = (mm: number) => Math.round((mm * 1440) / 25.4);
+
+const FOOTNOTES_RELATIONSHIP =
+   'http://schemas.openxmlformats.org/officeDocument/2006/relationships/footnotes';
+const FOOTNOTES_CONTENT_TYPE =
+   'application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml';
+const WORDPROCESSING_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const escapeXML = (text: string) =>
+   text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const textRun = (rPr: string, text: string) =>
+   `<w:r>${rPr}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+
+const footnoteReferenceRun = (id: number) =>
+   `<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:footnoteReference w:id="${id}"/></w:r>`;
+
+/**
+ * A footnote of `footnotes.xml`: its number mark followed by the text, in a smaller font.
+ */
+const footnoteXML = (id: number, paragraphs: string[]) =>
+   `<w:footnote w:id="${id}">${paragraphs
+      .map((paragraph, index) => {
+         const mark = index
+            ? ''
+            : '<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:footnoteRef/></w:r>';
+         const text = textRun('<w:rPr><w:sz w:val="20"/></w:rPr>', ` ${escapeXML(paragraph)}`);
+         return `<w:p><w:pPr><w:spacing w:after="0"/></w:pPr>${mark}${text}</w:p>`;
+      })
+      .join('')}</w:footnote>`;
+
+/**
+ * Replaces the footnote references of the HTML with markers and removes the footnotes section.
+ *
+ * @param html - Exported editor HTML.
+ * @returns The HTML to convert and the paragraphs of every footnote, in reference order.
+ */
+function extractFootnotes(html: string) {
+   const $ = cheerio.load(html, null, false);
+   const section = $('section[role="doc-endnotes"]');
+   const notes = new Map<string, string[]>();
+   section.find('li[role="doc-endnote"]').each((_, item) => {
+      const paragraphs = $(item)
+         .find('p')
+         .map((_, paragraph) => $(paragraph).text())
+         .get();
+      notes.set($(item).attr('id') ?? '', paragraphs.length ? paragraphs : [$(item).text()]);
+   });
+   section.remove();
+
+   const footnotes: string[][] = [];
+   $('a[role="doc-noteref"]').each((_, link) => {
+      const note = notes.get(($(link).attr('href') ?? '').replace(/^#/, ''));
+      const reference = $(link).closest('sup').length ? $(link).closest('sup') : $(link);
+      if (!note) {
+         reference.remove();
+         return;
+      }
+      footnotes.push(note);
+      reference.replaceWith(`${FOOTNOTE_MARKER_START}${footnotes.length}${FOOTNOTE_MARKER_END}`);
+   });
+
+   return { html: $.html(), footnotes };
+}
+
+/**
+ * Replaces the text of the suggested changes of the HTML with markers and unwraps their `ins`
+ * and `del` elements.
+ *
+ * @param html - Exported editor HTML.
+ * @returns The HTML to convert and the author and date of every change, by marker number.
+ */
+function extractChanges(html: string) {
+   const $ = cheerio.load(html, null, false);
+   const revisions: Revision[] = [];
+   $('ins[data-change-id], del[data-change-id]').each((_, element) => {
+      const change = $(element);
+      const createdAt = new Date(change.attr('data-created-at') ?? '');
+      revisions.push({
+         author: change.attr('data-author') || change.attr('data-author-id') || '',
+         // Word expects dates without milliseconds
+         date: (isNaN(createdAt.getTime()) ? new Date() : createdAt)
+            .toISOString()
+            .replace(/\.\d{3}Z$/, 'Z'),
+      });
+      const marker = element.tagName === 'ins' ? INSERTION_MARKER : DELETION_MARKER;
+      const prefix = `${marker}${revisions.length - 1}${CHANGE_TEXT_MARKER}`;
+      // Every text node gets its own markers, since formatting splits the text into runs
+      change
+         .find('*')
+         .addBack()
+         .contents()
+         .each((_, node) => {
+            if (node.type === 'text' && node.data) {
+               node.data = `${prefix}${node.data}${CHANGE_END_MARKER}`;
+            }
+         });
+      change.replaceWith(change.contents());
+   });
+   return { html: $.html(), revisions };
+}
+
+/**
+ * Turns the marked text of a DOCX file into Word insertions and deletions.
+ *
+ * @param zip - The DOCX package.
+ * @param revisions - Author and date of every change; change `n` belongs to marker `n`.
+ */
+async function addRevisions(zip: JSZip, revisions: Revision[]) {
+   const document = await zip.file('word/document.xml')!.async('string');
+   let revisionId = 0;
+   const revisionAttributes = (index: number) => {
+      const { author, date } = revisions[index] ?? { author: '', date: '' };
+      revisionId += 1;
+      return `w:id="${revisionId}" w:author="${escapeXML(author)}" w:date="${date}"`;
+   };
+
+   const withRevisions = document
+      .replace(
+         /<w:r>\s*(<w:rPr\/>|<w:rPr>[\s\S]*?<\/w:rPr>)?\s*<w:t[^>]*>([^<]*)<\/w:t>\s*<\/w:r>/g,
+         (run, rPr = '', text: string) => {
+            if (!text.includes(CHANGE_END_MARKER)) return run;
+            const parts: string[] = [];
+            let last = 0;
+            for (const match of text.matchAll(CHANGE_MARKER)) {
+               const [marked, marker, index, changed] = match;
+               if (match.index > last) parts.push(textRun(rPr, text.slice(last, match.index)));
+               if (marker === INSERTION_MARKER) {
+                  parts.push(
+                     `<w:ins ${revisionAttributes(Number(index))}>${textRun(rPr, changed)}</w:ins>`
+                  );
+               } else {
+                  parts.push(
+                     `<w:del ${revisionAttributes(Number(index))}><w:r>${rPr}<w:delText xml:space="preserve">${changed}</w:delText></w:r></w:del>`
+                  );
+               }
+               last = match.index + marked.length;
+            }
+            if (last < text.length) parts.push(textRun(rPr, text.slice(last)));
+            return parts.join('');
+         }
+      )
+      // Markers left elsewhere, e.g. in attributes, are exported as accepted
+      .replace(CHANGE_MARKER, (_, marker: string, __, changed: string) =>
+         marker === INSERTION_MARKER ? changed : ''
+      );
+   zip.file('word/document.xml', withRevisions);
+}
+
+/**
+ * Replaces the callouts of the HTML with their title and content, starting every paragraph
+ * with a marker of the callout type.
+ *
+ * @param html - Exported editor HTML.
+ * @returns The HTML to convert and whether it contains callouts.
+ */
+function extractCallouts(html: string) {
+   const $ = cheerio.load(html, null, false);
+   const callouts = $('aside[data-callout]').get().reverse();
+   for (const element of callouts) {
+      const callout = $(element);
+      const index = Math.max(
+         0,
+         CALLOUT_STYLES.findIndex(({ type }) => type === callout.attr('data-callout'))
+      );
+      const header = callout.children('[data-callout-header]');
+      const title = [
+         header.children('[data-callout-icon]').text(),
+         header.children('[data-callout-title]').text(),
+      ]
+         .filter(Boolean)
+         .join(' ');
+      header.replaceWith(title ? $('<p>').append($('<strong>').text(title)) : '');
+      const content = callout.children('[data-callout-content]');
+      content.replaceWith(content.contents());
+      // Paragraphs of nested callouts already have the marker of their own callout
+      callout.find('p, h1, h2, h3, h4, h5, h6, pre').each((_, paragraph) => {
+         if ($(paragraph).text().startsWith(CALLOUT_MARKER_START)) return;
+         $(paragraph).prepend(`${CALLOUT_MARKER_START}${index}${CALLOUT_MARKER_END}`);
+      });
+      callout.replaceWith(callout.contents());
+   }
+   return { html: $.html(), hasCallouts: callouts.length > 0 };
+}
+
+/**
+ * Gives the paragraphs of a DOCX file starting with a callout marker the shading and border of
+ * the callout.
+ *
+ * @param zip - The DOCX package.
+ */
+async function addCalloutStyles(zip: JSZip) {
+   const document = await zip.file('word/document.xml')!.async('string');
+   const styled = document.replace(/<w:p>([\s\S]*?)<\/w:p>/g, (paragraph, content: string) => {
+      const match = content.match(new RegExp(CALLOUT_MARKER.source));
+      if (!match) return paragraph;
+      const { fill, border } = CALLOUT_STYLES[Number(match[1])] ?? CALLOUT_STYLES[0];
+      const side = (name: string, size: number) =>
+         `<w:${name} w:val="single" w:sz="${size}" w:space="4" w:color="${border}"/>`;
+      const properties =
+         `<w:pBdr>${side('top', 4)}${side('left', 24)}${side('bottom', 4)}${side('right', 4)}</w:pBdr>` +
+         `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>`;
+
+      const text = content.replace(CALLOUT_MARKER, '');
+      if (/^\s*<w:pPr\/>/.test(text)) {
+         return `<w:p>${text.replace('<w:pPr/>', `<w:pPr>${properties}</w:pPr>`)}</w:p>`;
+      }
+      const pPr = text.match(/<w:pPr>([\s\S]*?)<\/w:pPr>/);
+      if (!pPr || pPr.index! > text.search(/<w:r[ >]/)) {
+         return `<w:p><w:pPr>${properties}</w:pPr>${text}</w:p>`;
+      }
+      const existing = pPr[1]
+         .replace(/<w:pBdr>[\s\S]*?<\/w:pBdr>/, '')
+         .replace(/<w:shd [^>]*\/>/, '');
+      const after = existing.search(PARAGRAPH_PROPERTIES_AFTER_SHADING);
+      const merged =
+         after < 0
+            ? existing + properties
+            : existing.slice(0, after) + properties + existing.slice(after);
+      return `<w:p>${text.replace(pPr[0], `<w:pPr>${merged}</w:pPr>`)}</w:p>`;
+   });
+   zip.file('word/document.xml', styled);
+}
+
+/**
+ * Replaces the columns blocks of the HTML with tables, starting the first cell with a marker of
+ * the block.
+ *
+ * @param html - Exported editor HTML.
+ * @returns The HTML to convert and the column widths of every block, in percent.
+ */
+function extractColumns(html: string) {
+   const $ = cheerio.load(html, null, false);
+   const layouts: number[][] = [];
+   $('div[data-columns]').each((_, element) => {
+      const columns = $(element).children('div[data-column]');
+      if ($(element).find('table, div[data-columns]').length) {
+         columns.each((_, column) => {
+            $(column).replaceWith($(column).contents());
+         });
+         $(element).replaceWith($(element).contents());
+         return;
+      }
+      const widths = columns.get().map((column) => Number($(column).attr('data-width')) || 0);
+      // Columns without a width share the rest of the row
+      const rest = Math.max(100 - widths.reduce((sum, width) => sum + width, 0), 0);
+      const unset = widths.filter((width) => !width).length;
+      layouts.push(widths.map((width) => width || rest / unset));
+
+      const row = $('<tr>');
+      columns.each((index, column) => {
+         // Cell widths are set afterwards, html-to-docx fails on percentages
+         const cell = $('<td>').append($(column).contents());
+         if (index === 0) {
+            const marker = `${COLUMNS_MARKER_START}${layouts.length - 1}${COLUMNS_MARKER_END}`;
+            cell.prepend($('<p>').text(marker));
+         }
+         row.append(cell);
+      });
+      $(element).replaceWith($('<table>').append($('<tbody>').append(row)));
+   });
+   return { html: $.html(), layouts };
+}
+
+/**
+ * Turns the tables of columns blocks into borderless tables with the widths of the columns.
+ *
+ * @param zip - The DOCX package.
+ * @param layouts - Column widths of every columns block, in percent.
+ */
+async function addColumnTables(zip: JSZip, layouts: number[][]) {
+   let document = await zip.file('word/document.xml')!.async('string');
+   for (
+      let marker = document.match(COLUMNS_MARKER);
+      marker;
+      marker = document.match(COLUMNS_MARKER)
+   ) {
+      const widths = layouts[Number(marker[1])];
+      const paragraphStart = document.lastIndexOf('<w:p>', marker.index);
+      const paragraphEnd = document.indexOf('</w:p>', marker.index) + '</w:p>'.length;
+      const tableStart = document.lastIndexOf('<w:tbl>', paragraphStart);
+      document = document.slice(0, paragraphStart) + document.slice(paragraphEnd);
+
+      // Columns contain no tables, so the first end of a table closes it
+      const tableEnd = document.indexOf('</w:tbl>', tableStart) + '</w:tbl>'.length;
+      const table = document.slice(tableStart, tableEnd);
+      const total = Array.from(table.matchAll(/<w:gridCol w:w="(\d+)"\/>/g)).reduce(
+         (sum, [, width]) => sum + Number(width),
+         0
+      );
+      const twips = widths.map((width) => Math.round((total * width) / 100));
+      let cell = 0;
+      let gridColumn = 0;
+      const borderless = table
+         .replace(
+            /<w:tblBorders>[\s\S]*?<\/w:tblBorders>/,
+            `<w:tblBorders>${NO_BORDERS}</w:tblBorders>`
+         )
+         .replace(
+            /<w:tcBorders>[\s\S]*?<\/w:tcBorders>/g,
+            `<w:tcBorders>${NO_BORDERS}</w:tcBorders>`
+         )
+         .replace(/<w:cantSplit\/>/g, '')
+         .replace(
+            /<w:gridCol w:w="\d+"\/>/g,
+            () => `<w:gridCol w:w="${twips[gridColumn++] ?? 0}"/>`
+         )
+         .replace(
+            /<w:tc>(\s*)<w:tcPr>/g,
+            (_, space: string) =>
+               `<w:tc>${space}<w:tcPr><w:tcW w:w="${twips[cell++] ?? 0}" w:type="dxa"/>`
+         );
+      document = document.slice(0, tableStart) + borderless + document.slice(tableEnd);
+   }
+   zip.file('word/document.xml', document);
+}
+
+/**
+ * Adds footnotes to a DOCX file created from HTML with footnote markers.
+ *
+ * @param zip - The DOCX package.
+ * @param footnotes - Paragraphs of every footnote; footnote `n` belongs to marker `n`.
+ */
+async function addFootnotes(zip: JSZip, footnotes: string[][]) {
+   const document = await zip.file('word/document.xml')!.async('string');
+   // Split the runs containing markers into text runs and footnote reference runs
+   const withReferences = document.replace(
+      /<w:r>\s*(<w:rPr\/>|<w:rPr>[\s\S]*?<\/w:rPr>)?\s*<w:t[^>]*>([^<]*)<\/w:t>\s*<\/w:r>/g,
+      (run, rPr = '', text: string) => {
+         if (!text.includes(FOOTNOTE_MARKER_START)) return run;
+         return text
+            .split(FOOTNOTE_MARKER)
+            .map((part, index) =>
+               index % 2 ? footnoteReferenceRun(Number(part)) : part ? textRun(rPr, part) : ''
+            )
+            .join('');
+      }
+   );
+   zip.file('word/document.xml', withReferences);
+
+   const notes = footnotes.map((paragraphs, index) => footnoteXML(index + 1, paragraphs)).join('');
+   zip.file(
+      'word/footnotes.xml',
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:footnotes xmlns:w="${WORDPROCESSING_NAMESPACE}">` +
+         '<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>' +
+         '<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>' +
+         `${notes}</w:footnotes>`
+   );
+
+   const relationships = await zip.file('word/_rels/document.xml.rels')!.async('string');
+   zip.file(
+      'word/_rels/document.xml.rels',
+      relationships.replace(
+         '</Relationships>',
+         `<Relationship Id="rIdFootnotes" Type="${FOOTNOTES_RELATIONSHIP}" Target="footnotes.xml"/></Relationships>`
+      )
+   );
+
+   const contentTypes = await zip.file('[Content_Types].xml')!.async('string');
+   zip.file(
+      '[Content_Types].xml',
+      contentTypes.replace(
+         '</Types>',
+         `<Override PartName="/word/footnotes.xml" ContentType="${FOOTNOTES_CONTENT_TYPE}"/></Types>`
+      )
+   );
+}
+
+/**
+ * Options of `html-to-docx` for a page setup: the page size, the margins, with the header and
+ * footer halfway in the top and bottom margins, and the header and footer HTML.
+ */
+function getPageOptions(page: PageSetupSchema) {
+   const { top, right, bottom, left } = page.margins;
+   // The page number is appended to the first paragraph of the footer, kept apart by an em space
+   // since `html-to-docx` trims trailing spaces
+   const footer = page.footer ? `<p>${escapeXML(page.footer)}\u2003</p>` : '<p></p>';
+   return {
+      options: {
+         pageSize: PAGE_SIZES_TWIPS[page.size],
+         margins: {
+            top: mmToTwips(top),
+            right: mmToTwips(right),
+            bottom: mmToTwips(bottom),
+            left: mmToTwips(left),
+            header: mmToTwips(top / 2),
+            footer: mmToTwips(bottom / 2),
+            gutter: 0,
+         },
+         header: !!page.header,
+      },
+      header: page.header ? `<p>${escapeXML(page.header)}</p>` : null,
+      footer,
+   };
+}
+
+/**
+ * Converts exported editor HTML to a DOCX file.
+ *
+ * @param html - HTML exported by the editor.
+ * @param page - Page setup of the document, the `html-to-docx` defaults when omitted.
+ * @returns The DOCX file.
+ */
+export async function convertHTMLToDocx(
+   html: string,
+   page?: PageSetupSchema
+): Promise<ArrayBuffer> {
+   const { html: withoutFootnotes, footnotes } = extractFootnotes(html);
+   const { html: withoutChanges, revisions } = extractChanges(withoutFootnotes);
+   const { html: withoutCallouts, hasCallouts } = extractCallouts(withoutChanges);
+   const { html: body, layouts } = extractColumns(withoutCallouts);
+
+   const pageOptions = page && getPageOptions(page);
+
+   const docx = (await HTMLtoDOCX(
+      body,
+      pageOptions?.header ?? null,
+      {
+         table: { row: { cantSplit: true } },
+         footer: true,
+         pageNumber: true,
+         font: 'Arial',
+         fontSize: 12,
+         ...pageOptions?.options,
+      },
+      pageOptions?.footer
+   )) as ArrayBuffer;
+   if (!footnotes.length && !revisions.length && !hasCallouts && !layouts.length) return docx;
+
+   const zip = await JSZip.loadAsync(docx);
+   if (footnotes.length) await addFootnotes(zip, footnotes);
+   if (revisions.length) await addRevisions(zip, revisions);
+   if (hasCallouts) await addCalloutStyles(zip);
+   if (layouts.length) await addColumnTables(zip, layouts);
+   return zip.generateAsync({ type: 'arraybuffer' });
+}
@@ -0,0 +1,68 @@
+/**
+ * @file comment.ts
+ * @version 1.0.0
+ * @description Zod schemas and types for the server-side comment thread store.
+ */
+
+import { z } from 'zod';
+import { documentIdSchema } from './document';
+
+/**
+ * Author of a comment.
+ *
+ * @property {string} id - User id
+ * @property {string} name - Display name
+ * @property {string} [color] - Color of the avatar
+ */
+export const commentAuthorSchema = z.object({
+   id: z.string().min(1).max(128),
+   name: z.string().min(1).max(128),
+   color: z.string().max(32).optional(),
+});
+
+/**
+ * A comment of a thread; also the request body for replying to a thread.
+ *
+ * @property {string} id - Comment id
+ * @property {object} author - Author of the comment
+ * @property {string} body - Comment text
+ * @property {string} createdAt - ISO timestamp
+ */
+export const commentSchema = z.object({
+   id: documentIdSchema,
+   author: commentAuthorSchema,
+   body: z.string().trim().min(1).max(10000),
+   createdAt: z.string().datetime(),
+});
+
+/**
+ * Request body for creating a thread.
+ *
+ * @property {string} id - Thread id, also stored in the comment mark of the document
+ * @property {string} quote - Text the thread was anchored to when it was created
+ * @property {string} createdAt - ISO timestamp
+ * @property {object[]} comments - The first comment and any replies
+ */
+export const commentThreadSchema = z.object({
+   id: documentIdSchema,
+   quote: z.string().max(10000),
+   createdAt: z.string().datetime(),
+   resolved: z.boolean().optional(),
+   comments: z.array(commentSchema).min(1),
+});
+
+/**
+ * Request body for resolving or reopening a thread.
+ *
+ * @property {boolean} resolved - Whether the thread is resolved
+ * @property {object} [resolvedBy] - User resolving the thread
+ */
+export const resolveCommentThreadSchema = z.object({
+   resolved: z.boolean(),
+   resolvedBy: commentAuthorSchema.optional(),
+});
+
+export type CommentAuthorSchema = z.infer<typeof commentAuthorSchema>;
+export type CommentSchema = z.infer<typeof commentSchema>;
+export type CommentThreadSchema = z.infer<typeof commentThreadSchema>;
+export type ResolveCommentThreadSchema = z.infer<typeof resolveCommentThreadSchema>;
@@ -0,0 +1,74 @@
+/**
+ * @file document.ts
+ * @version 1.0.0
+ * @description Zod schemas and types for the server-side document store.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Tiptap JSON content. Only the root shape is validated, node content is passed through.
+ */
+export const jsonContentSchema = z.object({ type: z.string() }).passthrough();
+
+/**
+ * Allowed document ids. Ids become file names, so only URL and file safe characters are allowed.
+ */
+export const documentIdSchema = z
+   .string()
+   .min(1)
+   .max(128)
+   .regex(/^[a-zA-Z0-9_-]+$/, { message: 'Invalid document id' });
+
+/**
+ * Request body for creating a document.
+ *
+ * @property {string} [id] - Optional id, generated when omitted
+ * @property {string} [title] - Document title
+ * @property {object} json - Tiptap JSON content
+ * @property {string} [html] - Rendered HTML
+ */
+export const createDocumentSchema = z.object({
+   id: documentIdSchema.optional(),
+   title: z.string().max(256).optional(),
+   json: jsonContentSchema,
+   html: z.string().optional(),
+});
+
+/**
+ * Request body for updating a document.
+ *
+ * @property {number} [revision] - Revision the update is based on, required for existing documents
+ * @property {string} [title] - Document title
+ * @property {object} json - Tiptap JSON content
+ * @property {string} [html] - Rendered HTML
+ */
+export const updateDocumentSchema = z.object({
+   revision: z.number().int().nonnegative().optional(),
+   title: z.string().max(256).optional(),
+   json: jsonContentSchema,
+   html: z.string().optional(),
+});
+
+/**
+ * Request body for storing a version history snapshot.
+ *
+ * @property {string} id - Snapshot id
+ * @property {string} [name] - User-given name
+ * @property {boolean} [auto] - Whether the snapshot was taken automatically
+ * @property {string} createdAt - ISO timestamp
+ * @property {number} wordCount - Number of words in the snapshot
+ * @property {object} json - Tiptap JSON content
+ */
+export const snapshotSchema = z.object({
+   id: documentIdSchema,
+   name: z.string().max(256).optional(),
+   auto: z.boolean().optional(),
+   createdAt: z.string().datetime(),
+   wordCount: z.number().int().nonnegative(),
+   json: jsonContentSchema,
+});
+
+export type CreateDocumentSchema = z.infer<typeof createDocumentSchema>;
+export type UpdateDocumentSchema = z.infer<typeof updateDocumentSchema>;
+export type SnapshotSchema = z.infer<typeof snapshotSchema>;
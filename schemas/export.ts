@@ -0,0 +1,55 @@
+/**
+ * @file export.ts
+ * @version 1.0.0
+ * @description Zod schemas and types for the DOCX export and the page setup of a document.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Paper sizes of the print layout.
+ */
+export const pageSizeSchema = z.enum(['a4', 'letter']);
+
+/**
+ * Page margins in millimeters.
+ */
+export const pageMarginsSchema = z.object({
+   top: z.number().min(0).max(100),
+   right: z.number().min(0).max(100),
+   bottom: z.number().min(0).max(100),
+   left: z.number().min(0).max(100),
+});
+
+/**
+ * Page setup of a document, stored with its content.
+ *
+ * @property {string} size - Paper size
+ * @property {object} margins - Page margins in millimeters
+ * @property {string} header - Text at the top of every page
+ * @property {string} footer - Text at the bottom of every page, before the page number
+ */
+export const pageSetupSchema = z.object({
+   size: pageSizeSchema,
+   margins: pageMarginsSchema,
+   header: z.string().max(500),
+   footer: z.string().max(500),
+});
+
+/**
+ * Request body for exporting HTML to DOCX.
+ *
+ * @property {string} html - HTML exported by the editor
+ * @property {string} [fileName] - File name without extension
+ * @property {object} [page] - Page setup, the `html-to-docx` defaults when omitted
+ */
+export const exportDocxSchema = z.object({
+   html: z.string().min(1),
+   fileName: z.string().max(256).optional(),
+   page: pageSetupSchema.optional(),
+});
+
+export type PageSizeSchema = z.infer<typeof pageSizeSchema>;
+export type PageMarginsSchema = z.infer<typeof pageMarginsSchema>;
+export type PageSetupSchema = z.infer<typeof pageSetupSchema>;
+export type ExportDocxSchema = z.infer<typeof exportDocxSchema>;
@@ -0,0 +1,21 @@
+/**
+ * @file render.ts
+ * @version 1.0.0
+ * @description Zod schemas for the server-side JSON to HTML renderer.
+ */
+
+import { z } from 'zod';
+import { jsonContentSchema } from './document';
+
+/**
+ * Request body for rendering content to HTML.
+ *
+ * @property {object} json - Tiptap JSON content
+ * @property {boolean} [wrap] - Whether to wrap the HTML in an element with the editor's classes
+ */
+export const renderSchema = z.object({
+   json: jsonContentSchema,
+   wrap: z.boolean().optional(),
+});
+
+export type RenderSchema = z.infer<typeof renderSchema>;
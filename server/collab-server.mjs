@@ -0,0 +1,314 @@
+/**
+ * @file collab-server.mjs
+ * @description Minimal Yjs websocket server for collaborative editing.
+ *
+ * Speaks the `y-websocket` protocol: every room is one shared Y.Doc, clients connect to
+ * `ws://<host>:<port>/<room>` and exchange document updates and awareness (cursors, user names).
+ * Rooms are written to `COLLAB_DATA_DIR` (default `data/collab`) so documents survive a restart.
+ *
+ * @example
+ * npm run collab
+ * COLLAB_PORT=4444 COLLAB_DATA_DIR=/tmp/collab npm run collab
+ */
+
+import http from 'node:http';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+const HOST = process.env.COLLAB_HOST || 'localhost';
+const PORT = Number(process.env.COLLAB_PORT || 1234);
+const DATA_DIR = path.resolve(process.env.COLLAB_DATA_DIR || path.join('data', 'collab'));
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const PING_INTERVAL = 30000;
+const PERSIST_DELAY = 2000;
+const ROOM_PATTERN = /^[a-zA-Z0-9_-]{1,128}$/;
+
+/**
+ * @typedef {object} Room
+ * @property {string} name
+ * @property {Y.Doc} doc
+ * @property {awarenessProtocol.Awareness} awareness
+ * @property {Map<import('ws').WebSocket, Set<number>>} connections - Awareness client ids per connection
+ * @property {NodeJS.Timeout | null} persistTimer
+ * @property {Promise<void>} persisting - The last write of the room to disk
+ */
+
+/** @type {Map<string, Promise<Room>>} */
+const rooms = new Map();
+
+const roomFile = (name) => path.join(DATA_DIR, `${name}.ydoc`);
+
+/**
+ * Writes the room state to disk through a temporary file, so a crash never leaves a partial file.
+ * Writes of a room run one after the other, so an older state never replaces a newer one.
+ *
+ * @param {Room} room
+ * @returns {Promise<void>}
+ */
+const persistRoom = (room) => {
+   room.persistTimer = null;
+   room.persisting = room.persisting.then(async () => {
+      const file = roomFile(room.name);
+      const tempFile = `${file}.${randomUUID()}.tmp`;
+      try {
+         await fs.mkdir(DATA_DIR, { recursive: true });
+         await fs.writeFile(tempFile, Y.encodeStateAsUpdate(room.doc));
+         await fs.rename(tempFile, file);
+      } catch (error) {
+         console.error(`Persisting room "${room.name}" failed:`, error);
+      }
+   });
+   return room.persisting;
+};
+
+/**
+ * @param {import('ws').WebSocket} connection
+ * @param {Uint8Array} message
+ */
+const send = (connection, message) => {
+   if (connection.readyState !== connection.OPEN) return;
+   connection.send(message, (error) => {
+      if (error) connection.close();
+   });
+};
+
+/**
+ * @param {Room} room
+ * @param {Uint8Array} message
+ */
+const broadcast = (room, message) => {
+   room.connections.forEach((_, connection) => send(connection, message));
+};
+
+/**
+ * Returns the room with the given name, loading it from disk on first use.
+ *
+ * @param {string} name
+ * @returns {Promise<Room>}
+ */
+const getRoom = (name) => {
+   if (!rooms.has(name)) {
+      rooms.set(
+         name,
+         (async () => {
+            const doc = new Y.Doc({ gc: true });
+            const stored = await fs.readFile(roomFile(name)).catch(() => null);
+            if (stored) Y.applyUpdate(doc, stored);
+
+            const awareness = new awarenessProtocol.Awareness(doc);
+            awareness.setLocalState(null);
+
+            /** @type {Room} */
+            const room = {
+               name,
+               doc,
+               awareness,
+               connections: new Map(),
+               persistTimer: null,
+               persisting: Promise.resolve(),
+            };
+
+            doc.on('update', (update) => {
+               const encoder = encoding.createEncoder();
+               encoding.writeVarUint(encoder, MESSAGE_SYNC);
+               syncProtocol.writeUpdate(encoder, update);
+               broadcast(room, encoding.toUint8Array(encoder));
+
+               if (!room.persistTimer) {
+                  room.persistTimer = setTimeout(() => persistRoom(room), PERSIST_DELAY);
+               }
+            });
+
+            awareness.on('update', ({ added, updated, removed }, origin) => {
+               const changed = [...added, ...updated, ...removed];
+               // Remember which awareness clients belong to a connection, to clean up on close
+               const controlled = room.connections.get(origin);
+               if (controlled) {
+                  added.forEach((id) => controlled.add(id));
+                  removed.forEach((id) => controlled.delete(id));
+               }
+               const encoder = encoding.createEncoder();
+               encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+               encoding.writeVarUint8Array(
+                  encoder,
+                  awarenessProtocol.encodeAwarenessUpdate(awareness, changed)
+               );
+               broadcast(room, encoding.toUint8Array(encoder));
+            });
+
+            return room;
+         })()
+      );
+      // A room that failed to load (e.g. from a corrupt file) is loaded again by the next client
+      const loading = rooms.get(name);
+      loading.catch(() => {
+         if (rooms.get(name) === loading) rooms.delete(name);
+      });
+   }
+   return rooms.get(name);
+};
+
+/**
+ * Removes a connection from its room and unloads the room when the last client left.
+ *
+ * @param {Room} room
+ * @param {import('ws').WebSocket} connection
+ */
+const closeConnection = async (room, connection) => {
+   const controlled = room.connections.get(connection);
+   if (!controlled) return;
+   room.connections.delete(connection);
+   awarenessProtocol.removeAwarenessStates(room.awareness, [...controlled], null);
+
+   if (room.connections.size === 0) {
+      if (room.persistTimer) clearTimeout(room.persistTimer);
+      await persistRoom(room);
+      // A client may have joined while the room was being written
+      if (room.connections.size === 0) {
+         rooms.delete(room.name);
+         room.doc.destroy();
+      }
+   }
+};
+
+/**
+ * @param {Room} room
+ * @param {import('ws').WebSocket} connection
+ * @param {Uint8Array} message
+ */
+const handleMessage = (room, connection, message) => {
+   try {
+      const decoder = decoding.createDecoder(message);
+      const encoder = encoding.createEncoder();
+      const type = decoding.readVarUint(decoder);
+
+      if (type === MESSAGE_SYNC) {
+         encoding.writeVarUint(encoder, MESSAGE_SYNC);
+         syncProtocol.readSyncMessage(decoder, encoder, room.doc, connection);
+         // Only reply when the sync message produced a response (e.g. step 2 for a step 1)
+         if (encoding.length(encoder) > 1) send(connection, encoding.toUint8Array(encoder));
+      } else if (type === MESSAGE_AWARENESS) {
+         awarenessProtocol.applyAwarenessUpdate(
+            room.awareness,
+            decoding.readVarUint8Array(decoder),
+            connection
+         );
+      }
+   } catch (error) {
+      console.error(`Invalid message in room "${room.name}":`, error);
+   }
+};
+
+const server = http.createServer((request, response) => {
+   response.writeHead(200, { 'Content-Type': 'text/plain' });
+   response.end('Collaboration server is running');
+});
+
+const wss = new WebSocketServer({ noServer: true });
+
+wss.on('connection', async (connection, request) => {
+   connection.binaryType = 'arraybuffer';
+   let name;
+   try {
+      name = decodeURIComponent((request.url || '/').slice(1).split('?')[0]);
+   } catch {
+      name = null;
+   }
+   if (!name || !ROOM_PATTERN.test(name)) {
+      connection.close(4400, 'Invalid room name');
+      return;
+   }
+
+   // Buffer messages that arrive while the room is loading
+   const pending = [];
+   const queue = (data) => pending.push(new Uint8Array(data));
+   connection.on('message', queue);
+
+   let room;
+   try {
+      room = await getRoom(name);
+   } catch (error) {
+      console.error(`Loading room "${name}" failed:`, error);
+      connection.close(1011, 'Room could not be loaded');
+      return;
+   }
+   room.connections.set(connection, new Set());
+   // The client may have left while the room was loading, then the room may be unloaded again
+   if (connection.readyState !== connection.OPEN) {
+      await closeConnection(room, connection);
+      return;
+   }
+   connection.off('message', queue);
+   connection.on('message', (data) => handleMessage(room, connection, new Uint8Array(data)));
+   connection.on('close', () => closeConnection(room, connection));
+
+   let alive = true;
+   connection.on('pong', () => {
+      alive = true;
+   });
+   const ping = setInterval(() => {
+      if (!alive) {
+         connection.terminate();
+         clearInterval(ping);
+         return;
+      }
+      alive = false;
+      connection.ping();
+   }, PING_INTERVAL);
+   connection.on('close', () => clearInterval(ping));
+
+   // Start syncing: send our state vector, then the current awareness states
+   const encoder = encoding.createEncoder();
+   encoding.writeVarUint(encoder, MESSAGE_SYNC);
+   syncProtocol.writeSyncStep1(encoder, room.doc);
+   send(connection, encoding.toUint8Array(encoder));
+
+   const states = room.awareness.getStates();
+   if (states.size > 0) {
+      const awarenessEncoder = encoding.createEncoder();
+      encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(
+         awarenessEncoder,
+         awarenessProtocol.encodeAwarenessUpdate(room.awareness, [...states.keys()])
+      );
+      send(connection, encoding.toUint8Array(awarenessEncoder));
+   }
+
+   pending.forEach((message) => handleMessage(room, connection, message));
+});
+
+server.on('upgrade', (request, socket, head) => {
+   wss.handleUpgrade(request, socket, head, (connection) => {
+      wss.emit('connection', connection, request);
+   });
+});
+
+const shutdown = async () => {
+   const loaded = await Promise.allSettled(rooms.values());
+   await Promise.all(
+      loaded.filter(({ status }) => status === 'fulfilled').map(({ value }) => persistRoom(value))
+   );
+   process.exit(0);
+};
+
+// A failing connection must not take the other rooms down with it
+process.on('unhandledRejection', (error) => {
+   console.error('Unhandled rejection:', error);
+});
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+server.listen(PORT, HOST, () => {
+   console.log(`Collaboration server listening on ws://${HOST}:${PORT}`);
+   console.log(`Rooms are stored in ${DATA_DIR}`);
+});